@@ -1,5 +1,5 @@
 
-import React, { useState, useMemo, useEffect } from 'react';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { Sidebar } from './components/Sidebar';
 import { Dashboard } from './components/Dashboard';
 import { MembershipDashboard } from './components/MembershipDashboard';
@@ -10,23 +10,25 @@ import { EventManagement } from './components/EventManagement';
 import { SmartOutreach } from './components/SmartOutreach';
 import { AdminSettings } from './components/AdminSettings';
 import { Reporting } from './components/Reporting';
+import { VersionDiffView } from './components/VersionDiffView';
+import { FraudReviewQueue } from './components/FraudReviewQueue';
+import { ClusterExplorer } from './components/ClusterExplorer';
 import { 
   DeveloperRecord, 
   DatasetVersion, 
-  AdminUser, 
-  Invoice, 
-  CommunityAgreement, 
-  CommunityEvent, 
-  OutreachCampaign, 
-  CommunityMasterRecord,
+  MergeSummary,
   TimeframeOption
 } from './types';
-import { MOCK_ADMIN_TEAM } from './constants';
-import { Database, ChevronDown, Layers, Sun, Moon, CheckCircle } from 'lucide-react';
+import { useCollection, useRepositories, useWriteError, reportWriteError } from './services/repositoryContext';
+import { loadActiveVersionId, saveActiveVersionId } from './services/workspaceStore';
+import { resolveFraudRules } from './services/fraudRules';
+import { applyReviewDecisions } from './services/fraudReview';
+import { createMirrorNodeClient } from './services/mirrorNode';
+import { WalletCheckStatus, verifyVersionWallets } from './services/walletVerification';
+import { Database, ChevronDown, Layers, Sun, Moon, CheckCircle, AlertTriangle, X } from 'lucide-react';
 
 function App() {
   const [currentView, setCurrentView] = useState('dashboard');
-  const [versions, setVersions] = useState<DatasetVersion[]>([]);
   const [activeVersionId, setActiveVersionId] = useState<string | null>(null);
   const [viewParams, setViewParams] = useState<any>(null);
   const [isDarkMode, setIsDarkMode] = useState(true);
@@ -36,13 +38,38 @@ function App() {
   const [globalStartDate, setGlobalStartDate] = useState<string>('');
   const [globalEndDate, setGlobalEndDate] = useState<string>('');
 
-  // --- GLOBAL PERSISTENT STATE ---
-  const [admins, setAdmins] = useState<AdminUser[]>(MOCK_ADMIN_TEAM);
-  const [invoices, setInvoices] = useState<Invoice[]>([]);
-  const [agreements, setAgreements] = useState<CommunityAgreement[]>([]);
-  const [events, setEvents] = useState<CommunityEvent[]>([]);
-  const [campaigns, setCampaigns] = useState<OutreachCampaign[]>([]);
-  const [masterRegistry, setMasterRegistry] = useState<CommunityMasterRecord[]>([]);
+  // --- DATASET VERSIONS (read & written through the repository layer) ---
+  const repositories = useRepositories();
+  const storedVersions = useCollection(repositories.batches);
+  const versions = useMemo(() => [...storedVersions].sort((a, b) => b.uploadDate.localeCompare(a.uploadDate)), [storedVersions]);
+  const storedFraudRules = useCollection(repositories.fraudRules);
+  const fraudRules = useMemo(() => resolveFraudRules(storedFraudRules), [storedFraudRules]);
+  const fraudReviews = useCollection(repositories.fraudReviews);
+  const fraudBlocklist = useCollection(repositories.fraudBlocklist);
+  const [writeError, dismissWriteError] = useWriteError();
+
+  // The selected version is a per-browser preference, kept in local storage on every backend
+  const [isActiveVersionLoaded, setIsActiveVersionLoaded] = useState(false);
+  useEffect(() => {
+      loadActiveVersionId()
+          .then(setActiveVersionId)
+          .catch(err => console.error('Could not restore the active version', err))
+          .finally(() => setIsActiveVersionLoaded(true));
+  }, []);
+  useEffect(() => {
+      if (isActiveVersionLoaded) saveActiveVersionId(activeVersionId).catch(reportWriteError);
+  }, [activeVersionId, isActiveVersionLoaded]);
+
+  // Fall back to the newest version when none is selected or the stored one no longer exists.
+  // A just-uploaded version may not be listed yet while its write is in flight.
+  const pendingVersionId = useRef<string | null>(null);
+  useEffect(() => {
+      if (!isActiveVersionLoaded || versions.length === 0) return;
+      if (activeVersionId && activeVersionId === pendingVersionId.current) return;
+      if (!activeVersionId || !versions.some(v => v.id === activeVersionId)) {
+          setActiveVersionId(versions[0].id);
+      }
+  }, [versions, activeVersionId, isActiveVersionLoaded]);
 
   useEffect(() => {
     const savedTheme = localStorage.getItem('theme');
@@ -69,29 +96,63 @@ function App() {
     }
   };
 
+  // Review decisions are applied on top of the stored flags, so they follow developers across versions
   const developerData = useMemo(() => {
       if (!activeVersionId) return [];
-      return versions.find(v => v.id === activeVersionId)?.data || [];
-  }, [versions, activeVersionId]);
+      return applyReviewDecisions(versions.find(v => v.id === activeVersionId)?.data || [], fraudReviews);
+  }, [versions, activeVersionId, fraudReviews]);
 
   const activeVersionName = useMemo(() => {
       if (!activeVersionId) return '';
       return versions.find(v => v.id === activeVersionId)?.fileName || 'Unknown Version';
   }, [versions, activeVersionId]);
 
-  const handleDataLoaded = (newData: DeveloperRecord[], fileName: string) => {
-    const newVersion: DatasetVersion = { id: `ver_${Date.now()}`, fileName, uploadDate: new Date().toISOString(), recordCount: newData.length, data: newData };
-    setVersions(prev => [newVersion, ...prev]);
+  // A merge summary means newData is the active version with the file upserted into it
+  const handleDataLoaded = (newData: DeveloperRecord[], fileName: string, merge?: MergeSummary) => {
+    const newVersion: DatasetVersion = {
+        id: `ver_${Date.now()}`, fileName, uploadDate: new Date().toISOString(), recordCount: newData.length, data: newData,
+        mode: merge ? 'merge' : 'snapshot', mergeSummary: merge, fraudRules
+    };
+    pendingVersionId.current = newVersion.id;
+    repositories.batches.save(newVersion)
+        .catch(reportWriteError)
+        .finally(() => { pendingVersionId.current = null; });
     setActiveVersionId(newVersion.id);
   };
 
   const handleSwitchVersion = (id: string) => setActiveVersionId(id);
   const handleDeleteVersion = (id: string) => {
       const newVersions = versions.filter(v => v.id !== id);
-      setVersions(newVersions);
+      repositories.batches.remove(id).catch(reportWriteError);
       if (activeVersionId === id) setActiveVersionId(newVersions.length > 0 ? newVersions[0].id : null);
   };
 
+  // Mirror-node check of a version's wallets; the enriched, re-scored version replaces the stored one
+  const mirrorNode = useMemo(() => createMirrorNodeClient(), []);
+  const [walletCheck, setWalletCheck] = useState<WalletCheckStatus | null>(null);
+  const handleVerifyWallets = (id: string) => {
+      const version = versions.find(v => v.id === id);
+      if (!version || (walletCheck && !walletCheck.error)) return;
+      setWalletCheck({ versionId: id, done: 0, total: 0 });
+      verifyVersionWallets(version, mirrorNode, { blocklist: fraudBlocklist }, progress => setWalletCheck({ versionId: id, ...progress }))
+          .then(verified => repositories.batches.save(verified))
+          .then(() => setWalletCheck(null))
+          .catch(err => setWalletCheck({ versionId: id, done: 0, total: 0, error: err instanceof Error ? err.message : String(err) }));
+  };
+
+  // Shared by the dashboard and Developers page uploaders
+  const uploaderProps = {
+      onDataLoaded: handleDataLoaded,
+      versions,
+      activeVersionId: activeVersionId || undefined,
+      onVersionSelect: handleSwitchVersion,
+      onDeleteVersion: handleDeleteVersion,
+      fraudRules,
+      fraudBlocklist,
+      onVerifyWallets: handleVerifyWallets,
+      walletCheck
+  };
+
   const handleNavigate = (view: string, params?: any) => { setViewParams(params || null); setCurrentView(view); };
   const handleSidebarNavigate = (view: string) => { setViewParams(null); setCurrentView(view); };
 
@@ -113,7 +174,7 @@ function App() {
                  <div className="mt-8 fade-in-up p-8 border border-dashed border-slate-300 dark:border-slate-700 rounded-2xl bg-slate-50 dark:bg-[#141319]/50">
                      <h3 className="font-bold text-slate-900 dark:text-white mb-2 text-lg text-center">Initial Blockchain Sync Required</h3>
                      <div className="max-w-2xl mx-auto">
-                        <CsvUploader onDataLoaded={handleDataLoaded} versions={versions} activeVersionId={activeVersionId || undefined} onVersionSelect={handleSwitchVersion} onDeleteVersion={handleDeleteVersion} />
+                        <CsvUploader {...uploaderProps} />
                      </div>
                  </div>
             )}
@@ -133,30 +194,22 @@ function App() {
       );
       case 'developers': return (
           <div className="space-y-6">
-            <CsvUploader onDataLoaded={handleDataLoaded} versions={versions} activeVersionId={activeVersionId || undefined} onVersionSelect={handleSwitchVersion} onDeleteVersion={handleDeleteVersion} />
+            <CsvUploader {...uploaderProps} />
             {developerData.length > 0 && <UserTable data={developerData} initialFilters={viewParams} onBack={viewParams ? () => handleSidebarNavigate('dashboard') : undefined} />}
           </div>
         );
-      case 'outreach': return <SmartOutreach data={developerData} campaigns={campaigns} setCampaigns={setCampaigns} />;
-      case 'invoices': return (
-        <Invoicing 
-          data={developerData} 
-          admins={admins} 
-          invoices={invoices} 
-          setInvoices={setInvoices}
-          agreements={agreements}
-          setAgreements={setAgreements}
-        />
-      );
+      case 'review': return <FraudReviewQueue data={developerData} />;
+      case 'clusters': return <ClusterExplorer data={developerData} />;
+      case 'versions': return <VersionDiffView versions={versions} activeVersionId={activeVersionId || undefined} />;
+      case 'outreach': return <SmartOutreach data={developerData} />;
+      case 'invoices': return <Invoicing data={developerData} />;
       case 'reporting': return <Reporting data={developerData} />;
-      case 'events': return <EventManagement data={developerData} events={events} setEvents={setEvents} />;
+      case 'events': return <EventManagement data={developerData} />;
       case 'admin': return (
         <AdminSettings 
           data={developerData} 
-          admins={admins} 
-          setAdmins={setAdmins}
-          masterRegistry={masterRegistry}
-          setMasterRegistry={setMasterRegistry}
+          activeVersionId={activeVersionId}
+          onWorkspaceRestored={setActiveVersionId}
         />
       );
       default: return <div className="p-10 text-center text-slate-400">Module under construction</div>;
@@ -218,6 +271,17 @@ function App() {
         <div className="p-8">
             {renderContent()}
         </div>
+
+        {writeError && (
+            <div className="fixed bottom-6 right-6 z-50 max-w-md p-4 rounded-xl bg-red-50 dark:bg-red-900/90 border border-red-200 dark:border-red-800 shadow-2xl flex items-start gap-3 text-sm text-red-700 dark:text-red-100 print:hidden">
+                <AlertTriangle className="w-5 h-5 shrink-0" />
+                <div className="flex-1">
+                    <div className="font-bold">{writeError.title}</div>
+                    <div className="mt-1 break-words">{writeError.message}</div>
+                </div>
+                <button onClick={dismissWriteError} className="text-red-400 hover:text-red-600 dark:hover:text-white"><X className="w-4 h-4" /></button>
+            </div>
+        )}
       </main>
     </div>
   );
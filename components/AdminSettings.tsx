@@ -1,17 +1,23 @@
 import React, { useState, useMemo, useRef } from 'react';
 import { AdminUser, CommunityMasterRecord, DeveloperRecord, UserRole } from '../types';
+import { useCollection, useRepositories, reportWriteError } from '../services/repositoryContext';
+import { WorkspaceStoragePanel } from './WorkspaceStoragePanel';
+import { FraudRulesPanel } from './FraudRulesPanel';
+import { FraudBlocklistPanel } from './FraudBlocklistPanel';
+import { InvoiceSettingsPanel } from './InvoiceSettingsPanel';
 import { Users, Shield, Map, Upload, Search, Trash2, CheckCircle, AlertCircle, Plus, Save, FileSpreadsheet, X, Link, ChevronDown } from 'lucide-react';
 
 interface AdminSettingsProps {
   data: DeveloperRecord[];
-  admins: AdminUser[];
-  setAdmins: React.Dispatch<React.SetStateAction<AdminUser[]>>;
-  masterRegistry: CommunityMasterRecord[];
-  setMasterRegistry: React.Dispatch<React.SetStateAction<CommunityMasterRecord[]>>;
+  activeVersionId: string | null;
+  onWorkspaceRestored: (activeVersionId: string | null) => void;
 }
 
-export const AdminSettings: React.FC<AdminSettingsProps> = ({ data, admins, setAdmins, masterRegistry, setMasterRegistry }) => {
-  const [activeTab, setActiveTab] = useState<'team' | 'registry'>('team');
+export const AdminSettings: React.FC<AdminSettingsProps> = ({ data, activeVersionId, onWorkspaceRestored }) => {
+  const repositories = useRepositories();
+  const admins = useCollection(repositories.admins);
+  const masterRegistry = useCollection(repositories.registry);
+  const [activeTab, setActiveTab] = useState<'team' | 'registry' | 'rules' | 'blocklist' | 'invoicing' | 'storage'>('team');
   
   // --- TEAM MANAGEMENT STATE ---
   const [showAddUser, setShowAddUser] = useState(false);
@@ -48,14 +54,14 @@ export const AdminSettings: React.FC<AdminSettingsProps> = ({ data, admins, setA
           status: 'Invited'
       };
 
-      setAdmins([...admins, newAdmin]);
+      repositories.admins.save(newAdmin).catch(reportWriteError);
       setShowAddUser(false);
       setNewUser({ name: '', email: '', role: UserRole.COMMUNITY_ADMIN, codes: [] });
       setPartnerSearch('');
   };
 
   const handleDeleteUser = (id: string) => {
-      setAdmins(admins.filter(a => a.id !== id));
+      repositories.admins.remove(id).catch(reportWriteError);
   };
 
   const toggleCodeSelection = (code: string) => {
@@ -117,7 +123,7 @@ export const AdminSettings: React.FC<AdminSettingsProps> = ({ data, admins, setA
                   });
               }
           }
-          setMasterRegistry(records);
+          repositories.registry.replaceAll(records).catch(reportWriteError);
       };
       reader.readAsText(file);
   };
@@ -127,7 +133,7 @@ export const AdminSettings: React.FC<AdminSettingsProps> = ({ data, admins, setA
       <div className="flex justify-between items-center">
         <div>
           <h1 className="text-2xl font-bold text-slate-900 dark:text-white">Admin & Settings</h1>
-          <p className="text-slate-500 dark:text-slate-400">Manage your team hierarchy and official community registry.</p>
+          <p className="text-slate-500 dark:text-slate-400">Manage your team hierarchy, official community registry, fraud rules and workspace storage.</p>
         </div>
       </div>
 
@@ -145,6 +151,30 @@ export const AdminSettings: React.FC<AdminSettingsProps> = ({ data, admins, setA
           >
               Community Registry (Active vs Official)
           </button>
+          <button 
+            onClick={() => setActiveTab('rules')}
+            className={`px-6 py-3 text-sm font-bold transition-colors border-b-2 ${activeTab === 'rules' ? 'border-[#2a00ff] text-[#2a00ff]' : 'border-transparent text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-white'}`}
+          >
+              Fraud Rules
+          </button>
+          <button 
+            onClick={() => setActiveTab('blocklist')}
+            className={`px-6 py-3 text-sm font-bold transition-colors border-b-2 ${activeTab === 'blocklist' ? 'border-[#2a00ff] text-[#2a00ff]' : 'border-transparent text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-white'}`}
+          >
+              Fraud Blocklist
+          </button>
+          <button 
+            onClick={() => setActiveTab('invoicing')}
+            className={`px-6 py-3 text-sm font-bold transition-colors border-b-2 ${activeTab === 'invoicing' ? 'border-[#2a00ff] text-[#2a00ff]' : 'border-transparent text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-white'}`}
+          >
+              Invoicing
+          </button>
+          <button 
+            onClick={() => setActiveTab('storage')}
+            className={`px-6 py-3 text-sm font-bold transition-colors border-b-2 ${activeTab === 'storage' ? 'border-[#2a00ff] text-[#2a00ff]' : 'border-transparent text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-white'}`}
+          >
+              Storage & Backup
+          </button>
       </div>
 
       {/* TAB 1: TEAM MANAGEMENT */}
@@ -386,6 +416,20 @@ export const AdminSettings: React.FC<AdminSettingsProps> = ({ data, admins, setA
               )}
           </div>
       )}
+
+      {/* TAB 3: FRAUD RULES */}
+      {activeTab === 'rules' && <FraudRulesPanel />}
+
+      {/* TAB 4: FRAUD BLOCKLIST */}
+      {activeTab === 'blocklist' && <FraudBlocklistPanel data={data} />}
+
+      {/* TAB 5: INVOICING */}
+      {activeTab === 'invoicing' && <InvoiceSettingsPanel />}
+
+      {/* TAB 6: STORAGE & BACKUP */}
+      {activeTab === 'storage' && (
+          <WorkspaceStoragePanel activeVersionId={activeVersionId} onWorkspaceRestored={onWorkspaceRestored} />
+      )}
     </div>
   );
-};
\ No newline at end of file
+};
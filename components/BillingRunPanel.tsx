@@ -0,0 +1,141 @@
+import React, { useMemo, useState } from 'react';
+import { BillingRunEntryStatus, DeveloperRecord } from '../types';
+import { commitBillingRun, previewBillingRun } from '../services/billingRun';
+import { useCollection, useRepositories, useReviewer, useWorkspaceSettings, reportWriteError } from '../services/repositoryContext';
+import { Calendar, Check, ChevronDown, ChevronRight, History, Layers } from 'lucide-react';
+
+interface BillingRunPanelProps {
+  data: DeveloperRecord[];
+}
+
+const STATUS_STYLES: Record<BillingRunEntryStatus, string> = {
+    Created: 'bg-green-50 text-green-700 border-green-200 dark:bg-green-900/30 dark:text-green-300 dark:border-green-900/50',
+    Skipped: 'bg-slate-100 text-slate-600 border-slate-200 dark:bg-slate-800 dark:text-slate-300 dark:border-slate-700',
+    Failed: 'bg-red-50 text-red-700 border-red-200 dark:bg-red-900/30 dark:text-red-300 dark:border-red-900/50'
+};
+
+export const BillingRunPanel: React.FC<BillingRunPanelProps> = ({ data }) => {
+  const repositories = useRepositories();
+  const agreements = useCollection(repositories.agreements);
+  const invoices = useCollection(repositories.invoices);
+  const fraudReviews = useCollection(repositories.fraudReviews);
+  const storedRuns = useCollection(repositories.billingRuns);
+  const runs = useMemo(() => [...storedRuns].sort((a, b) => b.createdAt.localeCompare(a.createdAt)), [storedRuns]);
+  const [settings] = useWorkspaceSettings();
+  const { reviewer } = useReviewer();
+
+  const [month, setMonth] = useState<string>(new Date().toISOString().slice(0, 7));
+  const [expandedRunId, setExpandedRunId] = useState<string | null>(null);
+
+  const preview = useMemo(() => previewBillingRun({
+      month, agreements, invoices, records: data, reviews: fraudReviews, riskScoreThreshold: settings.riskScoreThreshold
+  }), [month, agreements, invoices, data, fraudReviews, settings.riskScoreThreshold]);
+  const toCreate = preview.filter(r => r.draft);
+
+  const handleRun = () => {
+      if (toCreate.length === 0) return;
+      if (!window.confirm(`Create ${toCreate.length} draft invoice${toCreate.length > 1 ? 's' : ''} for ${month}?`)) return;
+      const { run, invoices: drafts } = commitBillingRun(month, preview, reviewer?.name || 'Admin');
+      repositories.invoices.saveMany(drafts)
+          .then(() => repositories.billingRuns.save(run))
+          .catch(reportWriteError);
+      setExpandedRunId(run.id);
+  };
+
+  const countOf = (entries: { status: BillingRunEntryStatus }[], status: BillingRunEntryStatus) => entries.filter(e => e.status === status).length;
+
+  return (
+      <div className="space-y-6 animate-fade-in">
+          {/* PREVIEW */}
+          <div className="glass-card rounded-2xl overflow-hidden bg-white dark:bg-transparent border border-slate-200 dark:border-white/5">
+              <div className="p-6 flex flex-col md:flex-row md:items-center justify-between gap-4 border-b border-slate-200 dark:border-white/5">
+                  <div>
+                      <h3 className="font-bold text-slate-900 dark:text-white flex items-center gap-2"><Layers className="w-4 h-4 text-indigo-500" /> Billing Run</h3>
+                      <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">Drafts for every partner with an active agreement whose billing cycle closes in the selected month.</p>
+                  </div>
+                  <div className="flex items-center gap-3">
+                      <div className="relative">
+                          <Calendar className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+                          <input type="month" value={month} onChange={e => setMonth(e.target.value)} className="pl-9 p-2.5 bg-white dark:bg-slate-900 border border-slate-300 dark:border-slate-700 rounded-lg text-sm text-slate-900 dark:text-white outline-none focus:ring-2 focus:ring-cyan-500" />
+                      </div>
+                      <button onClick={handleRun} disabled={toCreate.length === 0} className="px-5 py-2.5 bg-indigo-600 text-white rounded-lg text-sm font-bold hover:bg-indigo-500 shadow-lg shadow-indigo-900/20 disabled:opacity-50 flex items-center gap-2">
+                          <Check className="w-4 h-4" /> Create {toCreate.length} Draft{toCreate.length === 1 ? '' : 's'}
+                      </button>
+                  </div>
+              </div>
+              <table className="w-full text-sm text-left">
+                  <thead className="bg-slate-50 dark:bg-slate-900/50 text-slate-500 dark:text-slate-400 font-semibold border-b border-slate-200 dark:border-white/5">
+                      <tr>
+                          <th className="px-6 py-3">Partner</th>
+                          <th className="px-6 py-3">Period</th>
+                          <th className="px-6 py-3 text-right">Billable</th>
+                          <th className="px-6 py-3 text-right">Held</th>
+                          <th className="px-6 py-3 text-right">Excluded</th>
+                          <th className="px-6 py-3 text-right">Total</th>
+                          <th className="px-6 py-3">Status</th>
+                      </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100 dark:divide-white/5">
+                      {preview.length === 0 ? (
+                          <tr><td colSpan={7} className="p-12 text-center text-slate-500">No active agreement closes a billing cycle in {month}.</td></tr>
+                      ) : preview.map(({ entry, draft }) => (
+                          <tr key={entry.partnerCode} className="hover:bg-slate-50 dark:hover:bg-white/5">
+                              <td className="px-6 py-3 font-medium text-slate-900 dark:text-white">{entry.partnerCode}</td>
+                              <td className="px-6 py-3 font-mono text-xs text-slate-500">{entry.billingPeriod}{draft?.periodStart && <div className="text-[10px] text-slate-400">{draft.periodStart} → {draft.periodEnd}</div>}</td>
+                              <td className="px-6 py-3 text-right font-mono text-slate-600 dark:text-slate-300">{draft?.certificationBreakdown ? entry.billable : '—'}</td>
+                              <td className="px-6 py-3 text-right font-mono text-yellow-600 dark:text-yellow-400">{draft?.certificationBreakdown ? entry.held : '—'}</td>
+                              <td className="px-6 py-3 text-right font-mono text-red-600 dark:text-red-400">{draft?.certificationBreakdown ? entry.excluded : '—'}</td>
+                              <td className="px-6 py-3 text-right font-bold text-emerald-600 dark:text-emerald-400">{draft ? `${entry.totalAmount.toLocaleString()} ${entry.currency}` : '—'}</td>
+                              <td className="px-6 py-3">
+                                  <span className={`px-2 py-0.5 rounded text-xs font-bold border ${STATUS_STYLES[entry.status]}`}>{entry.status === 'Created' ? 'Ready' : entry.status}</span>
+                                  {entry.reason && <div className="text-xs text-slate-500 mt-1">{entry.reason}</div>}
+                              </td>
+                          </tr>
+                      ))}
+                  </tbody>
+              </table>
+          </div>
+
+          {/* HISTORY */}
+          <div className="glass-card rounded-2xl overflow-hidden bg-white dark:bg-transparent border border-slate-200 dark:border-white/5">
+              <div className="p-4 bg-slate-50 dark:bg-slate-900/50 border-b border-slate-100 dark:border-white/5 font-bold text-slate-700 dark:text-slate-200 flex items-center gap-2">
+                  <History className="w-4 h-4" /> Past Runs ({runs.length})
+              </div>
+              {runs.length === 0 && <div className="p-8 text-center text-sm text-slate-400">No billing runs yet.</div>}
+              <div className="divide-y divide-slate-100 dark:divide-white/5">
+                  {runs.map(run => {
+                      const isExpanded = expandedRunId === run.id;
+                      return (
+                          <div key={run.id}>
+                              <button onClick={() => setExpandedRunId(isExpanded ? null : run.id)} className="w-full px-6 py-3 flex items-center gap-4 text-left text-sm hover:bg-slate-50 dark:hover:bg-white/5">
+                                  {isExpanded ? <ChevronDown className="w-4 h-4 text-slate-400" /> : <ChevronRight className="w-4 h-4 text-slate-400" />}
+                                  <span className="font-bold text-slate-800 dark:text-slate-200">{run.month}</span>
+                                  <span className="text-slate-500">{new Date(run.createdAt).toLocaleString()} · {run.createdBy}</span>
+                                  <span className="ml-auto flex gap-2 text-xs">
+                                      {(['Created', 'Skipped', 'Failed'] as BillingRunEntryStatus[]).map(st => countOf(run.entries, st) > 0 && (
+                                          <span key={st} className={`px-2 py-0.5 rounded font-bold border ${STATUS_STYLES[st]}`}>{countOf(run.entries, st)} {st.toLowerCase()}</span>
+                                      ))}
+                                  </span>
+                              </button>
+                              {isExpanded && (
+                                  <table className="w-full text-xs text-left bg-slate-50/50 dark:bg-slate-900/30">
+                                      <tbody className="divide-y divide-slate-100 dark:divide-white/5">
+                                          {run.entries.map(e => (
+                                              <tr key={e.partnerCode}>
+                                                  <td className="pl-14 pr-4 py-2 font-medium text-slate-700 dark:text-slate-300">{e.partnerCode}</td>
+                                                  <td className="px-4 py-2 font-mono text-slate-500">{e.billingPeriod}</td>
+                                                  <td className="px-4 py-2"><span className={`px-2 py-0.5 rounded font-bold border ${STATUS_STYLES[e.status]}`}>{e.status}</span></td>
+                                                  <td className="px-4 py-2 text-slate-500">{e.reason || `${e.totalAmount.toLocaleString()} ${e.currency}`}</td>
+                                              </tr>
+                                          ))}
+                                      </tbody>
+                                  </table>
+                              )}
+                          </div>
+                      );
+                  })}
+              </div>
+          </div>
+      </div>
+  );
+};
@@ -0,0 +1,290 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ClusterLinkType, DeveloperRecord, FraudReviewDecision } from '../types';
+import { CLUSTER_LINK_LABELS, clusterEdges, sharedKeys } from '../services/accountClusters';
+import { recordReviewDecision, reviewItemsFor } from '../services/fraudReview';
+import { blocklistEntriesFor } from '../services/fraudBlocklist';
+import { useCollection, useRepositories, useReviewer, useWorkspaceSettings, reportWriteError } from '../services/repositoryContext';
+import { DECISION_ACTIONS, DECISION_STYLES } from './FraudReviewQueue';
+import { Network, Search, UserCircle, CheckCircle } from 'lucide-react';
+
+interface ClusterExplorerProps {
+    data: DeveloperRecord[];
+}
+
+interface Cluster {
+    id: string;
+    members: DeveloperRecord[];
+    maxScore: number;
+    linkTypes: ClusterLinkType[];
+    partners: Set<string>;
+}
+
+type ClusterSort = 'size' | 'risk';
+
+const PAGE_SIZE = 100;
+const MAX_GRAPH_NODES = 80;
+const GRAPH_SIZE = 360;
+
+const LINK_COLORS: Record<ClusterLinkType, string> = {
+    wallet: '#f97316',
+    phone: '#0ea5e9',
+    nameRoot: '#a522dd',
+    emailRoot: '#2a00ff'
+};
+
+export const ClusterExplorer: React.FC<ClusterExplorerProps> = ({ data }) => {
+  const repositories = useRepositories();
+  const reviews = useCollection(repositories.fraudReviews);
+  const blocklist = useCollection(repositories.fraudBlocklist);
+  const { admins, reviewer, setReviewerId } = useReviewer();
+  const [{ riskScoreThreshold }] = useWorkspaceSettings();
+
+  const [sortBy, setSortBy] = useState<ClusterSort>('size');
+  const [linkFilter, setLinkFilter] = useState<ClusterLinkType | 'All'>('All');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [bulkDecision, setBulkDecision] = useState<FraudReviewDecision>('Confirmed');
+  const [bulkNote, setBulkNote] = useState('');
+  const [bulkResult, setBulkResult] = useState<string | null>(null);
+
+  const clusters = useMemo(() => {
+      const byId = new Map<string, Cluster>();
+      data.forEach(r => {
+          if (!r.computed_clusterId) return;
+          if (!byId.has(r.computed_clusterId)) byId.set(r.computed_clusterId, { id: r.computed_clusterId, members: [], maxScore: 0, linkTypes: [], partners: new Set() });
+          const c = byId.get(r.computed_clusterId)!;
+          c.members.push(r);
+          c.maxScore = Math.max(c.maxScore, r.computed_riskScore || 0);
+          (r.computed_clusterLinks || []).forEach(l => { if (!c.linkTypes.includes(l)) c.linkTypes.push(l); });
+          if (r.partnerCode) c.partners.add(r.partnerCode);
+      });
+      return Array.from(byId.values());
+  }, [data]);
+
+  const filteredClusters = useMemo(() => {
+      const query = searchQuery.trim().toLowerCase();
+      return clusters
+          .filter(c => linkFilter === 'All' || c.linkTypes.includes(linkFilter))
+          .filter(c => !query || c.id.includes(query) || c.members.some(m => m.email.toLowerCase().includes(query) || (m.walletAddress || '').toLowerCase().includes(query) || `${m.firstName} ${m.lastName}`.toLowerCase().includes(query)))
+          .sort((a, b) => sortBy === 'size' ? b.members.length - a.members.length || b.maxScore - a.maxScore : b.maxScore - a.maxScore || b.members.length - a.members.length);
+  }, [clusters, linkFilter, searchQuery, sortBy]);
+
+  useEffect(() => setVisibleCount(PAGE_SIZE), [linkFilter, searchQuery, sortBy]);
+
+  const selected = clusters.find(c => c.id === selectedId) || null;
+  useEffect(() => setBulkResult(null), [selectedId]);
+
+  const keys = useMemo(() => (selected ? sharedKeys(selected.members) : []), [selected]);
+  const reviewItems = useMemo(() => (selected ? reviewItemsFor(selected.members, reviews) : []), [selected, reviews]);
+
+  // Members on a circle, edges drawn between records sharing a value
+  const graph = useMemo(() => {
+      if (!selected || selected.members.length > MAX_GRAPH_NODES) return null;
+      const center = GRAPH_SIZE / 2;
+      const radius = center - 30;
+      const positions = new Map(selected.members.map((m, i) => {
+          const angle = (2 * Math.PI * i) / selected.members.length - Math.PI / 2;
+          return [m.id, { x: center + radius * Math.cos(angle), y: center + radius * Math.sin(angle) }];
+      }));
+      return { positions, edges: clusterEdges(selected.members) };
+  }, [selected]);
+
+  const nodeColor = (score: number) => score >= riskScoreThreshold ? '#dc2626' : score > 0 ? '#eab308' : '#94a3b8';
+
+  const handleBulkApply = () => {
+      const targets = reviewItems.filter(item => item.review?.decision !== bulkDecision);
+      if (targets.length === 0) return;
+      repositories.fraudReviews.saveMany(targets.map(item => recordReviewDecision(item, bulkDecision, bulkNote, reviewer))).catch(reportWriteError);
+      if (bulkDecision === 'Confirmed') {
+          const entries = blocklistEntriesFor(targets.map(item => item.record), blocklist, bulkNote || `Confirmed with cluster ${selected!.id}`, reviewer?.name || 'Unknown reviewer');
+          if (entries.length > 0) repositories.fraudBlocklist.saveMany(entries).catch(reportWriteError);
+      }
+      setBulkResult(`${bulkDecision} ${targets.length} flag${targets.length === 1 ? '' : 's'} across the cluster.`);
+      setBulkNote('');
+  };
+
+  if (data.length === 0) {
+      return <div className="p-10 text-center text-slate-400 border border-dashed border-slate-300 dark:border-slate-700 rounded-xl">Upload a dataset to explore linked accounts.</div>;
+  }
+
+  const pendingBulk = reviewItems.filter(item => item.review?.decision !== bulkDecision).length;
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-slate-900 dark:text-white flex items-center gap-2"><Network className="w-6 h-6 text-[#2a00ff]" /> Linked Accounts</h1>
+          <p className="text-slate-500 dark:text-slate-400">Clusters of developers sharing a wallet or phone number. Name and email roots only link small groups, so common names don't chain unrelated accounts.</p>
+        </div>
+        <div className="flex items-center gap-2">
+            <UserCircle className="w-4 h-4 text-slate-400" />
+            <select
+              value={reviewer?.id || ''}
+              onChange={e => setReviewerId(e.target.value)}
+              className="p-2.5 bg-white dark:bg-slate-900 border border-slate-300 dark:border-slate-700 rounded-xl text-sm text-slate-900 dark:text-white outline-none focus:ring-2 focus:ring-[#2a00ff] shadow-sm"
+            >
+                <option value="">-- Reviewing as --</option>
+                {admins.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+            </select>
+        </div>
+      </div>
+
+      <div className="glass-panel p-5 rounded-2xl flex flex-col md:flex-row gap-3 justify-between">
+          <div className="relative md:w-80">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+              <input value={searchQuery} onChange={e => setSearchQuery(e.target.value)} placeholder="Search email, name or wallet..." className="w-full pl-10 pr-4 py-2.5 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-xl text-sm text-slate-900 dark:text-white outline-none focus:ring-2 focus:ring-[#2a00ff] shadow-sm" />
+          </div>
+          <div className="flex gap-3">
+              <select value={linkFilter} onChange={e => setLinkFilter(e.target.value as ClusterLinkType | 'All')} className="px-3 py-2.5 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-xl text-sm font-medium text-slate-900 dark:text-white outline-none focus:ring-2 focus:ring-[#2a00ff] shadow-sm">
+                  <option value="All">All Link Types</option>
+                  {(Object.keys(CLUSTER_LINK_LABELS) as ClusterLinkType[]).map(t => <option key={t} value={t}>{CLUSTER_LINK_LABELS[t]}</option>)}
+              </select>
+              <select value={sortBy} onChange={e => setSortBy(e.target.value as ClusterSort)} className="px-3 py-2.5 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-xl text-sm font-medium text-slate-900 dark:text-white outline-none focus:ring-2 focus:ring-[#2a00ff] shadow-sm">
+                  <option value="size">Largest first</option>
+                  <option value="risk">Highest risk first</option>
+              </select>
+          </div>
+      </div>
+
+      {clusters.length === 0 ? (
+          <div className="p-10 text-center text-slate-400 border border-dashed border-slate-300 dark:border-slate-700 rounded-xl">No linked accounts in this dataset version.</div>
+      ) : (
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* CLUSTER LIST */}
+          <div className="bg-white dark:bg-slate-900/50 rounded-xl border border-slate-200 dark:border-slate-700 shadow-sm overflow-hidden h-fit">
+              <div className="px-4 py-3 border-b border-slate-200 dark:border-slate-700 bg-slate-50/50 dark:bg-slate-800/50 text-xs font-bold uppercase tracking-wider text-slate-500 dark:text-slate-400">
+                  {filteredClusters.length.toLocaleString()} Clusters
+              </div>
+              <div className="max-h-[640px] overflow-y-auto divide-y divide-slate-100 dark:divide-slate-800">
+                  {filteredClusters.slice(0, visibleCount).map(c => (
+                      <button
+                        key={c.id}
+                        onClick={() => setSelectedId(c.id)}
+                        className={`w-full px-4 py-3 text-left transition-colors ${c.id === selectedId ? 'bg-[#2a00ff]/10' : 'hover:bg-slate-50 dark:hover:bg-white/5'}`}
+                      >
+                          <div className="flex justify-between items-center">
+                              <span className="font-bold text-sm text-slate-900 dark:text-white">{c.members.length} accounts</span>
+                              <span className="text-xs font-mono" style={{ color: nodeColor(c.maxScore) }}>max {c.maxScore}</span>
+                          </div>
+                          <div className="flex flex-wrap gap-1 mt-1">
+                              {c.linkTypes.map(t => (
+                                  <span key={t} className="px-1.5 py-0.5 rounded text-[10px] font-bold text-white" style={{ backgroundColor: LINK_COLORS[t] }}>{CLUSTER_LINK_LABELS[t]}</span>
+                              ))}
+                          </div>
+                          <div className="text-[10px] text-slate-400 font-mono mt-1 truncate">{Array.from(c.partners).join(', ')}</div>
+                      </button>
+                  ))}
+              </div>
+              {filteredClusters.length > visibleCount && (
+                  <button onClick={() => setVisibleCount(v => v + PAGE_SIZE)} className="w-full px-4 py-2 text-xs font-bold text-[#2a00ff] hover:underline border-t border-slate-200 dark:border-slate-700">Show more</button>
+              )}
+          </div>
+
+          {/* CLUSTER DETAIL */}
+          <div className="lg:col-span-2 space-y-6">
+              {!selected ? (
+                  <div className="p-10 text-center text-slate-400 border border-dashed border-slate-300 dark:border-slate-700 rounded-xl">Select a cluster to inspect it.</div>
+              ) : (
+              <>
+              <div className="bg-white dark:bg-slate-900/50 rounded-xl border border-slate-200 dark:border-slate-700 shadow-sm overflow-hidden">
+                  <div className="px-6 py-4 border-b border-slate-200 dark:border-slate-700 bg-slate-50/50 dark:bg-slate-800/50 flex justify-between items-center">
+                      <h3 className="font-bold text-slate-800 dark:text-white">{selected.members.length} linked accounts <span className="font-mono text-xs text-slate-400 ml-2">{selected.id}</span></h3>
+                  </div>
+                  <div className="p-6 grid grid-cols-1 md:grid-cols-2 gap-6">
+                      {graph ? (
+                          <svg viewBox={`0 0 ${GRAPH_SIZE} ${GRAPH_SIZE}`} className="w-full max-w-[360px] mx-auto">
+                              {graph.edges.map((e, i) => {
+                                  const a = graph.positions.get(e.from)!;
+                                  const b = graph.positions.get(e.to)!;
+                                  return <line key={i} x1={a.x} y1={a.y} x2={b.x} y2={b.y} stroke={LINK_COLORS[e.type]} strokeWidth={1.5} strokeOpacity={0.7}><title>{`${CLUSTER_LINK_LABELS[e.type]}: ${e.key}`}</title></line>;
+                              })}
+                              {selected.members.map(m => {
+                                  const p = graph.positions.get(m.id)!;
+                                  return (
+                                      <circle key={m.id} cx={p.x} cy={p.y} r={7} fill={nodeColor(m.computed_riskScore || 0)} stroke="#fff" strokeWidth={1.5}>
+                                          <title>{`${m.firstName} ${m.lastName} <${m.email}> · score ${m.computed_riskScore ?? 0}`}</title>
+                                      </circle>
+                                  );
+                              })}
+                          </svg>
+                      ) : (
+                          <div className="flex items-center justify-center text-sm text-slate-400 text-center p-6 border border-dashed border-slate-300 dark:border-slate-700 rounded-lg">
+                              Too many accounts to draw ({selected.members.length}). See the member list below.
+                          </div>
+                      )}
+                      <div className="space-y-2">
+                          <h4 className="text-xs font-bold uppercase tracking-wider text-slate-500 dark:text-slate-400">Shared Values</h4>
+                          {keys.map(k => (
+                              <div key={`${k.type}|${k.key}`} className="flex items-center justify-between gap-2 text-xs">
+                                  <span className="flex items-center gap-2 min-w-0">
+                                      <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: LINK_COLORS[k.type] }}></span>
+                                      <span className="text-slate-500 dark:text-slate-400 shrink-0">{CLUSTER_LINK_LABELS[k.type]}</span>
+                                      <span className="font-mono text-slate-800 dark:text-slate-200 truncate">{k.key}</span>
+                                  </span>
+                                  <span className="font-bold text-slate-600 dark:text-slate-300">×{k.count}</span>
+                              </div>
+                          ))}
+                      </div>
+                  </div>
+              </div>
+
+              {/* BULK REVIEW */}
+              <div className="glass-panel p-6 rounded-xl border border-slate-200 dark:border-slate-700 shadow-sm space-y-3">
+                  <h3 className="font-bold text-slate-900 dark:text-white">Bulk Review Decision</h3>
+                  <p className="text-sm text-slate-500 dark:text-slate-400">
+                      Applies to every fraud flag raised on the accounts in this cluster ({reviewItems.length} flag{reviewItems.length === 1 ? '' : 's'}).
+                  </p>
+                  <div className="flex flex-col md:flex-row gap-3">
+                      <select value={bulkDecision} onChange={e => setBulkDecision(e.target.value as FraudReviewDecision)} className="p-2.5 bg-white dark:bg-slate-900 border border-slate-300 dark:border-slate-700 rounded-lg text-sm text-slate-900 dark:text-white outline-none focus:ring-2 focus:ring-[#2a00ff]">
+                          {DECISION_ACTIONS.map(a => <option key={a.decision} value={a.decision}>{a.label}</option>)}
+                      </select>
+                      <input value={bulkNote} onChange={e => setBulkNote(e.target.value)} placeholder="Reviewer note (applies to every decision)" className="flex-1 p-2.5 bg-white dark:bg-slate-900 border border-slate-300 dark:border-slate-700 rounded-lg text-sm text-slate-900 dark:text-white outline-none focus:ring-2 focus:ring-[#2a00ff]" />
+                      <button onClick={handleBulkApply} disabled={pendingBulk === 0} className="px-4 py-2.5 bg-[#2a00ff] text-white rounded-lg text-sm font-bold shadow-sm hover:bg-[#2a00ff]/80 disabled:opacity-50">
+                          Apply to {pendingBulk} flag{pendingBulk === 1 ? '' : 's'}
+                      </button>
+                  </div>
+                  {bulkResult && <div className="text-sm font-medium text-green-700 dark:text-green-400 flex items-center gap-2"><CheckCircle className="w-4 h-4" /> {bulkResult}</div>}
+              </div>
+
+              {/* MEMBERS */}
+              <div className="bg-white dark:bg-slate-900/50 rounded-xl border border-slate-200 dark:border-slate-700 shadow-sm overflow-hidden">
+                  <table className="w-full text-sm text-left">
+                      <thead className="bg-slate-50 dark:bg-slate-800 text-slate-500 dark:text-slate-400 font-semibold">
+                          <tr><th className="px-4 py-3">Developer</th><th className="px-4 py-3">Phone / Wallet</th><th className="px-4 py-3">Partner</th><th className="px-4 py-3">Score</th><th className="px-4 py-3">Flags & Decisions</th></tr>
+                      </thead>
+                      <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+                          {[...selected.members].sort((a, b) => (b.computed_riskScore || 0) - (a.computed_riskScore || 0)).map(m => (
+                              <tr key={m.id} className="hover:bg-slate-50 dark:hover:bg-white/5">
+                                  <td className="px-4 py-3">
+                                      <div className="font-medium text-slate-900 dark:text-white">{`${m.firstName} ${m.lastName}`.trim() || '—'}</div>
+                                      <div className="text-xs text-slate-500 dark:text-slate-400 font-mono">{m.email}</div>
+                                  </td>
+                                  <td className="px-4 py-3 text-xs font-mono text-slate-600 dark:text-slate-300">
+                                      <div>{m.phone || '—'}</div>
+                                      <div className="truncate max-w-[160px]">{m.walletAddress || '—'}</div>
+                                  </td>
+                                  <td className="px-4 py-3 text-xs font-mono text-slate-600 dark:text-slate-300">{m.partnerCode}</td>
+                                  <td className="px-4 py-3 font-mono font-bold" style={{ color: nodeColor(m.computed_riskScore || 0) }}>{m.computed_riskScore ?? 0}</td>
+                                  <td className="px-4 py-3">
+                                      <div className="flex flex-wrap gap-1">
+                                          {reviewItems.filter(i => i.record.id === m.id).map(i => (
+                                              <span key={i.source.ruleId} className={`px-1.5 py-0.5 rounded text-[10px] font-bold border ${i.review ? DECISION_STYLES[i.review.decision] : 'bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 border-slate-200 dark:border-slate-700'}`}>
+                                                  {i.source.flag}{i.review ? ` · ${i.review.decision}` : ''}
+                                              </span>
+                                          ))}
+                                      </div>
+                                  </td>
+                              </tr>
+                          ))}
+                      </tbody>
+                  </table>
+              </div>
+              </>
+              )}
+          </div>
+      </div>
+      )}
+    </div>
+  );
+};
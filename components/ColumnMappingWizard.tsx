@@ -0,0 +1,217 @@
+import React, { useMemo, useState } from 'react';
+import { ImportProfile } from '../types';
+import { ColumnMap, COLUMN_LABELS, MAPPABLE_FIELDS, guessColumnMap, normalizeHeader } from '../services/csvMapping';
+import { CsvPreview } from '../services/csvIngestion';
+import { columnMapToProfileMapping, findMatchingProfile, profileToColumnMap } from '../services/importProfiles';
+import { X, Save, Bookmark, AlertTriangle, CheckCircle, Columns, Trash2, Sheet } from 'lucide-react';
+
+interface ColumnMappingWizardProps {
+    fileName: string;
+    preview: CsvPreview;
+    profiles: ImportProfile[];
+    onSaveProfile: (profile: ImportProfile) => void;
+    onDeleteProfile: (id: string) => void;
+    onConfirm: (mapping: ColumnMap, profileId?: string) => void;
+    onCancel: () => void;
+    onSelectSheet?: (sheet: string) => void; // XLSX: re-preview another worksheet
+}
+
+export const ColumnMappingWizard: React.FC<ColumnMappingWizardProps> = ({
+    fileName,
+    preview,
+    profiles,
+    onSaveProfile,
+    onDeleteProfile,
+    onConfirm,
+    onCancel,
+    onSelectSheet
+}) => {
+  const headers = useMemo(() => preview.headers.map(normalizeHeader), [preview]);
+  const matchedProfile = useMemo(() => findMatchingProfile(profiles, headers), []); // Only on open
+
+  const [selectedProfileId, setSelectedProfileId] = useState<string>(matchedProfile?.id || '');
+  const [mapping, setMapping] = useState<ColumnMap>(() => matchedProfile ? profileToColumnMap(matchedProfile, headers) : guessColumnMap(headers));
+
+  // Save Profile Form
+  const [showSaveForm, setShowSaveForm] = useState(false);
+  const [profileName, setProfileName] = useState('');
+  const [profileSource, setProfileSource] = useState('');
+
+  const selectedProfile = profiles.find(p => p.id === selectedProfileId);
+
+  const handleSelectProfile = (id: string) => {
+      setSelectedProfileId(id);
+      const profile = profiles.find(p => p.id === id);
+      setMapping(profile ? profileToColumnMap(profile, headers) : guessColumnMap(headers));
+  };
+
+  const handleSaveProfile = () => {
+      if (!profileName.trim()) return;
+      const profile: ImportProfile = {
+          id: `prof_${Date.now()}`,
+          name: profileName.trim(),
+          source: profileSource.trim() || 'Unspecified',
+          headers,
+          mapping: columnMapToProfileMapping(mapping, headers),
+          createdAt: new Date().toISOString()
+      };
+      onSaveProfile(profile);
+      setSelectedProfileId(profile.id);
+      setShowSaveForm(false);
+      setProfileName('');
+      setProfileSource('');
+  };
+
+  // Columns claimed by more than one field (Partner Code/Name may legitimately share one)
+  const duplicateColumns = useMemo(() => {
+      const seen = new Map<number, string[]>();
+      MAPPABLE_FIELDS.forEach(f => {
+          if (mapping[f] === -1) return;
+          seen.set(mapping[f], [...(seen.get(mapping[f]) || []), f]);
+      });
+      return new Set<number>(Array.from(seen.entries())
+          .filter(([, fields]) => fields.length > 1 && !(fields.length === 2 && fields.includes('partnerCode') && fields.includes('partnerName')))
+          .map(([idx]) => idx));
+  }, [mapping]);
+
+  const unmappedHeaders = headers.filter((_, i) => !MAPPABLE_FIELDS.some(f => mapping[f] === i));
+  const missingEmail = mapping.email === -1;
+
+  return (
+      <div className="fixed inset-0 bg-slate-900/80 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+          <div className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-2xl shadow-2xl w-full max-w-5xl max-h-[95vh] overflow-y-auto flex flex-col animate-in fade-in zoom-in-95 duration-200">
+              {/* Header */}
+              <div className="px-8 py-6 border-b border-slate-200 dark:border-white/5 flex justify-between items-center bg-slate-50 dark:bg-slate-900/50 sticky top-0 z-10 backdrop-blur-md">
+                  <div>
+                      <h2 className="text-2xl font-bold text-slate-900 dark:text-white flex items-center gap-2"><Columns className="w-6 h-6 text-[#2a00ff]" /> Map Columns</h2>
+                      <p className="text-slate-500 dark:text-slate-400 text-sm mt-1">
+                          <span className="font-semibold text-slate-700 dark:text-slate-300">{fileName}</span> · {preview.format.toUpperCase()} · {preview.headers.length} columns detected
+                      </p>
+                  </div>
+                  <button onClick={onCancel} className="text-slate-400 hover:text-slate-600 dark:hover:text-white"><X className="w-5 h-5" /></button>
+              </div>
+
+              <div className="p-8 space-y-6">
+                  {/* Worksheet Selection (XLSX) */}
+                  {preview.sheets && preview.sheets.length > 1 && onSelectSheet && (
+                      <div className="flex items-center gap-3 text-sm">
+                          <Sheet className="w-4 h-4 text-slate-500" />
+                          <label className="text-[10px] font-bold text-slate-500 uppercase">Worksheet</label>
+                          <select
+                            value={preview.sheet}
+                            onChange={e => onSelectSheet(e.target.value)}
+                            className="p-2 bg-white dark:bg-slate-900 border border-slate-300 dark:border-slate-600 rounded-lg text-sm text-slate-900 dark:text-white outline-none focus:ring-2 focus:ring-[#2a00ff]"
+                          >
+                              {preview.sheets.map(name => <option key={name} value={name}>{name}</option>)}
+                          </select>
+                      </div>
+                  )}
+
+                  {/* Profile Selection */}
+                  <div className="flex flex-wrap items-end gap-4 bg-slate-50 dark:bg-slate-800/50 p-4 rounded-xl border border-slate-200 dark:border-white/5">
+                      <div className="flex-1 min-w-[240px]">
+                          <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">Import Profile</label>
+                          <select
+                            value={selectedProfileId}
+                            onChange={e => handleSelectProfile(e.target.value)}
+                            className="w-full p-2.5 bg-white dark:bg-slate-900 border border-slate-300 dark:border-slate-600 rounded-lg text-sm text-slate-900 dark:text-white outline-none focus:ring-2 focus:ring-[#2a00ff]"
+                          >
+                              <option value="">Auto-detect (no profile)</option>
+                              {profiles.map(p => <option key={p.id} value={p.id}>{p.name} — {p.source}</option>)}
+                          </select>
+                      </div>
+                      {selectedProfile && (
+                          <button
+                            onClick={() => { onDeleteProfile(selectedProfile.id); handleSelectProfile(''); }}
+                            className="p-2.5 text-slate-400 hover:text-red-500 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+                            title="Delete profile"
+                          >
+                              <Trash2 className="w-4 h-4" />
+                          </button>
+                      )}
+                      <button
+                        onClick={() => setShowSaveForm(!showSaveForm)}
+                        className="px-4 py-2.5 bg-slate-200 dark:bg-slate-700 text-slate-700 dark:text-slate-200 rounded-lg text-sm font-medium hover:bg-slate-300 dark:hover:bg-slate-600 flex items-center gap-2"
+                      >
+                          <Bookmark className="w-4 h-4" /> Save as Profile
+                      </button>
+                      {matchedProfile && selectedProfileId === matchedProfile.id && (
+                          <div className="w-full text-xs font-medium text-green-700 dark:text-green-300 flex items-center gap-1.5">
+                              <CheckCircle className="w-3.5 h-3.5" /> Profile "{matchedProfile.name}" was matched automatically from the file headers.
+                          </div>
+                      )}
+                      {showSaveForm && (
+                          <div className="w-full grid grid-cols-1 md:grid-cols-3 gap-3 pt-3 border-t border-slate-200 dark:border-white/5">
+                              <input value={profileName} onChange={e => setProfileName(e.target.value)} placeholder="Profile name (e.g. Weekly Export)" className="p-2.5 bg-white dark:bg-slate-900 border border-slate-300 dark:border-slate-600 rounded-lg text-sm text-slate-900 dark:text-white outline-none focus:ring-2 focus:ring-[#2a00ff]" />
+                              <input value={profileSource} onChange={e => setProfileSource(e.target.value)} placeholder="LMS export source (e.g. Moodle)" className="p-2.5 bg-white dark:bg-slate-900 border border-slate-300 dark:border-slate-600 rounded-lg text-sm text-slate-900 dark:text-white outline-none focus:ring-2 focus:ring-[#2a00ff]" />
+                              <button onClick={handleSaveProfile} disabled={!profileName.trim()} className="px-4 py-2.5 bg-[#2a00ff] text-white rounded-lg text-sm font-bold hover:bg-[#2a00ff]/80 disabled:opacity-50 flex items-center justify-center gap-2">
+                                  <Save className="w-4 h-4" /> Save Profile
+                              </button>
+                          </div>
+                      )}
+                  </div>
+
+                  {/* Mapping Table */}
+                  <div className="border border-slate-200 dark:border-slate-700 rounded-xl overflow-hidden">
+                      <table className="w-full text-sm text-left">
+                          <thead className="bg-slate-50 dark:bg-slate-800 text-slate-500 dark:text-slate-400 font-semibold border-b border-slate-200 dark:border-slate-700">
+                              <tr><th className="px-4 py-3 w-48">Developer Field</th><th className="px-4 py-3 w-64">Source Column</th><th className="px-4 py-3">Sample Values</th></tr>
+                          </thead>
+                          <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+                              {MAPPABLE_FIELDS.map(field => {
+                                  const idx = mapping[field];
+                                  const isDuplicate = idx !== -1 && duplicateColumns.has(idx);
+                                  return (
+                                      <tr key={field} className="bg-white dark:bg-slate-900">
+                                          <td className="px-4 py-3 font-medium text-slate-800 dark:text-slate-200">
+                                              {COLUMN_LABELS[field]}
+                                              {field === 'email' && <span className="text-red-500 ml-1">*</span>}
+                                          </td>
+                                          <td className="px-4 py-2">
+                                              <select
+                                                value={idx}
+                                                onChange={e => setMapping({ ...mapping, [field]: Number(e.target.value) })}
+                                                className={`w-full p-2 bg-slate-50 dark:bg-slate-800 border rounded text-slate-900 dark:text-white outline-none focus:border-[#2a00ff] ${isDuplicate || (field === 'email' && missingEmail) ? 'border-red-400 dark:border-red-700' : 'border-slate-300 dark:border-slate-600'}`}
+                                              >
+                                                  <option value={-1}>— Not mapped —</option>
+                                                  {preview.headers.map((h, i) => <option key={i} value={i}>{h}</option>)}
+                                              </select>
+                                          </td>
+                                          <td className="px-4 py-3 text-xs font-mono text-slate-500 dark:text-slate-400 truncate max-w-xs">
+                                              {idx === -1 ? <span className="italic text-slate-400">—</span> : preview.sampleRows.slice(0, 3).map(r => r[idx] || '∅').join(' · ')}
+                                          </td>
+                                      </tr>
+                                  );
+                              })}
+                          </tbody>
+                      </table>
+                  </div>
+
+                  {/* Diagnostics */}
+                  {(missingEmail || duplicateColumns.size > 0) && (
+                      <div className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-xl text-sm text-red-700 dark:text-red-300 space-y-1">
+                          {missingEmail && <div className="flex items-center gap-2"><AlertTriangle className="w-4 h-4" /> The Email column is required to ingest developer data.</div>}
+                          {duplicateColumns.size > 0 && <div className="flex items-center gap-2"><AlertTriangle className="w-4 h-4" /> Some columns are mapped to more than one field: {Array.from(duplicateColumns, (i: number) => preview.headers[i]).join(', ')}</div>}
+                      </div>
+                  )}
+                  {unmappedHeaders.length > 0 && (
+                      <p className="text-xs text-slate-500 dark:text-slate-400">
+                          <span className="font-bold uppercase tracking-wider">Ignored columns:</span> {unmappedHeaders.join(', ')}
+                      </p>
+                  )}
+              </div>
+
+              <div className="p-6 border-t border-slate-200 dark:border-slate-700 flex justify-end gap-3">
+                  <button onClick={onCancel} className="px-4 py-2 text-slate-500 hover:bg-slate-100 dark:hover:bg-white/5 rounded-lg transition-colors">Cancel</button>
+                  <button
+                    onClick={() => onConfirm(mapping, selectedProfileId || undefined)}
+                    disabled={missingEmail}
+                    className="px-6 py-2 bg-[#2a00ff] text-white font-bold rounded-lg hover:bg-[#2a00ff]/80 shadow-lg shadow-[#2a00ff]/20 transition-colors disabled:opacity-50"
+                  >
+                      Import {fileName}
+                  </button>
+              </div>
+          </div>
+      </div>
+  );
+};
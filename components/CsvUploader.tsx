@@ -1,15 +1,28 @@
 
 import React, { useRef, useState } from 'react';
-import { Upload, FileSpreadsheet, CheckCircle, Loader2, AlertTriangle, History, Trash2, Database } from 'lucide-react';
-import { DeveloperRecord, DatasetVersion } from '../types';
+import { Upload, FileSpreadsheet, CheckCircle, Loader2, AlertTriangle, History, Trash2, Database, X, GitMerge, ShieldCheck } from 'lucide-react';
+import { BlocklistEntry, DeveloperRecord, DatasetVersion, FraudRule, ImportProfile, IngestionMode, IngestionReport, MergeSummary, StrictModeThresholds } from '../types';
 import { processIngestedData } from '../services/dataProcessing';
+import { DEFAULT_FRAUD_RULES } from '../services/fraudRules';
+import { CsvPreview, parseCsvFile, previewCsvFile } from '../services/csvIngestion';
+import { ColumnMap, mappedRecordFields } from '../services/csvMapping';
+import { mergeDevelopers } from '../services/datasetMerge';
+import { loadImportProfiles, saveImportProfiles } from '../services/importProfiles';
+import { DEFAULT_STRICT_THRESHOLDS, evaluateStrictMode } from '../services/ingestionValidation';
+import { ColumnMappingWizard } from './ColumnMappingWizard';
+import { ValidationReport } from './ValidationReport';
+import { WalletCheckStatus } from '../services/walletVerification';
 
 interface CsvUploaderProps {
-  onDataLoaded: (data: DeveloperRecord[], fileName: string) => void;
+  onDataLoaded: (data: DeveloperRecord[], fileName: string, merge?: MergeSummary) => void;
   versions?: DatasetVersion[];
   activeVersionId?: string;
   onVersionSelect?: (id: string) => void;
   onDeleteVersion?: (id: string) => void;
+  fraudRules?: FraudRule[]; // Active ruleset used to compute risk flags
+  fraudBlocklist?: BlocklistEntry[]; // Confirmed-fraud identifiers for the Known Fraud Link rule
+  onVerifyWallets?: (id: string) => void;
+  walletCheck?: WalletCheckStatus | null;
 }
 
 export const CsvUploader: React.FC<CsvUploaderProps> = ({ 
@@ -17,7 +30,11 @@ export const CsvUploader: React.FC<CsvUploaderProps> = ({
     versions = [], 
     activeVersionId, 
     onVersionSelect, 
-    onDeleteVersion 
+    onDeleteVersion,
+    fraudRules = DEFAULT_FRAUD_RULES,
+    fraudBlocklist = [],
+    onVerifyWallets,
+    walletCheck
 }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [isProcessing, setIsProcessing] = useState(false);
@@ -26,271 +43,151 @@ export const CsvUploader: React.FC<CsvUploaderProps> = ({
   const [fileName, setFileName] = useState<string | null>(null);
   const [loadedCount, setLoadedCount] = useState<number>(0);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
-  // Robust Stateful CSV Parser
-  const parseCSV = (text: string, onProgress: (percentage: number) => void): Promise<DeveloperRecord[]> => {
-      return new Promise((resolve, reject) => {
-          setTimeout(() => {
-              try {
-                  // 1. Handle BOM
-                  let content = text;
-                  if (content.charCodeAt(0) === 0xFEFF) {
-                      content = content.slice(1);
-                  }
-
-                  const lines = content.split(/\r\n|\n|\r/).filter(l => l.trim().length > 0);
-                  if (lines.length < 2) throw new Error("File is empty or missing data rows.");
-
-                  // 2. Detect Delimiter (Comma, Semicolon, Tab)
-                  const firstLine = lines[0];
-                  const commaCount = (firstLine.match(/,/g) || []).length;
-                  const semiCount = (firstLine.match(/;/g) || []).length;
-                  const tabCount = (firstLine.match(/\t/g) || []).length;
-                  
-                  let delimiter = ',';
-                  if (semiCount > commaCount && semiCount > tabCount) delimiter = ';';
-                  if (tabCount > commaCount && tabCount > semiCount) delimiter = '\t';
-
-                  console.log(`Detected delimiter: '${delimiter}'`);
-
-                  // 3. Split Function
-                  const splitLine = (line: string): string[] => {
-                      const result: string[] = [];
-                      let current = '';
-                      let inQuotes = false;
-                      
-                      for (let i = 0; i < line.length; i++) {
-                          const char = line[i];
-                          if (char === '"' && line[i+1] === '"') {
-                              current += '"';
-                              i++;
-                              continue;
-                          }
-                          
-                          if (char === '"') {
-                              inQuotes = !inQuotes;
-                          } else if (char === delimiter && !inQuotes) {
-                              result.push(current.trim());
-                              current = '';
-                          } else {
-                              current += char;
-                          }
-                      }
-                      result.push(current.trim());
-                      
-                      return result.map(val => {
-                          if (val.startsWith('"') && val.endsWith('"')) {
-                              return val.slice(1, -1);
-                          }
-                          return val;
-                      });
-                  };
-
-                  // 4. Parse Headers
-                  const headers = splitLine(lines[0]).map(h => h.toLowerCase().replace(/\s+/g, ' ').trim());
-                  
-                  // 5. Map Columns per PRD Section 3.1
-                  const findIndex = (candidates: string[]) => {
-                      const normalizedCandidates = candidates.map(c => c.toLowerCase());
-                      let idx = headers.findIndex(h => normalizedCandidates.includes(h));
-                      if (idx === -1) {
-                          idx = headers.findIndex(h => normalizedCandidates.some(c => h.includes(c) || c.includes(h)));
-                      }
-                      return idx;
-                  };
-
-                  const map = {
-                      email: findIndex(['email']),
-                      firstName: findIndex(['first name', 'firstname']),
-                      lastName: findIndex(['last name', 'lastname']),
-                      phone: findIndex(['phone number', 'phone']),
-                      country: findIndex(['country']),
-                      // Expanded keywords for membership
-                      membership: findIndex(['accepted membership', 'membership', 'is member', 'member status', 'membership status']),
-                      marketing: findIndex(['accepted marketing', 'marketing']),
-                      wallet: findIndex(['wallet address', 'wallet']),
-                      // Explicit mapping: Code -> partnerCode, Partner -> partnerName
-                      partnerCode: findIndex(['code', 'partner code']), 
-                      partnerName: findIndex(['partner', 'community', 'partner name']),
-                      percentage: findIndex(['percentage completed', 'percentage']),
-                      createdAt: findIndex(['created at', 'start date']),
-                      completedAt: findIndex(['completed at', 'completion date']),
-                      finalScore: findIndex(['final score']),
-                      finalGrade: findIndex(['final grade', 'grade']),
-                      caStatus: findIndex(['ca status'])
-                  };
-
-                  // Fallback Logic: If Code is missing but Partner Name exists, use Name as Code (and vice versa)
-                  if (map.partnerCode === -1 && map.partnerName !== -1) {
-                      map.partnerCode = map.partnerName;
-                  }
-                  if (map.partnerName === -1 && map.partnerCode !== -1) {
-                      map.partnerName = map.partnerCode;
-                  }
-
-                  if (map.email === -1) {
-                       if (map.partnerCode !== -1 && headers.length < 5) {
-                          throw new Error("It looks like you uploaded a Community Registry file. Use Admin Settings > Registry.");
-                      }
-                      throw new Error(`Column 'Email' not found. Found: ${headers.join(', ')}`);
-                  }
-
-                  // 6. Process Rows
-                  const parsedData: DeveloperRecord[] = [];
-                  const totalRows = lines.length - 1;
-                  const CHUNK_SIZE = 5000; 
-                  const batchId = `batch_${Date.now()}`;
-
-                  let currentIndex = 1;
-
-                  const processBatch = () => {
-                      const end = Math.min(currentIndex + CHUNK_SIZE, lines.length);
-                      
-                      for (let i = currentIndex; i < end; i++) {
-                          const cols = splitLine(lines[i]);
-                          if (cols.length < 2) continue; 
-
-                          const getVal = (idx: number) => (idx !== -1 && cols[idx] !== undefined ? cols[idx] : '');
-
-                          // ROBUST BOOLEAN PARSING (Supports French: Vrai/Oui)
-                          const parseBool = (str: string) => {
-                              if (!str) return false;
-                              const s = str.trim().toLowerCase();
-                              // Capture variants: "vrai", "oui", "active", "member", "checked", "joined", "1", "true", "yes"
-                              return ['true', 'yes', '1', 'y', 'on', 'active', 'member', 'checked', 'joined', 'vrai', 'oui'].includes(s);
-                          };
-                          
-                          const parseDate = (str: string) => {
-                              if (!str) return '';
-                              if (str.includes('/')) {
-                                  const parts = str.split(/[\/\s]/);
-                                  const p0 = parseInt(parts[0]);
-                                  if (!isNaN(p0) && p0 > 12) {
-                                      // DD/MM/YYYY
-                                      return new Date(`${parts[2]}-${parts[1]}-${parts[0]}`).toISOString();
-                                  }
-                              }
-                              const d = new Date(str);
-                              return isNaN(d.getTime()) ? new Date().toISOString() : d.toISOString();
-                          };
-
-                          const parseIntSafe = (str: string) => {
-                              if (!str) return 0;
-                              const clean = str.replace(/[^0-9.-]/g, '');
-                              const v = parseFloat(clean);
-                              return isNaN(v) ? 0 : Math.round(v);
-                          };
-
-                          const parseGrade = (str: string): 'Pass' | 'Fail' | 'Pending' => {
-                              if (!str) return 'Pending';
-                              const s = str.trim().toLowerCase();
-                              if (s === 'pass' || s === 'passed' || s.includes('pass') || s === 'réussi' || s === 'reussi' || s === 'succès') return 'Pass';
-                              if (s === 'fail' || s === 'failed' || s === 'échoué' || s === 'echoue') return 'Fail';
-                              return 'Pending';
-                          };
-
-                          let pCode = getVal(map.partnerCode);
-                          // Clean up if code looks like "HEDERA-FR - Paris"
-                          if (pCode && pCode.includes(' - ')) pCode = pCode.split(' - ')[0];
-
-                          let pName = getVal(map.partnerName);
-                          // If Name is empty but Code exists, fallback
-                          if (!pName && pCode) pName = pCode;
-
-                          parsedData.push({
-                              id: `row_${i}_${Date.now()}`,
-                              email: getVal(map.email) || `unknown_${i}@noemail.com`,
-                              firstName: getVal(map.firstName),
-                              lastName: getVal(map.lastName),
-                              phone: getVal(map.phone),
-                              country: getVal(map.country) || 'Unknown',
-                              acceptedMembership: parseBool(getVal(map.membership)),
-                              acceptedMarketing: parseBool(getVal(map.marketing)),
-                              walletAddress: getVal(map.wallet),
-                              partnerCode: pCode || 'UNKNOWN',
-                              partnerName: pName || 'UNKNOWN',
-                              percentageCompleted: parseIntSafe(getVal(map.percentage)),
-                              createdAt: parseDate(getVal(map.createdAt)),
-                              completedAt: getVal(map.completedAt) ? parseDate(getVal(map.completedAt)) : null,
-                              finalScore: parseIntSafe(getVal(map.finalScore)),
-                              finalGrade: parseGrade(getVal(map.finalGrade)),
-                              caStatus: getVal(map.caStatus),
-                              computed_riskFlags: [], // Populated in dataProcessing
-                              ingestionBatchId: batchId
-                          });
-                      }
-
-                      currentIndex = end;
-                      onProgress(Math.round(((currentIndex - 1) / totalRows) * 100));
-
-                      if (currentIndex < lines.length) {
-                          setTimeout(processBatch, 0);
-                      } else {
-                          resolve(parsedData);
-                      }
-                  };
-
-                  processBatch();
-
-              } catch (err: any) {
-                  reject(err);
-              }
-          }, 100);
-      });
-  };
+  // Column Mapping Wizard
+  const [pendingImport, setPendingImport] = useState<{ file: File; preview: CsvPreview } | null>(null);
+  const [profiles, setProfiles] = useState<ImportProfile[]>(loadImportProfiles);
+
+  // Validation & Strict Mode
+  const [validation, setValidation] = useState<{ report: IngestionReport; fileName: string; blockedReasons: string[] } | null>(null);
+  const [strictMode, setStrictMode] = useState(false);
+  const [thresholds, setThresholds] = useState<StrictModeThresholds>(DEFAULT_STRICT_THRESHOLDS);
+
+  // Snapshot replaces the dataset; Merge upserts the file into the active version by email
+  const [mode, setMode] = useState<IngestionMode>('snapshot');
+  const [lastMerge, setLastMerge] = useState<MergeSummary | null>(null);
+  const activeVersion = versions.find(v => v.id === activeVersionId);
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
 
+    setFileName(file.name);
+    setLoadedCount(0);
+    setErrorMsg(null);
+    setValidation(null);
+    setLastMerge(null);
+
+    try {
+        const preview = await previewCsvFile(file);
+        setPendingImport({ file, preview });
+    } catch (err: any) {
+        console.error(err);
+        setErrorMsg(err.message || "Unknown parsing error");
+    }
+  };
+
+  const handleSaveProfile = (profile: ImportProfile) => {
+      const next = [...profiles, profile];
+      setProfiles(next);
+      saveImportProfiles(next);
+  };
+
+  const handleDeleteProfile = (id: string) => {
+      const next = profiles.filter(p => p.id !== id);
+      setProfiles(next);
+      saveImportProfiles(next);
+  };
+
+  const handleSelectSheet = async (sheet: string) => {
+      if (!pendingImport) return;
+      try {
+          const preview = await previewCsvFile(pendingImport.file, 5, undefined, sheet);
+          setPendingImport({ file: pendingImport.file, preview });
+      } catch (err: any) {
+          console.error(err);
+          setPendingImport(null);
+          setErrorMsg(err.message || "Unknown parsing error");
+      }
+  };
+
+  const handleCancelMapping = () => {
+      setPendingImport(null);
+      setFileName(null);
+  };
+
+  const handleConfirmMapping = async (mapping: ColumnMap, profileId?: string) => {
+    if (!pendingImport) return;
+    const { file, preview } = pendingImport;
     const fName = file.name;
-    setFileName(fName);
+    setPendingImport(null);
+
+    if (profileId) {
+        const next = profiles.map(p => p.id === profileId ? { ...p, lastUsedAt: new Date().toISOString() } : p);
+        setProfiles(next);
+        saveImportProfiles(next);
+    }
+
     setIsProcessing(true);
     setProgress(0);
-    setLoadedCount(0);
-    setErrorMsg(null);
-    setStatusMessage('Reading file...');
-
-    const reader = new FileReader();
-    
-    reader.onload = async (event) => {
-        const text = event.target?.result as string;
-        if (!text) {
-            setErrorMsg("Failed to read file content.");
+    setStatusMessage(`Parsing ${preview.format.toUpperCase()} structure...`);
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    try {
+        const { records: rawData, blankFields, report } = await parseCsvFile(file, {
+            mapping,
+            sheet: preview.sheet,
+            signal: controller.signal,
+            onProgress: ({ percentage, rowCount }) => {
+                setProgress(percentage);
+                setStatusMessage(`Parsing ${preview.format.toUpperCase()} structure... ${rowCount.toLocaleString()} rows read`);
+            }
+        });
+
+        const reasons = strictMode ? evaluateStrictMode(report, thresholds) : [];
+        setValidation({ report, fileName: fName, blockedReasons: reasons });
+        if (reasons.length > 0) {
+            setFileName(null);
             setIsProcessing(false);
             return;
         }
 
-        setStatusMessage('Parsing CSV structure...');
-        
-        try {
-            const rawData = await parseCSV(text, (pct) => setProgress(pct));
-            
-            setStatusMessage('Running Logic (Fraud Detection & Time Fixes)...');
-            
-            setTimeout(() => {
-                const processed = processIngestedData(rawData);
-                setLoadedCount(processed.length);
-                onDataLoaded(processed, fName); 
-                setIsProcessing(false);
+        setStatusMessage('Running Logic (Fraud Detection & Time Fixes)...');
+
+        // Detection runs after a tick so the status message renders; this callback is outside the
+        // surrounding try, so it reports its own failures
+        setTimeout(() => {
+            try {
+                if (mode === 'merge' && activeVersion) {
+                    const { records, summary } = mergeDevelopers(activeVersion.data, rawData, mappedRecordFields(mapping), blankFields, activeVersion.id);
+                    // Re-run detection over the whole merged set: Sybil & batch patterns span old and new rows
+                    const processed = processIngestedData(records, fraudRules, { blocklist: fraudBlocklist });
+                    setLoadedCount(processed.length);
+                    setLastMerge(summary);
+                    onDataLoaded(processed, fName, summary);
+                } else {
+                    const processed = processIngestedData(rawData, fraudRules, { blocklist: fraudBlocklist });
+                    setLoadedCount(processed.length);
+                    onDataLoaded(processed, fName);
+                }
                 setStatusMessage('Complete');
-            }, 50);
+            } catch (err: unknown) {
+                console.error(err);
+                setFileName(null);
+                setErrorMsg((err instanceof Error && err.message) || "Unknown processing error");
+            } finally {
+                setIsProcessing(false);
+            }
+        }, 50);
 
-        } catch (err: any) {
+    } catch (err: unknown) {
+        if (err instanceof Error && err.name === 'AbortError') {
+            setFileName(null);
+        } else {
             console.error(err);
-            setErrorMsg(err.message || "Unknown parsing error");
-            setIsProcessing(false);
+            setErrorMsg((err instanceof Error && err.message) || "Unknown parsing error");
         }
-    };
-
-    reader.onerror = () => {
-        setErrorMsg('Error reading file from disk.');
         setIsProcessing(false);
-    };
-
-    reader.readAsText(file);
+    } finally {
+        abortRef.current = null;
+    }
   };
 
+  const handleCancel = () => abortRef.current?.abort();
+
   const triggerUpload = () => {
       fileInputRef.current?.value ? (fileInputRef.current.value = '') : null;
       fileInputRef.current?.click();
@@ -315,7 +212,7 @@ export const CsvUploader: React.FC<CsvUploaderProps> = ({
                 ) : isProcessing ? (
                     statusMessage
                 ) : (
-                    "Upload the Master CSV (Max 100MB). Matches 'Email', 'Code', 'Partner', 'Wallet' and auto-corrects timestamps."
+                    "Upload the Master CSV, an Excel workbook (.xlsx) or a JSON / NDJSON export. Review the detected column mapping (or apply a saved profile) before import; timestamps are auto-corrected."
                 )}
             </p>
             </div>
@@ -332,6 +229,12 @@ export const CsvUploader: React.FC<CsvUploaderProps> = ({
                             style={{ width: `${progress}%` }}
                         ></div>
                     </div>
+                    <button 
+                        onClick={handleCancel}
+                        className="mx-auto px-4 py-1.5 text-xs font-bold text-slate-500 dark:text-slate-400 hover:text-red-600 dark:hover:text-red-400 flex items-center gap-1 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+                    >
+                        <X className="w-3 h-3" /> Cancel Import
+                    </button>
                 </div>
             )}
             
@@ -342,15 +245,49 @@ export const CsvUploader: React.FC<CsvUploaderProps> = ({
                     className="px-6 py-2.5 bg-slate-900 dark:bg-white text-white dark:text-slate-900 rounded-lg font-medium hover:bg-slate-800 dark:hover:bg-slate-200 flex items-center gap-2 shadow-lg shadow-slate-900/20 dark:shadow-white/10 transition-all hover:scale-105"
                 >
                     <Upload className="w-4 h-4" />
-                    {fileName ? 'Upload Different File' : 'Select CSV File'}
+                    {fileName ? 'Upload Different File' : 'Select File'}
                 </button>
             </div>
             )}
 
-            {fileName && !isProcessing && !errorMsg && (
+            {!isProcessing && activeVersion && (
+                <div className="flex bg-slate-100 dark:bg-slate-800 p-1 rounded-lg text-xs font-bold">
+                    <button onClick={() => setMode('snapshot')} className={`px-3 py-1.5 rounded-md transition-colors ${mode === 'snapshot' ? 'bg-white dark:bg-slate-700 text-slate-900 dark:text-white shadow-sm' : 'text-slate-500 dark:text-slate-400'}`}>
+                        New Snapshot
+                    </button>
+                    <button onClick={() => setMode('merge')} className={`px-3 py-1.5 rounded-md transition-colors flex items-center gap-1.5 ${mode === 'merge' ? 'bg-white dark:bg-slate-700 text-[#2a00ff] shadow-sm' : 'text-slate-500 dark:text-slate-400'}`} title={`Upsert rows into ${activeVersion.fileName} by email`}>
+                        <GitMerge className="w-3 h-3" /> Merge into Active Version
+                    </button>
+                </div>
+            )}
+
+            {!isProcessing && (
+                <div className="flex flex-wrap items-center justify-center gap-4 text-xs text-slate-500 dark:text-slate-400">
+                    <label className="flex items-center gap-2 cursor-pointer font-bold">
+                        <input type="checkbox" checked={strictMode} onChange={e => setStrictMode(e.target.checked)} className="w-4 h-4 text-[#2a00ff] rounded focus:ring-[#2a00ff]" />
+                        Strict Mode
+                    </label>
+                    {strictMode && (
+                        <>
+                            <label className="flex items-center gap-1.5">
+                                Max rows with errors
+                                <input type="number" min={0} step={0.1} value={thresholds.maxErrorRowsPct} onChange={e => setThresholds({ ...thresholds, maxErrorRowsPct: Number(e.target.value) })} className="w-16 p-1 bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-600 rounded text-center text-slate-900 dark:text-white" />
+                                %
+                            </label>
+                            <label className="flex items-center gap-1.5">
+                                Max skipped rows
+                                <input type="number" min={0} value={thresholds.maxSkippedRows} onChange={e => setThresholds({ ...thresholds, maxSkippedRows: Number(e.target.value) })} className="w-16 p-1 bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-600 rounded text-center text-slate-900 dark:text-white" />
+                            </label>
+                        </>
+                    )}
+                </div>
+            )}
+
+            {fileName && !isProcessing && !errorMsg && !pendingImport && loadedCount > 0 && (
                 <div className="mt-2 flex items-center gap-2 text-green-700 dark:text-green-300 bg-green-50 dark:bg-green-900/30 px-4 py-2 rounded-lg text-sm font-medium border border-green-100 dark:border-green-800 animate-fade-in">
                     <CheckCircle className="w-4 h-4" />
                     {loadedCount.toLocaleString()} records loaded successfully.
+                    {lastMerge && ` Merged: ${lastMerge.added.toLocaleString()} new, ${lastMerge.updated.toLocaleString()} updated, ${lastMerge.unchanged.toLocaleString()} unchanged.`}
                 </div>
             )}
         </div>
@@ -358,11 +295,34 @@ export const CsvUploader: React.FC<CsvUploaderProps> = ({
             type="file" 
             ref={fileInputRef} 
             className="hidden" 
-            accept=".csv,.txt" 
+            accept=".csv,.txt,.xlsx,.json,.ndjson,.jsonl" 
             onChange={handleFileChange}
         />
         </div>
 
+        {validation && (
+            <ValidationReport
+                report={validation.report}
+                fileName={validation.fileName}
+                blockedReasons={validation.blockedReasons}
+                onDismiss={() => setValidation(null)}
+            />
+        )}
+
+        {pendingImport && (
+            <ColumnMappingWizard
+                key={pendingImport.preview.sheet || 'default'}
+                fileName={pendingImport.file.name}
+                preview={pendingImport.preview}
+                profiles={profiles}
+                onSaveProfile={handleSaveProfile}
+                onDeleteProfile={handleDeleteProfile}
+                onConfirm={handleConfirmMapping}
+                onCancel={handleCancelMapping}
+                onSelectSheet={handleSelectSheet}
+            />
+        )}
+
         {/* VERSION HISTORY */}
         {versions.length > 0 && (
              <div className="bg-white dark:bg-[#1c1b22] rounded-xl border border-slate-200 dark:border-white/5 shadow-sm overflow-hidden animate-fade-in">
@@ -376,6 +336,7 @@ export const CsvUploader: React.FC<CsvUploaderProps> = ({
                              <th className="px-6 py-3">File Name</th>
                              <th className="px-6 py-3">Upload Date</th>
                              <th className="px-6 py-3">Records</th>
+                             <th className="px-6 py-3">Wallets</th>
                              <th className="px-6 py-3 text-right">Actions</th>
                          </tr>
                      </thead>
@@ -385,9 +346,29 @@ export const CsvUploader: React.FC<CsvUploaderProps> = ({
                                  <td className="px-6 py-4 font-medium text-slate-900 dark:text-white flex items-center gap-2">
                                      {v.id === activeVersionId && <CheckCircle className="w-4 h-4 text-[#2a00ff]" />}
                                      {v.fileName}
+                                     {v.mode === 'merge' && v.mergeSummary && (
+                                         <span className="px-2 py-0.5 rounded text-[10px] font-bold bg-[#2a00ff]/10 text-[#2a00ff] flex items-center gap-1" title={Object.entries(v.mergeSummary.fieldChangeCounts).map(([f, n]) => `${f}: ${n}`).join(', ') || 'No field changes'}>
+                                             <GitMerge className="w-3 h-3" /> +{v.mergeSummary.added} / ~{v.mergeSummary.updated}
+                                         </span>
+                                     )}
                                  </td>
                                  <td className="px-6 py-4 text-slate-500 dark:text-slate-400">{new Date(v.uploadDate).toLocaleString()}</td>
                                  <td className="px-6 py-4 font-mono text-slate-600 dark:text-slate-300">{v.recordCount.toLocaleString()}</td>
+                                 <td className="px-6 py-4 text-xs">
+                                     {walletCheck?.versionId === v.id ? (
+                                         walletCheck.error ? (
+                                             <span className="text-red-500 flex items-center gap-1" title={walletCheck.error}><AlertTriangle className="w-3 h-3" /> Check failed</span>
+                                         ) : (
+                                             <span className="text-[#2a00ff] flex items-center gap-1"><Loader2 className="w-3 h-3 animate-spin" /> {walletCheck.done.toLocaleString()} / {walletCheck.total.toLocaleString()}</span>
+                                         )
+                                     ) : v.walletVerification ? (
+                                         <span className="text-slate-500 dark:text-slate-400" title={`Source: ${v.walletVerification.source}${v.walletVerification.failed ? ` · ${v.walletVerification.failed} lookups failed` : ''}`}>
+                                             {v.walletVerification.wallets.toLocaleString()} verified · {new Date(v.walletVerification.checkedAt).toLocaleDateString()}
+                                         </span>
+                                     ) : (
+                                         <span className="text-slate-400">Not verified</span>
+                                     )}
+                                 </td>
                                  <td className="px-6 py-4 text-right flex items-center justify-end gap-3">
                                      {v.id !== activeVersionId && onVersionSelect && (
                                          <button 
@@ -397,6 +378,16 @@ export const CsvUploader: React.FC<CsvUploaderProps> = ({
                                              <Database className="w-3 h-3" /> Switch
                                          </button>
                                      )}
+                                     {onVerifyWallets && (
+                                         <button
+                                            onClick={() => onVerifyWallets(v.id)}
+                                            disabled={!!walletCheck && !walletCheck.error}
+                                            title="Check the wallets against the Hedera mirror node"
+                                            className="text-slate-600 dark:text-slate-300 font-bold text-xs flex items-center gap-1 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 px-3 py-1.5 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors disabled:opacity-50"
+                                         >
+                                             <ShieldCheck className="w-3 h-3" /> {v.walletVerification ? 'Re-verify' : 'Verify'} Wallets
+                                         </button>
+                                     )}
                                      {onDeleteVersion && (
                                          <button 
                                             onClick={() => onDeleteVersion(v.id)}
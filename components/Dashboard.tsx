@@ -1,11 +1,15 @@
 
 import React, { useEffect, useState, useMemo } from 'react';
-import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, BarChart, Bar, Cell } from 'recharts';
-import { Users, Award, Globe, Clock, AlertTriangle, Activity, Filter, BarChart2, Mail, Flag, Calendar, Check, Sparkles } from 'lucide-react';
+import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, BarChart, Bar, Cell, ReferenceLine } from 'recharts';
+import { Users, Award, Globe, Clock, AlertTriangle, Activity, Filter, BarChart2, Mail, Flag, Calendar, Check, Sparkles, Zap, ShieldAlert } from 'lucide-react';
 import { StatCard } from './StatCard';
 import { DashboardMetrics, DeveloperRecord, TimeframeOption } from '../types';
 import { calculateDashboardMetrics, generateChartData, generateLeaderboard } from '../services/dataProcessing';
 import { generateExecutiveSummary } from '../services/geminiService';
+import { useCollection, useRepositories, useWorkspaceSettings } from '../services/repositoryContext';
+import { resolveFraudRules } from '../services/fraudRules';
+import { BURST_FIELD_LABELS, BURST_RULE_ID, GLOBAL_SCOPE, burstSettings, detectBursts } from '../services/burstDetection';
+import { calculateCommunityRisk } from '../services/communityRisk';
 
 interface DashboardProps {
   data: DeveloperRecord[];
@@ -29,6 +33,11 @@ export const Dashboard: React.FC<DashboardProps> = ({
     endDate, 
     setEndDate 
 }) => {
+  const [settings] = useWorkspaceSettings();
+  const { riskScoreThreshold } = settings;
+  const repositories = useRepositories();
+  const storedRules = useCollection(repositories.fraudRules);
+
   // Metrics State
   const [metrics, setMetrics] = useState<DashboardMetrics | null>(null);
   const [aiSummary, setAiSummary] = useState<string>("Waiting for data...");
@@ -36,6 +45,7 @@ export const Dashboard: React.FC<DashboardProps> = ({
 
   // Filter State (Community is still local to Dashboard for now)
   const [activeCommunity, setActiveCommunity] = useState<string>('All');
+  const [showAllCommunities, setShowAllCommunities] = useState(false);
   
   // Pending State for "Apply" workflow
   const [pendingCommunity, setPendingCommunity] = useState<string>('All');
@@ -112,14 +122,42 @@ export const Dashboard: React.FC<DashboardProps> = ({
   }, [data, activeCommunity]);
 
   useEffect(() => {
-    const calculated = calculateDashboardMetrics(communityFilteredData, calculatedDateRange.start, calculatedDateRange.end);
+    const calculated = calculateDashboardMetrics(communityFilteredData, calculatedDateRange.start, calculatedDateRange.end, riskScoreThreshold);
     setMetrics(calculated);
-  }, [communityFilteredData, calculatedDateRange]);
+  }, [communityFilteredData, calculatedDateRange, riskScoreThreshold]);
 
   const chartData = useMemo(() => {
     return generateChartData(communityFilteredData, calculatedDateRange.start, calculatedDateRange.end);
   }, [communityFilteredData, calculatedDateRange]);
 
+  // Bursts of the selected community (program-wide ones for the global view) within the period
+  const bursts = useMemo(() => {
+      const rule = resolveFraudRules(storedRules).find(r => r.id === BURST_RULE_ID);
+      if (!rule || !rule.enabled) return [];
+      const { start, end } = calculatedDateRange;
+      return detectBursts(data, burstSettings(rule.params)).filter(b =>
+          b.scope === (activeCommunity === 'All' ? GLOBAL_SCOPE : activeCommunity) &&
+          (!start || new Date(b.end) >= start) && (!end || new Date(b.start) <= end));
+  }, [data, storedRules, activeCommunity, calculatedDateRange]);
+
+  // One annotation per chart point that contains the start of a burst
+  const burstAnnotations = useMemo(() => {
+      const byPoint = new Map<string, number>();
+      bursts.forEach(b => {
+          const startMs = new Date(b.start).getTime();
+          const point = [...chartData].reverse().find(p => p.periodStart <= startMs);
+          if (point) byPoint.set(point.name, (byPoint.get(point.name) || 0) + 1);
+      });
+      return Array.from(byPoint.entries());
+  }, [bursts, chartData]);
+
+  // Per-community fraud concentration over the whole program, for the period
+  const communityRisk = useMemo(() => {
+      return calculateCommunityRisk(data, calculatedDateRange.start, calculatedDateRange.end, settings);
+  }, [data, calculatedDateRange, settings]);
+  const alertedCommunities = communityRisk.rows.filter(r => r.alerts.length > 0).length;
+  const visibleRiskRows = showAllCommunities ? communityRisk.rows : communityRisk.rows.slice(0, 10);
+
   const leaderboardData = useMemo(() => {
       return generateLeaderboard(communityFilteredData);
   }, [communityFilteredData]);
@@ -359,8 +397,8 @@ export const Dashboard: React.FC<DashboardProps> = ({
           value={`${metrics.potentialFakeAccounts} (${metrics.potentialFakeAccountsPct.toFixed(1)}%)`}
           icon={<AlertTriangle className="w-5 h-5" />}
           alert={metrics.potentialFakeAccounts > 0}
-          tooltip="Includes Speed Runs (<4h), Deep Accounts (Batch Patterns), and Shared Wallets."
-          onClick={() => onNavigate('developers', { statusFilter: 'Flagged', communityFilter: activeCommunity })}
+          tooltip={`Developers with a risk score of ${riskScoreThreshold} or more (weighted Speed Runs, Bot Activity, Shared Wallets, Batch Patterns...).`}
+          onClick={() => onNavigate('developers', { statusFilter: 'High Risk', communityFilter: activeCommunity })}
         />
         <StatCard
           title="Rapid Completions (<5h)"
@@ -410,6 +448,9 @@ export const Dashboard: React.FC<DashboardProps> = ({
                     <Tooltip content={<CustomTooltip />} />
                     <Area type="monotone" dataKey="registrations" stroke="#2a00ff" strokeWidth={3} fillOpacity={1} fill="url(#colorReg)" />
                     <Area type="monotone" dataKey="certifications" stroke="#a522dd" strokeWidth={3} fillOpacity={1} fill="url(#colorCert)" />
+                    {burstAnnotations.map(([name, count]) => (
+                        <ReferenceLine key={name} x={name} stroke="#dc2626" strokeDasharray="4 4" label={{ value: count > 1 ? `Burst ×${count}` : 'Burst', position: 'insideTop', fill: '#dc2626', fontSize: 10, fontWeight: 700 }} />
+                    ))}
                 </AreaChart>
                 </ResponsiveContainer>
             ) : (
@@ -418,6 +459,19 @@ export const Dashboard: React.FC<DashboardProps> = ({
                 </div>
             )}
           </div>
+          {bursts.length > 0 && (
+              <div className="mt-6 pt-4 border-t border-slate-200 dark:border-white/5 space-y-1.5">
+                  {bursts.slice(0, 5).map(b => (
+                      <div key={`${b.field}|${b.start}`} className="flex items-center gap-2 text-xs text-slate-600 dark:text-slate-300">
+                          <Zap className="w-3 h-3 text-red-500 shrink-0" />
+                          <span className="font-bold">{b.count} {BURST_FIELD_LABELS[b.field].toLowerCase()}</span>
+                          <span className="text-slate-400">between {new Date(b.start).toLocaleString()} and {new Date(b.end).toLocaleTimeString()}</span>
+                          <span className="text-slate-400">(~{b.expected} expected)</span>
+                      </div>
+                  ))}
+                  {bursts.length > 5 && <div className="text-xs text-slate-400">+{bursts.length - 5} more bursts</div>}
+              </div>
+          )}
         </div>
 
         {/* Leaderboard Bar Chart */}
@@ -460,6 +514,68 @@ export const Dashboard: React.FC<DashboardProps> = ({
             </div>
         </div>
       </div>
+
+      {/* Fraud Concentration by Community */}
+      {communityRisk.rows.length > 0 && (
+          <div className="glass-card rounded-2xl bg-white dark:bg-transparent border border-slate-200 dark:border-white/5 overflow-hidden">
+              <div className="p-6 flex flex-col md:flex-row justify-between md:items-center gap-2">
+                  <h3 className="font-bold text-slate-800 dark:text-white flex items-center gap-3 text-lg">
+                      <div className="w-1 h-6 bg-red-500 rounded-full shadow-[0_0_10px_#ef4444]"></div>
+                      Fraud Concentration by Community
+                      {alertedCommunities > 0 && <span className="text-xs font-bold px-2 py-0.5 rounded-full bg-red-50 dark:bg-red-900/30 text-red-600 dark:text-red-400 border border-red-200 dark:border-red-900/50">{alertedCommunities} alert{alertedCommunities > 1 ? 's' : ''}</span>}
+                  </h3>
+                  <p className="text-xs text-slate-500 dark:text-slate-400">
+                      Program baseline: {communityRisk.baseline.flaggedPct.toFixed(1)}% flagged · {communityRisk.baseline.speedRunPct.toFixed(1)}% speed-run certifications
+                  </p>
+              </div>
+              <table className="w-full text-sm text-left">
+                  <thead className="bg-slate-50 dark:bg-slate-900/50 text-slate-500 dark:text-slate-400 font-semibold border-y border-slate-200 dark:border-white/5">
+                      <tr>
+                          <th className="px-6 py-3">Community</th>
+                          <th className="px-6 py-3 text-right">Developers</th>
+                          <th className="px-6 py-3 text-right">Flagged</th>
+                          <th className="px-6 py-3 text-right">Certified</th>
+                          <th className="px-6 py-3 text-right">Speed Runs</th>
+                          <th className="px-6 py-3 text-right" title="Standard errors above (or below) the rest of the program">z-score</th>
+                          <th className="px-6 py-3">Alerts</th>
+                      </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100 dark:divide-white/5">
+                      {visibleRiskRows.map(row => (
+                          <tr
+                            key={row.partnerCode}
+                            onClick={() => onNavigate('developers', { statusFilter: 'High Risk', communityFilter: row.partnerCode })}
+                            className={`cursor-pointer transition-colors hover:bg-slate-50 dark:hover:bg-white/5 ${row.partnerCode === activeCommunity ? 'bg-[#2a00ff]/5' : ''}`}
+                          >
+                              <td className="px-6 py-3">
+                                  <div className="font-bold text-slate-800 dark:text-slate-200">{row.partnerName}</div>
+                                  {row.partnerName !== row.partnerCode && <div className="font-mono text-[10px] text-slate-400">{row.partnerCode}</div>}
+                              </td>
+                              <td className="px-6 py-3 text-right font-mono text-slate-600 dark:text-slate-300">{row.developers.toLocaleString()}</td>
+                              <td className={`px-6 py-3 text-right font-mono ${row.alerts.some(a => a.kind !== 'speed-run-share') ? 'text-red-600 dark:text-red-400 font-bold' : 'text-slate-600 dark:text-slate-300'}`}>{row.flagged} ({row.flaggedPct.toFixed(1)}%)</td>
+                              <td className="px-6 py-3 text-right font-mono text-slate-600 dark:text-slate-300">{row.certified.toLocaleString()}</td>
+                              <td className={`px-6 py-3 text-right font-mono ${row.alerts.some(a => a.kind === 'speed-run-share') ? 'text-red-600 dark:text-red-400 font-bold' : 'text-slate-600 dark:text-slate-300'}`}>{row.speedRuns} ({row.speedRunPct.toFixed(1)}%)</td>
+                              <td className="px-6 py-3 text-right font-mono text-slate-500 dark:text-slate-400">{row.zScore === null ? '—' : row.zScore.toFixed(1)}</td>
+                              <td className="px-6 py-3">
+                                  {row.alerts.length === 0 ? <span className="text-xs text-slate-400">—</span> : (
+                                      <div className="space-y-1">
+                                          {row.alerts.map(a => (
+                                              <div key={a.kind} className="flex items-center gap-1.5 text-xs text-red-600 dark:text-red-400"><ShieldAlert className="w-3 h-3 shrink-0" /> {a.message}</div>
+                                          ))}
+                                      </div>
+                                  )}
+                              </td>
+                          </tr>
+                      ))}
+                  </tbody>
+              </table>
+              {communityRisk.rows.length > 10 && (
+                  <button onClick={() => setShowAllCommunities(!showAllCommunities)} className="w-full py-3 text-center text-xs font-bold text-[#2a00ff] dark:text-cyan-400 border-t border-slate-100 dark:border-white/5 hover:bg-slate-50 dark:hover:bg-white/5">
+                      {showAllCommunities ? 'Show top 10' : `Show all ${communityRisk.rows.length} communities`}
+                  </button>
+              )}
+          </div>
+      )}
     </div>
   );
 };
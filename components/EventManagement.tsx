@@ -1,14 +1,15 @@
 import React, { useMemo, useState } from 'react';
 import { Calendar, MapPin, Users, Search, Mail, Plus, Save, Video, Target, UserPlus, X, ExternalLink, Globe, AlertTriangle, Clock } from 'lucide-react';
 import { DeveloperRecord, CommunityEvent } from '../types';
+import { useCollection, useRepositories, reportWriteError } from '../services/repositoryContext';
 
 interface EventManagementProps {
     data: DeveloperRecord[];
-    events: CommunityEvent[];
-    setEvents: React.Dispatch<React.SetStateAction<CommunityEvent[]>>;
 }
 
-export const EventManagement: React.FC<EventManagementProps> = ({ data, events, setEvents }) => {
+export const EventManagement: React.FC<EventManagementProps> = ({ data }) => {
+  const repositories = useRepositories();
+  const events = useCollection(repositories.events);
   const [showCreate, setShowCreate] = useState(false);
   
   // --- Form State ---
@@ -87,7 +88,7 @@ export const EventManagement: React.FC<EventManagementProps> = ({ data, events,
           checkedInCount: 0
       };
 
-      setEvents([...events, newEvent]);
+      repositories.events.save(newEvent).catch(reportWriteError);
       
       // Reset Form
       setShowCreate(false);
@@ -0,0 +1,143 @@
+import React, { useMemo, useState } from 'react';
+import { ClusterLinkType, DeveloperRecord } from '../types';
+import { BLOCKLIST_TYPES, BLOCKLIST_TYPE_LABELS, createBlocklistEntry, findBlocklistMatches } from '../services/fraudBlocklist';
+import { useCollection, useRepositories, useReviewer, reportWriteError } from '../services/repositoryContext';
+import { Ban, Info, Plus, Search, Trash2, AlertCircle } from 'lucide-react';
+
+interface FraudBlocklistPanelProps {
+  data: DeveloperRecord[]; // Active version, to show how many developers each entry matches
+}
+
+const VALUE_PLACEHOLDERS: Record<ClusterLinkType, string> = {
+    wallet: '0.0.12345 or 0x...',
+    phone: '+216 22 333 444',
+    nameRoot: 'John Doe',
+    emailRoot: 'jdoe01@example.com'
+};
+
+export const FraudBlocklistPanel: React.FC<FraudBlocklistPanelProps> = ({ data }) => {
+  const repositories = useRepositories();
+  const blocklist = useCollection(repositories.fraudBlocklist);
+  const { reviewer } = useReviewer();
+
+  const [newType, setNewType] = useState<ClusterLinkType>('wallet');
+  const [newValue, setNewValue] = useState('');
+  const [newNote, setNewNote] = useState('');
+  const [addError, setAddError] = useState<string | null>(null);
+  const [typeFilter, setTypeFilter] = useState<ClusterLinkType | 'All'>('All');
+  const [searchQuery, setSearchQuery] = useState('');
+
+  // Developers of the active version matching each entry
+  const matchCounts = useMemo(() => {
+      const counts = new Map<string, number>();
+      findBlocklistMatches(data, blocklist).forEach(ids => ids.forEach(id => counts.set(id, (counts.get(id) || 0) + 1)));
+      return counts;
+  }, [data, blocklist]);
+
+  const visibleEntries = useMemo(() => {
+      const query = searchQuery.trim().toLowerCase();
+      return blocklist
+          .filter(e => typeFilter === 'All' || e.type === typeFilter)
+          .filter(e => !query || e.value.includes(query) || e.note.toLowerCase().includes(query) || (e.sourceEmail || '').toLowerCase().includes(query))
+          .sort((a, b) => b.addedAt.localeCompare(a.addedAt));
+  }, [blocklist, typeFilter, searchQuery]);
+
+  const handleAdd = () => {
+      const entry = createBlocklistEntry(newType, newValue, newNote, reviewer?.name || 'Admin');
+      if (!entry) {
+          setAddError(`"${newValue}" is not a usable ${BLOCKLIST_TYPE_LABELS[newType].toLowerCase()}.`);
+          return;
+      }
+      if (blocklist.some(e => e.id === entry.id)) {
+          setAddError(`${BLOCKLIST_TYPE_LABELS[newType]} "${entry.value}" is already on the blocklist.`);
+          return;
+      }
+      repositories.fraudBlocklist.save(entry).catch(reportWriteError);
+      setNewValue('');
+      setNewNote('');
+      setAddError(null);
+  };
+
+  const handleRemove = (id: string) => {
+      if (!window.confirm('Remove this identifier from the blocklist? Future uploads will no longer be matched against it.')) return;
+      repositories.fraudBlocklist.remove(id).catch(reportWriteError);
+  };
+
+  return (
+      <div className="animate-fade-in space-y-6">
+          <div className="p-4 rounded-xl bg-blue-50 dark:bg-[#2a00ff]/10 border border-blue-100 dark:border-[#2a00ff]/20 text-sm text-blue-800 dark:text-blue-200 flex items-start gap-3">
+              <Info className="w-4 h-4 shrink-0 mt-0.5" />
+              <p>Confirming fraud in the review queue adds the account's identifiers here. Uploads are checked against the blocklist and matching developers get the Known Fraud Link flag.</p>
+          </div>
+
+          {/* ADD ENTRY */}
+          <div className="glass-panel p-6 rounded-xl border border-slate-200 dark:border-slate-700 shadow-sm space-y-4">
+              <h3 className="font-bold text-slate-900 dark:text-white flex items-center gap-2"><Ban className="w-4 h-4 text-red-500" /> Add Identifier</h3>
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+                  <select value={newType} onChange={e => setNewType(e.target.value as ClusterLinkType)} className="p-2.5 border border-slate-300 dark:border-slate-700 rounded-lg text-sm bg-white dark:bg-slate-900 text-slate-900 dark:text-white outline-none focus:ring-2 focus:ring-[#2a00ff]">
+                      {BLOCKLIST_TYPES.map(t => <option key={t} value={t}>{BLOCKLIST_TYPE_LABELS[t]}</option>)}
+                  </select>
+                  <input value={newValue} onChange={e => setNewValue(e.target.value)} placeholder={VALUE_PLACEHOLDERS[newType]} className="p-2.5 border border-slate-300 dark:border-slate-700 rounded-lg text-sm font-mono bg-white dark:bg-slate-900 text-slate-900 dark:text-white outline-none focus:ring-2 focus:ring-[#2a00ff]" />
+                  <input value={newNote} onChange={e => setNewNote(e.target.value)} placeholder="Note (e.g. case reference)" className="p-2.5 border border-slate-300 dark:border-slate-700 rounded-lg text-sm bg-white dark:bg-slate-900 text-slate-900 dark:text-white outline-none focus:ring-2 focus:ring-[#2a00ff]" />
+                  <button onClick={handleAdd} disabled={!newValue.trim()} className="px-4 py-2.5 bg-[#2a00ff] text-white rounded-lg text-sm font-bold shadow-sm hover:bg-[#2a00ff]/80 flex items-center justify-center gap-1.5 disabled:opacity-50">
+                      <Plus className="w-4 h-4" /> Add to Blocklist
+                  </button>
+              </div>
+              {addError && <div className="text-sm text-red-600 dark:text-red-400 flex items-center gap-2"><AlertCircle className="w-4 h-4" /> {addError}</div>}
+          </div>
+
+          {/* ENTRIES */}
+          <div className="bg-white dark:bg-slate-900/50 rounded-xl border border-slate-200 dark:border-slate-700 shadow-sm overflow-hidden">
+              <div className="px-6 py-4 border-b border-slate-200 dark:border-slate-700 flex flex-col md:flex-row gap-3 justify-between md:items-center bg-slate-50/50 dark:bg-slate-800/50">
+                  <h3 className="font-bold text-slate-800 dark:text-white">Fraud Blocklist <span className="text-slate-400 font-normal">({blocklist.length})</span></h3>
+                  <div className="flex gap-3">
+                      <div className="relative">
+                          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+                          <input value={searchQuery} onChange={e => setSearchQuery(e.target.value)} placeholder="Search..." className="pl-9 pr-3 py-2 border border-slate-300 dark:border-slate-700 rounded-lg text-sm bg-white dark:bg-slate-900 text-slate-900 dark:text-white outline-none focus:ring-2 focus:ring-[#2a00ff]" />
+                      </div>
+                      <select value={typeFilter} onChange={e => setTypeFilter(e.target.value as ClusterLinkType | 'All')} className="px-3 py-2 border border-slate-300 dark:border-slate-700 rounded-lg text-sm bg-white dark:bg-slate-900 text-slate-900 dark:text-white outline-none focus:ring-2 focus:ring-[#2a00ff]">
+                          <option value="All">All Types</option>
+                          {BLOCKLIST_TYPES.map(t => <option key={t} value={t}>{BLOCKLIST_TYPE_LABELS[t]}</option>)}
+                      </select>
+                  </div>
+              </div>
+              <table className="w-full text-sm text-left">
+                  <thead className="bg-slate-50 dark:bg-slate-800 text-slate-500 dark:text-slate-400 font-semibold">
+                      <tr>
+                          <th className="px-6 py-3">Type</th>
+                          <th className="px-6 py-3">Value</th>
+                          <th className="px-6 py-3">Note</th>
+                          <th className="px-6 py-3">Added</th>
+                          <th className="px-6 py-3">Matches</th>
+                          <th className="px-6 py-3"></th>
+                      </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+                      {visibleEntries.map(e => (
+                          <tr key={e.id} className="hover:bg-slate-50 dark:hover:bg-white/5">
+                              <td className="px-6 py-3 text-xs font-bold text-slate-600 dark:text-slate-300">{BLOCKLIST_TYPE_LABELS[e.type]}</td>
+                              <td className="px-6 py-3 font-mono text-xs text-slate-900 dark:text-white">{e.value}</td>
+                              <td className="px-6 py-3 text-xs text-slate-500 dark:text-slate-400">
+                                  {e.note || '—'}
+                                  {e.sourceEmail && <div className="font-mono text-[10px] text-slate-400">from {e.sourceEmail}</div>}
+                              </td>
+                              <td className="px-6 py-3 text-xs text-slate-500 dark:text-slate-400">{new Date(e.addedAt).toLocaleDateString()} · {e.addedBy}</td>
+                              <td className="px-6 py-3 font-mono text-xs">
+                                  {matchCounts.get(e.id) ? <span className="text-red-600 dark:text-red-400 font-bold">{matchCounts.get(e.id)}</span> : <span className="text-slate-400">0</span>}
+                              </td>
+                              <td className="px-6 py-3 text-right">
+                                  <button onClick={() => handleRemove(e.id)} className="text-slate-400 hover:text-red-500 p-1.5 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors">
+                                      <Trash2 className="w-4 h-4" />
+                                  </button>
+                              </td>
+                          </tr>
+                      ))}
+                      {visibleEntries.length === 0 && (
+                          <tr><td colSpan={6} className="p-10 text-center text-slate-400">{blocklist.length === 0 ? 'No confirmed-fraud identifiers yet.' : 'No entries match the filters.'}</td></tr>
+                      )}
+                  </tbody>
+              </table>
+          </div>
+      </div>
+  );
+};
@@ -0,0 +1,245 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { DeveloperRecord, FraudReviewDecision } from '../types';
+import { blocklistEntriesFor } from '../services/fraudBlocklist';
+import { REVIEW_STATUS_FILTERS, ReviewQueueItem, ReviewStatusFilter, buildReviewQueue, matchesReviewFilter, recordReviewDecision } from '../services/fraudReview';
+import { useCollection, useRepositories, useReviewer, reportWriteError } from '../services/repositoryContext';
+import { ClipboardCheck, ShieldX, ShieldCheck, ArrowUpCircle, History, Search, UserCircle } from 'lucide-react';
+
+interface FraudReviewQueueProps {
+    data: DeveloperRecord[];
+}
+
+const PAGE_SIZE = 100;
+
+export const DECISION_STYLES: Record<FraudReviewDecision, string> = {
+    Confirmed: 'bg-red-500/10 text-red-600 dark:text-red-400 border-red-500/20',
+    Dismissed: 'bg-green-500/10 text-green-600 dark:text-green-400 border-green-500/20',
+    Escalated: 'bg-orange-500/10 text-orange-600 dark:text-orange-400 border-orange-500/20'
+};
+
+export const DECISION_ACTIONS: { decision: FraudReviewDecision; label: string; icon: React.ElementType; className: string }[] = [
+    { decision: 'Confirmed', label: 'Confirm Fraud', icon: ShieldX, className: 'bg-red-600 hover:bg-red-700 text-white' },
+    { decision: 'Dismissed', label: 'Dismiss', icon: ShieldCheck, className: 'bg-green-600 hover:bg-green-700 text-white' },
+    { decision: 'Escalated', label: 'Escalate', icon: ArrowUpCircle, className: 'bg-orange-500 hover:bg-orange-600 text-white' }
+];
+
+const itemKey = (item: ReviewQueueItem) => `${item.record.id}:${item.source.ruleId}`;
+
+export const FraudReviewQueue: React.FC<FraudReviewQueueProps> = ({ data }) => {
+  const repositories = useRepositories();
+  const reviews = useCollection(repositories.fraudReviews);
+  const blocklist = useCollection(repositories.fraudBlocklist);
+  const { admins, reviewer, setReviewerId } = useReviewer();
+
+  const [statusFilter, setStatusFilter] = useState<ReviewStatusFilter>('Pending');
+  const [selectedRuleId, setSelectedRuleId] = useState<string | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  const [openAction, setOpenAction] = useState<{ key: string; decision: FraudReviewDecision } | null>(null);
+  const [note, setNote] = useState('');
+  const [expandedTrail, setExpandedTrail] = useState<string | null>(null);
+
+  const groups = useMemo(() => buildReviewQueue(data, reviews), [data, reviews]);
+  const emailById = useMemo(() => new Map(data.map(d => [d.id, d.email])), [data]);
+
+  useEffect(() => {
+      if (!selectedRuleId || !groups.some(g => g.ruleId === selectedRuleId)) setSelectedRuleId(groups[0]?.ruleId || null);
+  }, [groups, selectedRuleId]);
+
+  useEffect(() => setVisibleCount(PAGE_SIZE), [selectedRuleId, statusFilter, searchQuery]);
+
+  const selectedGroup = groups.find(g => g.ruleId === selectedRuleId);
+
+  const visibleItems = useMemo(() => {
+      if (!selectedGroup) return [];
+      const query = searchQuery.trim().toLowerCase();
+      return selectedGroup.items
+          .filter(item => matchesReviewFilter(item, statusFilter))
+          .filter(item => !query || item.record.email.toLowerCase().includes(query) || `${item.record.firstName} ${item.record.lastName}`.toLowerCase().includes(query) || item.record.partnerCode.toLowerCase().includes(query))
+          .sort((a, b) => (b.record.computed_riskScore || 0) - (a.record.computed_riskScore || 0));
+  }, [selectedGroup, statusFilter, searchQuery]);
+
+  const countFor = (items: ReviewQueueItem[], filter: ReviewStatusFilter) => items.filter(i => matchesReviewFilter(i, filter)).length;
+
+  const submitDecision = (item: ReviewQueueItem, decision: FraudReviewDecision) => {
+      repositories.fraudReviews.save(recordReviewDecision(item, decision, note, reviewer)).catch(reportWriteError);
+      // Confirmed accounts feed the blocklist, so re-registrations are caught in later uploads
+      if (decision === 'Confirmed') {
+          const entries = blocklistEntriesFor([item.record], blocklist, note || `Confirmed ${item.source.flag}`, reviewer?.name || 'Unknown reviewer');
+          if (entries.length > 0) repositories.fraudBlocklist.saveMany(entries).catch(reportWriteError);
+      }
+      setOpenAction(null);
+      setNote('');
+  };
+
+  if (data.length === 0) {
+      return <div className="p-10 text-center text-slate-400 border border-dashed border-slate-300 dark:border-slate-700 rounded-xl">Upload a dataset to review its fraud flags.</div>;
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-slate-900 dark:text-white flex items-center gap-2"><ClipboardCheck className="w-6 h-6 text-[#2a00ff]" /> Fraud Review Queue</h1>
+          <p className="text-slate-500 dark:text-slate-400">Confirm, dismiss or escalate flagged developers. Decisions carry over to future uploads.</p>
+        </div>
+        <div className="flex items-center gap-2">
+            <UserCircle className="w-4 h-4 text-slate-400" />
+            <select
+              value={reviewer?.id || ''}
+              onChange={e => setReviewerId(e.target.value)}
+              className="p-2.5 bg-white dark:bg-slate-900 border border-slate-300 dark:border-slate-700 rounded-xl text-sm text-slate-900 dark:text-white outline-none focus:ring-2 focus:ring-[#2a00ff] shadow-sm"
+            >
+                <option value="">-- Reviewing as --</option>
+                {admins.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+            </select>
+        </div>
+      </div>
+
+      {groups.length === 0 ? (
+          <div className="p-10 text-center text-slate-400 border border-dashed border-slate-300 dark:border-slate-700 rounded-xl">No flags raised in this dataset version.</div>
+      ) : (
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+          {/* RULE GROUPS */}
+          <div className="bg-white dark:bg-slate-900/50 rounded-xl border border-slate-200 dark:border-slate-700 shadow-sm overflow-hidden h-fit">
+              <div className="px-4 py-3 border-b border-slate-200 dark:border-slate-700 bg-slate-50/50 dark:bg-slate-800/50 text-xs font-bold uppercase tracking-wider text-slate-500 dark:text-slate-400">Rules</div>
+              {groups.map(g => (
+                  <button
+                    key={g.ruleId}
+                    onClick={() => setSelectedRuleId(g.ruleId)}
+                    className={`w-full px-4 py-3 flex justify-between items-center text-sm border-b border-slate-100 dark:border-slate-800 transition-colors ${g.ruleId === selectedRuleId ? 'bg-[#2a00ff]/10 text-[#2a00ff] font-bold' : 'text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-white/5'}`}
+                  >
+                      <span>{g.flag}</span>
+                      <span className="text-xs font-mono">
+                          <span className="text-orange-600 dark:text-orange-400">{countFor(g.items, 'Pending')}</span> / {g.items.length}
+                      </span>
+                  </button>
+              ))}
+              <div className="px-4 py-2 text-[10px] text-slate-400">Pending / total flags</div>
+          </div>
+
+          {/* ITEMS */}
+          <div className="lg:col-span-3 bg-white dark:bg-slate-900/50 rounded-xl border border-slate-200 dark:border-slate-700 shadow-sm overflow-hidden">
+              <div className="px-6 py-4 border-b border-slate-200 dark:border-slate-700 flex flex-col md:flex-row gap-3 justify-between md:items-center bg-slate-50/50 dark:bg-slate-800/50">
+                  <div className="flex flex-wrap gap-2">
+                      {REVIEW_STATUS_FILTERS.map(f => (
+                          <button
+                            key={f}
+                            onClick={() => setStatusFilter(f)}
+                            className={`px-3 py-1.5 rounded-lg text-xs font-bold transition-colors ${statusFilter === f ? 'bg-[#2a00ff] text-white shadow-lg shadow-[#2a00ff]/20' : 'bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700'}`}
+                          >
+                              {f} ({selectedGroup ? countFor(selectedGroup.items, f).toLocaleString() : 0})
+                          </button>
+                      ))}
+                  </div>
+                  <div className="relative md:w-64">
+                      <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+                      <input value={searchQuery} onChange={e => setSearchQuery(e.target.value)} placeholder="Search developers..." className="w-full pl-9 pr-3 py-2 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg text-sm text-slate-900 dark:text-white outline-none focus:ring-2 focus:ring-[#2a00ff]" />
+                  </div>
+              </div>
+
+              {!reviewer && (
+                  <div className="px-6 py-2 text-xs bg-yellow-50 dark:bg-yellow-900/20 text-yellow-800 dark:text-yellow-300 border-b border-yellow-100 dark:border-yellow-900/40">Select who is reviewing (top right) so decisions are attributed in the audit trail.</div>
+              )}
+
+              {visibleItems.length === 0 ? (
+                  <div className="p-10 text-center text-sm text-slate-400">No {statusFilter === 'All' ? '' : statusFilter.toLowerCase() + ' '}flags for this rule.</div>
+              ) : (
+              <div className="divide-y divide-slate-100 dark:divide-white/5">
+                  {visibleItems.slice(0, visibleCount).map(item => {
+                      const key = itemKey(item);
+                      const { record, review } = item;
+                      const isOpen = openAction?.key === key;
+                      return (
+                          <div key={key} className="px-6 py-4 space-y-3">
+                              <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+                                  <div>
+                                      <div className="font-bold text-slate-900 dark:text-white flex items-center gap-2">
+                                          {`${record.firstName} ${record.lastName}`.trim() || '—'}
+                                          <span className="px-2 py-0.5 rounded text-[10px] font-mono font-bold border bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 border-slate-200 dark:border-slate-700">Score {record.computed_riskScore ?? 0}</span>
+                                          {review && <span className={`px-2 py-0.5 rounded text-[10px] font-bold border ${DECISION_STYLES[review.decision]}`}>{review.decision}</span>}
+                                      </div>
+                                      <div className="text-xs text-slate-500 dark:text-slate-400 font-mono">{record.email} · {record.partnerCode} · rule v{item.source.ruleVersion}</div>
+                                      {item.source.matchedIds && item.source.matchedIds.length > 0 && (
+                                          <div className="text-xs text-slate-500 dark:text-slate-400 mt-0.5">
+                                              Matches: <span className="font-mono">{item.source.matchedIds.map(id => emailById.get(id) || id).join(', ')}</span>
+                                          </div>
+                                      )}
+                                      {(record.computed_riskFlags.length > 0 || (record.computed_dismissedFlags || []).length > 0) && (
+                                          <div className="flex flex-wrap gap-1 mt-1">
+                                              {record.computed_riskFlags.map(f => <span key={f} className="px-1.5 py-0.5 rounded text-[10px] bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300">{f}</span>)}
+                                              {(record.computed_dismissedFlags || []).map(f => <span key={f} className="px-1.5 py-0.5 rounded text-[10px] bg-slate-50 dark:bg-slate-800/50 text-slate-400 line-through">{f}</span>)}
+                                          </div>
+                                      )}
+                                  </div>
+                                  <div className="flex flex-wrap gap-2 shrink-0">
+                                      {DECISION_ACTIONS.map(a => (
+                                          <button
+                                            key={a.decision}
+                                            onClick={() => { setOpenAction({ key, decision: a.decision }); setNote(''); }}
+                                            disabled={review?.decision === a.decision}
+                                            className={`px-3 py-1.5 rounded-lg text-xs font-bold flex items-center gap-1.5 shadow-sm disabled:opacity-40 ${a.className}`}
+                                          >
+                                              <a.icon className="w-3 h-3" /> {a.label}
+                                          </button>
+                                      ))}
+                                      {review && (
+                                          <button onClick={() => setExpandedTrail(expandedTrail === key ? null : key)} className="px-3 py-1.5 rounded-lg text-xs font-bold flex items-center gap-1.5 bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700">
+                                              <History className="w-3 h-3" /> Audit Trail ({review.history.length})
+                                          </button>
+                                      )}
+                                  </div>
+                              </div>
+
+                              {isOpen && openAction && (
+                                  <div className="p-4 rounded-lg bg-slate-50 dark:bg-slate-800/50 border border-slate-200 dark:border-slate-700 space-y-3">
+                                      <label className="block text-xs font-medium text-slate-500 dark:text-slate-400">Reviewer note for "{DECISION_ACTIONS.find(a => a.decision === openAction.decision)?.label}"</label>
+                                      <textarea
+                                        value={note}
+                                        onChange={e => setNote(e.target.value)}
+                                        rows={2}
+                                        autoFocus
+                                        placeholder={openAction.decision === 'Dismissed' ? 'e.g. University lab sharing one wallet' : 'Reason for this decision'}
+                                        className="w-full p-2.5 border border-slate-300 dark:border-slate-700 rounded-lg text-sm bg-white dark:bg-slate-900 text-slate-900 dark:text-white outline-none focus:ring-2 focus:ring-[#2a00ff]"
+                                      />
+                                      {openAction.decision === 'Confirmed' && (
+                                          <p className="text-xs text-slate-500 dark:text-slate-400">The account's wallet, phone, name root and email root will be added to the fraud blocklist.</p>
+                                      )}
+                                      <div className="flex justify-end gap-3">
+                                          <button onClick={() => setOpenAction(null)} className="px-3 py-1.5 text-slate-500 hover:text-slate-700 text-sm">Cancel</button>
+                                          <button onClick={() => submitDecision(item, openAction.decision)} className="px-4 py-1.5 bg-[#2a00ff] text-white rounded text-sm font-bold shadow-sm hover:bg-[#2a00ff]/80">Record Decision</button>
+                                      </div>
+                                  </div>
+                              )}
+
+                              {expandedTrail === key && review && (
+                                  <ol className="border-l-2 border-slate-200 dark:border-slate-700 ml-2 pl-4 space-y-2">
+                                      {[...review.history].reverse().map((entry, i) => (
+                                          <li key={i} className="text-xs">
+                                              <div className="flex items-center gap-2">
+                                                  <span className={`px-1.5 py-0.5 rounded text-[10px] font-bold border ${DECISION_STYLES[entry.decision]}`}>{entry.decision}</span>
+                                                  <span className="font-medium text-slate-700 dark:text-slate-300">{entry.reviewerName}</span>
+                                                  <span className="text-slate-400">{new Date(entry.decidedAt).toLocaleString()} · rule v{entry.ruleVersion}</span>
+                                              </div>
+                                              {entry.note && <p className="mt-1 text-slate-600 dark:text-slate-400">{entry.note}</p>}
+                                          </li>
+                                      ))}
+                                  </ol>
+                              )}
+                          </div>
+                      );
+                  })}
+              </div>
+              )}
+              {visibleItems.length > visibleCount && (
+                  <div className="px-6 py-3 border-t border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800/50 flex justify-between items-center text-xs text-slate-500 dark:text-slate-400">
+                      <span>Showing {visibleCount.toLocaleString()} of {visibleItems.length.toLocaleString()}</span>
+                      <button onClick={() => setVisibleCount(c => c + PAGE_SIZE)} className="font-bold text-[#2a00ff] hover:underline">Show more</button>
+                  </div>
+              )}
+          </div>
+      </div>
+      )}
+    </div>
+  );
+};
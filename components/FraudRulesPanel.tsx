@@ -0,0 +1,246 @@
+import React, { useMemo, useState } from 'react';
+import { FraudRule, FraudRuleSeverity, WorkspaceSettings } from '../types';
+import { DEFAULT_FRAUD_RULES, FraudRuleParamSpec, MAX_RISK_SCORE, SEVERITY_LEVELS, getRuleParamSpecs, resolveFraudRules, reviseFraudRule } from '../services/fraudRules';
+import { useCollection, useRepositories, useWorkspaceSettings, reportWriteError } from '../services/repositoryContext';
+import { ShieldAlert, Save, RotateCcw, Info, Gauge, Users } from 'lucide-react';
+
+const SEVERITY_STYLES: Record<FraudRuleSeverity, string> = {
+    Low: 'bg-slate-100 text-slate-600 border-slate-200 dark:bg-slate-800 dark:text-slate-300 dark:border-slate-700',
+    Medium: 'bg-yellow-50 text-yellow-700 border-yellow-200 dark:bg-yellow-900/30 dark:text-yellow-300 dark:border-yellow-900/50',
+    High: 'bg-orange-50 text-orange-700 border-orange-200 dark:bg-orange-900/30 dark:text-orange-300 dark:border-orange-900/50',
+    Critical: 'bg-red-50 text-red-700 border-red-200 dark:bg-red-900/30 dark:text-red-300 dark:border-red-900/50'
+};
+
+type CommunityLimitKey = 'communityFlaggedShareLimit' | 'communitySpeedRunShareLimit' | 'communityOutlierZScore' | 'communityMinDevelopers';
+
+const COMMUNITY_LIMIT_FIELDS: { key: CommunityLimitKey; label: string; min: number; step: number }[] = [
+    { key: 'communityFlaggedShareLimit', label: 'Max flagged share (%)', min: 0, step: 1 },
+    { key: 'communitySpeedRunShareLimit', label: 'Max speed-run share (%)', min: 0, step: 1 },
+    { key: 'communityOutlierZScore', label: 'Outlier z-score', min: 1, step: 0.5 },
+    { key: 'communityMinDevelopers', label: 'Min. community size', min: 1, step: 1 }
+];
+
+const sameSettings = (a: FraudRule, b: FraudRule) =>
+    a.enabled === b.enabled && a.severity === b.severity && a.weight === b.weight && JSON.stringify(a.params) === JSON.stringify(b.params);
+
+export const FraudRulesPanel: React.FC = () => {
+  const repositories = useRepositories();
+  const storedRules = useCollection(repositories.fraudRules);
+  const rules = useMemo(() => resolveFraudRules(storedRules), [storedRules]);
+  const [settings, saveSettings] = useWorkspaceSettings();
+  const [threshold, setThreshold] = useState<number | null>(null); // Unsaved edit
+  const [limits, setLimits] = useState<Partial<Pick<WorkspaceSettings, CommunityLimitKey>>>({}); // Unsaved edits
+  const limitsDirty = COMMUNITY_LIMIT_FIELDS.some(f => limits[f.key] !== undefined && limits[f.key] !== settings[f.key]);
+
+  // Unsaved edits per rule ID
+  const [drafts, setDrafts] = useState<Record<string, FraudRule>>({});
+
+  const updateDraft = (rule: FraudRule, changes: Partial<FraudRule>) => {
+      setDrafts(prev => ({ ...prev, [rule.id]: { ...(prev[rule.id] || rule), ...changes } }));
+  };
+
+  const discardDraft = (id: string) => setDrafts(prev => {
+      const next = { ...prev };
+      delete next[id];
+      return next;
+  });
+
+  const handleSave = (rule: FraudRule) => {
+      const draft = drafts[rule.id];
+      if (!draft) return;
+      if (!sameSettings(draft, rule)) {
+          repositories.fraudRules.save(reviseFraudRule(rule, { enabled: draft.enabled, severity: draft.severity, weight: draft.weight, params: draft.params })).catch(reportWriteError);
+      }
+      discardDraft(rule.id);
+  };
+
+  const handleResetToDefault = (rule: FraudRule) => {
+      const def = DEFAULT_FRAUD_RULES.find(r => r.id === rule.id);
+      if (!def || sameSettings(def, rule)) return;
+      repositories.fraudRules.save(reviseFraudRule(rule, { enabled: def.enabled, severity: def.severity, weight: def.weight, params: def.params })).catch(reportWriteError);
+      discardDraft(rule.id);
+  };
+
+  const renderParam = (rule: FraudRule, draft: FraudRule, spec: FraudRuleParamSpec) => {
+      const value = draft.params[spec.key];
+      const setValue = (v: number | string[]) => updateDraft(rule, { params: { ...draft.params, [spec.key]: v } });
+
+      if (spec.type === 'list') {
+          return (
+              <div key={spec.key} className="md:col-span-2">
+                  <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">{spec.label} <span className="text-slate-400">(one per line)</span></label>
+                  <textarea
+                    value={(Array.isArray(value) ? value : []).join('\n')}
+                    onChange={e => setValue(e.target.value.split('\n').map(v => v.trim()).filter(Boolean))}
+                    rows={4}
+                    className="w-full p-2.5 border border-slate-300 dark:border-slate-700 rounded-lg text-xs font-mono bg-white dark:bg-slate-900 text-slate-900 dark:text-white outline-none focus:ring-2 focus:ring-[#2a00ff]"
+                  />
+              </div>
+          );
+      }
+      return (
+          <div key={spec.key}>
+              <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">{spec.label}{spec.unit ? ` (${spec.unit})` : ''}</label>
+              <input
+                type="number"
+                value={typeof value === 'number' ? value : ''}
+                min={spec.min}
+                step={spec.step}
+                onChange={e => setValue(Number(e.target.value))}
+                className="w-full p-2.5 border border-slate-300 dark:border-slate-700 rounded-lg text-sm bg-white dark:bg-slate-900 text-slate-900 dark:text-white outline-none focus:ring-2 focus:ring-[#2a00ff]"
+              />
+          </div>
+      );
+  };
+
+  return (
+      <div className="animate-fade-in space-y-6">
+          <div className="p-4 rounded-xl bg-blue-50 dark:bg-[#2a00ff]/10 border border-blue-100 dark:border-[#2a00ff]/20 text-sm text-blue-800 dark:text-blue-200 flex items-start gap-3">
+              <Info className="w-4 h-4 shrink-0 mt-0.5" />
+              <p>Rule changes apply to the next upload. Every saved change creates a new rule version; each dataset version keeps the ruleset its flags were computed with.</p>
+          </div>
+
+          {/* RISK SCORE THRESHOLD */}
+          <div className="glass-panel p-6 rounded-xl border border-slate-200 dark:border-slate-700 shadow-sm flex flex-col md:flex-row md:items-end justify-between gap-4">
+              <div>
+                  <h3 className="font-bold text-slate-900 dark:text-white flex items-center gap-2"><Gauge className="w-4 h-4 text-[#2a00ff]" /> Risk Score Threshold</h3>
+                  <p className="text-slate-500 dark:text-slate-400 text-sm mt-1">
+                      Each flag adds its rule's weight to a 0-{MAX_RISK_SCORE} risk score.
+                      <br/>Developers scoring at or above the threshold count as Potential Fake Accounts in dashboards and reports.
+                  </p>
+              </div>
+              <div className="flex items-end gap-3 shrink-0">
+                  <div>
+                      <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">Threshold (score)</label>
+                      <input
+                        type="number"
+                        min={1}
+                        max={MAX_RISK_SCORE}
+                        value={threshold ?? settings.riskScoreThreshold}
+                        onChange={e => setThreshold(Number(e.target.value))}
+                        className="w-28 p-2.5 border border-slate-300 dark:border-slate-700 rounded-lg text-sm bg-white dark:bg-slate-900 text-slate-900 dark:text-white outline-none focus:ring-2 focus:ring-[#2a00ff]"
+                      />
+                  </div>
+                  <button
+                    onClick={() => { saveSettings({ riskScoreThreshold: Math.min(MAX_RISK_SCORE, Math.max(1, threshold!)) }); setThreshold(null); }}
+                    disabled={threshold === null || threshold === settings.riskScoreThreshold}
+                    className="px-4 py-2.5 bg-[#2a00ff] text-white rounded-lg text-sm font-bold shadow-sm hover:bg-[#2a00ff]/80 flex items-center gap-1.5 disabled:opacity-50"
+                  >
+                      <Save className="w-3 h-3" /> Save
+                  </button>
+              </div>
+          </div>
+
+          {/* COMMUNITY ALERT LIMITS */}
+          <div className="glass-panel p-6 rounded-xl border border-slate-200 dark:border-slate-700 shadow-sm space-y-4">
+              <div>
+                  <h3 className="font-bold text-slate-900 dark:text-white flex items-center gap-2"><Users className="w-4 h-4 text-[#2a00ff]" /> Community Alert Limits</h3>
+                  <p className="text-slate-500 dark:text-slate-400 text-sm mt-1">
+                      A community is alerted on the dashboard and in Invoicing when its flagged or speed-run share exceeds these limits,
+                      <br/>or when its flagged share stands out from the rest of the program by the given z-score.
+                  </p>
+              </div>
+              <div className="flex flex-col md:flex-row md:items-end gap-3">
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-3 flex-1">
+                      {COMMUNITY_LIMIT_FIELDS.map(f => (
+                          <div key={f.key}>
+                              <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">{f.label}</label>
+                              <input
+                                type="number"
+                                min={f.min}
+                                step={f.step}
+                                value={limits[f.key] ?? settings[f.key]}
+                                onChange={e => setLimits(prev => ({ ...prev, [f.key]: Number(e.target.value) }))}
+                                className="w-full p-2.5 border border-slate-300 dark:border-slate-700 rounded-lg text-sm bg-white dark:bg-slate-900 text-slate-900 dark:text-white outline-none focus:ring-2 focus:ring-[#2a00ff]"
+                              />
+                          </div>
+                      ))}
+                  </div>
+                  <button
+                    onClick={() => {
+                        const changes: Partial<Pick<WorkspaceSettings, CommunityLimitKey>> = {};
+                        COMMUNITY_LIMIT_FIELDS.forEach(f => { if (limits[f.key] !== undefined) changes[f.key] = Math.max(f.min, limits[f.key]!); });
+                        saveSettings(changes);
+                        setLimits({});
+                    }}
+                    disabled={!limitsDirty}
+                    className="px-4 py-2.5 bg-[#2a00ff] text-white rounded-lg text-sm font-bold shadow-sm hover:bg-[#2a00ff]/80 flex items-center gap-1.5 disabled:opacity-50 shrink-0"
+                  >
+                      <Save className="w-3 h-3" /> Save
+                  </button>
+              </div>
+          </div>
+
+          {rules.map(rule => {
+              const draft = drafts[rule.id] || rule;
+              const isDirty = !!drafts[rule.id] && !sameSettings(drafts[rule.id], rule);
+              const specs = getRuleParamSpecs(rule.id);
+              return (
+                  <div key={rule.id} className={`bg-white dark:bg-slate-900/50 rounded-xl border shadow-sm overflow-hidden ${draft.enabled ? 'border-slate-200 dark:border-slate-700' : 'border-dashed border-slate-300 dark:border-slate-700 opacity-70'}`}>
+                      <div className="px-6 py-4 border-b border-slate-200 dark:border-slate-700 flex flex-wrap gap-3 justify-between items-center bg-slate-50/50 dark:bg-slate-800/50">
+                          <div className="flex items-center gap-3">
+                              <ShieldAlert className="w-4 h-4 text-[#a522dd]" />
+                              <h3 className="font-bold text-slate-800 dark:text-white">{rule.flag}</h3>
+                              <span className="font-mono text-[10px] text-slate-400">{rule.id} · v{rule.version}</span>
+                              <span className={`px-2 py-0.5 rounded text-[10px] font-bold border ${SEVERITY_STYLES[draft.severity]}`}>{draft.severity}</span>
+                          </div>
+                          <label className="flex items-center gap-2 text-xs font-bold text-slate-600 dark:text-slate-300 cursor-pointer">
+                              <input type="checkbox" checked={draft.enabled} onChange={e => updateDraft(rule, { enabled: e.target.checked })} className="rounded text-[#2a00ff] focus:ring-[#2a00ff]" />
+                              Enabled
+                          </label>
+                      </div>
+                      <div className="p-6 space-y-4">
+                          <p className="text-sm text-slate-600 dark:text-slate-300">{rule.description}</p>
+                          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                              <div>
+                                  <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">Severity</label>
+                                  <select
+                                    value={draft.severity}
+                                    onChange={e => updateDraft(rule, { severity: e.target.value as FraudRuleSeverity })}
+                                    className="w-full p-2.5 border border-slate-300 dark:border-slate-700 rounded-lg text-sm bg-white dark:bg-slate-900 text-slate-900 dark:text-white outline-none focus:ring-2 focus:ring-[#2a00ff]"
+                                  >
+                                      {SEVERITY_LEVELS.map(s => <option key={s} value={s}>{s}</option>)}
+                                  </select>
+                              </div>
+                              <div>
+                                  <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">Risk weight (points)</label>
+                                  <input
+                                    type="number"
+                                    min={0}
+                                    max={MAX_RISK_SCORE}
+                                    value={draft.weight}
+                                    onChange={e => updateDraft(rule, { weight: Number(e.target.value) })}
+                                    className="w-full p-2.5 border border-slate-300 dark:border-slate-700 rounded-lg text-sm bg-white dark:bg-slate-900 text-slate-900 dark:text-white outline-none focus:ring-2 focus:ring-[#2a00ff]"
+                                  />
+                              </div>
+                              {specs.map(spec => renderParam(rule, draft, spec))}
+                          </div>
+                          <div className="flex justify-between items-center pt-2">
+                              <span className="text-[11px] text-slate-400">
+                                  {rule.version > 1 ? `Last changed ${new Date(rule.updatedAt).toLocaleString()}` : 'Built-in defaults'}
+                              </span>
+                              <div className="flex gap-3">
+                                  {rule.version > 1 && (
+                                      <button onClick={() => handleResetToDefault(rule)} className="px-3 py-1.5 text-slate-500 hover:text-slate-700 dark:hover:text-white text-sm flex items-center gap-1.5">
+                                          <RotateCcw className="w-3 h-3" /> Reset to Default
+                                      </button>
+                                  )}
+                                  {drafts[rule.id] && (
+                                      <button onClick={() => discardDraft(rule.id)} className="px-3 py-1.5 text-slate-500 hover:text-slate-700 dark:hover:text-white text-sm">Cancel</button>
+                                  )}
+                                  <button
+                                    onClick={() => handleSave(rule)}
+                                    disabled={!isDirty}
+                                    className="px-4 py-1.5 bg-[#2a00ff] text-white rounded text-sm font-bold shadow-sm hover:bg-[#2a00ff]/80 flex items-center gap-1.5 disabled:opacity-50"
+                                  >
+                                      <Save className="w-3 h-3" /> Save as v{rule.version + 1}
+                                  </button>
+                              </div>
+                          </div>
+                      </div>
+                  </div>
+              );
+          })}
+      </div>
+  );
+};
@@ -0,0 +1,173 @@
+import React, { useMemo, useState } from 'react';
+import { Invoice, InvoiceStatus, WorkspaceSettings } from '../types';
+import { INVOICE_PATTERN_TOKENS, findNumberingCollision, fiscalYearOf, formatInvoiceNumber, sequenceIdOf, validateInvoiceNumbering } from '../services/invoiceNumbering';
+import { downloadInvoicePdf } from '../services/invoicePdf';
+import { useCollection, useRepositories, useWorkspaceSettings } from '../services/repositoryContext';
+import { Hash, Info, Save, AlertCircle, Palette, Download } from 'lucide-react';
+
+type NumberingKey = 'invoiceNumberPrefix' | 'creditNotePrefix' | 'invoiceNumberPattern' | 'fiscalYearStartMonth';
+type BrandingKey = 'invoiceIssuerName' | 'invoiceIssuerAddress' | 'invoiceIssuerEmail' | 'invoiceIssuerTaxId' | 'invoiceAccentColor' | 'invoiceFooter' | 'invoicePayToWallet' | 'invoicePayToBankDetails';
+
+const BRANDING_FIELDS: { key: BrandingKey; label: string; multiline?: boolean; placeholder?: string }[] = [
+    { key: 'invoiceIssuerName', label: 'Issuer Name' },
+    { key: 'invoiceIssuerEmail', label: 'Billing Email' },
+    { key: 'invoiceIssuerAddress', label: 'Address', multiline: true },
+    { key: 'invoicePayToBankDetails', label: 'Bank Details (bank transfers)', multiline: true, placeholder: 'Bank, IBAN, BIC' },
+    { key: 'invoiceIssuerTaxId', label: 'Tax ID' },
+    { key: 'invoicePayToWallet', label: 'Receiving Account (HBAR / USDC)', placeholder: '0.0.12345' },
+    { key: 'invoiceFooter', label: 'Footer' }
+];
+
+// Shown by the sample PDF download
+const SAMPLE_INVOICE: Invoice = {
+    id: 'sample', invoiceNumber: 'INV-SAMPLE-0001', partnerCode: 'ABC', billingPeriod: '2025-01', periodStart: '2025-01-01', periodEnd: '2025-01-31',
+    issueDate: '2025-02-01', dueDate: '2025-03-03', currency: 'USD',
+    items: [{ id: 'i_sample', description: 'Certifications (2025-01)', quantity: 12, unitPrice: 100, total: 1200 }],
+    subtotal: 1200, taxRate: 0, taxAmount: 0, totalAmount: 1200,
+    status: InvoiceStatus.SENT, notes: '', publicMemo: 'Services for 2025-01'
+};
+
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+export const InvoiceSettingsPanel: React.FC = () => {
+  const repositories = useRepositories();
+  const storedSequences = useCollection(repositories.invoiceSequences);
+  const invoices = useCollection(repositories.invoices);
+  const sequences = useMemo(() => [...storedSequences].sort((a, b) => b.fiscalYear - a.fiscalYear || a.id.localeCompare(b.id)), [storedSequences]);
+  const [settings, saveSettings] = useWorkspaceSettings();
+  const [draft, setDraft] = useState<Partial<Pick<WorkspaceSettings, NumberingKey>>>({}); // Unsaved edits
+  const [brandingDraft, setBrandingDraft] = useState<Partial<Pick<WorkspaceSettings, BrandingKey>>>({});
+
+  const numbering = { ...settings, ...draft };
+  const today = new Date().toISOString().split('T')[0];
+  // Settings that would hand out a number already on an invoice can't be saved: counters never skip
+  const patternError = validateInvoiceNumbering(numbering)
+      || findNumberingCollision(numbering, storedSequences, invoices, today);
+  const isDirty = (Object.keys(draft) as NumberingKey[]).some(k => draft[k] !== settings[k]);
+  const branding = { ...settings, ...brandingDraft };
+  const isBrandingDirty = (Object.keys(brandingDraft) as BrandingKey[]).some(k => brandingDraft[k] !== settings[k]);
+
+  // Next invoice and credit note numbers as they would be issued today
+  const preview = useMemo(() => {
+      if (patternError) return null;
+      const fiscalYear = fiscalYearOf(today, numbering.fiscalYearStartMonth);
+      const next = (id: string, prefix: string) => formatInvoiceNumber(numbering.invoiceNumberPattern, {
+          prefix, fiscalYear, partnerCode: 'ABC', sequence: (storedSequences.find(s => s.id === id)?.lastNumber || 0) + 1
+      });
+      return `${next(sequenceIdOf('Invoice', fiscalYear), numbering.invoiceNumberPrefix)} / ${next(sequenceIdOf('Credit_Note', fiscalYear), numbering.creditNotePrefix)}`;
+  }, [patternError, today, numbering.invoiceNumberPattern, numbering.invoiceNumberPrefix, numbering.creditNotePrefix, numbering.fiscalYearStartMonth, storedSequences]);
+
+  const handleSave = () => {
+      if (patternError) return;
+      saveSettings(draft);
+      setDraft({});
+  };
+
+  const handleSaveBranding = () => {
+      saveSettings(brandingDraft);
+      setBrandingDraft({});
+  };
+
+  return (
+      <div className="animate-fade-in space-y-6">
+          <div className="p-4 rounded-xl bg-blue-50 dark:bg-[#2a00ff]/10 border border-blue-100 dark:border-[#2a00ff]/20 text-sm text-blue-800 dark:text-blue-200 flex items-start gap-3">
+              <Info className="w-4 h-4 shrink-0 mt-0.5" />
+              <p>Drafts are unnumbered. An invoice gets the next number of its fiscal year, and its issue date, when it is sent; numbers of voided invoices are never reused. Credit notes have their own counter under their own prefix.</p>
+          </div>
+
+          {/* NUMBERING */}
+          <div className="glass-panel p-6 rounded-xl border border-slate-200 dark:border-slate-700 shadow-sm space-y-4">
+              <h3 className="font-bold text-slate-900 dark:text-white flex items-center gap-2"><Hash className="w-4 h-4 text-[#2a00ff]" /> Invoice Numbering</h3>
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                  <div>
+                      <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">Prefix</label>
+                      <input value={numbering.invoiceNumberPrefix} onChange={e => setDraft({ ...draft, invoiceNumberPrefix: e.target.value.trim() })} className="w-full p-2.5 border border-slate-300 dark:border-slate-700 rounded-lg text-sm font-mono bg-white dark:bg-slate-900 text-slate-900 dark:text-white outline-none focus:ring-2 focus:ring-[#2a00ff]" />
+                  </div>
+                  <div>
+                      <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">Credit Note Prefix</label>
+                      <input value={numbering.creditNotePrefix} onChange={e => setDraft({ ...draft, creditNotePrefix: e.target.value.trim() })} className="w-full p-2.5 border border-slate-300 dark:border-slate-700 rounded-lg text-sm font-mono bg-white dark:bg-slate-900 text-slate-900 dark:text-white outline-none focus:ring-2 focus:ring-[#2a00ff]" />
+                  </div>
+                  <div>
+                      <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">Pattern</label>
+                      <input value={numbering.invoiceNumberPattern} onChange={e => setDraft({ ...draft, invoiceNumberPattern: e.target.value.trim() })} className="w-full p-2.5 border border-slate-300 dark:border-slate-700 rounded-lg text-sm font-mono bg-white dark:bg-slate-900 text-slate-900 dark:text-white outline-none focus:ring-2 focus:ring-[#2a00ff]" />
+                  </div>
+                  <div>
+                      <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">Fiscal year starts in</label>
+                      <select value={numbering.fiscalYearStartMonth} onChange={e => setDraft({ ...draft, fiscalYearStartMonth: Number(e.target.value) })} className="w-full p-2.5 border border-slate-300 dark:border-slate-700 rounded-lg text-sm bg-white dark:bg-slate-900 text-slate-900 dark:text-white outline-none focus:ring-2 focus:ring-[#2a00ff]">
+                          {MONTHS.map((m, i) => <option key={m} value={i + 1}>{m}</option>)}
+                      </select>
+                  </div>
+              </div>
+              <p className="text-xs text-slate-500 dark:text-slate-400">Tokens: {INVOICE_PATTERN_TOKENS.map(t => <code key={t} className="mr-2 font-mono text-[#a522dd]">{t}</code>)}</p>
+              <div className="flex justify-between items-center pt-2">
+                  {patternError
+                      ? <span className="text-sm text-red-600 dark:text-red-400 flex items-center gap-2"><AlertCircle className="w-4 h-4" /> {patternError}</span>
+                      : <span className="text-sm text-slate-500 dark:text-slate-400">Next numbers: <span className="font-mono font-bold text-slate-900 dark:text-white">{preview}</span> <span className="text-xs">(partner ABC)</span></span>}
+                  <div className="flex gap-3">
+                      {isDirty && <button onClick={() => setDraft({})} className="px-3 py-1.5 text-slate-500 hover:text-slate-700 dark:hover:text-white text-sm">Cancel</button>}
+                      <button onClick={handleSave} disabled={!isDirty || !!patternError} className="px-4 py-2 bg-[#2a00ff] text-white rounded-lg text-sm font-bold shadow-sm hover:bg-[#2a00ff]/80 flex items-center gap-1.5 disabled:opacity-50">
+                          <Save className="w-3 h-3" /> Save
+                      </button>
+                  </div>
+              </div>
+          </div>
+
+          {/* BRANDING */}
+          <div className="glass-panel p-6 rounded-xl border border-slate-200 dark:border-slate-700 shadow-sm space-y-4">
+              <div>
+                  <h3 className="font-bold text-slate-900 dark:text-white flex items-center gap-2"><Palette className="w-4 h-4 text-[#2a00ff]" /> Invoice PDF Branding</h3>
+                  <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">Printed on every invoice PDF. Partners paying by crypto are pointed to the receiving account, others to the bank details.</p>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {BRANDING_FIELDS.map(f => (
+                      <div key={f.key}>
+                          <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">{f.label}</label>
+                          {f.multiline
+                              ? <textarea rows={3} value={branding[f.key]} placeholder={f.placeholder} onChange={e => setBrandingDraft({ ...brandingDraft, [f.key]: e.target.value })} className="w-full p-2.5 border border-slate-300 dark:border-slate-700 rounded-lg text-sm bg-white dark:bg-slate-900 text-slate-900 dark:text-white outline-none focus:ring-2 focus:ring-[#2a00ff]" />
+                              : <input value={branding[f.key]} placeholder={f.placeholder} onChange={e => setBrandingDraft({ ...brandingDraft, [f.key]: e.target.value })} className="w-full p-2.5 border border-slate-300 dark:border-slate-700 rounded-lg text-sm bg-white dark:bg-slate-900 text-slate-900 dark:text-white outline-none focus:ring-2 focus:ring-[#2a00ff]" />}
+                      </div>
+                  ))}
+                  <div>
+                      <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">Accent Color</label>
+                      <div className="flex items-center gap-3">
+                          <input type="color" value={branding.invoiceAccentColor} onChange={e => setBrandingDraft({ ...brandingDraft, invoiceAccentColor: e.target.value })} className="h-10 w-14 p-1 border border-slate-300 dark:border-slate-700 rounded-lg bg-white dark:bg-slate-900 cursor-pointer" />
+                          <span className="font-mono text-sm text-slate-600 dark:text-slate-300">{branding.invoiceAccentColor}</span>
+                      </div>
+                  </div>
+              </div>
+              <div className="flex justify-between items-center pt-2">
+                  <button onClick={() => downloadInvoicePdf(SAMPLE_INVOICE, undefined, branding)} className="text-sm font-bold text-[#2a00ff] dark:text-cyan-400 hover:underline flex items-center gap-1.5">
+                      <Download className="w-4 h-4" /> Sample PDF
+                  </button>
+                  <div className="flex gap-3">
+                      {isBrandingDirty && <button onClick={() => setBrandingDraft({})} className="px-3 py-1.5 text-slate-500 hover:text-slate-700 dark:hover:text-white text-sm">Cancel</button>}
+                      <button onClick={handleSaveBranding} disabled={!isBrandingDirty || !branding.invoiceIssuerName.trim()} className="px-4 py-2 bg-[#2a00ff] text-white rounded-lg text-sm font-bold shadow-sm hover:bg-[#2a00ff]/80 flex items-center gap-1.5 disabled:opacity-50">
+                          <Save className="w-3 h-3" /> Save
+                      </button>
+                  </div>
+              </div>
+          </div>
+
+          {/* SEQUENCES */}
+          <div className="bg-white dark:bg-slate-900/50 rounded-xl border border-slate-200 dark:border-slate-700 shadow-sm overflow-hidden">
+              <div className="px-6 py-4 border-b border-slate-200 dark:border-slate-700 bg-slate-50/50 dark:bg-slate-800/50 font-bold text-slate-800 dark:text-white">Sequences</div>
+              <table className="w-full text-sm text-left">
+                  <thead className="bg-slate-50 dark:bg-slate-800 text-slate-500 dark:text-slate-400 font-semibold">
+                      <tr><th className="px-6 py-3">Fiscal Year</th><th className="px-6 py-3">Series</th><th className="px-6 py-3 text-right">Last Number</th><th className="px-6 py-3">Last Issued</th></tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+                      {sequences.map(s => (
+                          <tr key={s.id}>
+                              <td className="px-6 py-3 font-bold text-slate-800 dark:text-slate-200">{s.fiscalYear}</td>
+                              <td className="px-6 py-3 text-slate-600 dark:text-slate-300">{s.series === 'Credit_Note' ? 'Credit notes' : 'Invoices'}</td>
+                              <td className="px-6 py-3 text-right font-mono text-slate-600 dark:text-slate-300">{s.lastNumber}</td>
+                              <td className="px-6 py-3 text-xs text-slate-500">{new Date(s.updatedAt).toLocaleString()}</td>
+                          </tr>
+                      ))}
+                      {sequences.length === 0 && <tr><td colSpan={4} className="p-8 text-center text-slate-400">No invoice has been issued yet.</td></tr>}
+                  </tbody>
+              </table>
+          </div>
+      </div>
+  );
+};
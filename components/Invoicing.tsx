@@ -1,23 +1,54 @@
 import React, { useState, useMemo } from 'react';
-import { Invoice, InvoiceStatus, DeveloperRecord, CommunityAgreement, PaymentModel, BillingCycle, Currency, PaymentMethod, InvoiceLineItem, AdminUser, UserRole } from '../types';
-import { Plus, Edit3, Trash2, Wallet, CreditCard, FileText, Check, AlertCircle, Save, Users, Award, TrendingUp, DollarSign, Calendar, Upload, File, X, Shield, Search, ChevronDown } from 'lucide-react';
+import { Invoice, InvoiceStatus, DeveloperRecord, CommunityAgreement, PaymentModel, BillingCycle, Currency, PaymentMethod, InvoiceLineItem, CertificationBillingStatus, BillingExclusionPolicy, AdminUser, UserRole } from '../types';
+import { useCollection, useRepositories, useReviewer, useWorkspaceSettings, reportWriteError } from '../services/repositoryContext';
+import { calculateCommunityRisk, CommunityAlert } from '../services/communityRisk';
+import { CERTIFICATION_STATUS_LABELS, agreementForInvoice, generateInvoiceDraft, resolveBillingExclusions } from '../services/invoiceDraft';
+import { resolveFraudRules } from '../services/fraudRules';
+import { downloadCsv } from '../services/csvExport';
+import { invoiceLabel, invoiceSequenceId, issueInvoiceNumber } from '../services/invoiceNumbering';
+import { downloadInvoicePdf, invoicePdfFileName, renderInvoicePdf } from '../services/invoicePdf';
+import { INVOICE_EMAIL_TEMPLATE, fillTemplate, sendPartnerEmail } from '../services/emailService';
+import { DOCUMENT_TYPE_LABELS, INVOICE_STATUS_TRANSITIONS, changeInvoiceStatus, createAmendment, createCreditNote, documentTypeOf, isEditable, originalAfterCorrection, startHistory, statusHistoryOf, validateCorrection } from '../services/invoiceLifecycle';
+import { PAYMENT_SOURCE_LABELS } from '../services/paymentImport';
+import { outstandingBalance, paidAmount } from '../services/paymentReconciliation';
+import { BillingRunPanel } from './BillingRunPanel';
+import { PaymentReconciliationPanel } from './PaymentReconciliationPanel';
+import { Plus, Edit3, Trash2, Wallet, CreditCard, FileText, Check, AlertCircle, AlertTriangle, Save, Users, Award, TrendingUp, DollarSign, Calendar, Upload, File, X, Shield, Search, ChevronDown, Download, Mail, Loader2, Lock, History, FileMinus, FilePen, Ban } from 'lucide-react';
+
+const BREAKDOWN_STATUSES: CertificationBillingStatus[] = ['Billable', 'Held', 'Excluded'];
+
+const BREAKDOWN_STYLES: Record<CertificationBillingStatus, string> = {
+    Billable: 'bg-green-50 text-green-700 border-green-200 dark:bg-green-900/30 dark:text-green-300 dark:border-green-900/50',
+    Held: 'bg-yellow-50 text-yellow-700 border-yellow-200 dark:bg-yellow-900/30 dark:text-yellow-300 dark:border-yellow-900/50',
+    Excluded: 'bg-red-50 text-red-700 border-red-200 dark:bg-red-900/30 dark:text-red-300 dark:border-red-900/50'
+};
 
 interface InvoicingProps {
     data: DeveloperRecord[];
-    admins: AdminUser[];
-    invoices: Invoice[];
-    setInvoices: React.Dispatch<React.SetStateAction<Invoice[]>>;
-    agreements: CommunityAgreement[];
-    setAgreements: React.Dispatch<React.SetStateAction<CommunityAgreement[]>>;
 }
 
-export const Invoicing: React.FC<InvoicingProps> = ({ data, admins, invoices, setInvoices, agreements, setAgreements }) => {
-  const [activeTab, setActiveTab] = useState<'invoices' | 'partners'>('invoices');
+export const Invoicing: React.FC<InvoicingProps> = ({ data }) => {
+  const repositories = useRepositories();
+  const admins = useCollection(repositories.admins);
+  const agreements = useCollection(repositories.agreements);
+  const storedInvoices = useCollection(repositories.invoices);
+  const fraudReviews = useCollection(repositories.fraudReviews);
+  const storedRules = useCollection(repositories.fraudRules);
+  const fraudRules = useMemo(() => resolveFraudRules(storedRules), [storedRules]);
+  // Newest first
+  const invoices = useMemo(() => [...storedInvoices].sort((a, b) => b.issueDate.localeCompare(a.issueDate) || b.id.localeCompare(a.id)), [storedInvoices]);
+
+  const [activeTab, setActiveTab] = useState<'invoices' | 'runs' | 'payments' | 'partners'>('invoices');
   
   // Invoice State
   const [isEditingInvoice, setIsEditingInvoice] = useState<string | null>(null);
+  const [editorError, setEditorError] = useState<string | null>(null);
+  const [isEmailingInvoice, setIsEmailingInvoice] = useState(false);
+  const [isIssuingInvoice, setIsIssuingInvoice] = useState(false);
+  const [correctionReason, setCorrectionReason] = useState('');
   const [filterCommunity, setFilterCommunity] = useState('');
   const [billingMonth, setBillingMonth] = useState<string>(new Date().toISOString().slice(0, 7));
+  const [draftError, setDraftError] = useState<string | null>(null);
 
   // Partner View State
   const [selectedPartnerCode, setSelectedPartnerCode] = useState<string | null>(null);
@@ -29,41 +60,49 @@ export const Invoicing: React.FC<InvoicingProps> = ({ data, admins, invoices, se
   const [adminSearch, setAdminSearch] = useState('');
   const [isAdminDropdownOpen, setIsAdminDropdownOpen] = useState(false);
 
+  // Fraud concentration alerts per partner, all time
+  const [settings] = useWorkspaceSettings();
+  const { reviewer } = useReviewer();
+  const actor = reviewer?.name || 'Admin';
+  const partnerAlerts = useMemo(() => {
+      const byCode = new Map<string, CommunityAlert[]>();
+      calculateCommunityRisk(data, null, null, settings).rows.forEach(r => { if (r.alerts.length > 0) byCode.set(r.partnerCode, r.alerts); });
+      return byCode;
+  }, [data, settings]);
+
+  const renderRiskWarning = (code: string) => {
+      const alerts = partnerAlerts.get(code);
+      if (!alerts) return null;
+      return (
+          <div className="p-4 rounded-xl bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-900/50 text-sm text-red-700 dark:text-red-300 flex items-start gap-3">
+              <AlertTriangle className="w-4 h-4 shrink-0 mt-0.5" />
+              <div>
+                  <p className="font-bold">Fraud concentration alert for {code}: review flagged developers before billing.</p>
+                  <ul className="mt-1 space-y-0.5 text-xs">{alerts.map(a => <li key={a.kind}>{a.message}</li>)}</ul>
+              </div>
+          </div>
+      );
+  };
+
   const partners = useMemo(() => {
       const unique = new Set(data.map(d => d.partnerCode).filter(p => p && p !== 'UNKNOWN'));
       return Array.from(unique).sort();
   }, [data]);
 
-  // Helper to get active agreement for logic
-  const getActiveAgreement = (code: string) => {
-      return agreements.find(a => a.partnerCode === code && a.isActive);
-  };
-
   const handleGenerateDraft = () => {
       if (!filterCommunity) return;
-      const agr = getActiveAgreement(filterCommunity);
-      const certsInMonth = data.filter(d => d.partnerCode === filterCommunity && d.finalGrade === 'Pass' && d.completedAt && d.completedAt.startsWith(billingMonth)).length;
-
-      const items: InvoiceLineItem[] = [];
-      if (agr && agr.paymentModel === 'Fixed_Recurring') {
-           items.push({ id: `i_${Date.now()}`, description: `Fixed Fee (${billingMonth})`, quantity: 1, unitPrice: agr.unitPrice, total: agr.unitPrice });
-      } else {
-           items.push({ id: `i_${Date.now()}`, description: `Certifications (${billingMonth})`, quantity: certsInMonth, unitPrice: agr?.unitPrice || 100, total: certsInMonth * (agr?.unitPrice || 100) });
+      let newInvoice: Invoice;
+      try {
+          newInvoice = generateInvoiceDraft({
+              partnerCode: filterCommunity, month: billingMonth, agreements, records: data, reviews: fraudReviews, riskScoreThreshold: settings.riskScoreThreshold
+          });
+      } catch (err: any) {
+          setDraftError(err.message || 'Could not generate the draft.');
+          return;
       }
-
-      const subtotal = items.reduce((acc, item) => acc + item.total, 0);
-      const newInvoice: Invoice = {
-          id: `INV-${Date.now()}`,
-          invoiceNumber: `INV-${filterCommunity.substring(0,3)}-${billingMonth.replace('-','')}`,
-          partnerCode: filterCommunity,
-          billingPeriod: billingMonth,
-          issueDate: new Date().toISOString().split('T')[0],
-          dueDate: new Date(Date.now() + 30*24*60*60*1000).toISOString().split('T')[0],
-          currency: agr?.currency || 'USD',
-          items, subtotal, taxRate: 0, taxAmount: 0, totalAmount: subtotal,
-          status: InvoiceStatus.DRAFT, notes: '', publicMemo: `Services for ${billingMonth}`,
-      };
-      setInvoices([newInvoice, ...invoices]);
+      setDraftError(null);
+      newInvoice = startHistory(newInvoice, actor);
+      repositories.invoices.save(newInvoice).catch(reportWriteError);
       setIsEditingInvoice(newInvoice.id);
   };
 
@@ -78,6 +117,7 @@ export const Invoicing: React.FC<InvoicingProps> = ({ data, admins, invoices, se
           contactEmail: tempAgreement.contactEmail || '',
           assignedAdminId: tempAgreement.assignedAdminId,
           billingAddress: tempAgreement.billingAddress || '',
+          taxId: tempAgreement.taxId || undefined,
           startDate: tempAgreement.startDate || new Date().toISOString().split('T')[0],
           endDate: tempAgreement.endDate || '',
           isActive: tempAgreement.isActive !== undefined ? tempAgreement.isActive : true,
@@ -87,16 +127,15 @@ export const Invoicing: React.FC<InvoicingProps> = ({ data, admins, invoices, se
           billingCycle: tempAgreement.billingCycle || 'Monthly',
           preferredMethod: tempAgreement.preferredMethod || 'Bank_Transfer',
           paymentTerms: tempAgreement.paymentTerms || 'Net 30',
+          walletAddress: tempAgreement.walletAddress || undefined,
+          bankDetails: tempAgreement.bankDetails || undefined,
           description: tempAgreement.description || '',
           documents: tempAgreement.documents || [],
+          billingExclusions: tempAgreement.billingExclusions,
           lastUpdated: new Date().toISOString()
       };
 
-      if (editingAgreement && editingAgreement !== 'new') {
-          setAgreements(agreements.map(a => a.id === editingAgreement ? newAgr : a));
-      } else {
-          setAgreements([...agreements, newAgr]);
-      }
+      repositories.agreements.save(newAgr).catch(reportWriteError);
       setEditingAgreement(null);
       setTempAgreement({});
   };
@@ -121,6 +160,9 @@ export const Invoicing: React.FC<InvoicingProps> = ({ data, admins, invoices, se
       setIsAdminDropdownOpen(false);
   };
 
+  const exclusionPolicy = resolveBillingExclusions(tempAgreement as CommunityAgreement);
+  const setExclusionPolicy = (changes: Partial<BillingExclusionPolicy>) => setTempAgreement({ ...tempAgreement, billingExclusions: { ...exclusionPolicy, ...changes } });
+
   const handleAddDocument = () => {
       if(tempDoc.trim()) {
           setTempAgreement({ ...tempAgreement, documents: [...(tempAgreement.documents || []), tempDoc] });
@@ -156,20 +198,29 @@ export const Invoicing: React.FC<InvoicingProps> = ({ data, admins, invoices, se
       setIsAdminDropdownOpen(false);
   };
 
+  const exportBreakdown = (inv: Invoice) => {
+      downloadCsv(
+          `${invoiceLabel(inv).replace(/\s+/g, '-')}-certifications.csv`,
+          ['Developer ID', 'Email', 'Name', 'Completed At', 'Status', 'Reason', 'Risk Score', 'Flags'],
+          (inv.certificationBreakdown || []).map(l => [l.developerId, l.email, l.name, l.completedAt, CERTIFICATION_STATUS_LABELS[l.status], l.reason, l.riskScore, l.flags.join('; ')])
+      );
+  };
+
   // Invoice Editor Component
   const InvoiceEditor = ({ invoiceId }: { invoiceId: string }) => {
-      const invIndex = invoices.findIndex(i => i.id === invoiceId);
-      if (invIndex === -1) return null;
-      const inv = invoices[invIndex];
+      const inv = invoices.find(i => i.id === invoiceId);
+      if (!inv) return null;
+      const locked = !isEditable(inv);
+      const documentType = documentTypeOf(inv);
 
+      // Issued documents are immutable; see invoiceLifecycle.ts
       const updateInvoice = (updates: Partial<Invoice>) => {
-          const newInvoices = [...invoices];
+          if (locked) return;
           const items = updates.items || inv.items;
           const taxRate = updates.taxRate !== undefined ? updates.taxRate : inv.taxRate;
           const subtotal = items.reduce((acc, i) => acc + i.total, 0);
           const taxAmount = subtotal * (taxRate / 100);
-          newInvoices[invIndex] = { ...inv, ...updates, items, subtotal, taxAmount, totalAmount: subtotal + taxAmount };
-          setInvoices(newInvoices);
+          repositories.invoices.save({ ...inv, ...updates, items, subtotal, taxAmount, totalAmount: subtotal + taxAmount }).catch(reportWriteError);
       };
 
       const updateLineItem = (id: string, field: keyof InvoiceLineItem, val: any) => {
@@ -177,31 +228,178 @@ export const Invoicing: React.FC<InvoicingProps> = ({ data, admins, invoices, se
           updateInvoice({ items: newItems });
       };
 
+      const agreement = agreementForInvoice(inv, agreements);
+
+      // Drafts get their number and issue date when they are issued; an issued correction may void
+      // its original. The counter, the invoice and the original are saved in one transaction.
+      const handleSend = async () => {
+          const correctionError = validateCorrection(inv, invoices);
+          if (correctionError) {
+              setEditorError(correctionError);
+              return;
+          }
+          const issueDate = new Date().toISOString().split('T')[0];
+          setIsIssuingInvoice(true);
+          try {
+              await repositories.invoiceSequences.issue(invoiceSequenceId(inv, settings, issueDate), current => {
+                  const numbered = issueInvoiceNumber(inv, settings, current, invoices, issueDate, agreement);
+                  const issued = changeInvoiceStatus(numbered.invoice, InvoiceStatus.SENT, actor);
+                  const original = originalAfterCorrection(issued, invoices, actor);
+                  return { sequence: numbered.sequence, invoices: original ? [issued, original] : [issued] };
+              });
+              setEditorError(null);
+              setIsEditingInvoice(null);
+          } catch (err: any) {
+              setEditorError(err.message || 'The invoice could not be issued.');
+          } finally {
+              setIsIssuingInvoice(false);
+          }
+      };
+
+      const handleStatusChange = (status: InvoiceStatus) => {
+          if (status === InvoiceStatus.VOID && !correctionReason.trim()) {
+              setEditorError('Enter a reason before voiding.');
+              return;
+          }
+          if (!window.confirm(`Mark ${invoiceLabel(inv)} as ${status}?`)) return;
+          try {
+              const updated = changeInvoiceStatus(inv, status, actor, status === InvoiceStatus.VOID ? correctionReason.trim() : undefined);
+              repositories.invoices.save(status === InvoiceStatus.PAID ? { ...updated, paidAt: new Date().toISOString().split('T')[0] } : updated).catch(reportWriteError);
+              setCorrectionReason('');
+              setEditorError(null);
+          } catch (err: any) {
+              setEditorError(err.message);
+          }
+      };
+
+      const handleCorrection = (kind: 'Credit_Note' | 'Amendment') => {
+          if (!correctionReason.trim()) {
+              setEditorError(`Enter a reason for the ${kind === 'Credit_Note' ? 'credit note' : 'amendment'}.`);
+              return;
+          }
+          try {
+              const create = kind === 'Credit_Note' ? createCreditNote : createAmendment;
+              const correction = create(inv, invoices, actor, correctionReason.trim());
+              repositories.invoices.save(correction).catch(reportWriteError);
+              setCorrectionReason('');
+              setEditorError(null);
+              setIsEditingInvoice(correction.id);
+          } catch (err: any) {
+              setEditorError(err.message);
+          }
+      };
+
+      const corrections = invoices.filter(i => i.correctionOf === inv.id);
+      const statusActions = INVOICE_STATUS_TRANSITIONS[inv.status].filter(st => st !== InvoiceStatus.SENT);
+
+      // The PDF goes to the agreement's billing contact and is logged with the outreach campaigns
+      const handleEmailPdf = async () => {
+          if (!agreement?.contactEmail) {
+              setEditorError(`${inv.partnerCode} has no billing contact email. Add one to the agreement under Partners.`);
+              return;
+          }
+          if (!window.confirm(`Email ${invoiceLabel(inv)} to ${agreement.contactEmail}?`)) return;
+          const values = {
+              documentType: DOCUMENT_TYPE_LABELS[documentType],
+              invoiceNumber: invoiceLabel(inv),
+              issuerName: settings.invoiceIssuerName,
+              contactName: agreement.contactName || agreement.partnerName,
+              billingPeriod: inv.billingPeriod,
+              totalAmount: `${inv.totalAmount.toLocaleString()} ${inv.currency}`,
+              dueDate: inv.dueDate
+          };
+          const subject = fillTemplate(INVOICE_EMAIL_TEMPLATE.subject, values);
+          const fileName = invoicePdfFileName(inv);
+          setIsEmailingInvoice(true);
+          try {
+              await sendPartnerEmail(agreement.contactEmail, subject, fillTemplate(INVOICE_EMAIL_TEMPLATE.body, values), [
+                  { fileName, mimeType: 'application/pdf', content: renderInvoicePdf(inv, agreement, settings) }
+              ]);
+              await repositories.campaigns.save({
+                  id: `cmp_${Date.now()}`, name: subject, audienceSize: 1, sentCount: 1, status: 'Completed',
+                  sentAt: new Date().toISOString(), templateId: INVOICE_EMAIL_TEMPLATE.id, attachments: [fileName]
+              }).catch(reportWriteError);
+              setEditorError(null);
+          } catch (err: any) {
+              setEditorError(err.message || 'Could not send the invoice.');
+          } finally {
+              setIsEmailingInvoice(false);
+          }
+      };
+
       return (
           <div className="fixed inset-0 bg-slate-900/80 backdrop-blur-sm flex items-center justify-center z-50 p-4">
               <div className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-2xl shadow-2xl w-full max-w-5xl max-h-[95vh] overflow-y-auto flex flex-col animate-in fade-in zoom-in-95 duration-200">
                   {/* Header */}
                   <div className="px-8 py-6 border-b border-slate-200 dark:border-white/5 flex justify-between items-center bg-slate-50 dark:bg-slate-900/50 sticky top-0 z-10 backdrop-blur-md">
                       <div>
-                          <h2 className="text-2xl font-bold text-slate-900 dark:text-white">Invoice {inv.invoiceNumber}</h2>
-                          <p className="text-slate-500 dark:text-slate-400 text-sm mt-1">Partner: <span className="font-semibold text-[#2a00ff] dark:text-cyan-400">{inv.partnerCode}</span></p>
+                          <h2 className="text-2xl font-bold text-slate-900 dark:text-white flex items-center gap-2">
+                              {inv.invoiceNumber ? `${DOCUMENT_TYPE_LABELS[documentType]} ${inv.invoiceNumber}` : `Draft ${DOCUMENT_TYPE_LABELS[documentType]}`}
+                              {locked && <span title="Issued documents cannot be edited"><Lock className="w-4 h-4 text-slate-400" /></span>}
+                          </h2>
+                          <p className="text-slate-500 dark:text-slate-400 text-sm mt-1">
+                              Partner: <span className="font-semibold text-[#2a00ff] dark:text-cyan-400">{inv.partnerCode}</span> · {inv.status}
+                              {inv.correctionOf && <> · {documentType === 'Credit_Note' ? 'Credits' : 'Replaces'} <button onClick={() => setIsEditingInvoice(inv.correctionOf!)} className="font-mono text-cyan-600 dark:text-cyan-400 hover:underline">{inv.correctionOfNumber}</button></>}
+                          </p>
                       </div>
                       <div className="flex gap-3">
-                           <button onClick={() => setIsEditingInvoice(null)} className="px-5 py-2 text-slate-500 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-xl font-medium transition-colors">Close</button>
-                           <button onClick={() => { updateInvoice({ status: InvoiceStatus.SENT }); setIsEditingInvoice(null); }} className="px-6 py-2 bg-cyan-600 text-white font-bold rounded-xl hover:bg-cyan-500 shadow-lg shadow-cyan-900/20 transition-all">Save & Send</button>
+                           <button onClick={() => { setIsEditingInvoice(null); setEditorError(null); setCorrectionReason(''); }} className="px-5 py-2 text-slate-500 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-xl font-medium transition-colors">Close</button>
+                           <button onClick={() => downloadInvoicePdf(inv, agreement, settings)} className="px-4 py-2 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-200 rounded-xl font-medium hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors flex items-center gap-2"><Download className="w-4 h-4" /> PDF</button>
+                           <button onClick={handleEmailPdf} disabled={!inv.invoiceNumber || isEmailingInvoice} title={inv.invoiceNumber ? `Email the PDF to ${agreement?.contactEmail || 'the billing contact'}` : 'Send the draft first to issue its number'} className="px-4 py-2 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-200 rounded-xl font-medium hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors flex items-center gap-2 disabled:opacity-50">
+                               {isEmailingInvoice ? <Loader2 className="w-4 h-4 animate-spin" /> : <Mail className="w-4 h-4" />} Email
+                           </button>
+                           {!locked && <button onClick={handleSend} disabled={isIssuingInvoice} className="px-6 py-2 bg-cyan-600 text-white font-bold rounded-xl hover:bg-cyan-500 shadow-lg shadow-cyan-900/20 transition-all disabled:opacity-50 flex items-center gap-2">{isIssuingInvoice && <Loader2 className="w-4 h-4 animate-spin" />} Issue & Send</button>}
                       </div>
                   </div>
                   <div className="p-8 space-y-8">
+                      {editorError && (
+                          <div className="p-4 rounded-xl bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-900/50 text-sm text-red-700 dark:text-red-300 flex items-center gap-3">
+                              <AlertCircle className="w-4 h-4 shrink-0" /> {editorError}
+                          </div>
+                      )}
+                      {renderRiskWarning(inv.partnerCode)}
+
+                      {/* Issued: status changes and corrections only */}
+                      {locked && (
+                          <div className="p-4 rounded-xl bg-slate-50 dark:bg-slate-800/50 border border-slate-200 dark:border-white/5 space-y-3">
+                              <p className="text-sm text-slate-600 dark:text-slate-300 flex items-center gap-2"><Lock className="w-4 h-4 shrink-0" /> Issued documents cannot be edited. Correct them with a credit note or, while unpaid, an amendment that replaces them.</p>
+                              <div className="flex flex-wrap items-center gap-2">
+                                  <input value={correctionReason} onChange={e => setCorrectionReason(e.target.value)} placeholder="Reason (required for corrections and voiding)" className="flex-1 min-w-[240px] p-2 bg-white dark:bg-slate-900 border border-slate-300 dark:border-slate-600 rounded-lg text-sm text-slate-900 dark:text-white outline-none focus:ring-2 focus:ring-cyan-500" />
+                                  {documentType !== 'Credit_Note' && inv.status !== InvoiceStatus.VOID && (
+                                      <button onClick={() => handleCorrection('Credit_Note')} className="px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg text-sm font-medium text-slate-700 dark:text-slate-200 hover:bg-white dark:hover:bg-slate-800 flex items-center gap-1.5"><FileMinus className="w-4 h-4" /> Credit Note</button>
+                                  )}
+                                  {documentType !== 'Credit_Note' && (inv.status === InvoiceStatus.SENT || inv.status === InvoiceStatus.OVERDUE) && (
+                                      <button onClick={() => handleCorrection('Amendment')} className="px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg text-sm font-medium text-slate-700 dark:text-slate-200 hover:bg-white dark:hover:bg-slate-800 flex items-center gap-1.5"><FilePen className="w-4 h-4" /> Amend</button>
+                                  )}
+                                  {statusActions.map(st => (
+                                      <button key={st} onClick={() => handleStatusChange(st)} className={`px-3 py-2 rounded-lg text-sm font-bold flex items-center gap-1.5 ${st === InvoiceStatus.VOID ? 'text-red-600 dark:text-red-400 border border-red-200 dark:border-red-900/50 hover:bg-red-50 dark:hover:bg-red-900/20' : 'bg-emerald-600 text-white hover:bg-emerald-500'}`}>
+                                          {st === InvoiceStatus.VOID ? <Ban className="w-4 h-4" /> : <Check className="w-4 h-4" />} {st === InvoiceStatus.VOID ? 'Void' : `Mark ${st}`}
+                                      </button>
+                                  ))}
+                              </div>
+                              {corrections.length > 0 && (
+                                  <div className="text-xs text-slate-500 dark:text-slate-400 flex flex-wrap gap-2">
+                                      Corrections:
+                                      {corrections.map(c => (
+                                          <button key={c.id} onClick={() => setIsEditingInvoice(c.id)} className="font-mono text-cyan-600 dark:text-cyan-400 hover:underline">
+                                              {DOCUMENT_TYPE_LABELS[documentTypeOf(c)]} {invoiceLabel(c)} ({c.status}, {c.totalAmount.toLocaleString()} {c.currency})
+                                          </button>
+                                      ))}
+                                  </div>
+                              )}
+                          </div>
+                      )}
+                      {inv.correctionReason && <p className="text-sm text-slate-500 dark:text-slate-400">Reason for correction: <span className="text-slate-800 dark:text-slate-200">{inv.correctionReason}</span></p>}
                       <div className="grid grid-cols-3 gap-6 bg-slate-50 dark:bg-slate-800/50 p-6 rounded-xl border border-slate-200 dark:border-white/5">
                           {['issueDate', 'dueDate'].map(f => (
                               <div key={f}>
                                   <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">{f}</label>
-                                  <input type="date" value={(inv as any)[f]} onChange={e => updateInvoice({ [f]: e.target.value })} className="w-full p-2 bg-white dark:bg-slate-900 border border-slate-300 dark:border-slate-600 rounded-lg text-sm text-slate-900 dark:text-white font-medium focus:ring-2 focus:ring-cyan-500 outline-none shadow-sm" />
+                                  <input type="date" disabled={locked} value={(inv as any)[f]} onChange={e => updateInvoice({ [f]: e.target.value })} className="w-full p-2 bg-white dark:bg-slate-900 border border-slate-300 dark:border-slate-600 rounded-lg text-sm text-slate-900 dark:text-white font-medium focus:ring-2 focus:ring-cyan-500 outline-none shadow-sm" />
                               </div>
                           ))}
                           <div>
                               <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">Currency</label>
-                              <select value={inv.currency} onChange={e => updateInvoice({ currency: e.target.value as Currency })} className="w-full p-2 bg-white dark:bg-slate-900 border border-slate-300 dark:border-slate-600 rounded-lg text-sm text-slate-900 dark:text-white font-medium outline-none shadow-sm"><option>USD</option><option>HBAR</option><option>USDC</option><option>EUR</option></select>
+                              <select disabled={locked} value={inv.currency} onChange={e => updateInvoice({ currency: e.target.value as Currency })} className="w-full p-2 bg-white dark:bg-slate-900 border border-slate-300 dark:border-slate-600 rounded-lg text-sm text-slate-900 dark:text-white font-medium outline-none shadow-sm"><option>USD</option><option>HBAR</option><option>USDC</option><option>EUR</option></select>
                           </div>
                       </div>
                       
@@ -213,15 +411,15 @@ export const Invoicing: React.FC<InvoicingProps> = ({ data, admins, invoices, se
                                   <thead className="bg-slate-50 dark:bg-slate-800 text-slate-500 dark:text-slate-400 font-semibold border-b border-slate-200 dark:border-slate-700"><tr><th className="px-4 py-3">Description</th><th className="px-4 py-3 w-24">Qty</th><th className="px-4 py-3 w-32 text-right">Price</th><th className="px-4 py-3 w-32 text-right">Total</th><th className="w-10"></th></tr></thead>
                                   <tbody className="divide-y divide-slate-100 dark:divide-slate-700">{inv.items.map(item => (
                                       <tr key={item.id} className="bg-white dark:bg-slate-900">
-                                          <td className="p-3"><input value={item.description} onChange={e => updateLineItem(item.id, 'description', e.target.value)} className="w-full p-2 bg-slate-50 dark:bg-slate-800 border border-slate-300 dark:border-slate-600 rounded text-slate-900 dark:text-white focus:border-cyan-500 outline-none" /></td>
-                                          <td className="p-3"><input type="number" value={item.quantity} onChange={e => updateLineItem(item.id, 'quantity', e.target.value)} className="w-full p-2 bg-slate-50 dark:bg-slate-800 border border-slate-300 dark:border-slate-600 rounded text-center text-slate-900 dark:text-white focus:border-cyan-500 outline-none" /></td>
-                                          <td className="p-3"><input type="number" value={item.unitPrice} onChange={e => updateLineItem(item.id, 'unitPrice', e.target.value)} className="w-full p-2 bg-slate-50 dark:bg-slate-800 border border-slate-300 dark:border-slate-600 rounded text-right text-slate-900 dark:text-white focus:border-cyan-500 outline-none" /></td>
+                                          <td className="p-3"><input disabled={locked} value={item.description} onChange={e => updateLineItem(item.id, 'description', e.target.value)} className="w-full p-2 bg-slate-50 dark:bg-slate-800 border border-slate-300 dark:border-slate-600 rounded text-slate-900 dark:text-white focus:border-cyan-500 outline-none" /></td>
+                                          <td className="p-3"><input type="number" disabled={locked} value={item.quantity} onChange={e => updateLineItem(item.id, 'quantity', e.target.value)} className="w-full p-2 bg-slate-50 dark:bg-slate-800 border border-slate-300 dark:border-slate-600 rounded text-center text-slate-900 dark:text-white focus:border-cyan-500 outline-none" /></td>
+                                          <td className="p-3"><input type="number" disabled={locked} value={item.unitPrice} onChange={e => updateLineItem(item.id, 'unitPrice', e.target.value)} className="w-full p-2 bg-slate-50 dark:bg-slate-800 border border-slate-300 dark:border-slate-600 rounded text-right text-slate-900 dark:text-white focus:border-cyan-500 outline-none" /></td>
                                           <td className="p-3 text-right font-mono font-bold text-slate-700 dark:text-slate-300">{item.total.toLocaleString()}</td>
-                                          <td className="p-3 text-center"><button onClick={() => updateInvoice({ items: inv.items.filter(i => i.id !== item.id) })} className="text-slate-400 hover:text-red-500"><Trash2 className="w-4 h-4" /></button></td>
+                                          <td className="p-3 text-center">{!locked && <button onClick={() => updateInvoice({ items: inv.items.filter(i => i.id !== item.id) })} className="text-slate-400 hover:text-red-500"><Trash2 className="w-4 h-4" /></button>}</td>
                                       </tr>
                                   ))}</tbody>
                               </table>
-                              <button onClick={() => updateInvoice({ items: [...inv.items, { id: `i_${Date.now()}`, description: '', quantity: 1, unitPrice: 0, total: 0 }] })} className="w-full py-3 text-center text-sm font-bold text-cyan-600 dark:text-cyan-400 bg-slate-50 dark:bg-slate-900 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors border-t border-slate-200 dark:border-slate-700">+ Add Line Item</button>
+                              {!locked && <button onClick={() => updateInvoice({ items: [...inv.items, { id: `i_${Date.now()}`, description: '', quantity: 1, unitPrice: 0, total: 0 }] })} className="w-full py-3 text-center text-sm font-bold text-cyan-600 dark:text-cyan-400 bg-slate-50 dark:bg-slate-900 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors border-t border-slate-200 dark:border-slate-700">+ Add Line Item</button>}
                           </div>
                       </div>
 
@@ -229,10 +427,75 @@ export const Invoicing: React.FC<InvoicingProps> = ({ data, admins, invoices, se
                       <div className="flex justify-end">
                           <div className="w-64 space-y-3">
                               <div className="flex justify-between text-sm text-slate-500 dark:text-slate-400"><span>Subtotal</span><span>{inv.subtotal.toLocaleString()} {inv.currency}</span></div>
-                              <div className="flex justify-between items-center text-sm text-slate-500 dark:text-slate-400"><span>Tax Rate (%)</span><input type="number" value={inv.taxRate} onChange={e => updateInvoice({ taxRate: Number(e.target.value) })} className="w-16 p-1 bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-600 rounded text-center text-slate-900 dark:text-white" /></div>
+                              <div className="flex justify-between items-center text-sm text-slate-500 dark:text-slate-400"><span>Tax Rate (%)</span><input type="number" disabled={locked} value={inv.taxRate} onChange={e => updateInvoice({ taxRate: Number(e.target.value) })} className="w-16 p-1 bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-600 rounded text-center text-slate-900 dark:text-white" /></div>
                               <div className="pt-4 border-t border-slate-200 dark:border-slate-700 flex justify-between text-xl font-bold text-slate-900 dark:text-white"><span>Total</span><span className="text-[#2a00ff] dark:text-cyan-400 text-shadow-glow">{inv.totalAmount.toLocaleString()} {inv.currency}</span></div>
                           </div>
                       </div>
+
+                      {/* Certification Breakdown */}
+                      {inv.certificationBreakdown && inv.certificationBreakdown.length > 0 && (
+                          <div>
+                              <div className="flex justify-between items-center mb-4">
+                                  <h4 className="text-sm font-bold text-slate-800 dark:text-white">
+                                      Certification Breakdown
+                                      <span className="ml-2 font-normal text-slate-500">
+                                          {BREAKDOWN_STATUSES.map(st => `${inv.certificationBreakdown!.filter(l => l.status === st).length} ${st.toLowerCase()}`).join(' · ')}
+                                      </span>
+                                  </h4>
+                                  <button onClick={() => exportBreakdown(inv)} className="text-xs font-bold text-cyan-600 dark:text-cyan-400 hover:underline flex items-center gap-1"><FileText className="w-3 h-3" /> Export CSV</button>
+                              </div>
+                              <div className="border border-slate-200 dark:border-slate-700 rounded-xl overflow-hidden max-h-80 overflow-y-auto">
+                                  <table className="w-full text-xs text-left">
+                                      <thead className="bg-slate-50 dark:bg-slate-800 text-slate-500 dark:text-slate-400 font-semibold sticky top-0"><tr><th className="px-4 py-2">Developer</th><th className="px-4 py-2">Completed</th><th className="px-4 py-2 text-right">Score</th><th className="px-4 py-2">Status</th><th className="px-4 py-2">Reason</th></tr></thead>
+                                      <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+                                          {[...inv.certificationBreakdown].sort((a, b) => BREAKDOWN_STATUSES.indexOf(b.status) - BREAKDOWN_STATUSES.indexOf(a.status)).map(l => (
+                                              <tr key={l.developerId} className="bg-white dark:bg-slate-900">
+                                                  <td className="px-4 py-2"><div className="font-medium text-slate-800 dark:text-slate-200">{l.name}</div><div className="text-slate-400 font-mono">{l.email}</div></td>
+                                                  <td className="px-4 py-2 text-slate-500">{l.completedAt.split('T')[0]}</td>
+                                                  <td className="px-4 py-2 text-right font-mono text-slate-500">{l.riskScore}</td>
+                                                  <td className="px-4 py-2"><span className={`px-2 py-0.5 rounded font-bold border ${BREAKDOWN_STYLES[l.status]}`}>{l.status}</span></td>
+                                                  <td className="px-4 py-2 text-slate-500">{l.reason || '—'}</td>
+                                              </tr>
+                                          ))}
+                                      </tbody>
+                                  </table>
+                              </div>
+                          </div>
+                      )}
+
+                      {/* Payments */}
+                      {inv.payments && inv.payments.length > 0 && (
+                          <div>
+                              <div className="flex items-center justify-between mb-4">
+                                  <h4 className="text-sm font-bold text-slate-800 dark:text-white flex items-center gap-2"><Wallet className="w-4 h-4" /> Payments</h4>
+                                  <span className="text-xs text-slate-500">{paidAmount(inv).toLocaleString()} {inv.currency} received · {outstandingBalance(inv, invoices).toLocaleString()} {inv.currency} outstanding</span>
+                              </div>
+                              <ol className="space-y-2 text-sm">
+                                  {inv.payments.map(p => (
+                                      <li key={p.transactionId} className="flex items-center gap-3">
+                                          <span className="font-bold text-slate-800 dark:text-slate-200 w-28 text-right">{p.amount.toLocaleString()} {inv.currency}</span>
+                                          <span className="text-slate-500 dark:text-slate-400">{p.date} · {PAYMENT_SOURCE_LABELS[p.source]}</span>
+                                          <span className="font-mono text-xs text-slate-400 truncate">{p.transactionId}</span>
+                                          <span className="text-xs text-slate-400 ml-auto">Recorded by {p.recordedBy}</span>
+                                      </li>
+                                  ))}
+                              </ol>
+                          </div>
+                      )}
+
+                      {/* Status History */}
+                      <div>
+                          <h4 className="text-sm font-bold text-slate-800 dark:text-white mb-4 flex items-center gap-2"><History className="w-4 h-4" /> Status History</h4>
+                          <ol className="space-y-2 text-sm">
+                              {statusHistoryOf(inv).map((change, idx) => (
+                                  <li key={idx} className="flex items-center gap-3">
+                                      <span className="px-2 py-0.5 bg-slate-100 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded text-xs font-bold text-slate-600 dark:text-slate-300 w-20 text-center">{change.status}</span>
+                                      <span className="text-slate-500 dark:text-slate-400">{new Date(change.at).toLocaleString()} · {change.by}</span>
+                                      {change.note && <span className="text-slate-700 dark:text-slate-300">{change.note}</span>}
+                                  </li>
+                              ))}
+                          </ol>
+                      </div>
                   </div>
               </div>
           </div>
@@ -244,12 +507,14 @@ export const Invoicing: React.FC<InvoicingProps> = ({ data, admins, invoices, se
       <div className="glass-panel p-6 rounded-2xl flex flex-wrap gap-4 items-center bg-white dark:bg-[#1c1b22]">
          <div className="flex border-r border-slate-200 dark:border-white/10 pr-4 gap-2">
             <button onClick={() => setActiveTab('invoices')} className={`px-4 py-2 rounded-lg text-sm font-bold transition-all ${activeTab === 'invoices' ? 'bg-cyan-600 text-white shadow-lg shadow-cyan-900/20' : 'text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-white/5'}`}>Invoices</button>
+            <button onClick={() => setActiveTab('runs')} className={`px-4 py-2 rounded-lg text-sm font-bold transition-all ${activeTab === 'runs' ? 'bg-cyan-600 text-white shadow-lg shadow-cyan-900/20' : 'text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-white/5'}`}>Billing Runs</button>
+            <button onClick={() => setActiveTab('payments')} className={`px-4 py-2 rounded-lg text-sm font-bold transition-all ${activeTab === 'payments' ? 'bg-cyan-600 text-white shadow-lg shadow-cyan-900/20' : 'text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-white/5'}`}>Reconciliation</button>
             <button onClick={() => { setActiveTab('partners'); setSelectedPartnerCode(null); }} className={`px-4 py-2 rounded-lg text-sm font-bold transition-all ${activeTab === 'partners' ? 'bg-cyan-600 text-white shadow-lg shadow-cyan-900/20' : 'text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-white/5'}`}>Partners</button>
          </div>
          {activeTab === 'invoices' && (
              <>
-                 <input type="month" value={billingMonth} onChange={e => setBillingMonth(e.target.value)} className="p-2.5 bg-white dark:bg-slate-900 border border-slate-300 dark:border-slate-700 rounded-lg text-sm text-slate-900 dark:text-white outline-none focus:ring-2 focus:ring-cyan-500 shadow-sm" />
-                 <select value={filterCommunity} onChange={e => setFilterCommunity(e.target.value)} className="p-2.5 bg-white dark:bg-slate-900 border border-slate-300 dark:border-slate-700 rounded-lg text-sm text-slate-900 dark:text-white outline-none focus:ring-2 focus:ring-cyan-500 min-w-[200px] shadow-sm">
+                 <input type="month" value={billingMonth} onChange={e => { setBillingMonth(e.target.value); setDraftError(null); }} className="p-2.5 bg-white dark:bg-slate-900 border border-slate-300 dark:border-slate-700 rounded-lg text-sm text-slate-900 dark:text-white outline-none focus:ring-2 focus:ring-cyan-500 shadow-sm" />
+                 <select value={filterCommunity} onChange={e => { setFilterCommunity(e.target.value); setDraftError(null); }} className="p-2.5 bg-white dark:bg-slate-900 border border-slate-300 dark:border-slate-700 rounded-lg text-sm text-slate-900 dark:text-white outline-none focus:ring-2 focus:ring-cyan-500 min-w-[200px] shadow-sm">
                      <option value="">Filter by Partner...</option>
                      {partners.map(p => <option key={p} value={p}>{p}</option>)}
                  </select>
@@ -258,17 +523,28 @@ export const Invoicing: React.FC<InvoicingProps> = ({ data, admins, invoices, se
          )}
       </div>
 
+      {activeTab === 'invoices' && draftError && (
+          <div className="p-4 rounded-xl bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-900/50 text-sm text-red-700 dark:text-red-300 flex items-center gap-3">
+              <AlertCircle className="w-4 h-4 shrink-0" /> {draftError}
+          </div>
+      )}
+      {activeTab === 'invoices' && filterCommunity && renderRiskWarning(filterCommunity)}
+
       {activeTab === 'invoices' && (
           <div className="glass-card rounded-2xl overflow-hidden bg-white dark:bg-transparent border border-slate-200 dark:border-white/5">
               <table className="w-full text-sm text-left">
-                  <thead className="bg-slate-50 dark:bg-slate-900/50 text-slate-500 dark:text-slate-400 font-semibold border-b border-slate-200 dark:border-white/5"><tr><th className="px-6 py-4">Invoice #</th><th className="px-6 py-4">Partner</th><th className="px-6 py-4">Date</th><th className="px-6 py-4">Amount</th><th className="px-6 py-4">Status</th><th className="px-6 py-4 text-right">Edit</th></tr></thead>
+                  <thead className="bg-slate-50 dark:bg-slate-900/50 text-slate-500 dark:text-slate-400 font-semibold border-b border-slate-200 dark:border-white/5"><tr><th className="px-6 py-4">Invoice #</th><th className="px-6 py-4">Partner</th><th className="px-6 py-4">Date</th><th className="px-6 py-4">Amount</th><th className="px-6 py-4">Status</th><th className="px-6 py-4 text-right">Open</th></tr></thead>
                   <tbody className="divide-y divide-slate-100 dark:divide-white/5">{invoices.length === 0 ? <tr><td colSpan={6} className="p-12 text-center text-slate-500">No invoices found. Generate a draft above.</td></tr> : invoices.map(inv => (
-                      <tr key={inv.id} className="hover:bg-slate-50 dark:hover:bg-white/5 transition-colors"><td className="px-6 py-4 font-mono text-slate-600 dark:text-slate-400">{inv.invoiceNumber}</td><td className="px-6 py-4 font-medium text-slate-900 dark:text-white">{inv.partnerCode}</td><td className="px-6 py-4 text-slate-500 dark:text-slate-400">{inv.issueDate}</td><td className="px-6 py-4 font-bold text-emerald-600 dark:text-emerald-400">{inv.totalAmount.toLocaleString()} {inv.currency}</td><td className="px-6 py-4"><span className="px-2 py-1 bg-slate-100 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded text-xs font-bold text-slate-600 dark:text-slate-300">{inv.status}</span></td><td className="px-6 py-4 text-right"><button onClick={() => setIsEditingInvoice(inv.id)} className="p-2 bg-slate-100 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded hover:border-cyan-500 text-slate-400 hover:text-cyan-500 transition-colors"><Edit3 className="w-4 h-4" /></button></td></tr>
+                      <tr key={inv.id} className="hover:bg-slate-50 dark:hover:bg-white/5 transition-colors"><td className="px-6 py-4 font-mono text-slate-600 dark:text-slate-400">{inv.invoiceNumber || <span className="italic text-slate-400">Unnumbered draft</span>}{inv.correctionOf && <div className="text-[10px] font-sans text-slate-400">{DOCUMENT_TYPE_LABELS[documentTypeOf(inv)]} of {inv.correctionOfNumber}</div>}</td><td className="px-6 py-4 font-medium text-slate-900 dark:text-white">{inv.partnerCode}</td><td className="px-6 py-4 text-slate-500 dark:text-slate-400">{inv.issueDate}</td><td className="px-6 py-4 font-bold text-emerald-600 dark:text-emerald-400">{inv.totalAmount.toLocaleString()} {inv.currency}</td><td className="px-6 py-4"><span className="px-2 py-1 bg-slate-100 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded text-xs font-bold text-slate-600 dark:text-slate-300">{inv.status}</span></td><td className="px-6 py-4 text-right"><button onClick={() => setIsEditingInvoice(inv.id)} title={isEditable(inv) ? 'Edit draft' : 'View'} className="p-2 bg-slate-100 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded hover:border-cyan-500 text-slate-400 hover:text-cyan-500 transition-colors">{isEditable(inv) ? <Edit3 className="w-4 h-4" /> : <FileText className="w-4 h-4" />}</button></td></tr>
                   ))}</tbody>
               </table>
           </div>
       )}
 
+      {activeTab === 'runs' && <BillingRunPanel data={data} />}
+
+      {activeTab === 'payments' && <PaymentReconciliationPanel />}
+
       {activeTab === 'partners' && (
           <div className="flex flex-col lg:flex-row gap-6 h-[calc(100vh-220px)]">
               
@@ -291,6 +567,7 @@ export const Invoicing: React.FC<InvoicingProps> = ({ data, admins, invoices, se
                               >
                                   <div className="flex justify-between items-center mb-1">
                                       <span className={`font-bold text-sm ${isActive ? 'text-indigo-700 dark:text-indigo-300' : 'text-slate-700 dark:text-slate-300'}`}>{code}</span>
+                                      {partnerAlerts.has(code) && <AlertTriangle className="w-3.5 h-3.5 text-red-500 ml-auto mr-2" />}
                                       {activeAgr > 0 && <span className="px-1.5 py-0.5 bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400 text-[10px] font-bold rounded">Active</span>}
                                   </div>
                                   <div className="flex gap-3 text-xs text-slate-500 dark:text-slate-400">
@@ -308,6 +585,8 @@ export const Invoicing: React.FC<InvoicingProps> = ({ data, admins, invoices, se
               <div className="w-full lg:w-2/3 space-y-6 overflow-y-auto pr-1">
                   {selectedPartnerCode ? (
                       <>
+                          {renderRiskWarning(selectedPartnerCode)}
+
                           {/* Agreements List */}
                           <div className="glass-card p-6 rounded-xl border border-slate-200 dark:border-white/5">
                               <div className="flex justify-between items-center mb-6">
@@ -525,6 +804,87 @@ export const Invoicing: React.FC<InvoicingProps> = ({ data, admins, invoices, se
                           </div>
                       </div>
 
+                      {/* Billing & Payment (printed on the invoice PDF) */}
+                      <div className="p-4 bg-slate-50 dark:bg-slate-800/50 rounded-xl border border-slate-200 dark:border-slate-700">
+                          <h4 className="text-xs font-bold text-slate-400 uppercase mb-3">Billing & Payment</h4>
+                          <div className="grid grid-cols-2 gap-4 mb-4">
+                              <div>
+                                  <label className="block text-xs font-bold text-slate-500 mb-1">Billing Address</label>
+                                  <textarea rows={3} value={tempAgreement.billingAddress || ''} onChange={e => setTempAgreement({...tempAgreement, billingAddress: e.target.value})} className="w-full p-2.5 bg-white dark:bg-slate-900 border border-slate-300 dark:border-slate-600 rounded-lg text-sm text-slate-900 dark:text-white outline-none focus:ring-2 focus:ring-cyan-500" />
+                              </div>
+                              <div className="space-y-4">
+                                  <div>
+                                      <label className="block text-xs font-bold text-slate-500 mb-1">Tax ID / VAT Number</label>
+                                      <input value={tempAgreement.taxId || ''} onChange={e => setTempAgreement({...tempAgreement, taxId: e.target.value})} className="w-full p-2.5 bg-white dark:bg-slate-900 border border-slate-300 dark:border-slate-600 rounded-lg text-sm text-slate-900 dark:text-white outline-none focus:ring-2 focus:ring-cyan-500" />
+                                  </div>
+                                  <div>
+                                      <label className="block text-xs font-bold text-slate-500 mb-1">Billing Contact Name</label>
+                                      <input value={tempAgreement.contactName || ''} onChange={e => setTempAgreement({...tempAgreement, contactName: e.target.value})} className="w-full p-2.5 bg-white dark:bg-slate-900 border border-slate-300 dark:border-slate-600 rounded-lg text-sm text-slate-900 dark:text-white outline-none focus:ring-2 focus:ring-cyan-500" />
+                                  </div>
+                              </div>
+                          </div>
+                          <div className="grid grid-cols-3 gap-4">
+                              <div>
+                                  <label className="block text-xs font-bold text-slate-500 mb-1">Payment Terms</label>
+                                  <select value={tempAgreement.paymentTerms || 'Net 30'} onChange={e => setTempAgreement({...tempAgreement, paymentTerms: e.target.value as CommunityAgreement['paymentTerms']})} className="w-full p-2.5 bg-white dark:bg-slate-900 border border-slate-300 dark:border-slate-600 rounded-lg text-sm text-slate-900 dark:text-white outline-none focus:ring-2 focus:ring-cyan-500">
+                                      <option>Due on Receipt</option>
+                                      <option>Net 15</option>
+                                      <option>Net 30</option>
+                                  </select>
+                              </div>
+                              <div>
+                                  <label className="block text-xs font-bold text-slate-500 mb-1">Preferred Method</label>
+                                  <select value={tempAgreement.preferredMethod || 'Bank_Transfer'} onChange={e => setTempAgreement({...tempAgreement, preferredMethod: e.target.value as PaymentMethod})} className="w-full p-2.5 bg-white dark:bg-slate-900 border border-slate-300 dark:border-slate-600 rounded-lg text-sm text-slate-900 dark:text-white outline-none focus:ring-2 focus:ring-cyan-500">
+                                      <option value="Bank_Transfer">Bank Transfer</option>
+                                      <option value="Crypto_Wallet">Crypto Wallet</option>
+                                  </select>
+                              </div>
+                              {tempAgreement.preferredMethod === 'Crypto_Wallet' ? (
+                                  <div>
+                                      <label className="block text-xs font-bold text-slate-500 mb-1">Partner Wallet (Account ID)</label>
+                                      <input value={tempAgreement.walletAddress || ''} onChange={e => setTempAgreement({...tempAgreement, walletAddress: e.target.value.trim()})} placeholder="0.0.12345" className="w-full p-2.5 bg-white dark:bg-slate-900 border border-slate-300 dark:border-slate-600 rounded-lg text-sm font-mono text-slate-900 dark:text-white outline-none focus:ring-2 focus:ring-cyan-500" />
+                                  </div>
+                              ) : (
+                                  <div>
+                                      <label className="block text-xs font-bold text-slate-500 mb-1">Partner Bank Account</label>
+                                      <input value={tempAgreement.bankDetails || ''} onChange={e => setTempAgreement({...tempAgreement, bankDetails: e.target.value})} placeholder="IBAN / account number" className="w-full p-2.5 bg-white dark:bg-slate-900 border border-slate-300 dark:border-slate-600 rounded-lg text-sm text-slate-900 dark:text-white outline-none focus:ring-2 focus:ring-cyan-500" />
+                                  </div>
+                              )}
+                          </div>
+                      </div>
+
+                      {/* Billing Exclusions */}
+                      {tempAgreement.paymentModel !== 'Fixed_Recurring' && (
+                          <div className="p-4 bg-slate-50 dark:bg-slate-800/50 rounded-xl border border-slate-200 dark:border-slate-700">
+                              <h4 className="text-xs font-bold text-slate-400 uppercase mb-1">Billing Exclusions</h4>
+                              <p className="text-xs text-slate-500 dark:text-slate-400 mb-3">Certifications confirmed as fraud in the review queue are never billed. Flags checked below exclude a certification without review; other flagged developers at or above the hold score are held until reviewed.</p>
+                              <div className="grid grid-cols-2 md:grid-cols-3 gap-2 mb-4">
+                                  {fraudRules.map(rule => (
+                                      <label key={rule.id} className="flex items-center gap-2 text-xs text-slate-700 dark:text-slate-300 cursor-pointer">
+                                          <input
+                                            type="checkbox"
+                                            checked={exclusionPolicy.excludedRuleIds.includes(rule.id)}
+                                            onChange={e => setExclusionPolicy({ excludedRuleIds: e.target.checked ? [...exclusionPolicy.excludedRuleIds, rule.id] : exclusionPolicy.excludedRuleIds.filter(id => id !== rule.id) })}
+                                            className="rounded text-indigo-600 focus:ring-indigo-500"
+                                          />
+                                          {rule.flag}
+                                      </label>
+                                  ))}
+                              </div>
+                              <div className="w-48">
+                                  <label className="block text-xs font-bold text-slate-500 mb-1">Hold at Risk Score ≥</label>
+                                  <input
+                                    type="number"
+                                    min={1}
+                                    value={exclusionPolicy.holdRiskScore ?? ''}
+                                    placeholder={`${settings.riskScoreThreshold} (workspace)`}
+                                    onChange={e => setExclusionPolicy({ holdRiskScore: e.target.value === '' ? undefined : Number(e.target.value) })}
+                                    className="w-full p-2.5 bg-white dark:bg-slate-900 border border-slate-300 dark:border-slate-600 rounded-lg text-sm text-slate-900 dark:text-white outline-none focus:ring-2 focus:ring-cyan-500"
+                                  />
+                              </div>
+                          </div>
+                      )}
+
                       {/* Documents */}
                       <div>
                           <label className="block text-xs font-bold text-slate-500 mb-1 uppercase">Attached Documents</label>
@@ -0,0 +1,164 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { ImportedPayment, PaymentSource, SlashDateOrder } from '../types';
+import { PAYMENT_SOURCE_LABELS, SLASH_DATE_ORDER_LABELS, parsePayments } from '../services/paymentImport';
+import { PaymentMatchStatus, applyPayments, isOpenInvoice, matchPayments, outstandingBalance } from '../services/paymentReconciliation';
+import { invoiceLabel } from '../services/invoiceNumbering';
+import { useCollection, useRepositories, useReviewer, useWorkspaceSettings, reportWriteError } from '../services/repositoryContext';
+import { AlertCircle, Check, FileUp, Landmark, Trash2 } from 'lucide-react';
+
+const MATCH_STATUSES: PaymentMatchStatus[] = ['Matched', 'Partial', 'Overpaid', 'Unmatched', 'Recorded'];
+
+const MATCH_STYLES: Record<PaymentMatchStatus, string> = {
+    Matched: 'bg-green-50 text-green-700 border-green-200 dark:bg-green-900/30 dark:text-green-300 dark:border-green-900/50',
+    Partial: 'bg-yellow-50 text-yellow-700 border-yellow-200 dark:bg-yellow-900/30 dark:text-yellow-300 dark:border-yellow-900/50',
+    Overpaid: 'bg-orange-50 text-orange-700 border-orange-200 dark:bg-orange-900/30 dark:text-orange-300 dark:border-orange-900/50',
+    Unmatched: 'bg-red-50 text-red-700 border-red-200 dark:bg-red-900/30 dark:text-red-300 dark:border-red-900/50',
+    Recorded: 'bg-slate-100 text-slate-600 border-slate-200 dark:bg-slate-800 dark:text-slate-300 dark:border-slate-700'
+};
+
+export const PaymentReconciliationPanel: React.FC = () => {
+  const repositories = useRepositories();
+  const invoices = useCollection(repositories.invoices);
+  const agreements = useCollection(repositories.agreements);
+  const [settings] = useWorkspaceSettings();
+  const { reviewer } = useReviewer();
+
+  const [source, setSource] = useState<PaymentSource>('Bank_CSV');
+  const [slashOrder, setSlashOrder] = useState<SlashDateOrder>('DMY'); // How CSV dates like 05/03/2025 are read
+  const [payments, setPayments] = useState<ImportedPayment[]>([]);
+  const [overrides, setOverrides] = useState<Record<string, string>>({}); // Payment id -> invoice id ('' = unmatched)
+  const [excluded, setExcluded] = useState<Set<string>>(new Set()); // Proposals unticked before confirming
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const openInvoices = useMemo(() => invoices.filter(isOpenInvoice).sort((a, b) => a.dueDate.localeCompare(b.dueDate)), [invoices]);
+  const matches = useMemo(() => matchPayments(payments, invoices, agreements, overrides), [payments, invoices, agreements, overrides]);
+  const toConfirm = matches.filter(m => m.invoiceId && m.status !== 'Recorded' && !excluded.has(m.payment.id));
+  const countOf = (status: PaymentMatchStatus) => matches.filter(m => m.status === status).length;
+
+  const handleFile = async (file: File) => {
+      try {
+          const imported = parsePayments(source, await file.text(), settings.invoicePayToWallet, slashOrder);
+          if (imported.length === 0) throw new Error(`No incoming payments found in ${file.name}.`);
+          // Importing overlapping statements keeps one copy of each payment
+          setPayments(prev => [...prev, ...imported.filter(p => !prev.some(q => q.id === p.id))]);
+          setImportError(null);
+      } catch (err: any) {
+          setImportError(err.message || `Could not read ${file.name}.`);
+      }
+  };
+
+  const handleConfirm = () => {
+      if (toConfirm.length === 0) return;
+      if (!window.confirm(`Record ${toConfirm.length} payment${toConfirm.length > 1 ? 's' : ''} on their invoices?`)) return;
+      const updated = applyPayments(toConfirm, invoices, reviewer?.name || 'Admin');
+      repositories.invoices.saveMany(updated).catch(reportWriteError);
+      setExcluded(new Set());
+  };
+
+  const toggle = (id: string) => {
+      const next = new Set(excluded);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      setExcluded(next);
+  };
+
+  const handleClear = () => {
+      setPayments([]);
+      setOverrides({});
+      setExcluded(new Set());
+      setImportError(null);
+  };
+
+  return (
+      <div className="space-y-6 animate-fade-in">
+          {/* IMPORT */}
+          <div className="glass-card rounded-2xl p-6 bg-white dark:bg-transparent border border-slate-200 dark:border-white/5 flex flex-col md:flex-row md:items-center justify-between gap-4">
+              <div>
+                  <h3 className="font-bold text-slate-900 dark:text-white flex items-center gap-2"><Landmark className="w-4 h-4 text-indigo-500" /> Payment Reconciliation</h3>
+                  <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">Import incoming payments, check the proposed invoice for each, then record them. Invoices paid in full are marked Paid.</p>
+              </div>
+              <div className="flex items-center gap-3">
+                  <select value={source} onChange={e => setSource(e.target.value as PaymentSource)} className="p-2.5 bg-white dark:bg-slate-900 border border-slate-300 dark:border-slate-700 rounded-lg text-sm text-slate-900 dark:text-white outline-none focus:ring-2 focus:ring-cyan-500">
+                      {(Object.keys(PAYMENT_SOURCE_LABELS) as PaymentSource[]).map(s => <option key={s} value={s}>{PAYMENT_SOURCE_LABELS[s]}</option>)}
+                  </select>
+                  {source !== 'CAMT_053' && (
+                      <select value={slashOrder} onChange={e => setSlashOrder(e.target.value as SlashDateOrder)} title="Date order for dates written with slashes" className="p-2.5 bg-white dark:bg-slate-900 border border-slate-300 dark:border-slate-700 rounded-lg text-sm text-slate-900 dark:text-white outline-none focus:ring-2 focus:ring-cyan-500">
+                          {(Object.keys(SLASH_DATE_ORDER_LABELS) as SlashDateOrder[]).map(o => <option key={o} value={o}>{SLASH_DATE_ORDER_LABELS[o]}</option>)}
+                      </select>
+                  )}
+                  <input ref={fileInput} type="file" accept={source === 'CAMT_053' ? '.xml' : source === 'Hedera' ? '.json,.csv' : '.csv,.txt'} className="hidden" onChange={e => { const f = e.target.files?.[0]; if (f) handleFile(f); e.target.value = ''; }} />
+                  <button onClick={() => fileInput.current?.click()} className="px-4 py-2.5 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-200 rounded-lg text-sm font-medium hover:bg-slate-100 dark:hover:bg-slate-800 flex items-center gap-2"><FileUp className="w-4 h-4" /> Import</button>
+                  {payments.length > 0 && <button onClick={handleClear} title="Clear imported payments" className="p-2.5 text-slate-400 hover:text-red-500"><Trash2 className="w-4 h-4" /></button>}
+              </div>
+          </div>
+
+          {importError && (
+              <div className="p-4 rounded-xl bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-900/50 text-sm text-red-700 dark:text-red-300 flex items-center gap-3">
+                  <AlertCircle className="w-4 h-4 shrink-0" /> {importError}
+              </div>
+          )}
+
+          {/* PROPOSED MATCHES */}
+          <div className="glass-card rounded-2xl overflow-hidden bg-white dark:bg-transparent border border-slate-200 dark:border-white/5">
+              <div className="p-4 bg-slate-50 dark:bg-slate-900/50 border-b border-slate-100 dark:border-white/5 flex flex-wrap items-center gap-2">
+                  {MATCH_STATUSES.map(st => countOf(st) > 0 && (
+                      <span key={st} className={`px-2 py-0.5 rounded text-xs font-bold border ${MATCH_STYLES[st]}`}>{countOf(st)} {st.toLowerCase()}</span>
+                  ))}
+                  <button onClick={handleConfirm} disabled={toConfirm.length === 0} className="ml-auto px-5 py-2 bg-indigo-600 text-white rounded-lg text-sm font-bold hover:bg-indigo-500 shadow-lg shadow-indigo-900/20 disabled:opacity-50 flex items-center gap-2">
+                      <Check className="w-4 h-4" /> Record {toConfirm.length} Payment{toConfirm.length === 1 ? '' : 's'}
+                  </button>
+              </div>
+              <table className="w-full text-sm text-left">
+                  <thead className="bg-slate-50 dark:bg-slate-900/50 text-slate-500 dark:text-slate-400 font-semibold border-b border-slate-200 dark:border-white/5">
+                      <tr>
+                          <th className="w-10 px-4 py-3"></th>
+                          <th className="px-4 py-3">Date</th>
+                          <th className="px-4 py-3">Payer</th>
+                          <th className="px-4 py-3">Reference</th>
+                          <th className="px-4 py-3 text-right">Amount</th>
+                          <th className="px-4 py-3">Invoice</th>
+                          <th className="px-4 py-3">Status</th>
+                      </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100 dark:divide-white/5">
+                      {matches.length === 0 ? (
+                          <tr><td colSpan={7} className="p-12 text-center text-slate-500">Import a bank statement or a transfer list to reconcile payments.</td></tr>
+                      ) : matches.map(({ payment, invoiceId, status, reasons, balanceBefore }) => (
+                          <tr key={payment.id} className="hover:bg-slate-50 dark:hover:bg-white/5 align-top">
+                              <td className="px-4 py-3">
+                                  {invoiceId && status !== 'Recorded' && (
+                                      <input type="checkbox" checked={!excluded.has(payment.id)} onChange={() => toggle(payment.id)} className="rounded text-indigo-600 focus:ring-indigo-500" />
+                                  )}
+                              </td>
+                              <td className="px-4 py-3 text-slate-500 whitespace-nowrap">{payment.date}<div className="text-[10px] text-slate-400">{PAYMENT_SOURCE_LABELS[payment.source]}</div></td>
+                              <td className="px-4 py-3 text-slate-700 dark:text-slate-300">{payment.payer || '—'}{payment.wallet && payment.wallet !== payment.payer && <div className="text-xs font-mono text-slate-400">{payment.wallet}</div>}</td>
+                              <td className="px-4 py-3 text-xs text-slate-500 max-w-[220px] break-words">{payment.reference || '—'}<div className="font-mono text-[10px] text-slate-400">{payment.id}</div></td>
+                              <td className="px-4 py-3 text-right font-bold text-slate-800 dark:text-slate-200 whitespace-nowrap">{payment.amount.toLocaleString()} {payment.currency}</td>
+                              <td className="px-4 py-3">
+                                  {status === 'Recorded' ? <span className="text-xs text-slate-400">—</span> : (
+                                      <select
+                                        value={invoiceId || ''}
+                                        onChange={e => setOverrides({ ...overrides, [payment.id]: e.target.value })}
+                                        className="w-full min-w-[180px] p-1.5 bg-white dark:bg-slate-900 border border-slate-300 dark:border-slate-700 rounded text-xs text-slate-900 dark:text-white outline-none focus:ring-2 focus:ring-cyan-500"
+                                      >
+                                          <option value="">Leave unmatched</option>
+                                          {openInvoices.map(i => (
+                                              <option key={i.id} value={i.id}>{invoiceLabel(i)} · {i.partnerCode} · {outstandingBalance(i, invoices).toLocaleString()} {i.currency} due</option>
+                                          ))}
+                                      </select>
+                                  )}
+                                  <div className="text-[10px] text-slate-400 mt-1">{reasons.join(' · ')}</div>
+                              </td>
+                              <td className="px-4 py-3">
+                                  <span className={`px-2 py-0.5 rounded text-xs font-bold border ${MATCH_STYLES[status]}`}>{status}</span>
+                                  {status === 'Partial' && <div className="text-xs text-yellow-700 dark:text-yellow-400 mt-1">{(balanceBefore - payment.amount).toLocaleString()} still due</div>}
+                                  {status === 'Overpaid' && <div className="text-xs text-orange-700 dark:text-orange-400 mt-1">{(payment.amount - balanceBefore).toLocaleString()} over</div>}
+                              </td>
+                          </tr>
+                      ))}
+                  </tbody>
+              </table>
+          </div>
+      </div>
+  );
+};
@@ -3,6 +3,7 @@ import React, { useState, useMemo } from 'react';
 import { DeveloperRecord } from '../types';
 import { calculateDashboardMetrics, getPreviousPeriod } from '../services/dataProcessing';
 import { generateComparativeReport } from '../services/geminiService';
+import { useWorkspaceSettings } from '../services/repositoryContext';
 import { FileText, Printer, Sparkles, TrendingUp, TrendingDown, Globe, ShieldAlert, Crown } from 'lucide-react';
 
 interface ReportingProps {
@@ -10,6 +11,7 @@ interface ReportingProps {
 }
 
 export const Reporting: React.FC<ReportingProps> = ({ data }) => {
+  const [{ riskScoreThreshold }] = useWorkspaceSettings();
   const [selectedCommunity, setSelectedCommunity] = useState<string>('');
   const [reportType, setReportType] = useState<'Monthly' | 'Custom'>('Monthly');
   const [reportMonth, setReportMonth] = useState<string>(new Date().toISOString().slice(0, 7));
@@ -57,15 +59,15 @@ export const Reporting: React.FC<ReportingProps> = ({ data }) => {
       
       const commData = data.filter(d => d.partnerCode === selectedCommunity);
       
-      const current = calculateDashboardMetrics(commData, dateContext.start, dateContext.end);
-      const prev = calculateDashboardMetrics(commData, dateContext.prevStart, dateContext.prevEnd);
+      const current = calculateDashboardMetrics(commData, dateContext.start, dateContext.end, riskScoreThreshold);
+      const prev = calculateDashboardMetrics(commData, dateContext.prevStart, dateContext.prevEnd, riskScoreThreshold);
       
       // Global Benchmark (for same current period)
       const globalData = data; 
-      const global = calculateDashboardMetrics(globalData, dateContext.start, dateContext.end);
+      const global = calculateDashboardMetrics(globalData, dateContext.start, dateContext.end, riskScoreThreshold);
 
       return { current, prev, global };
-  }, [data, selectedCommunity, dateContext]);
+  }, [data, selectedCommunity, dateContext, riskScoreThreshold]);
 
   const handleGenerateAi = async () => {
       if (!metrics || !selectedCommunity) return;
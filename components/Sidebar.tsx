@@ -1,5 +1,5 @@
 import React from 'react';
-import { LayoutDashboard, FileText, Users, Calendar, Settings, ShieldAlert, Send, Crown, BarChart } from 'lucide-react';
+import { LayoutDashboard, FileText, Users, Calendar, Settings, ShieldAlert, Send, Crown, BarChart, GitCompare, ClipboardCheck, Network } from 'lucide-react';
 
 interface SidebarProps {
   currentView: string;
@@ -11,6 +11,9 @@ export const Sidebar: React.FC<SidebarProps> = ({ currentView, setCurrentView })
     { id: 'dashboard', label: 'Dashboard', icon: LayoutDashboard },
     { id: 'membership', label: 'Membership', icon: Crown },
     { id: 'developers', label: 'Developers & Fraud', icon: Users },
+    { id: 'review', label: 'Fraud Review', icon: ClipboardCheck },
+    { id: 'clusters', label: 'Linked Accounts', icon: Network },
+    { id: 'versions', label: 'Version Diff', icon: GitCompare },
     { id: 'outreach', label: 'Smart Outreach', icon: Send },
     { id: 'invoices', label: 'Finance & Invoices', icon: FileText },
     { id: 'reporting', label: 'Reporting & AI', icon: BarChart },
@@ -1,15 +1,17 @@
 import React, { useMemo, useState } from 'react';
 import { DeveloperRecord, EmailTemplate, OutreachCampaign } from '../types';
 import { DEFAULT_TEMPLATES, sendEmailCampaign } from '../services/emailService';
-import { Filter, Users, Mail, Send, CheckCircle, Loader2, Edit2, AlertCircle, Download, History } from 'lucide-react';
+import { useCollection, useRepositories, reportWriteError } from '../services/repositoryContext';
+import { Filter, Users, Mail, Send, CheckCircle, Loader2, Edit2, AlertCircle, Download, History, Paperclip } from 'lucide-react';
 
 interface SmartOutreachProps {
   data: DeveloperRecord[];
-  campaigns: OutreachCampaign[];
-  setCampaigns: React.Dispatch<React.SetStateAction<OutreachCampaign[]>>;
 }
 
-export const SmartOutreach: React.FC<SmartOutreachProps> = ({ data, campaigns, setCampaigns }) => {
+export const SmartOutreach: React.FC<SmartOutreachProps> = ({ data }) => {
+  const repositories = useRepositories();
+  const storedCampaigns = useCollection(repositories.campaigns);
+  const campaigns = useMemo(() => [...storedCampaigns].sort((a, b) => b.sentAt.localeCompare(a.sentAt)), [storedCampaigns]);
   // Filter State
   const [filterCommunity, setFilterCommunity] = useState('All');
   const [filterStatus, setFilterStatus] = useState('All');
@@ -127,7 +129,7 @@ export const SmartOutreach: React.FC<SmartOutreachProps> = ({ data, campaigns, s
           templateId: selectedTemplateId
       };
 
-      setCampaigns([newCampaign, ...campaigns]);
+      await repositories.campaigns.save(newCampaign).catch(reportWriteError);
       setIsSending(false);
   };
 
@@ -337,6 +339,9 @@ export const SmartOutreach: React.FC<SmartOutreachProps> = ({ data, campaigns, s
                             <div>
                                 <div className="font-bold text-sm text-slate-700 dark:text-slate-300">{cmp.name}</div>
                                 <div className="text-xs text-slate-500 dark:text-slate-400">{new Date(cmp.sentAt).toLocaleString()}</div>
+                                {cmp.attachments && cmp.attachments.length > 0 && (
+                                    <div className="text-xs text-slate-500 dark:text-slate-400 flex items-center gap-1 mt-0.5"><Paperclip className="w-3 h-3" /> {cmp.attachments.join(', ')}</div>
+                                )}
                             </div>
                             <div className="text-right">
                                 <div className="text-xs font-bold text-green-600 dark:text-green-400 uppercase">Sent</div>
@@ -0,0 +1,28 @@
+import React from 'react';
+import { AlertTriangle, RefreshCw } from 'lucide-react';
+import { DATA_BACKEND } from '../services/dataBackend';
+
+interface StartupErrorProps {
+  error: unknown;
+}
+
+// Shown instead of the app when the data backend cannot be opened at startup
+export const StartupError: React.FC<StartupErrorProps> = ({ error }) => (
+    <div className="min-h-screen flex items-center justify-center bg-slate-50 dark:bg-[#141319] p-8 font-sans">
+        <div className="max-w-lg w-full p-8 rounded-2xl bg-white dark:bg-[#1c1b22] border border-red-200 dark:border-red-900/50 shadow-xl text-center space-y-4">
+            <div className="mx-auto w-14 h-14 rounded-full bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 flex items-center justify-center">
+                <AlertTriangle className="w-7 h-7" />
+            </div>
+            <h1 className="text-lg font-bold text-slate-900 dark:text-white">The workspace could not be opened</h1>
+            <p className="text-sm text-slate-500 dark:text-slate-400">
+                {DATA_BACKEND === 'firestore'
+                    ? 'Firestore did not respond. Check your connection and the Firebase configuration, then reload.'
+                    : 'Browser storage (IndexedDB) is unavailable, for example in a private window or when storage is blocked for this site.'}
+            </p>
+            <p className="text-xs font-mono text-red-600 dark:text-red-400 break-words">{error instanceof Error ? error.message : String(error)}</p>
+            <button onClick={() => window.location.reload()} className="px-5 py-2.5 bg-[#2a00ff] text-white rounded-lg text-sm font-bold hover:bg-[#2a00ff]/90 inline-flex items-center gap-2">
+                <RefreshCw className="w-4 h-4" /> Reload
+            </button>
+        </div>
+    </div>
+);
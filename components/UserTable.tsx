@@ -1,7 +1,9 @@
 
 import React, { useState, useMemo, useEffect } from 'react';
 import { DeveloperRecord } from '../types';
-import { AlertTriangle, CheckCircle, Clock, Search, Download, ChevronLeft, ChevronRight, Filter, Users, PlayCircle, Timer, X, ArrowLeft, Bug, Copy } from 'lucide-react';
+import { useWorkspaceSettings } from '../services/repositoryContext';
+import { WALLET_TYPE_LABELS } from '../services/hederaWallet';
+import { AlertTriangle, CheckCircle, Clock, Search, Download, ChevronLeft, ChevronRight, Filter, Users, PlayCircle, Timer, X, ArrowLeft, Bug, Copy, ArrowUpDown, ArrowDown, ArrowUp, Wallet } from 'lucide-react';
 
 interface UserTableProps {
   data: DeveloperRecord[];
@@ -14,13 +16,16 @@ interface UserTableProps {
 }
 
 const ITEMS_PER_PAGE = 50;
-type DetailedStatus = 'All' | 'Certified' | 'Not Started' | 'Just Started' | 'In Progress' | 'Course Complete (No Cert)' | 'Flagged' | 'Data Error';
+type DetailedStatus = 'All' | 'Certified' | 'Not Started' | 'Just Started' | 'In Progress' | 'Course Complete (No Cert)' | 'Flagged' | 'High Risk' | 'Data Error' | 'Invalid Wallet';
+type RiskSort = 'none' | 'desc' | 'asc';
 
 export const UserTable: React.FC<UserTableProps> = ({ data, initialFilters, onBack }) => {
   const [searchQuery, setSearchQuery] = useState('');
   const [statusFilter, setStatusFilter] = useState<DetailedStatus>('All');
   const [communityFilter, setCommunityFilter] = useState<string>('All');
   const [currentPage, setCurrentPage] = useState(1);
+  const [riskSort, setRiskSort] = useState<RiskSort>('none');
+  const [{ riskScoreThreshold }] = useWorkspaceSettings();
 
   useEffect(() => {
       if (initialFilters) {
@@ -46,26 +51,49 @@ export const UserTable: React.FC<UserTableProps> = ({ data, initialFilters, onBa
         case 'In Progress': result = result.filter(d => d.percentageCompleted >= 30 && d.percentageCompleted < 100 && d.finalGrade !== 'Pass'); break;
         case 'Course Complete (No Cert)': result = result.filter(d => d.percentageCompleted === 100 && d.finalGrade !== 'Pass'); break;
         case 'Flagged': result = result.filter(d => d.isSuspicious); break;
+        case 'High Risk': result = result.filter(d => (d.computed_riskScore || 0) >= riskScoreThreshold); break;
         case 'Data Error': result = result.filter(d => d.dataError); break;
+        case 'Invalid Wallet': result = result.filter(d => d.computed_walletType === 'invalid'); break;
     }
 
     if (searchQuery.trim()) {
         const query = searchQuery.toLowerCase();
         result = result.filter(d => d.email.toLowerCase().includes(query) || d.firstName.toLowerCase().includes(query) || d.lastName.toLowerCase().includes(query) || (d.partnerCode && d.partnerCode.toLowerCase().includes(query)));
     }
+
+    if (riskSort !== 'none') {
+        const dir = riskSort === 'desc' ? -1 : 1;
+        result = [...result].sort((a, b) => dir * ((a.computed_riskScore || 0) - (b.computed_riskScore || 0)));
+    }
     return result;
-  }, [data, searchQuery, statusFilter, communityFilter]);
+  }, [data, searchQuery, statusFilter, communityFilter, riskSort, riskScoreThreshold]);
 
   const totalPages = Math.ceil(filteredData.length / ITEMS_PER_PAGE);
+  const emailById = useMemo(() => new Map(data.map(d => [d.id, d.email])), [data]);
+
   const paginatedData = useMemo(() => filteredData.slice((currentPage - 1) * ITEMS_PER_PAGE, (currentPage - 1) * ITEMS_PER_PAGE + ITEMS_PER_PAGE), [filteredData, currentPage]);
 
-  useEffect(() => setCurrentPage(1), [searchQuery, statusFilter, communityFilter]);
+  useEffect(() => setCurrentPage(1), [searchQuery, statusFilter, communityFilter, riskSort]);
+
+  const cycleRiskSort = () => setRiskSort(s => (s === 'none' ? 'desc' : s === 'desc' ? 'asc' : 'none'));
 
   const clearFilters = () => { setSearchQuery(''); setStatusFilter('All'); setCommunityFilter('All'); };
 
+  // Counterparts of the flags that match accounts against each other (Near Duplicate)
+  const matchedEmails = (d: DeveloperRecord, flag?: string) => (d.computed_flagSources || [])
+      .filter(s => s.matchedIds && (!flag || s.flag === flag))
+      .flatMap(s => s.matchedIds!.map(id => emailById.get(id) || id));
+
+  const describeFlag = (d: DeveloperRecord, flag: string) => {
+      const source = d.computed_flagSources?.find(s => s.flag === flag);
+      if (!source) return undefined;
+      const matched = matchedEmails(d, flag);
+      return `Rule ${source.ruleId} v${source.ruleVersion}${matched.length ? `\nMatches: ${matched.join(', ')}` : ''}`;
+  };
+
   const handleExport = () => {
     if (filteredData.length === 0) return;
-    const headers = ['ID', 'Email', 'First Name', 'Last Name', 'Partner Code', 'Country', 'Progress', 'Status', 'CA Status', 'Score', 'Duration (Hrs)', 'Risk Flag'];
+    const headers = ['ID', 'Email', 'First Name', 'Last Name', 'Partner Code', 'Country', 'Progress', 'Status', 'CA Status', 'Score', 'Duration (Hrs)', 'Risk Score', 'Risk Flag', 'Near Duplicate Of', 'Wallet', 'Wallet Type'];
     const rows = filteredData.map(d => [
         d.id, 
         d.email, 
@@ -78,7 +106,11 @@ export const UserTable: React.FC<UserTableProps> = ({ data, initialFilters, onBa
         d.caStatus || '', // Added CA Status
         d.finalScore, 
         d.computed_duration?.toFixed(2) || '', 
-        d.computed_riskFlags.join(', ') || (d.dataError ? 'Data Error' : '')
+        d.computed_riskScore ?? 0,
+        d.computed_riskFlags.join(', ') || (d.dataError ? 'Data Error' : ''),
+        matchedEmails(d).join(' '),
+        d.computed_wallet || d.walletAddress || '',
+        d.computed_walletType ? WALLET_TYPE_LABELS[d.computed_walletType] : ''
     ]);
     const csvContent = [headers.join(','), ...rows.map(r => r.map(cell => `"${String(cell).replace(/"/g, '""')}"`).join(','))].join('\n');
     const link = document.createElement('a'); link.href = URL.createObjectURL(new Blob([csvContent], { type: 'text/csv;charset=utf-8;' })); link.download = `export_${new Date().toISOString().slice(0,10)}.csv`; link.click();
@@ -86,7 +118,7 @@ export const UserTable: React.FC<UserTableProps> = ({ data, initialFilters, onBa
 
   const getRiskBadgeColor = (reason: string) => {
       const r = reason.toLowerCase();
-      if (r.includes('batch')) return 'bg-purple-500/10 text-purple-600 dark:text-purple-400 border-purple-500/20'; // Deep Accounts
+      if (r.includes('batch') || r.includes('duplicate')) return 'bg-purple-500/10 text-purple-600 dark:text-purple-400 border-purple-500/20'; // Deep Accounts
       if (r.includes('speed') || r.includes('bot')) return 'bg-red-500/10 text-red-600 dark:text-red-400 border-red-500/20'; // Critical
       if (r.includes('sybil') || r.includes('wallet')) return 'bg-orange-500/10 text-orange-600 dark:text-orange-400 border-orange-500/20'; // Wallet
       return 'bg-yellow-500/10 text-yellow-600 dark:text-yellow-400 border-yellow-500/20'; // Generic
@@ -94,11 +126,23 @@ export const UserTable: React.FC<UserTableProps> = ({ data, initialFilters, onBa
 
   const getRiskIcon = (reason: string) => {
       const r = reason.toLowerCase();
-      if (r.includes('batch')) return <Copy className="w-3 h-3" />;
+      if (r.includes('batch') || r.includes('duplicate')) return <Copy className="w-3 h-3" />;
       if (r.includes('bot')) return <AlertTriangle className="w-3 h-3" />;
       return <AlertTriangle className="w-3 h-3" />;
   }
 
+  const getScoreColor = (score: number) => {
+      if (score >= riskScoreThreshold) return 'bg-red-500/10 text-red-600 dark:text-red-400 border-red-500/20';
+      if (score > 0) return 'bg-yellow-500/10 text-yellow-600 dark:text-yellow-400 border-yellow-500/20';
+      return 'bg-slate-100 dark:bg-slate-800 text-slate-500 dark:text-slate-400 border-slate-200 dark:border-slate-700';
+  };
+
+  const describeScore = (user: DeveloperRecord) => {
+      const breakdown = user.computed_riskBreakdown || [];
+      if (breakdown.length === 0) return 'No risk signals';
+      return breakdown.map(c => `${c.signal}: +${c.points}`).join('\n') + `\nScore: ${user.computed_riskScore ?? 0}/100`;
+  };
+
   return (
     <div className="space-y-6 fade-in-up">
       {onBack && (
@@ -144,7 +188,9 @@ export const UserTable: React.FC<UserTableProps> = ({ data, initialFilters, onBa
                       <option value="In Progress">In Progress (30-99%)</option>
                       <option value="Certified">Certified (Pass)</option>
                       <option value="Flagged">Risk / Flagged</option>
+                      <option value="High Risk">High Risk (Score ≥ {riskScoreThreshold})</option>
                       <option value="Data Error">Data Errors</option>
+                      <option value="Invalid Wallet">Invalid Wallets</option>
                   </select>
               </div>
               <div className="flex items-center gap-2">
@@ -168,6 +214,11 @@ export const UserTable: React.FC<UserTableProps> = ({ data, initialFilters, onBa
                 <th className="px-6 py-4">Progress</th>
                 <th className="px-6 py-4">Status</th>
                 <th className="px-6 py-4">Duration</th>
+                <th className="px-6 py-4">
+                    <button onClick={cycleRiskSort} className="inline-flex items-center gap-1 font-semibold hover:text-[#2a00ff] transition-colors">
+                        Risk Score {riskSort === 'desc' ? <ArrowDown className="w-3 h-3" /> : riskSort === 'asc' ? <ArrowUp className="w-3 h-3" /> : <ArrowUpDown className="w-3 h-3" />}
+                    </button>
+                </th>
                 <th className="px-6 py-4">Risk Assessment</th>
               </tr>
             </thead>
@@ -198,13 +249,36 @@ export const UserTable: React.FC<UserTableProps> = ({ data, initialFilters, onBa
                   </td>
                   <td className="px-6 py-4 text-slate-500 dark:text-slate-400 font-mono text-xs">{user.computed_duration ? `${user.computed_duration.toFixed(1)}h` : '-'}</td>
                   <td className="px-6 py-4">
-                    {user.computed_riskFlags && user.computed_riskFlags.length > 0 ? (
+                    <span title={describeScore(user)} className={`inline-flex items-center justify-center min-w-[2.5rem] px-2 py-0.5 rounded text-xs font-bold font-mono border cursor-help ${getScoreColor(user.computed_riskScore || 0)}`}>
+                        {user.computed_riskScore ?? 0}
+                    </span>
+                    {user.computed_clusterSize && (
+                        <div title={`Linked accounts cluster ${user.computed_clusterId}`} className="text-[10px] text-slate-400 font-mono mt-1 whitespace-nowrap">Cluster of {user.computed_clusterSize}</div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4">
+                    {user.computed_riskFlags && (user.computed_riskFlags.length > 0 || (user.computed_dismissedFlags || []).length > 0 || user.computed_walletType === 'invalid') ? (
                         <div className="flex flex-wrap gap-1">
                             {user.computed_riskFlags.map((reason, i) => (
-                                <span key={i} className={`inline-flex items-center gap-1 px-2 py-0.5 rounded text-[10px] font-bold border whitespace-nowrap ${getRiskBadgeColor(reason)}`}>
+                                <span key={i} title={describeFlag(user, reason)} className={`inline-flex items-center gap-1 px-2 py-0.5 rounded text-[10px] font-bold border whitespace-nowrap ${getRiskBadgeColor(reason)}`}>
                                     {getRiskIcon(reason)} {reason.trim()}
                                 </span>
                             ))}
+                            {(user.computed_dismissedFlags || []).map(flag => (
+                                <span key={flag} title="Dismissed in the fraud review queue" className="inline-flex items-center gap-1 px-2 py-0.5 rounded text-[10px] font-bold border whitespace-nowrap line-through bg-slate-100 dark:bg-slate-800 text-slate-400 border-slate-200 dark:border-slate-700">
+                                    {flag}
+                                </span>
+                            ))}
+                            {user.computed_walletType === 'invalid' && (
+                                <span title={`Not a Hedera account ID or EVM address: "${user.walletAddress}"`} className="inline-flex items-center gap-1 px-2 py-0.5 bg-orange-500/10 text-orange-600 dark:text-orange-400 rounded text-[10px] font-bold border border-orange-500/20 whitespace-nowrap">
+                                    <Wallet className="w-3 h-3" /> Invalid Wallet
+                                </span>
+                            )}
+                            {user.dataError && user.computed_riskFlags.length === 0 && (
+                                <span className="inline-flex items-center gap-1 px-2 py-0.5 bg-orange-500/10 text-orange-600 dark:text-orange-400 rounded text-[10px] font-bold border border-orange-500/20">
+                                    <Bug className="w-3 h-3" /> Data Error
+                                </span>
+                            )}
                         </div>
                     ) : user.dataError ? (
                         <span className="inline-flex items-center gap-1 px-2 py-0.5 bg-orange-500/10 text-orange-600 dark:text-orange-400 rounded text-[10px] font-bold border border-orange-500/20">
@@ -216,7 +290,7 @@ export const UserTable: React.FC<UserTableProps> = ({ data, initialFilters, onBa
                   </td>
                 </tr>
               ))}
-              {paginatedData.length === 0 && <tr><td colSpan={6} className="p-12 text-center text-slate-500">No records found.</td></tr>}
+              {paginatedData.length === 0 && <tr><td colSpan={7} className="p-12 text-center text-slate-500">No records found.</td></tr>}
             </tbody>
           </table>
         </div>
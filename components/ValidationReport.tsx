@@ -0,0 +1,102 @@
+import React from 'react';
+import { IngestionIssueCode, IngestionReport } from '../types';
+import { ISSUE_LABELS, downloadIssuesCsv } from '../services/ingestionValidation';
+import { AlertTriangle, CheckCircle, Download, ShieldAlert, X } from 'lucide-react';
+
+interface ValidationReportProps {
+    report: IngestionReport;
+    fileName: string;
+    blockedReasons: string[]; // Non-empty when strict mode refused the import
+    onDismiss: () => void;
+}
+
+const PREVIEW_ROWS = 8;
+
+export const ValidationReport: React.FC<ValidationReportProps> = ({ report, fileName, blockedReasons, onDismiss }) => {
+  const isBlocked = blockedReasons.length > 0;
+  const issueCodes = Object.keys(report.issueCounts) as IngestionIssueCode[];
+  const isClean = issueCodes.length === 0 && report.skippedRows === 0;
+
+  return (
+      <div className={`w-full rounded-xl border shadow-sm overflow-hidden animate-fade-in ${isBlocked ? 'bg-red-50 dark:bg-red-900/10 border-red-200 dark:border-red-800' : 'bg-white dark:bg-[#1c1b22] border-slate-200 dark:border-white/5'}`}>
+          <div className="px-6 py-4 border-b border-slate-200 dark:border-white/5 flex justify-between items-center">
+              <div className="flex items-center gap-2">
+                  {isBlocked ? <ShieldAlert className="w-4 h-4 text-red-600 dark:text-red-400" /> : isClean ? <CheckCircle className="w-4 h-4 text-green-600 dark:text-green-400" /> : <AlertTriangle className="w-4 h-4 text-orange-500" />}
+                  <h3 className="font-bold text-slate-800 dark:text-white">
+                      {isBlocked ? 'Import Refused (Strict Mode)' : 'Validation Summary'}
+                  </h3>
+                  <span className="text-xs text-slate-500 dark:text-slate-400">{fileName}</span>
+              </div>
+              <div className="flex items-center gap-2">
+                  {report.issues.length > 0 && (
+                      <button onClick={() => downloadIssuesCsv(report, fileName)} className="px-3 py-1.5 bg-[#a522dd] text-white rounded-lg text-xs font-bold hover:bg-[#791cf5] flex items-center gap-1.5 shadow-lg shadow-[#a522dd]/20">
+                          <Download className="w-3 h-3" /> Error CSV
+                      </button>
+                  )}
+                  <button onClick={onDismiss} className="p-1.5 text-slate-400 hover:text-slate-600 dark:hover:text-white"><X className="w-4 h-4" /></button>
+              </div>
+          </div>
+
+          <div className="p-6 space-y-4">
+              {isBlocked && (
+                  <ul className="text-sm text-red-700 dark:text-red-300 font-medium list-disc pl-5 space-y-1">
+                      {blockedReasons.map((r, i) => <li key={i}>{r}</li>)}
+                  </ul>
+              )}
+
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-3 text-center">
+                  {[
+                      { label: 'Rows Read', value: report.totalRows, tone: 'text-slate-900 dark:text-white' },
+                      { label: 'Imported', value: report.importedRows, tone: 'text-green-600 dark:text-green-400' },
+                      { label: 'Skipped', value: report.skippedRows, tone: report.skippedRows > 0 ? 'text-red-600 dark:text-red-400' : 'text-slate-400' },
+                      { label: 'Rows w/ Errors', value: report.errorRows, tone: report.errorRows > 0 ? 'text-red-600 dark:text-red-400' : 'text-slate-400' },
+                      { label: 'Rows w/ Warnings', value: report.warningRows, tone: report.warningRows > 0 ? 'text-orange-500' : 'text-slate-400' },
+                  ].map(stat => (
+                      <div key={stat.label} className="p-3 bg-slate-50 dark:bg-slate-800/50 rounded-lg border border-slate-200 dark:border-white/5">
+                          <div className={`text-xl font-bold ${stat.tone}`}>{stat.value.toLocaleString()}</div>
+                          <div className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mt-1">{stat.label}</div>
+                      </div>
+                  ))}
+              </div>
+
+              {issueCodes.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                      {issueCodes.map(code => (
+                          <span key={code} className="px-2.5 py-1 bg-slate-100 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-md text-xs font-bold text-slate-600 dark:text-slate-300">
+                              {ISSUE_LABELS[code]}: {(report.issueCounts[code] || 0).toLocaleString()}
+                          </span>
+                      ))}
+                  </div>
+              )}
+
+              {report.issues.length > 0 && (
+                  <div className="border border-slate-200 dark:border-slate-700 rounded-lg overflow-hidden">
+                      <table className="w-full text-xs text-left">
+                          <thead className="bg-slate-50 dark:bg-slate-800 text-slate-500 dark:text-slate-400 font-semibold">
+                              <tr><th className="px-3 py-2">Row</th><th className="px-3 py-2">Column</th><th className="px-3 py-2">Issue</th><th className="px-3 py-2">Value</th><th className="px-3 py-2">Action Taken</th></tr>
+                          </thead>
+                          <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+                              {report.issues.slice(0, PREVIEW_ROWS).map((issue, i) => (
+                                  <tr key={i} className="bg-white dark:bg-slate-900">
+                                      <td className="px-3 py-2 font-mono text-slate-500">{issue.row}</td>
+                                      <td className="px-3 py-2 text-slate-700 dark:text-slate-300">{issue.column || issue.field}</td>
+                                      <td className={`px-3 py-2 font-bold ${issue.severity === 'error' ? 'text-red-600 dark:text-red-400' : 'text-orange-500'}`}>{ISSUE_LABELS[issue.code]}</td>
+                                      <td className="px-3 py-2 font-mono text-slate-500 truncate max-w-[160px]">{issue.value || '∅'}</td>
+                                      <td className="px-3 py-2 text-slate-500 dark:text-slate-400">{issue.message}</td>
+                                  </tr>
+                              ))}
+                          </tbody>
+                      </table>
+                      {(report.issues.length > PREVIEW_ROWS || report.truncated) && (
+                          <div className="px-3 py-2 bg-slate-50 dark:bg-slate-800/50 text-[11px] text-slate-500 dark:text-slate-400">
+                              Showing {PREVIEW_ROWS} of {report.issues.length.toLocaleString()} issues{report.truncated ? ' (detail list capped, counts above are exact)' : ''}. Download the error CSV for the full list.
+                          </div>
+                      )}
+                  </div>
+              )}
+
+              {isClean && <p className="text-sm text-green-700 dark:text-green-300">No issues found. Every row was imported as-is.</p>}
+          </div>
+      </div>
+  );
+};
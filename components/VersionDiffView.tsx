@@ -0,0 +1,204 @@
+import React, { useMemo, useState } from 'react';
+import { DatasetVersion, DeveloperRecord } from '../types';
+import { DIFF_CATEGORY_LABELS, DIFF_METRICS, VersionDiffCategory, diffVersions, exportDiffCategory } from '../services/versionDiff';
+import { useWorkspaceSettings } from '../services/repositoryContext';
+import { GitCompare, Download, ArrowRight, TrendingUp, TrendingDown } from 'lucide-react';
+
+interface VersionDiffViewProps {
+    versions: DatasetVersion[]; // Newest first
+    activeVersionId?: string;
+}
+
+const PREVIEW_ROWS = 200;
+
+const versionLabel = (v: DatasetVersion) => `${v.fileName} — ${new Date(v.uploadDate).toLocaleString()}`;
+
+export const VersionDiffView: React.FC<VersionDiffViewProps> = ({ versions, activeVersionId }) => {
+  const [{ riskScoreThreshold }] = useWorkspaceSettings();
+  // Default: the version before the active one (base) against the active one (compare)
+  const defaultCompare = activeVersionId || versions[0]?.id || '';
+  const defaultBase = versions[versions.findIndex(v => v.id === defaultCompare) + 1]?.id || '';
+
+  const [baseId, setBaseId] = useState<string>(defaultBase);
+  const [compareId, setCompareId] = useState<string>(defaultCompare);
+  const [category, setCategory] = useState<VersionDiffCategory>('added');
+
+  const base = versions.find(v => v.id === baseId);
+  const compare = versions.find(v => v.id === compareId);
+
+  const diff = useMemo(() => {
+      if (!base || !compare || base.id === compare.id) return null;
+      return diffVersions(base, compare, riskScoreThreshold);
+  }, [base, compare, riskScoreThreshold]);
+
+  const categories = Object.keys(DIFF_CATEGORY_LABELS) as VersionDiffCategory[];
+
+  const renderIdentity = (r: DeveloperRecord) => (
+      <>
+          <td className="px-4 py-3">
+              <div className="font-medium text-slate-900 dark:text-white">{`${r.firstName} ${r.lastName}`.trim() || '—'}</div>
+              <div className="text-xs text-slate-500 dark:text-slate-400">{r.email}</div>
+          </td>
+          <td className="px-4 py-3 text-slate-600 dark:text-slate-300 font-mono text-xs">{r.partnerCode}</td>
+      </>
+  );
+
+  const renderRows = () => {
+      if (!diff) return null;
+      switch (category) {
+          case 'added':
+          case 'removed':
+              return diff[category].slice(0, PREVIEW_ROWS).map(r => (
+                  <tr key={r.id} className="hover:bg-slate-50 dark:hover:bg-white/5">
+                      {renderIdentity(r)}
+                      <td className="px-4 py-3 text-slate-600 dark:text-slate-300">{r.finalGrade} · {r.percentageCompleted}%</td>
+                  </tr>
+              ));
+          case 'gradeTransitions':
+              return diff.gradeTransitions.slice(0, PREVIEW_ROWS).map(c => (
+                  <tr key={c.record.id} className="hover:bg-slate-50 dark:hover:bg-white/5">
+                      {renderIdentity(c.record)}
+                      <td className="px-4 py-3 font-bold text-slate-700 dark:text-slate-200 flex items-center gap-2">{c.from} <ArrowRight className="w-3 h-3 text-slate-400" /> <span className={c.to === 'Pass' ? 'text-green-600 dark:text-green-400' : c.to === 'Fail' ? 'text-red-600 dark:text-red-400' : ''}>{c.to}</span></td>
+                  </tr>
+              ));
+          case 'progressChanges':
+              return diff.progressChanges.slice(0, PREVIEW_ROWS).map(c => (
+                  <tr key={c.record.id} className="hover:bg-slate-50 dark:hover:bg-white/5">
+                      {renderIdentity(c.record)}
+                      <td className="px-4 py-3 font-mono text-slate-700 dark:text-slate-200">{c.from}% → {c.to}% <span className={c.to > c.from ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}>({c.to > c.from ? '+' : ''}{c.to - c.from})</span></td>
+                  </tr>
+              ));
+          case 'flagsRaised':
+          case 'flagsCleared':
+              return diff[category].slice(0, PREVIEW_ROWS).map(c => (
+                  <tr key={c.record.id} className="hover:bg-slate-50 dark:hover:bg-white/5">
+                      {renderIdentity(c.record)}
+                      <td className="px-4 py-3">
+                          <div className="flex flex-wrap gap-1">
+                              {c.flags.map(f => (
+                                  <span key={f} className={`px-2 py-0.5 rounded text-[10px] font-bold border ${category === 'flagsRaised' ? 'bg-red-50 text-red-700 border-red-100 dark:bg-red-900/30 dark:text-red-300 dark:border-red-900/50' : 'bg-green-50 text-green-700 border-green-100 dark:bg-green-900/30 dark:text-green-300 dark:border-green-900/50'}`}>{f}</span>
+                              ))}
+                          </div>
+                      </td>
+                  </tr>
+              ));
+      }
+  };
+
+  const categoryCount = diff ? diff[category].length : 0;
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div>
+        <h1 className="text-2xl font-bold text-slate-900 dark:text-white flex items-center gap-2"><GitCompare className="w-6 h-6 text-[#2a00ff]" /> Version Diff</h1>
+        <p className="text-slate-500 dark:text-slate-400">Compare two dataset uploads: who joined, who left, and what changed.</p>
+      </div>
+
+      {versions.length < 2 ? (
+          <div className="p-10 text-center text-slate-400 border border-dashed border-slate-300 dark:border-slate-700 rounded-xl">Upload at least two dataset versions to compare them.</div>
+      ) : (
+      <>
+      <div className="glass-panel p-6 rounded-xl flex flex-col lg:flex-row gap-4 items-end border border-slate-200 dark:border-slate-700 shadow-sm">
+          <div className="w-full lg:flex-1">
+              <label className="block text-[10px] font-bold text-[#a522dd] mb-2 uppercase tracking-wider">Base Version</label>
+              <select value={baseId} onChange={e => setBaseId(e.target.value)} className="w-full p-2.5 bg-white dark:bg-slate-900 border border-slate-300 dark:border-slate-700 rounded-xl text-sm text-slate-900 dark:text-white outline-none focus:ring-2 focus:ring-[#2a00ff] shadow-sm">
+                  <option value="">-- Select Version --</option>
+                  {versions.map(v => <option key={v.id} value={v.id}>{versionLabel(v)}</option>)}
+              </select>
+          </div>
+          <ArrowRight className="hidden lg:block w-5 h-5 text-slate-400 mb-3" />
+          <div className="w-full lg:flex-1">
+              <label className="block text-[10px] font-bold text-[#a522dd] mb-2 uppercase tracking-wider">Compare Version</label>
+              <select value={compareId} onChange={e => setCompareId(e.target.value)} className="w-full p-2.5 bg-white dark:bg-slate-900 border border-slate-300 dark:border-slate-700 rounded-xl text-sm text-slate-900 dark:text-white outline-none focus:ring-2 focus:ring-[#2a00ff] shadow-sm">
+                  <option value="">-- Select Version --</option>
+                  {versions.map(v => <option key={v.id} value={v.id}>{versionLabel(v)}</option>)}
+              </select>
+          </div>
+      </div>
+
+      {baseId && baseId === compareId && (
+          <p className="text-sm text-orange-600 dark:text-orange-400 font-medium">Select two different versions.</p>
+      )}
+
+      {diff && base && compare && (
+          <>
+          {/* Metric Deltas */}
+          <div className="bg-white dark:bg-[#1c1b22] rounded-xl border border-slate-200 dark:border-white/5 shadow-sm overflow-hidden">
+              <div className="px-6 py-4 border-b border-slate-200 dark:border-white/5 bg-slate-50/50 dark:bg-white/5">
+                  <h3 className="font-bold text-slate-800 dark:text-white">Dashboard Metric Deltas <span className="text-xs font-normal text-slate-500 dark:text-slate-400">(all time)</span></h3>
+              </div>
+              <table className="w-full text-sm text-left">
+                  <thead className="bg-slate-50 dark:bg-slate-800/50 text-slate-500 dark:text-slate-400 font-medium">
+                      <tr><th className="px-6 py-3">Metric</th><th className="px-6 py-3 text-right">Base</th><th className="px-6 py-3 text-right">Compare</th><th className="px-6 py-3 text-right">Delta</th></tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100 dark:divide-white/5">
+                      {DIFF_METRICS.map(m => {
+                          const from = diff.baseMetrics[m.key];
+                          const to = diff.compareMetrics[m.key];
+                          const delta = to - from;
+                          const improved = m.higherIsBetter ? delta > 0 : delta < 0;
+                          return (
+                              <tr key={m.key}>
+                                  <td className="px-6 py-3 font-medium text-slate-800 dark:text-slate-200">{m.label}</td>
+                                  <td className="px-6 py-3 text-right font-mono text-slate-500 dark:text-slate-400">{m.format(from)}</td>
+                                  <td className="px-6 py-3 text-right font-mono text-slate-900 dark:text-white">{m.format(to)}</td>
+                                  <td className={`px-6 py-3 text-right font-mono font-bold ${delta === 0 ? 'text-slate-400' : improved ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                                      <span className="inline-flex items-center gap-1">
+                                          {delta > 0 ? <TrendingUp className="w-3 h-3" /> : delta < 0 ? <TrendingDown className="w-3 h-3" /> : null}
+                                          {delta > 0 ? '+' : delta < 0 ? '-' : ''}{m.format(Math.abs(delta))}
+                                      </span>
+                                  </td>
+                              </tr>
+                          );
+                      })}
+                  </tbody>
+              </table>
+          </div>
+
+          {/* Change Categories */}
+          <div className="bg-white dark:bg-[#1c1b22] rounded-xl border border-slate-200 dark:border-white/5 shadow-sm overflow-hidden">
+              <div className="px-6 py-4 border-b border-slate-200 dark:border-white/5 flex flex-wrap gap-2 justify-between items-center">
+                  <div className="flex flex-wrap gap-2">
+                      {categories.map(c => (
+                          <button
+                            key={c}
+                            onClick={() => setCategory(c)}
+                            className={`px-3 py-1.5 rounded-lg text-xs font-bold transition-colors ${category === c ? 'bg-[#2a00ff] text-white shadow-lg shadow-[#2a00ff]/20' : 'bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700'}`}
+                          >
+                              {DIFF_CATEGORY_LABELS[c]} ({diff[c].length.toLocaleString()})
+                          </button>
+                      ))}
+                  </div>
+                  <button
+                    onClick={() => exportDiffCategory(diff, category, base.fileName, compare.fileName)}
+                    disabled={categoryCount === 0}
+                    className="px-3 py-1.5 bg-[#a522dd] text-white rounded-lg text-xs font-bold hover:bg-[#791cf5] flex items-center gap-1.5 shadow-lg shadow-[#a522dd]/20 disabled:opacity-50"
+                  >
+                      <Download className="w-3 h-3" /> Export CSV
+                  </button>
+              </div>
+              {categoryCount === 0 ? (
+                  <div className="p-8 text-center text-sm text-slate-400">No {DIFF_CATEGORY_LABELS[category].toLowerCase()} between these versions.</div>
+              ) : (
+                  <>
+                  <table className="w-full text-sm text-left">
+                      <thead className="bg-slate-50 dark:bg-slate-800/50 text-slate-500 dark:text-slate-400 font-medium">
+                          <tr><th className="px-4 py-3">Developer</th><th className="px-4 py-3">Partner</th><th className="px-4 py-3">Change</th></tr>
+                      </thead>
+                      <tbody className="divide-y divide-slate-100 dark:divide-white/5">{renderRows()}</tbody>
+                  </table>
+                  {categoryCount > PREVIEW_ROWS && (
+                      <div className="px-4 py-2 bg-slate-50 dark:bg-slate-800/50 text-[11px] text-slate-500 dark:text-slate-400">
+                          Showing {PREVIEW_ROWS} of {categoryCount.toLocaleString()}. Export CSV for the full list.
+                      </div>
+                  )}
+                  </>
+              )}
+          </div>
+          </>
+      )}
+      </>
+      )}
+    </div>
+  );
+};
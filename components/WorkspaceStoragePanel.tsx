@@ -0,0 +1,165 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { StorageUsage, WorkspaceCollection, WorkspaceData } from '../types';
+import { exportWorkspace, formatBytes, getStorageUsage, readWorkspaceBackup } from '../services/workspaceStore';
+import { DATA_BACKEND, WORKSPACE_COLLECTIONS, workspaceRepository } from '../services/dataBackend';
+import { useCollection, useRepositories } from '../services/repositoryContext';
+import { HardDrive, Download, Upload, AlertTriangle, CheckCircle, Loader2 } from 'lucide-react';
+
+interface WorkspaceStoragePanelProps {
+    activeVersionId: string | null;
+    onWorkspaceRestored: (activeVersionId: string | null) => void;
+}
+
+const COLLECTION_LABELS: Record<WorkspaceCollection, string> = {
+    versions: 'Dataset Versions',
+    invoices: 'Invoices',
+    agreements: 'Agreements',
+    events: 'Events',
+    campaigns: 'Outreach Campaigns',
+    masterRegistry: 'Community Registry',
+    admins: 'Administrators',
+    fraudRules: 'Fraud Rules',
+    settings: 'Settings',
+    fraudReviews: 'Fraud Reviews',
+    fraudBlocklist: 'Fraud Blocklist',
+    billingRuns: 'Billing Runs',
+    invoiceSequences: 'Invoice Sequences'
+};
+
+export const WorkspaceStoragePanel: React.FC<WorkspaceStoragePanelProps> = ({ activeVersionId, onWorkspaceRestored }) => {
+  const repositories = useRepositories();
+  const versions = useCollection(repositories.batches);
+  const invoices = useCollection(repositories.invoices);
+  const agreements = useCollection(repositories.agreements);
+  const events = useCollection(repositories.events);
+  const campaigns = useCollection(repositories.campaigns);
+  const masterRegistry = useCollection(repositories.registry);
+  const admins = useCollection(repositories.admins);
+  const fraudRules = useCollection(repositories.fraudRules);
+  const settings = useCollection(repositories.settings);
+  const fraudReviews = useCollection(repositories.fraudReviews);
+  const fraudBlocklist = useCollection(repositories.fraudBlocklist);
+  const billingRuns = useCollection(repositories.billingRuns);
+  const invoiceSequences = useCollection(repositories.invoiceSequences);
+
+  const workspace: WorkspaceData = useMemo(() => ({
+      versions: [...versions].sort((a, b) => b.uploadDate.localeCompare(a.uploadDate)),
+      activeVersionId, invoices, agreements, events, campaigns, masterRegistry, admins, fraudRules, settings, fraudReviews, fraudBlocklist, billingRuns, invoiceSequences
+  }), [versions, activeVersionId, invoices, agreements, events, campaigns, masterRegistry, admins, fraudRules, settings, fraudReviews, fraudBlocklist, billingRuns, invoiceSequences]);
+
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [status, setStatus] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const backupInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+      let cancelled = false;
+      getStorageUsage(workspace).then(u => { if (!cancelled) setUsage(u); });
+      return () => { cancelled = true; };
+  }, [workspace]);
+
+  const handleRestore = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+      if (!window.confirm(`Restore "${file.name}"? This replaces every dataset version, invoice, agreement, event, campaign, registry entry, admin, fraud rule, setting, fraud review, blocklist entry, billing run and invoice sequence stored in this workspace.`)) return;
+
+      setIsRestoring(true);
+      setStatus(null);
+      try {
+          const data = await readWorkspaceBackup(file);
+          const restore = <K extends WorkspaceCollection>(name: K) => workspaceRepository(repositories, name).replaceAll(data[name]);
+          for (const name of WORKSPACE_COLLECTIONS) await restore(name);
+          onWorkspaceRestored(data.activeVersionId);
+          setStatus({ type: 'success', message: `Workspace restored from ${file.name}.` });
+      } catch (err: any) {
+          console.error(err);
+          setStatus({ type: 'error', message: err.message || 'Restore failed.' });
+      } finally {
+          setIsRestoring(false);
+      }
+  };
+
+  const usedPct = usage?.usageBytes != null && usage.quotaBytes ? (usage.usageBytes / usage.quotaBytes) * 100 : null;
+
+  return (
+      <div className="animate-fade-in space-y-6">
+          {/* BACKUP */}
+          <div className="glass-panel p-6 rounded-xl border border-slate-200 dark:border-slate-700 shadow-sm">
+              <div className="flex flex-col md:flex-row md:items-start justify-between gap-4">
+                  <div>
+                      <h3 className="font-bold text-slate-900 dark:text-white">Workspace Backup</h3>
+                      <p className="text-slate-500 dark:text-slate-400 text-sm mt-1">
+                          {DATA_BACKEND === 'firestore'
+                            ? 'Everything is stored in the shared Firestore project.'
+                            : 'Everything is saved in this browser (IndexedDB) and restored on reload.'}
+                          <br/>Export a single backup file to move the workspace to another machine or keep an off-browser copy.
+                      </p>
+                  </div>
+                  <div className="flex gap-3 shrink-0">
+                      <button
+                        onClick={() => exportWorkspace(workspace)}
+                        className="px-4 py-2 bg-[#2a00ff] text-white rounded-lg text-sm font-medium hover:bg-[#2a00ff]/80 flex items-center gap-2 shadow-lg shadow-[#2a00ff]/20"
+                      >
+                          <Download className="w-4 h-4" /> Export Backup
+                      </button>
+                      <button
+                        onClick={() => backupInputRef.current?.click()}
+                        disabled={isRestoring}
+                        className="px-4 py-2 bg-slate-900 dark:bg-white dark:text-slate-900 text-white rounded-lg font-medium hover:bg-slate-800 dark:hover:bg-slate-200 flex items-center gap-2 text-sm shadow-lg shadow-white/10 disabled:opacity-50"
+                      >
+                          {isRestoring ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />} Restore Backup
+                      </button>
+                      <input type="file" ref={backupInputRef} className="hidden" onChange={handleRestore} accept=".json" />
+                  </div>
+              </div>
+              {status && (
+                  <div className={`mt-4 p-3 rounded-lg inline-flex items-center gap-2 text-sm font-medium border ${status.type === 'success' ? 'bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800 text-green-800 dark:text-green-300' : 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800 text-red-700 dark:text-red-300'}`}>
+                      {status.type === 'success' ? <CheckCircle className="w-4 h-4" /> : <AlertTriangle className="w-4 h-4" />} {status.message}
+                  </div>
+              )}
+          </div>
+
+          {/* USAGE */}
+          <div className="bg-white dark:bg-slate-900/50 rounded-xl border border-slate-200 dark:border-slate-700 shadow-sm overflow-hidden">
+              <div className="px-6 py-4 border-b border-slate-200 dark:border-slate-700 flex justify-between items-center bg-slate-50/50 dark:bg-slate-800/50">
+                  <h3 className="font-bold text-slate-800 dark:text-white flex items-center gap-2"><HardDrive className="w-4 h-4" /> Storage Usage</h3>
+                  {usage && <span className="text-xs font-mono text-slate-500 dark:text-slate-400">Schema v{usage.schemaVersion}</span>}
+              </div>
+              {!usage ? (
+                  <div className="p-6 text-sm text-slate-400 flex items-center gap-2"><Loader2 className="w-4 h-4 animate-spin" /> Measuring...</div>
+              ) : (
+                  <div className="p-6 space-y-6">
+                      {usage.usageBytes != null && (
+                          <div className="space-y-2">
+                              <div className="flex justify-between text-xs text-slate-500 font-medium">
+                                  <span>{formatBytes(usage.usageBytes)} used{usage.quotaBytes ? ` of ${formatBytes(usage.quotaBytes)} available` : ''}</span>
+                                  {usedPct !== null && <span>{usedPct.toFixed(1)}%</span>}
+                              </div>
+                              {usedPct !== null && (
+                                  <div className="w-full bg-slate-100 dark:bg-slate-700 rounded-full h-2.5 overflow-hidden">
+                                      <div className={`h-2.5 rounded-full ${usedPct > 80 ? 'bg-red-500' : 'bg-[#2a00ff]'}`} style={{ width: `${Math.min(100, Math.max(1, usedPct))}%` }}></div>
+                                  </div>
+                              )}
+                          </div>
+                      )}
+                      <table className="w-full text-sm text-left">
+                          <thead className="bg-slate-50 dark:bg-slate-800 text-slate-500 dark:text-slate-400 font-semibold">
+                              <tr><th className="px-4 py-2">Collection</th><th className="px-4 py-2 text-right">Items</th><th className="px-4 py-2 text-right">Approx. Size</th></tr>
+                          </thead>
+                          <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+                              {(Object.keys(COLLECTION_LABELS) as WorkspaceCollection[]).map(name => (
+                                  <tr key={name}>
+                                      <td className="px-4 py-2 font-medium text-slate-700 dark:text-slate-300">{COLLECTION_LABELS[name]}</td>
+                                      <td className="px-4 py-2 text-right font-mono text-slate-600 dark:text-slate-300">{usage.collections[name].count.toLocaleString()}</td>
+                                      <td className="px-4 py-2 text-right font-mono text-slate-500 dark:text-slate-400">≈ {formatBytes(usage.collections[name].approxBytes)}</td>
+                                  </tr>
+                              ))}
+                          </tbody>
+                      </table>
+                  </div>
+              )}
+          </div>
+      </div>
+  );
+};
@@ -1,5 +1,5 @@
 import { initializeApp } from "firebase/app";
-import { getFirestore } from "firebase/firestore";
+import { connectFirestoreEmulator, getFirestore } from "firebase/firestore";
 import { getAuth } from "firebase/auth";
 import { getStorage } from "firebase/storage";
 import { getAnalytics } from "firebase/analytics";
@@ -21,6 +21,12 @@ const app = initializeApp(firebaseConfig);
 
 // Export Firebase services for use in components
 export const db = getFirestore(app);
+
+// Point Firestore at the local emulator, e.g. FIRESTORE_EMULATOR_HOST=127.0.0.1:8080 in .env.local
+if (process.env.FIRESTORE_EMULATOR_HOST) {
+  const [host, port] = process.env.FIRESTORE_EMULATOR_HOST.split(':');
+  connectFirestoreEmulator(db, host, Number(port) || 8080);
+}
 export const auth = getAuth(app);
 export const storage = getStorage(app);
 export const analytics = getAnalytics(app);
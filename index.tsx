@@ -2,6 +2,9 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
 import './firebaseConfig'; // Initialize Firebase
+import { createRepositories } from './services/dataBackend';
+import { RepositoryProvider } from './services/repositoryContext';
+import { StartupError } from './components/StartupError';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -9,8 +12,15 @@ if (!rootElement) {
 }
 
 const root = ReactDOM.createRoot(rootElement);
-root.render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
-);
\ No newline at end of file
+createRepositories().then(repositories => {
+  root.render(
+    <React.StrictMode>
+      <RepositoryProvider repositories={repositories}>
+        <App />
+      </RepositoryProvider>
+    </React.StrictMode>
+  );
+}).catch(err => {
+  console.error('Could not open the workspace', err);
+  root.render(<StartupError error={err} />);
+});
\ No newline at end of file
@@ -0,0 +1,125 @@
+import assert from 'node:assert/strict';
+import { initializeApp } from 'firebase/app';
+import { connectFirestoreEmulator, getFirestore, terminate } from 'firebase/firestore';
+import { createFirestoreRepositories } from '../services/firestoreRepository';
+import { Repositories } from '../services/repository';
+import { BlocklistEntry, DatasetVersion, DeveloperRecord, Invoice, InvoiceSequence, InvoiceStatus } from '../types';
+
+// Runs the Firestore repositories against the local emulator:
+//
+//   npx firebase-tools emulators:start --only firestore
+//   FIRESTORE_EMULATOR_HOST=127.0.0.1:8080 npm run test:firestore
+//
+// Uses a demo project, which the emulator never forwards to Firebase. Its data is cleared first.
+
+const PROJECT_ID = 'demo-hcp-emulator-check';
+
+const entry = (value: string): BlocklistEntry => ({
+    id: `wallet:${value}`, type: 'wallet', value, note: '', addedAt: '2026-01-01T00:00:00.000Z', addedBy: 'Emulator check'
+});
+
+const developer = (n: number): DeveloperRecord => ({
+    id: `dev_${n}`, email: `dev${n}@example.com`, firstName: 'Dev', lastName: String(n), phone: '', country: 'FR',
+    acceptedMembership: true, acceptedMarketing: false, walletAddress: '', partnerName: 'ABC', partnerCode: 'ABC',
+    percentageCompleted: 100, createdAt: '2026-01-01T10:00:00.000Z', completedAt: '2026-01-01T12:00:00.000Z',
+    finalScore: 90, finalGrade: 'Pass', caStatus: '', computed_riskFlags: []
+});
+
+const version = (id: string, records: number): DatasetVersion => ({
+    id, fileName: `${id}.csv`, uploadDate: '2026-01-01T00:00:00.000Z', recordCount: records,
+    data: Array.from({ length: records }, (_, i) => developer(i))
+});
+
+const draft = (id: string): Invoice => ({
+    id, invoiceNumber: '', partnerCode: 'ABC', billingPeriod: '2026-01', issueDate: '2026-02-01', dueDate: '2026-03-03',
+    currency: 'USD', items: [], subtotal: 0, taxRate: 0, taxAmount: 0, totalAmount: 0,
+    status: InvoiceStatus.DRAFT, notes: '', publicMemo: ''
+});
+
+// Resolves with the first snapshot that passes `ready`
+const nextSnapshot = <T,>(subscribe: (listener: (items: T[]) => void) => () => void, ready: (items: T[]) => boolean) =>
+    new Promise<T[]>((resolve, reject) => {
+        const timer = setTimeout(() => reject(new Error('No matching snapshot within 5s.')), 5000);
+        const unsubscribe = subscribe(items => {
+            if (!ready(items)) return;
+            clearTimeout(timer);
+            setTimeout(unsubscribe, 0);
+            resolve(items);
+        });
+    });
+
+const CHECKS: [string, (repositories: Repositories) => Promise<void>][] = [
+    ['save, get, list and remove', async ({ fraudBlocklist }) => {
+        await fraudBlocklist.save({ ...entry('0.0.1001'), sourceEmail: undefined });
+        assert.deepEqual(await fraudBlocklist.get('wallet:0.0.1001'), entry('0.0.1001')); // Undefined fields are dropped
+        await fraudBlocklist.saveMany([entry('0.0.1002'), entry('0.0.1003')]);
+        assert.equal((await fraudBlocklist.list()).length, 3);
+        await fraudBlocklist.remove('wallet:0.0.1002');
+        assert.equal(await fraudBlocklist.get('wallet:0.0.1002'), null);
+    }],
+    ['replaceAll deletes items that are not kept', async ({ fraudBlocklist }) => {
+        await fraudBlocklist.replaceAll([entry('0.0.2001')]);
+        assert.deepEqual((await fraudBlocklist.list()).map(e => e.id), ['wallet:0.0.2001']);
+    }],
+    ['subscribe reports changes', async ({ fraudBlocklist }) => {
+        const snapshot = nextSnapshot(fraudBlocklist.subscribe, items => items.some(e => e.value === '0.0.3001'));
+        await fraudBlocklist.save(entry('0.0.3001'));
+        assert.equal((await snapshot).length, 2);
+    }],
+    ['dataset versions keep their developers in a subcollection', async ({ batches, developers }) => {
+        await batches.save(version('v1', 3));
+        assert.equal((await developers.listForBatch('v1')).length, 3);
+        assert.equal((await batches.get('v1'))?.data.length, 3);
+        const snapshot = nextSnapshot(batches.subscribe, versions => versions.some(v => v.id === 'v2'));
+        await batches.save(version('v2', 2));
+        assert.deepEqual((await snapshot).map(v => v.data.length).sort(), [2, 3]);
+        await batches.replaceAll([version('v2', 1)]);
+        assert.deepEqual((await batches.list()).map(v => v.id), ['v2']);
+        assert.equal((await developers.listForBatch('v1')).length, 0);
+        assert.equal((await developers.listForBatch('v2')).length, 1);
+    }],
+    ['concurrent issues take consecutive numbers', async ({ invoices, invoiceSequences }) => {
+        const drafts = ['d1', 'd2', 'd3'].map(draft);
+        await invoices.saveMany(drafts);
+        const issue = (invoice: Invoice) => invoiceSequences.issue('2026', current => {
+            const lastNumber = (current?.lastNumber || 0) + 1;
+            const sequence: InvoiceSequence = { id: '2026', series: 'Invoice', fiscalYear: 2026, lastNumber, updatedAt: new Date().toISOString() };
+            return { sequence, invoices: [{ ...invoice, invoiceNumber: `INV-2026-${lastNumber}`, status: InvoiceStatus.SENT }] };
+        });
+        await Promise.all(drafts.map(issue));
+        assert.equal((await invoiceSequences.get('2026'))?.lastNumber, 3);
+        assert.deepEqual((await invoices.list()).map(i => i.invoiceNumber).sort(), ['INV-2026-1', 'INV-2026-2', 'INV-2026-3']);
+    }]
+];
+
+const main = async () => {
+    const emulatorHost = process.env.FIRESTORE_EMULATOR_HOST;
+    if (!emulatorHost) throw new Error('Set FIRESTORE_EMULATOR_HOST (e.g. 127.0.0.1:8080) and start the Firestore emulator first.');
+    const [host, port] = emulatorHost.split(':');
+
+    const cleared = await fetch(`http://${emulatorHost}/emulator/v1/projects/${PROJECT_ID}/databases/(default)/documents`, { method: 'DELETE' });
+    if (!cleared.ok) throw new Error(`Could not clear the emulator at ${emulatorHost} (HTTP ${cleared.status}).`);
+
+    const db = getFirestore(initializeApp({ projectId: PROJECT_ID }));
+    connectFirestoreEmulator(db, host, Number(port) || 8080);
+    const repositories = createFirestoreRepositories(db);
+
+    let failed = 0;
+    for (const [name, run] of CHECKS) {
+        try {
+            await run(repositories);
+            console.log(`ok    ${name}`);
+        } catch (err) {
+            failed++;
+            console.error(`FAIL  ${name}`, err);
+        }
+    }
+    await terminate(db);
+    console.log(`${CHECKS.length - failed}/${CHECKS.length} checks passed`);
+    if (failed > 0) process.exitCode = 1;
+};
+
+main().catch(err => {
+    console.error(err instanceof Error ? err.message : err);
+    process.exitCode = 1;
+});
@@ -0,0 +1,179 @@
+import { ClusterLinkType, DeveloperRecord } from '../types';
+import { classifyWallet } from './hederaWallet';
+
+// Linked-account clusters: developers sharing a wallet or phone number end up in the same cluster
+// (connected components, so these strong links are transitive). Name and email roots are weak,
+// since common names are shared by unrelated people: they only join accounts while the result
+// stays small, and otherwise just show up as evidence inside a cluster. Rules flag individuals;
+// clusters show which accounts belong to the same ring.
+
+export const CLUSTER_LINK_LABELS: Record<ClusterLinkType, string> = {
+    wallet: 'Shared Wallet',
+    phone: 'Shared Phone',
+    nameRoot: 'Name Root',
+    emailRoot: 'Email Root'
+};
+
+// Wallet as used for grouping: its canonical form, so "0.0.123-vfmkw" and the long-zero EVM
+// address of 0.0.123 are one wallet. Placeholders and invalid values don't count as a shared wallet.
+export const walletKey = (wallet: string) => classifyWallet(wallet).canonical;
+
+// Strips trailing digits and separators: "John Doe 02" -> "johndoe"
+export const patternRoot = (str: string) => str.toLowerCase().replace(/[\d\s._-]+$/g, '');
+
+const MIN_ROOT_LENGTH = 4; // Same floor as the Batch Pattern rule, so "Al 1" / "Al 2" don't link
+const MIN_PHONE_DIGITS = 8;
+// Largest cluster a weak key can form or grow; beyond that a shared root is a common name
+const MAX_WEAK_CLUSTER = 10;
+
+const phoneKey = (phone: string) => {
+    const digits = (phone || '').replace(/\D/g, '');
+    // Placeholders such as 00000000 are not a shared phone
+    return digits.length >= MIN_PHONE_DIGITS && !/^(\d)\1+$/.test(digits) ? digits : '';
+};
+
+const rootKey = (str: string) => {
+    const root = patternRoot(str);
+    return root.length >= MIN_ROOT_LENGTH ? root : '';
+};
+
+// Normalised key of a raw value (a full name for nameRoot, an email or its local part for
+// emailRoot); empty when the value is missing or a placeholder
+export const linkKeyOf = (type: ClusterLinkType, value: string): string => {
+    switch (type) {
+        case 'wallet': return walletKey(value);
+        case 'phone': return phoneKey(value);
+        case 'nameRoot': return rootKey((value || '').replace(/\s+/g, ''));
+        case 'emailRoot': return value ? rootKey(value.split('@')[0]) : '';
+    }
+};
+
+// Values a record can be linked on
+export const linkKeysOf = (r: DeveloperRecord): Record<ClusterLinkType, string> => ({
+    wallet: linkKeyOf('wallet', r.walletAddress),
+    phone: linkKeyOf('phone', r.phone),
+    nameRoot: linkKeyOf('nameRoot', `${r.firstName || ''}${r.lastName || ''}`),
+    emailRoot: linkKeyOf('emailRoot', r.email)
+});
+
+const LINK_TYPES = Object.keys(CLUSTER_LINK_LABELS) as ClusterLinkType[];
+const STRONG_LINK_TYPES: ClusterLinkType[] = ['wallet', 'phone'];
+const WEAK_LINK_TYPES: ClusterLinkType[] = ['nameRoot', 'emailRoot'];
+
+// Sets computed_clusterId / computed_clusterSize / computed_clusterLinks on records linked to at
+// least one other record; everyone else has them cleared. computed_clusterLinks lists the keys a
+// record shares with other members of its cluster.
+export const assignClusters = (records: DeveloperRecord[]): DeveloperRecord[] => {
+    // Union-find over record indexes
+    const parent = records.map((_, i) => i);
+    const size = records.map(() => 1);
+    const find = (i: number): number => {
+        while (parent[i] !== i) {
+            parent[i] = parent[parent[i]];
+            i = parent[i];
+        }
+        return i;
+    };
+    const union = (a: number, b: number) => {
+        const ra = find(a);
+        const rb = find(b);
+        if (ra === rb) return;
+        parent[rb] = ra;
+        size[ra] += size[rb];
+    };
+
+    const keys = records.map(linkKeysOf);
+    const bucketsOf = (type: ClusterLinkType) => {
+        const buckets = new Map<string, number[]>();
+        keys.forEach((k, i) => {
+            if (!k[type]) return;
+            if (!buckets.has(k[type])) buckets.set(k[type], []);
+            buckets.get(k[type])!.push(i);
+        });
+        return Array.from(buckets.values()).filter(idxs => idxs.length > 1);
+    };
+
+    STRONG_LINK_TYPES.forEach(type => bucketsOf(type).forEach(idxs => idxs.forEach(i => union(idxs[0], i))));
+
+    // A weak bucket only joins clusters when everything it touches stays small
+    WEAK_LINK_TYPES.forEach(type => bucketsOf(type).forEach(idxs => {
+        const roots = new Set(idxs.map(find));
+        const joined = Array.from(roots).reduce((acc, root) => acc + size[root], 0);
+        if (joined <= MAX_WEAK_CLUSTER) idxs.forEach(i => union(idxs[0], i));
+    }));
+
+    const linksByRecord: Set<ClusterLinkType>[] = records.map(() => new Set());
+    LINK_TYPES.forEach(type => bucketsOf(type).forEach(idxs => {
+        const roots = idxs.map(find);
+        idxs.forEach((i, n) => {
+            if (roots.some((root, m) => m !== n && root === roots[n])) linksByRecord[i].add(type);
+        });
+    }));
+
+    const members = new Map<number, number[]>();
+    records.forEach((_, i) => {
+        const root = find(i);
+        if (!members.has(root)) members.set(root, []);
+        members.get(root)!.push(i);
+    });
+
+    // ID from the smallest developer ID, so a ring keeps its ID while it grows
+    const clusterOf = new Map<number, { id: string; size: number }>();
+    members.forEach((idxs, root) => {
+        if (idxs.length < 2) return;
+        const minId = idxs.map(i => records[i].id).sort()[0];
+        clusterOf.set(root, { id: `cl_${minId.replace(/^dev_/, '')}`, size: idxs.length });
+    });
+
+    return records.map((r, i) => {
+        const cluster = clusterOf.get(find(i));
+        return {
+            ...r,
+            computed_clusterId: cluster?.id,
+            computed_clusterSize: cluster?.size,
+            computed_clusterLinks: cluster ? Array.from(linksByRecord[i]) : undefined
+        };
+    });
+};
+
+export interface ClusterEdge {
+    from: string; // Developer ID
+    to: string;
+    type: ClusterLinkType;
+    key: string;
+}
+
+// Edges inside one cluster: each group sharing a key is drawn as a chain, not a full mesh,
+// so a 200-member ring on one wallet stays readable
+export const clusterEdges = (members: DeveloperRecord[]): ClusterEdge[] => {
+    const edges: ClusterEdge[] = [];
+    LINK_TYPES.forEach(type => {
+        const groups = new Map<string, string[]>();
+        members.forEach(r => {
+            const key = linkKeysOf(r)[type];
+            if (!key) return;
+            if (!groups.has(key)) groups.set(key, []);
+            groups.get(key)!.push(r.id);
+        });
+        groups.forEach((ids, key) => {
+            for (let i = 1; i < ids.length; i++) edges.push({ from: ids[i - 1], to: ids[i], type, key });
+        });
+    });
+    return edges;
+};
+
+// Shared values in a cluster with the number of members using each, largest first
+export const sharedKeys = (members: DeveloperRecord[]): { type: ClusterLinkType; key: string; count: number }[] => {
+    const counts = new Map<string, { type: ClusterLinkType; key: string; count: number }>();
+    members.forEach(r => {
+        const keys = linkKeysOf(r);
+        LINK_TYPES.forEach(type => {
+            if (!keys[type]) return;
+            const id = `${type}|${keys[type]}`;
+            const entry = counts.get(id) || { type, key: keys[type], count: 0 };
+            entry.count++;
+            counts.set(id, entry);
+        });
+    });
+    return Array.from(counts.values()).filter(e => e.count > 1).sort((a, b) => b.count - a.count);
+};
@@ -0,0 +1,50 @@
+import { BillingCycle, CommunityAgreement } from '../types';
+
+// Invoice periods follow the agreement's billing cycle, aligned on the calendar: bimonthly
+// periods are Jan-Feb, Mar-Apr, ...; quarterly periods are calendar quarters. Dates are
+// 'YYYY-MM-DD' strings, compared as UTC days.
+
+export const CYCLE_MONTHS: Record<BillingCycle, number> = {
+    Monthly: 1,
+    Bimonthly: 2,
+    Quarterly: 3
+};
+
+export interface BillingPeriod {
+    key: string; // 'YYYY-MM', 'YYYY-Bn' or 'YYYY-Qn', stored as Invoice.billingPeriod
+    start: string;
+    end: string; // Inclusive
+    days: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDay = (date: string) => Date.UTC(Number(date.slice(0, 4)), Number(date.slice(5, 7)) - 1, Number(date.slice(8, 10)));
+const fromDay = (ms: number) => new Date(ms).toISOString().split('T')[0];
+
+export const daysBetween = (start: string, end: string) => Math.round((toDay(end) - toDay(start)) / DAY_MS) + 1;
+
+export const addDays = (date: string, days: number) => fromDay(toDay(date) + days * DAY_MS);
+
+// The cycle period containing the given month ('YYYY-MM')
+export const billingPeriodFor = (cycle: BillingCycle, month: string): BillingPeriod => {
+    const year = Number(month.slice(0, 4));
+    const length = CYCLE_MONTHS[cycle] || 1;
+    const index = Math.floor((Number(month.slice(5, 7)) - 1) / length);
+    const start = fromDay(Date.UTC(year, index * length, 1));
+    const end = fromDay(Date.UTC(year, (index + 1) * length, 0));
+    const key = length === 1 ? month : `${year}-${length === 3 ? 'Q' : 'B'}${index + 1}`;
+    return { key, start, end, days: daysBetween(start, end) };
+};
+
+// Last month of the cycle period containing the given month
+export const closesInMonth = (cycle: BillingCycle, month: string) => billingPeriodFor(cycle, month).end.slice(0, 7) === month;
+
+// Part of the period inside the contract window (end date unset = open-ended), or null when the
+// contract is not in effect at all during the period
+export const contractCoverage = (agreement: CommunityAgreement, period: BillingPeriod): { start: string; end: string; days: number } | null => {
+    const start = agreement.startDate && agreement.startDate > period.start ? agreement.startDate : period.start;
+    const end = agreement.endDate && agreement.endDate < period.end ? agreement.endDate : period.end;
+    if (start > end) return null;
+    return { start, end, days: daysBetween(start, end) };
+};
@@ -0,0 +1,72 @@
+import { BillingRun, BillingRunEntry, CommunityAgreement, DeveloperRecord, FraudReview, Invoice, InvoiceStatus } from '../types';
+import { billingPeriodFor, closesInMonth } from './billingPeriod';
+import { generateInvoiceDraft } from './invoiceDraft';
+import { invoiceLabel } from './invoiceNumbering';
+import { documentTypeOf, startHistory } from './invoiceLifecycle';
+
+// Month-end billing: one draft per partner whose agreement cycle closes in the chosen month.
+// Partners already invoiced for the period are skipped, so a run can be repeated safely, and so are
+// per-certification partners without billable certifications (fixed fees are always drafted).
+// Every run is stored with its per-partner outcome as an audit record.
+
+export interface BillingRunInput {
+    month: string; // 'YYYY-MM'
+    agreements: CommunityAgreement[];
+    invoices: Invoice[];
+    records: DeveloperRecord[];
+    reviews: FraudReview[];
+    riskScoreThreshold: number;
+}
+
+export interface BillingRunPreviewRow {
+    entry: BillingRunEntry; // status 'Created' = a draft will be created
+    draft?: Invoice;
+}
+
+export const previewBillingRun = ({ month, agreements, invoices, records, reviews, riskScoreThreshold }: BillingRunInput): BillingRunPreviewRow[] => {
+    const due = agreements.filter(a => a.isActive && closesInMonth(a.billingCycle, month));
+    const partnerCodes = Array.from(new Set(due.map(a => a.partnerCode))).sort();
+
+    return partnerCodes.map((partnerCode): BillingRunPreviewRow => {
+        const agreement = due.find(a => a.partnerCode === partnerCode)!;
+        const base: BillingRunEntry = {
+            partnerCode, agreementId: agreement.id, billingPeriod: billingPeriodFor(agreement.billingCycle, month).key,
+            status: 'Skipped', reason: '', billable: 0, held: 0, excluded: 0, totalAmount: 0, currency: agreement.currency
+        };
+
+        const existing = invoices.find(i => i.partnerCode === partnerCode && i.billingPeriod === base.billingPeriod && i.status !== InvoiceStatus.VOID && documentTypeOf(i) !== 'Credit_Note');
+        if (existing) return { entry: { ...base, reason: `Already invoiced (${invoiceLabel(existing)})`, invoiceId: existing.id } };
+
+        let draft: Invoice;
+        try {
+            draft = generateInvoiceDraft({ partnerCode, month, agreements: due, records, reviews, riskScoreThreshold });
+        } catch (err: any) {
+            return { entry: { ...base, status: 'Failed', reason: err.message || 'Could not generate the draft.' } };
+        }
+        const count = (status: string) => (draft.certificationBreakdown || []).filter(l => l.status === status).length;
+        const counts = { billable: count('Billable'), held: count('Held'), excluded: count('Excluded') };
+        const drafted = { ...base, ...counts, agreementId: draft.agreementId || agreement.id, billingPeriod: draft.billingPeriod, currency: draft.currency };
+
+        // Held certifications are billed by a later run once their review is done
+        if (draft.certificationBreakdown && counts.billable === 0) {
+            const pending = [counts.held && `${counts.held} held`, counts.excluded && `${counts.excluded} excluded`].filter(Boolean).join(', ');
+            return { entry: { ...drafted, reason: `No billable certifications in ${draft.billingPeriod}${pending ? ` (${pending})` : ''}` } };
+        }
+        return {
+            entry: { ...drafted, status: 'Created', invoiceId: draft.id, totalAmount: draft.totalAmount },
+            draft
+        };
+    });
+};
+
+export const commitBillingRun = (month: string, rows: BillingRunPreviewRow[], createdBy: string): { run: BillingRun; invoices: Invoice[] } => {
+    const run: BillingRun = {
+        id: `run_${Date.now()}`,
+        month,
+        createdAt: new Date().toISOString(),
+        createdBy,
+        entries: rows.map(r => r.entry)
+    };
+    const invoices = rows.filter(r => r.draft).map(r => startHistory({ ...r.draft!, billingRunId: run.id }, createdBy, `Billing run ${month}`));
+    return { run, invoices };
+};
@@ -0,0 +1,106 @@
+import { DeveloperRecord, FraudRuleParams } from '../types';
+
+// Temporal burst detection. Bot farms register and pass in waves, so a sliding window runs over
+// the createdAt and completedAt timestamps, globally and per partnerCode. A window is a burst
+// when it holds at least minEvents and at least spikeFactor times the events expected from the
+// average rate of that scope; overlapping burst windows are merged.
+
+export const BURST_RULE_ID = 'burst-activity';
+
+export type BurstField = 'createdAt' | 'completedAt';
+
+export const BURST_FIELD_LABELS: Record<BurstField, string> = {
+    createdAt: 'Registrations',
+    completedAt: 'Completions'
+};
+
+export interface BurstSettings {
+    windowMinutes: number;
+    minEvents: number; // Program-wide
+    minPartnerEvents: number; // Within one partnerCode
+    spikeFactor: number; // Times the average rate
+}
+
+export interface Burst {
+    scope: string; // partnerCode, or GLOBAL_SCOPE
+    field: BurstField;
+    start: string; // ISO
+    end: string;
+    count: number;
+    expected: number; // Events an average window of the scope holds
+    recordIds: string[];
+}
+
+export const GLOBAL_SCOPE = 'All';
+
+export const burstSettings = (params: FraudRuleParams): BurstSettings => ({
+    windowMinutes: Number(params.windowMinutes) || 0,
+    minEvents: Number(params.minEvents) || 0,
+    minPartnerEvents: Number(params.minPartnerEvents) || 0,
+    spikeFactor: Number(params.spikeFactor) || 0
+});
+
+interface TimedEvent {
+    id: string;
+    time: number;
+}
+
+// Date-only exports ("2024-03-01") put a whole day on one timestamp: those fields are skipped
+const hasTimeOfDay = (value: string) => /\d{1,2}:\d{2}/.test(value);
+
+const eventsOf = (records: DeveloperRecord[], field: BurstField): TimedEvent[] => {
+    const values = records.map(r => ({ id: r.id, value: r[field] || '' })).filter(v => v.value);
+    if (values.filter(v => hasTimeOfDay(v.value)).length * 2 < values.length) return [];
+    return values
+        .map(v => ({ id: v.id, time: new Date(v.value).getTime() }))
+        .filter(e => !isNaN(e.time))
+        .sort((a, b) => a.time - b.time);
+};
+
+const scanWindow = (events: TimedEvent[], scope: string, field: BurstField, windowMs: number, minEvents: number, spikeFactor: number): Burst[] => {
+    if (windowMs <= 0 || events.length < Math.max(2, minEvents)) return [];
+    const span = Math.max(events[events.length - 1].time - events[0].time, windowMs);
+    const expected = (events.length * windowMs) / span;
+    const needed = Math.max(minEvents, spikeFactor * expected);
+
+    // Merged [from, to] index ranges of qualifying windows
+    const ranges: { from: number; to: number }[] = [];
+    let left = 0;
+    for (let right = 0; right < events.length; right++) {
+        while (events[right].time - events[left].time > windowMs) left++;
+        if (right - left + 1 < needed) continue;
+        const last = ranges[ranges.length - 1];
+        if (last && left <= last.to) last.to = right;
+        else ranges.push({ from: left, to: right });
+    }
+
+    return ranges.map(({ from, to }) => ({
+        scope,
+        field,
+        start: new Date(events[from].time).toISOString(),
+        end: new Date(events[to].time).toISOString(),
+        count: to - from + 1,
+        expected: Math.round(expected * 100) / 100,
+        recordIds: events.slice(from, to + 1).map(e => e.id)
+    }));
+};
+
+// Bursts in chronological order
+export const detectBursts = (records: DeveloperRecord[], settings: BurstSettings): Burst[] => {
+    const windowMs = settings.windowMinutes * 60 * 1000;
+    const byPartner = new Map<string, DeveloperRecord[]>();
+    records.forEach(r => {
+        if (!r.partnerCode || r.partnerCode === 'UNKNOWN') return;
+        if (!byPartner.has(r.partnerCode)) byPartner.set(r.partnerCode, []);
+        byPartner.get(r.partnerCode)!.push(r);
+    });
+
+    const bursts: Burst[] = [];
+    (Object.keys(BURST_FIELD_LABELS) as BurstField[]).forEach(field => {
+        bursts.push(...scanWindow(eventsOf(records, field), GLOBAL_SCOPE, field, windowMs, settings.minEvents, settings.spikeFactor));
+        byPartner.forEach((members, partnerCode) => {
+            bursts.push(...scanWindow(eventsOf(members, field), partnerCode, field, windowMs, settings.minPartnerEvents, settings.spikeFactor));
+        });
+    });
+    return bursts.sort((a, b) => a.start.localeCompare(b.start));
+};
@@ -0,0 +1,117 @@
+import { DeveloperRecord, WorkspaceSettings } from '../types';
+import { flagSourcesOf } from './fraudRules';
+import { isDateInRange } from './dataProcessing';
+
+// Fraud concentration per community. Per-certification billing makes fraud cluster in a few
+// partner codes, which the program-wide Potential Fake Accounts share hides. Each community's
+// flagged share is compared with the rest of the program (two-proportion z-test) and checked
+// against the alert limits of the workspace settings.
+
+const SPEED_RUN_RULE_ID = 'speed-run';
+
+export type CommunityAlertKind = 'flagged-share' | 'speed-run-share' | 'outlier';
+
+export interface CommunityAlert {
+    kind: CommunityAlertKind;
+    message: string;
+}
+
+export interface CommunityRiskRow {
+    partnerCode: string;
+    partnerName: string;
+    developers: number; // Registered in the period
+    flagged: number; // Of those, at or above the risk score threshold
+    flaggedPct: number;
+    certified: number; // Certified in the period
+    speedRuns: number; // Of those, with an active Speed Run flag
+    speedRunPct: number;
+    zScore: number | null; // Flagged share against the rest of the program; null when not computable
+    alerts: CommunityAlert[];
+}
+
+export interface CommunityRiskReport {
+    baseline: { developers: number; flagged: number; flaggedPct: number; certified: number; speedRuns: number; speedRunPct: number };
+    rows: CommunityRiskRow[]; // Alerted communities first, then by flagged share
+}
+
+const pct = (part: number, whole: number) => whole > 0 ? (part / whole) * 100 : 0;
+
+const hasSpeedRun = (r: DeveloperRecord) => {
+    const dismissed = r.computed_dismissedFlags || [];
+    return flagSourcesOf(r).some(s => s.ruleId === SPEED_RUN_RULE_ID && !dismissed.includes(s.flag));
+};
+
+// Pooled two-proportion z-score of x1/n1 against x2/n2
+const twoProportionZ = (x1: number, n1: number, x2: number, n2: number): number | null => {
+    if (n1 === 0 || n2 === 0) return null;
+    const pooled = (x1 + x2) / (n1 + n2);
+    const se = Math.sqrt(pooled * (1 - pooled) * (1 / n1 + 1 / n2));
+    return se > 0 ? (x1 / n1 - x2 / n2) / se : null;
+};
+
+export const calculateCommunityRisk = (data: DeveloperRecord[], startDate: Date | null, endDate: Date | null, settings: WorkspaceSettings): CommunityRiskReport => {
+    const groups = new Map<string, { name: string; developers: number; flagged: number; certified: number; speedRuns: number }>();
+    const groupOf = (r: DeveloperRecord) => {
+        let group = groups.get(r.partnerCode);
+        if (!group) {
+            group = { name: r.partnerCode, developers: 0, flagged: 0, certified: 0, speedRuns: 0 };
+            groups.set(r.partnerCode, group);
+        }
+        if (group.name === r.partnerCode && r.partnerName && r.partnerName !== 'UNKNOWN') group.name = r.partnerName;
+        return group;
+    };
+
+    data.forEach(r => {
+        if (!r.partnerCode || r.partnerCode === 'UNKNOWN') return;
+        const registered = isDateInRange(r.createdAt, startDate, endDate);
+        const certified = r.finalGrade === 'Pass' && isDateInRange(r.completedAt, startDate, endDate);
+        if (!registered && !certified) return;
+        const group = groupOf(r);
+        if (registered) {
+            group.developers++;
+            if ((r.computed_riskScore || 0) >= settings.riskScoreThreshold) group.flagged++;
+        }
+        if (certified) {
+            group.certified++;
+            if (hasSpeedRun(r)) group.speedRuns++;
+        }
+    });
+
+    const totals = { developers: 0, flagged: 0, certified: 0, speedRuns: 0 };
+    groups.forEach(g => {
+        totals.developers += g.developers;
+        totals.flagged += g.flagged;
+        totals.certified += g.certified;
+        totals.speedRuns += g.speedRuns;
+    });
+
+    const rows: CommunityRiskRow[] = Array.from(groups.entries()).map(([partnerCode, g]) => {
+        const flaggedPct = pct(g.flagged, g.developers);
+        const speedRunPct = pct(g.speedRuns, g.certified);
+        const restDevelopers = totals.developers - g.developers;
+        const restFlagged = totals.flagged - g.flagged;
+        const zScore = twoProportionZ(g.flagged, g.developers, restFlagged, restDevelopers);
+
+        const alerts: CommunityAlert[] = [];
+        if (g.developers >= settings.communityMinDevelopers) {
+            if (flaggedPct > settings.communityFlaggedShareLimit) {
+                alerts.push({ kind: 'flagged-share', message: `${flaggedPct.toFixed(1)}% of developers flagged (limit ${settings.communityFlaggedShareLimit}%)` });
+            }
+            if (zScore !== null && zScore >= settings.communityOutlierZScore) {
+                alerts.push({ kind: 'outlier', message: `Flagged share ${flaggedPct.toFixed(1)}% vs ${pct(restFlagged, restDevelopers).toFixed(1)}% in the rest of the program (z = ${zScore.toFixed(1)})` });
+            }
+        }
+        if (g.certified >= settings.communityMinDevelopers && speedRunPct > settings.communitySpeedRunShareLimit) {
+            alerts.push({ kind: 'speed-run-share', message: `${speedRunPct.toFixed(1)}% of certifications are speed runs (limit ${settings.communitySpeedRunShareLimit}%)` });
+        }
+
+        return { partnerCode, partnerName: g.name, developers: g.developers, flagged: g.flagged, flaggedPct, certified: g.certified, speedRuns: g.speedRuns, speedRunPct, zScore, alerts };
+    });
+
+    rows.sort((a, b) => b.alerts.length - a.alerts.length || b.flaggedPct - a.flaggedPct || b.developers - a.developers);
+
+    return {
+        baseline: { ...totals, flaggedPct: pct(totals.flagged, totals.developers), speedRunPct: pct(totals.speedRuns, totals.certified) },
+        rows
+    };
+};
@@ -0,0 +1,13 @@
+// Builds a quoted CSV and triggers a browser download.
+export const toCsv = (headers: string[], rows: (string | number | null | undefined)[][]): string => {
+    const escape = (cell: string | number | null | undefined) => `"${String(cell ?? '').replace(/"/g, '""')}"`;
+    return [headers.map(escape).join(','), ...rows.map(r => r.map(escape).join(','))].join('\n');
+};
+
+export const downloadCsv = (fileName: string, headers: string[], rows: (string | number | null | undefined)[][]) => {
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(new Blob([toCsv(headers, rows)], { type: 'text/csv;charset=utf-8;' }));
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(link.href);
+};
@@ -0,0 +1,108 @@
+import { DeveloperRecord, ImportFileFormat, IngestionReport } from '../types';
+import { ColumnMap } from './csvMapping';
+import type { CsvWorkerRequest, CsvWorkerResponse } from './csvParser.worker';
+
+export interface CsvParseProgress {
+    percentage: number; // 0-100, based on bytes read
+    rowCount: number;
+}
+
+export interface CsvPreview {
+    format: ImportFileFormat; // Detected from the extension and leading bytes
+    headers: string[]; // As written in the file (JSON: object keys)
+    sampleRows: string[][];
+    sheets?: string[]; // XLSX only: every worksheet, and the one previewed
+    sheet?: string;
+}
+
+interface CsvParseOptions {
+    mapping?: ColumnMap; // Confirmed in the mapping wizard; guessed from headers when omitted
+    sheet?: string; // XLSX worksheet, defaults to the first one
+    onProgress?: (progress: CsvParseProgress) => void;
+    signal?: AbortSignal; // Aborting terminates the worker and rejects with an AbortError
+}
+
+// Spins up a dedicated worker for one request and tears it down on completion, error or abort.
+const runWorker = <T,>(
+    request: CsvWorkerRequest,
+    onMessage: (msg: CsvWorkerResponse, resolve: (value: T) => void) => void,
+    signal?: AbortSignal
+): Promise<T> => {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new DOMException('Import cancelled.', 'AbortError'));
+            return;
+        }
+
+        const worker = new Worker(new URL('./csvParser.worker.ts', import.meta.url), { type: 'module' });
+
+        const cleanup = () => {
+            worker.terminate();
+            signal?.removeEventListener('abort', handleAbort);
+        };
+
+        const handleAbort = () => {
+            cleanup();
+            reject(new DOMException('Import cancelled.', 'AbortError'));
+        };
+        signal?.addEventListener('abort', handleAbort);
+
+        worker.onmessage = (event: MessageEvent<CsvWorkerResponse>) => {
+            const msg = event.data;
+            if (msg.type === 'error') {
+                cleanup();
+                reject(new Error(msg.message));
+                return;
+            }
+            onMessage(msg, (value) => {
+                cleanup();
+                resolve(value);
+            });
+        };
+
+        worker.onerror = (event) => {
+            cleanup();
+            reject(new Error(event.message || 'CSV worker crashed.'));
+        };
+
+        worker.postMessage(request);
+    });
+};
+
+// Reads only the header line and the first few rows, for the column-mapping wizard.
+export const previewCsvFile = (file: File, sampleSize = 5, signal?: AbortSignal, sheet?: string): Promise<CsvPreview> => {
+    return runWorker<CsvPreview>({ type: 'preview', file, sampleSize, sheet }, (msg, resolve) => {
+        if (msg.type === 'preview') resolve({ format: msg.format, headers: msg.headers, sampleRows: msg.sampleRows, sheets: msg.sheets, sheet: msg.sheet });
+    }, signal);
+};
+
+export interface CsvParseResult {
+    records: DeveloperRecord[];
+    blankFields: Record<string, (keyof DeveloperRecord)[]>; // Developer ID -> mapped fields left empty in the file
+    report: IngestionReport;
+}
+
+// Parses an uploaded file (CSV, XLSX, JSON or NDJSON) in a Web Worker. Records are streamed
+// back in batches and assembled here, ready to be handed to processIngestedData.
+export const parseCsvFile = (file: File, { mapping, sheet, onProgress, signal }: CsvParseOptions = {}): Promise<CsvParseResult> => {
+    const records: DeveloperRecord[] = [];
+    const blankFields: Record<string, (keyof DeveloperRecord)[]> = {};
+
+    return runWorker<CsvParseResult>({ type: 'parse', file, mapping, sheet }, (msg, resolve) => {
+        switch (msg.type) {
+            case 'progress':
+                onProgress?.({
+                    percentage: msg.totalBytes > 0 ? Math.round((msg.bytesRead / msg.totalBytes) * 100) : 100,
+                    rowCount: msg.rowCount
+                });
+                break;
+            case 'rows':
+                for (const r of msg.records) records.push(r);
+                Object.assign(blankFields, msg.blankFields);
+                break;
+            case 'done':
+                resolve({ records, blankFields, report: msg.report });
+                break;
+        }
+    }, signal);
+};
@@ -0,0 +1,298 @@
+import { DeveloperRecord, IngestionIssue } from '../types';
+
+// Shared between the ingestion worker and the UI: header matching & value coercion.
+
+export type ColumnMap = {
+    email: number;
+    firstName: number;
+    lastName: number;
+    phone: number;
+    country: number;
+    membership: number;
+    marketing: number;
+    wallet: number;
+    partnerCode: number;
+    partnerName: number;
+    percentage: number;
+    createdAt: number;
+    completedAt: number;
+    finalScore: number;
+    finalGrade: number;
+    caStatus: number;
+};
+
+// Map Columns per PRD Section 3.1
+export const COLUMN_CANDIDATES: Record<keyof ColumnMap, string[]> = {
+    email: ['email'],
+    firstName: ['first name', 'firstname'],
+    lastName: ['last name', 'lastname'],
+    phone: ['phone number', 'phone'],
+    country: ['country'],
+    // Expanded keywords for membership
+    membership: ['accepted membership', 'membership', 'is member', 'member status', 'membership status'],
+    marketing: ['accepted marketing', 'marketing'],
+    wallet: ['wallet address', 'wallet'],
+    // Explicit mapping: Code -> partnerCode, Partner -> partnerName
+    partnerCode: ['code', 'partner code'],
+    partnerName: ['partner', 'community', 'partner name'],
+    percentage: ['percentage completed', 'percentage'],
+    createdAt: ['created at', 'start date'],
+    completedAt: ['completed at', 'completion date'],
+    finalScore: ['final score'],
+    finalGrade: ['final grade', 'grade'],
+    caStatus: ['ca status']
+};
+
+// Human readable labels for the mapping wizard, in DeveloperRecord order
+export const COLUMN_LABELS: Record<keyof ColumnMap, string> = {
+    email: 'Email',
+    firstName: 'First Name',
+    lastName: 'Last Name',
+    phone: 'Phone',
+    country: 'Country',
+    membership: 'Accepted Membership',
+    marketing: 'Accepted Marketing',
+    wallet: 'Wallet Address',
+    partnerCode: 'Partner Code',
+    partnerName: 'Partner Name',
+    percentage: 'Percentage Completed',
+    createdAt: 'Created At',
+    completedAt: 'Completed At',
+    finalScore: 'Final Score',
+    finalGrade: 'Final Grade',
+    caStatus: 'CA Status'
+};
+
+export const MAPPABLE_FIELDS = Object.keys(COLUMN_LABELS) as (keyof ColumnMap)[];
+
+// DeveloperRecord field written by each mapped column
+export const COLUMN_FIELDS: Record<keyof ColumnMap, keyof DeveloperRecord> = {
+    email: 'email',
+    firstName: 'firstName',
+    lastName: 'lastName',
+    phone: 'phone',
+    country: 'country',
+    membership: 'acceptedMembership',
+    marketing: 'acceptedMarketing',
+    wallet: 'walletAddress',
+    partnerCode: 'partnerCode',
+    partnerName: 'partnerName',
+    percentage: 'percentageCompleted',
+    createdAt: 'createdAt',
+    completedAt: 'completedAt',
+    finalScore: 'finalScore',
+    finalGrade: 'finalGrade',
+    caStatus: 'caStatus'
+};
+
+// Fields a file actually provides; a merge import leaves every other field untouched
+export const mappedRecordFields = (map: ColumnMap): (keyof DeveloperRecord)[] =>
+    MAPPABLE_FIELDS.filter(f => map[f] !== -1).map(f => COLUMN_FIELDS[f]);
+
+// Mapped fields whose cell is empty in this row. Read from the raw cells, since mapRowToRecord
+// fills empty cells with defaults ('Pending', 0, false, 'Unknown') that look like real values.
+export const blankRecordFields = (cols: string[], map: ColumnMap): (keyof DeveloperRecord)[] =>
+    MAPPABLE_FIELDS.filter(f => map[f] !== -1 && !(cols[map[f]] ?? '').trim()).map(f => COLUMN_FIELDS[f]);
+
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+// Stable developer ID derived from the normalized email (53-bit cyrb53 hash), so the same
+// developer keeps the same ID across uploads and merges.
+export const developerIdFromEmail = (email: string): string => {
+    const key = normalizeEmail(email);
+    let h1 = 0xdeadbeef;
+    let h2 = 0x41c6ce57;
+    for (let i = 0; i < key.length; i++) {
+        const ch = key.charCodeAt(i);
+        h1 = Math.imul(h1 ^ ch, 2654435761);
+        h2 = Math.imul(h2 ^ ch, 1597334677);
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+    const hash = 4294967296 * (2097151 & h2) + (h1 >>> 0);
+    return `dev_${hash.toString(16).padStart(14, '0')}`;
+};
+
+export const normalizeHeader = (h: string) => h.toLowerCase().replace(/\s+/g, ' ').trim();
+
+// `excluded` holds columns already claimed by another field, so "partner" can't grab "partner code"
+export const findIndex = (headers: string[], candidates: string[], excluded: Set<number> = new Set()) => {
+    const normalizedCandidates = candidates.map(c => c.toLowerCase());
+    const isFree = (i: number) => !excluded.has(i);
+    let idx = headers.findIndex((h, i) => isFree(i) && normalizedCandidates.includes(h));
+    if (idx === -1) {
+        idx = headers.findIndex((h, i) => isFree(i) && h !== '' && normalizedCandidates.some(c => h.includes(c) || c.includes(h)));
+    }
+    return idx;
+};
+
+// Expects normalized headers. Exact matches are resolved for every field before any fuzzy
+// match, and each column is claimed by at most one field.
+export const guessColumnMap = (headers: string[]): ColumnMap => {
+    const map = Object.fromEntries(MAPPABLE_FIELDS.map(f => [f, -1])) as ColumnMap;
+    const claimed = new Set<number>();
+
+    MAPPABLE_FIELDS.forEach(field => {
+        for (const candidate of COLUMN_CANDIDATES[field]) {
+            const idx = headers.findIndex((h, i) => !claimed.has(i) && h === candidate.toLowerCase());
+            if (idx !== -1) {
+                map[field] = idx;
+                claimed.add(idx);
+                break;
+            }
+        }
+    });
+
+    MAPPABLE_FIELDS.forEach(field => {
+        if (map[field] !== -1) return;
+        const idx = findIndex(headers, COLUMN_CANDIDATES[field], claimed);
+        if (idx !== -1) {
+            map[field] = idx;
+            claimed.add(idx);
+        }
+    });
+
+    // Fallback Logic: If Code is missing but Partner Name exists, use Name as Code (and vice versa)
+    if (map.partnerCode === -1 && map.partnerName !== -1) {
+        map.partnerCode = map.partnerName;
+    }
+    if (map.partnerName === -1 && map.partnerCode !== -1) {
+        map.partnerName = map.partnerCode;
+    }
+
+    return map;
+};
+
+// Throws when the mapping cannot be ingested as developer data.
+export const validateColumnMap = (map: ColumnMap, headers: string[]) => {
+    if (map.email === -1) {
+        if (map.partnerCode !== -1 && headers.length < 5) {
+            throw new Error("It looks like you uploaded a Community Registry file. Use Admin Settings > Registry.");
+        }
+        throw new Error(`Column 'Email' not found. Found: ${headers.join(', ')}`);
+    }
+};
+
+export const buildColumnMap = (headers: string[]): ColumnMap => {
+    const map = guessColumnMap(headers);
+    validateColumnMap(map, headers);
+    return map;
+};
+
+// ROBUST BOOLEAN PARSING (Supports French: Vrai/Oui)
+export const parseBool = (str: string) => {
+    if (!str) return false;
+    const s = str.trim().toLowerCase();
+    // Capture variants: "vrai", "oui", "active", "member", "checked", "joined", "1", "true", "yes"
+    return ['true', 'yes', '1', 'y', 'on', 'active', 'member', 'checked', 'joined', 'vrai', 'oui'].includes(s);
+};
+
+// Returns '' for an empty cell and null when the value cannot be read as a date.
+export const parseDate = (str: string): string | null => {
+    if (!str) return '';
+    let d = new Date(str);
+    if (str.includes('/')) {
+        const parts = str.split(/[\/\s]/);
+        const p0 = parseInt(parts[0]);
+        if (!isNaN(p0) && p0 > 12) {
+            // DD/MM/YYYY
+            d = new Date(`${parts[2]}-${parts[1]}-${parts[0]}`);
+        }
+    }
+    return isNaN(d.getTime()) ? null : d.toISOString();
+};
+
+// Returns null when the cell has content that is not a number.
+export const parseIntSafe = (str: string): number | null => {
+    if (!str) return 0;
+    const clean = str.replace(/[^0-9.-]/g, '');
+    const v = parseFloat(clean);
+    return isNaN(v) ? null : Math.round(v);
+};
+
+// Returns null for a non-empty grade that is not recognized.
+export const parseGrade = (str: string): 'Pass' | 'Fail' | 'Pending' | null => {
+    if (!str) return 'Pending';
+    const s = str.trim().toLowerCase();
+    if (s === 'pass' || s === 'passed' || s.includes('pass') || s === 'réussi' || s === 'reussi' || s === 'succès') return 'Pass';
+    if (s === 'fail' || s === 'failed' || s === 'échoué' || s === 'echoue') return 'Fail';
+    if (s === 'pending' || s === 'in progress' || s === 'en cours' || s === 'n/a' || s === '-') return 'Pending';
+    return null;
+};
+
+type IssueReporter = (issue: Omit<IngestionIssue, 'row' | 'column'> & { column: number }) => void;
+
+// Coerces one data row. Problems are reported instead of being replaced by silent defaults;
+// returns null when the row cannot become a DeveloperRecord at all.
+export const mapRowToRecord = (cols: string[], map: ColumnMap, batchId: string, report: IssueReporter): DeveloperRecord | null => {
+    const getVal = (idx: number) => (idx !== -1 && cols[idx] !== undefined ? cols[idx] : '');
+
+    const email = getVal(map.email);
+    if (!email) {
+        report({ column: map.email, field: 'email', code: 'MISSING_EMAIL', severity: 'error', value: '', message: 'Email is empty; row skipped.' });
+        return null;
+    }
+
+    const readDate = (field: 'createdAt' | 'completedAt') => {
+        const raw = getVal(map[field]);
+        const parsed = parseDate(raw);
+        if (parsed === null) {
+            report({ column: map[field], field, code: 'INVALID_DATE', severity: 'error', value: raw, message: `Unreadable date; ${field} left empty.` });
+            return '';
+        }
+        return parsed;
+    };
+
+    const readNumber = (key: 'percentage' | 'finalScore', field: string) => {
+        const raw = getVal(map[key]);
+        const parsed = parseIntSafe(raw);
+        if (parsed === null) {
+            report({ column: map[key], field, code: 'INVALID_NUMBER', severity: 'error', value: raw, message: 'Not a number; recorded as 0.' });
+            return 0;
+        }
+        return parsed;
+    };
+
+    let percentageCompleted = readNumber('percentage', 'percentageCompleted');
+    if (percentageCompleted < 0 || percentageCompleted > 100) {
+        report({ column: map.percentage, field: 'percentageCompleted', code: 'PERCENTAGE_OUT_OF_RANGE', severity: 'error', value: getVal(map.percentage), message: 'Percentage outside 0-100; clamped.' });
+        percentageCompleted = Math.min(100, Math.max(0, percentageCompleted));
+    }
+
+    let finalGrade = parseGrade(getVal(map.finalGrade));
+    if (finalGrade === null) {
+        report({ column: map.finalGrade, field: 'finalGrade', code: 'UNKNOWN_GRADE', severity: 'warning', value: getVal(map.finalGrade), message: 'Unrecognized grade; treated as Pending.' });
+        finalGrade = 'Pending';
+    }
+
+    let pCode = getVal(map.partnerCode);
+    // Clean up if code looks like "HEDERA-FR - Paris"
+    if (pCode && pCode.includes(' - ')) pCode = pCode.split(' - ')[0];
+
+    let pName = getVal(map.partnerName);
+    // If Name is empty but Code exists, fallback
+    if (!pName && pCode) pName = pCode;
+
+    return {
+        id: developerIdFromEmail(email),
+        email,
+        firstName: getVal(map.firstName),
+        lastName: getVal(map.lastName),
+        phone: getVal(map.phone),
+        country: getVal(map.country) || 'Unknown',
+        acceptedMembership: parseBool(getVal(map.membership)),
+        acceptedMarketing: parseBool(getVal(map.marketing)),
+        walletAddress: getVal(map.wallet),
+        partnerCode: pCode || 'UNKNOWN',
+        partnerName: pName || 'UNKNOWN',
+        percentageCompleted,
+        createdAt: readDate('createdAt'),
+        completedAt: getVal(map.completedAt) ? readDate('completedAt') || null : null,
+        finalScore: readNumber('finalScore', 'finalScore'),
+        finalGrade,
+        caStatus: getVal(map.caStatus),
+        computed_riskFlags: [], // Populated in dataProcessing
+        ingestionBatchId: batchId,
+        amPmPending: true
+    };
+};
@@ -0,0 +1,369 @@
+import { DeveloperRecord, ImportFileFormat, IngestionIssue, IngestionReport } from '../types';
+import { ColumnMap, blankRecordFields, buildColumnMap, mapRowToRecord, normalizeEmail, normalizeHeader, validateColumnMap } from './csvMapping';
+import { openXlsx } from './xlsxReader';
+import { createRowCollector, extractJsonRecords, parseNdjsonLine } from './jsonRows';
+
+// Streaming ingestion. Runs off the main thread and reads the File incrementally,
+// so large LMS exports never need to be held in memory as a single string.
+// CSV and NDJSON are streamed; XLSX and JSON arrays are read whole, then emitted row by row.
+
+export type CsvWorkerRequest =
+    | { type: 'preview'; file: File; sampleSize: number; sheet?: string }
+    | { type: 'parse'; file: File; mapping?: ColumnMap; sheet?: string }; // Without a mapping, columns are guessed
+
+export type CsvWorkerResponse =
+    | { type: 'preview'; format: ImportFileFormat; headers: string[]; sampleRows: string[][]; sheets?: string[]; sheet?: string }
+    | { type: 'progress'; bytesRead: number; totalBytes: number; rowCount: number }
+    | { type: 'rows'; records: DeveloperRecord[]; blankFields: Record<string, (keyof DeveloperRecord)[]> } // Keyed by developer ID
+    | { type: 'done'; report: IngestionReport }
+    | { type: 'error'; message: string };
+
+const BATCH_SIZE = 5000;
+const MAX_REPORTED_ISSUES = 5000; // Counts stay exact beyond this, only the detail list is capped
+
+// Detect Delimiter (Comma, Semicolon, Tab) from the header line
+const detectDelimiter = (firstLine: string): string => {
+    const commaCount = (firstLine.match(/,/g) || []).length;
+    const semiCount = (firstLine.match(/;/g) || []).length;
+    const tabCount = (firstLine.match(/\t/g) || []).length;
+
+    let delimiter = ',';
+    if (semiCount > commaCount && semiCount > tabCount) delimiter = ';';
+    if (tabCount > commaCount && tabCount > semiCount) delimiter = '\t';
+    return delimiter;
+};
+
+// Stateful tokenizer: chunks can end anywhere (mid-field, mid-quote, between \r and \n).
+// Quoted fields may contain delimiters, escaped quotes ("") and newlines.
+const createTokenizer = (delimiter: string, onRow: (cols: string[]) => void) => {
+    let field = '';
+    let row: string[] = [];
+    let inQuotes = false;
+    let quotePending = false; // Saw a quote inside a quoted field: either "" or the closing quote
+    let skipLineFeed = false;
+
+    const endField = () => {
+        row.push(field.trim());
+        field = '';
+    };
+
+    const endRow = () => {
+        endField();
+        // Skip blank lines
+        if (row.length > 1 || row[0] !== '') onRow(row);
+        row = [];
+    };
+
+    const push = (chunk: string) => {
+        for (let i = 0; i < chunk.length; i++) {
+            const char = chunk[i];
+
+            if (skipLineFeed) {
+                skipLineFeed = false;
+                if (char === '\n') continue;
+            }
+
+            if (inQuotes) {
+                if (char === '"') {
+                    if (quotePending) {
+                        field += '"';
+                        quotePending = false;
+                    } else {
+                        quotePending = true;
+                    }
+                    continue;
+                }
+                if (!quotePending) {
+                    field += char;
+                    continue;
+                }
+                // Previous quote closed the field, handle this char as unquoted
+                inQuotes = false;
+                quotePending = false;
+            }
+
+            if (char === '"') {
+                if (field.trim() === '') {
+                    field = '';
+                    inQuotes = true;
+                } else {
+                    field += char;
+                }
+            } else if (char === delimiter) {
+                endField();
+            } else if (char === '\n' || char === '\r') {
+                skipLineFeed = char === '\r';
+                endRow();
+            } else {
+                field += char;
+            }
+        }
+    };
+
+    const flush = () => {
+        if (field !== '' || row.length > 0) endRow();
+    };
+
+    return { push, flush };
+};
+
+const post = (message: CsvWorkerResponse) => self.postMessage(message);
+
+// Returning false from a RowSink stops reading early. The first row is the header.
+type RowSink = (cols: string[]) => boolean | void;
+type ProgressSink = (bytesRead: number) => void;
+
+// Rows with no value at all (trailing separators, empty spreadsheet rows). Rows with a single
+// field, such as a JSON object with only an email, are data.
+const isEmptyRow = (cols: string[]) => cols.every(c => !c || !c.trim());
+
+// Extension first, then the leading bytes (zip signature, JSON brackets)
+const detectFormat = async (file: File): Promise<ImportFileFormat> => {
+    const ext = file.name.split('.').pop()?.toLowerCase();
+    if (ext === 'xls') throw new Error("Legacy .xls workbooks are not supported. Save the sheet as .xlsx or CSV.");
+    if (ext === 'xlsx') return 'xlsx';
+    if (ext === 'ndjson' || ext === 'jsonl') return 'ndjson';
+    if (ext === 'json') return 'json';
+
+    const head = new Uint8Array(await file.slice(0, 65536).arrayBuffer());
+    if (head[0] === 0x50 && head[1] === 0x4b) return 'xlsx'; // "PK" zip header
+    const text = new TextDecoder('utf-8').decode(head).replace(/^\uFEFF/, '').trimStart();
+    if (text.startsWith('[')) return 'json';
+    if (text.startsWith('{')) {
+        // A complete object on the first line means NDJSON; otherwise a pretty-printed document
+        try {
+            JSON.parse(text.split(/\r?\n/)[0]);
+            return 'ndjson';
+        } catch {
+            return 'json';
+        }
+    }
+    return 'csv';
+};
+
+// Decodes the file chunk by chunk (BOM stripped). Returning false from onText stops reading.
+const readTextChunks = async (file: File, onText: (text: string, isLast: boolean) => boolean | void, onProgress?: ProgressSink) => {
+    const reader = file.stream().getReader();
+    const decoder = new TextDecoder('utf-8');
+
+    let bytesRead = 0;
+    let isFirstChunk = true;
+
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        bytesRead += value.byteLength;
+        let text = decoder.decode(value, { stream: true });
+        // Handle BOM
+        if (isFirstChunk) {
+            if (text.charCodeAt(0) === 0xFEFF) text = text.slice(1);
+            isFirstChunk = false;
+        }
+        if (onText(text, false) === false) {
+            await reader.cancel();
+            return;
+        }
+        onProgress?.(bytesRead);
+    }
+    onText(decoder.decode(), true);
+};
+
+// Streams the file through the tokenizer.
+const streamCsvRows = async (file: File, onRow: RowSink, onProgress?: ProgressSink) => {
+    let head = ''; // Buffered text until the header line is complete
+    let stopped = false;
+    let tokenizer: ReturnType<typeof createTokenizer> | null = null;
+
+    const handleRow = (cols: string[]) => {
+        if (stopped) return;
+        if (onRow(cols) === false) stopped = true;
+    };
+
+    await readTextChunks(file, (text, isLast) => {
+        if (!tokenizer) {
+            head += text;
+            if (!/[\r\n]/.test(head) && !isLast) return;
+            const firstLine = head.split(/\r\n|\n|\r/)[0];
+            tokenizer = createTokenizer(detectDelimiter(firstLine), handleRow);
+            text = head;
+            head = '';
+        }
+        tokenizer.push(text);
+        if (isLast) tokenizer.flush();
+        return !stopped;
+    }, onProgress);
+};
+
+// One JSON object per line. The header row is the key list, which grows as new keys appear.
+const streamNdjsonRows = async (file: File, onRow: RowSink, onProgress?: ProgressSink) => {
+    const collector = createRowCollector();
+    let buffer = '';
+    let lineNumber = 0;
+    let headerSent = false;
+    let stopped = false;
+
+    const handleLine = (line: string) => {
+        lineNumber++;
+        const obj = parseNdjsonLine(line, lineNumber);
+        if (!obj || stopped) return;
+        const row = collector.toRow(obj);
+        if (!headerSent) {
+            headerSent = true;
+            if (onRow(collector.headers) === false) { stopped = true; return; }
+        }
+        if (onRow(row) === false) stopped = true;
+    };
+
+    await readTextChunks(file, (text, isLast) => {
+        buffer += text;
+        const lines = buffer.split('\n');
+        buffer = isLast ? '' : lines.pop()!;
+        for (const line of lines) {
+            handleLine(line);
+            if (stopped) return false;
+        }
+    }, onProgress);
+};
+
+const emitCollected = (objects: Record<string, unknown>[], onRow: RowSink) => {
+    const collector = createRowCollector();
+    const rows = objects.map(collector.toRow);
+    if (rows.length === 0 || onRow(collector.headers) === false) return;
+    for (const row of rows) {
+        if (onRow(row) === false) return;
+    }
+};
+
+const streamJsonRows = async (file: File, onRow: RowSink, onProgress?: ProgressSink) => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse((await file.text()).replace(/^\uFEFF/, ''));
+    } catch {
+        throw new Error("File is not valid JSON. For one object per line, use the .ndjson extension.");
+    }
+    onProgress?.(file.size);
+    emitCollected(extractJsonRecords(parsed), onRow);
+};
+
+const streamXlsxRows = async (file: File, sheet: string | undefined, onRow: RowSink, onProgress?: ProgressSink) => {
+    const workbook = await openXlsx(file);
+    const sheetName = sheet || workbook.sheets[0];
+    const rows = await workbook.readSheet(sheetName);
+    onProgress?.(file.size);
+    for (const row of rows) {
+        if (onRow(row) === false) break;
+    }
+    return { sheets: workbook.sheets, sheet: sheetName };
+};
+
+const streamRows = async (file: File, sheet: string | undefined, onRow: RowSink, onProgress?: ProgressSink) => {
+    const format = await detectFormat(file);
+    switch (format) {
+        case 'xlsx': return { format, ...(await streamXlsxRows(file, sheet, onRow, onProgress)) };
+        case 'json': await streamJsonRows(file, onRow, onProgress); return { format };
+        case 'ndjson': await streamNdjsonRows(file, onRow, onProgress); return { format };
+        default: await streamCsvRows(file, onRow, onProgress); return { format };
+    }
+};
+
+const previewFile = async (file: File, sampleSize: number, sheet?: string) => {
+    let headers: string[] | null = null;
+    const sampleRows: string[][] = [];
+
+    const source = await streamRows(file, sheet, (cols) => {
+        if (!headers) {
+            headers = cols;
+            return sampleSize > 0;
+        }
+        if (isEmptyRow(cols)) return;
+        sampleRows.push(cols);
+        return sampleRows.length < sampleSize;
+    });
+
+    if (!headers) throw new Error("File is empty or missing data rows.");
+    post({ type: 'preview', headers: [...headers], sampleRows, ...source });
+};
+
+const parseFile = async (file: File, mapping?: ColumnMap, sheet?: string) => {
+    const batchId = `batch_${Date.now()}`;
+    let rowCount = 0;
+    let headers: string[] = [];
+    let map: ColumnMap | null = null;
+    let batch: DeveloperRecord[] = [];
+    let batchBlankFields: Record<string, (keyof DeveloperRecord)[]> = {};
+
+    const report: IngestionReport = {
+        totalRows: 0, importedRows: 0, skippedRows: 0, errorRows: 0, warningRows: 0,
+        issueCounts: {}, issues: [], truncated: false
+    };
+    const seenEmails = new Set<string>();
+
+    await streamRows(file, sheet, (cols) => {
+        if (!map) {
+            headers = cols;
+            const normalized = cols.map(normalizeHeader);
+            map = mapping || buildColumnMap(normalized);
+            validateColumnMap(map, normalized);
+            return;
+        }
+        if (isEmptyRow(cols)) return;
+
+        rowCount++;
+        const row = rowCount + 1; // Header is row 1
+        let hasError = false;
+        let hasWarning = false;
+
+        const addIssue = (issue: Omit<IngestionIssue, 'row' | 'column'> & { column: number }) => {
+            if (issue.severity === 'error') hasError = true;
+            else hasWarning = true;
+            report.issueCounts[issue.code] = (report.issueCounts[issue.code] || 0) + 1;
+            if (report.issues.length < MAX_REPORTED_ISSUES) {
+                report.issues.push({ ...issue, row, column: headers[issue.column] ?? '' });
+            } else {
+                report.truncated = true;
+            }
+        };
+
+        const record = mapRowToRecord(cols, map, batchId, addIssue);
+        // Developer IDs derive from the email, so only the first row per email is kept
+        const emailKey = record ? normalizeEmail(record.email) : '';
+        if (record && seenEmails.has(emailKey)) {
+            addIssue({ column: map.email, field: 'email', code: 'DUPLICATE_EMAIL', severity: 'error', value: record.email, message: 'Email already appears in an earlier row; row skipped.' });
+            report.skippedRows++;
+        } else if (record) {
+            seenEmails.add(emailKey);
+            batch.push(record);
+            const blank = blankRecordFields(cols, map);
+            if (blank.length > 0) batchBlankFields[record.id] = blank;
+            report.importedRows++;
+        } else {
+            report.skippedRows++;
+        }
+        if (hasError) report.errorRows++;
+        else if (hasWarning) report.warningRows++;
+
+        if (batch.length >= BATCH_SIZE) {
+            post({ type: 'rows', records: batch, blankFields: batchBlankFields });
+            batch = [];
+            batchBlankFields = {};
+        }
+    }, (bytesRead) => post({ type: 'progress', bytesRead, totalBytes: file.size, rowCount }));
+
+    if (rowCount === 0) throw new Error("File is empty or missing data rows.");
+    report.totalRows = rowCount;
+
+    if (batch.length > 0) post({ type: 'rows', records: batch, blankFields: batchBlankFields });
+    post({ type: 'done', report });
+};
+
+self.onmessage = (event: MessageEvent<CsvWorkerRequest>) => {
+    const request = event.data;
+    const task = request.type === 'preview'
+        ? previewFile(request.file, request.sampleSize, request.sheet)
+        : parseFile(request.file, request.mapping, request.sheet);
+
+    task.catch((err: unknown) => {
+        post({ type: 'error', message: (err instanceof Error && err.message) || "Unknown parsing error" });
+    });
+};
@@ -0,0 +1,95 @@
+import { AdminUser, BillingRun, BlocklistEntry, CommunityAgreement, CommunityEvent, CommunityMasterRecord, DatasetVersion, FraudReview, FraudRule, Invoice, InvoiceSequence, OutreachCampaign, WorkspaceCollection, WorkspaceData, WorkspaceSettings } from '../types';
+import { MOCK_ADMIN_TEAM } from '../constants';
+import { db } from '../firebaseConfig';
+import { Repositories, Repository, createMemoryRepositories, createMemoryRepository } from './repository';
+import { createFirestoreRepositories } from './firestoreRepository';
+import { reportWriteError } from './repositoryContext';
+import { WorkspaceChanges, emptyWorkspace, loadWorkspace, saveCollections } from './workspaceStore';
+
+export type DataBackendKind = 'memory' | 'firestore';
+
+// Chosen at build time with DATA_BACKEND in .env.local. The default keeps everything in the
+// browser (in-memory repositories persisted to IndexedDB).
+export const DATA_BACKEND: DataBackendKind = process.env.DATA_BACKEND === 'firestore' ? 'firestore' : 'memory';
+
+type WorkspaceRepositories = { [K in WorkspaceCollection]: Repository<WorkspaceData[K][number]> };
+
+// Workspace collection (IndexedDB store / backup key) -> repository
+const workspaceRepositories = (repositories: Repositories): WorkspaceRepositories => ({
+    versions: repositories.batches,
+    invoices: repositories.invoices,
+    agreements: repositories.agreements,
+    events: repositories.events,
+    campaigns: repositories.campaigns,
+    masterRegistry: repositories.registry,
+    admins: repositories.admins,
+    fraudRules: repositories.fraudRules,
+    settings: repositories.settings,
+    fraudReviews: repositories.fraudReviews,
+    fraudBlocklist: repositories.fraudBlocklist,
+    billingRuns: repositories.billingRuns,
+    invoiceSequences: repositories.invoiceSequences
+});
+
+export const WORKSPACE_COLLECTIONS = Object.keys(emptyWorkspace()).filter(k => k !== 'activeVersionId') as WorkspaceCollection[];
+
+export const workspaceRepository = <K extends WorkspaceCollection>(repositories: Repositories, name: K): WorkspaceRepositories[K] =>
+    workspaceRepositories(repositories)[name];
+
+const createLocalRepositories = async (): Promise<Repositories> => {
+    let stored = emptyWorkspace();
+    try {
+        stored = await loadWorkspace();
+    } catch (err) {
+        console.error('Could not restore the local workspace', err);
+    }
+
+    const repositories = createMemoryRepositories({
+        batches: createMemoryRepository<DatasetVersion>(v => v.id, stored.versions),
+        invoices: createMemoryRepository<Invoice>(i => i.id, stored.invoices),
+        agreements: createMemoryRepository<CommunityAgreement>(a => a.id, stored.agreements),
+        events: createMemoryRepository<CommunityEvent>(e => e.id, stored.events),
+        campaigns: createMemoryRepository<OutreachCampaign>(c => c.id, stored.campaigns),
+        registry: createMemoryRepository<CommunityMasterRecord>(r => r.code, stored.masterRegistry),
+        fraudRules: createMemoryRepository<FraudRule>(r => r.id, stored.fraudRules),
+        settings: createMemoryRepository<WorkspaceSettings>(s => s.id, stored.settings),
+        fraudReviews: createMemoryRepository<FraudReview>(r => r.id, stored.fraudReviews),
+        fraudBlocklist: createMemoryRepository<BlocklistEntry>(e => e.id, stored.fraudBlocklist),
+        billingRuns: createMemoryRepository<BillingRun>(r => r.id, stored.billingRuns),
+        invoiceSequences: createMemoryRepository<InvoiceSequence>(s => s.id, stored.invoiceSequences),
+        // First run keeps the seeded team
+        admins: createMemoryRepository<AdminUser>(a => a.id, stored.admins.length > 0 ? stored.admins : MOCK_ADMIN_TEAM)
+    });
+
+    // Write-through: every change is saved back to IndexedDB. Changes made in the same tick (an
+    // invoice and the counter that numbered it) go into one transaction.
+    let pending: WorkspaceChanges | null = null;
+    const flush = () => {
+        const changes = pending!;
+        pending = null;
+        saveCollections(changes).catch(reportWriteError);
+    };
+    const persist = <K extends WorkspaceCollection>(name: K) => {
+        workspaceRepository(repositories, name).subscribe(items => {
+            if (!pending) {
+                pending = {};
+                setTimeout(flush, 0);
+            }
+            (pending as Record<WorkspaceCollection, unknown[]>)[name] = items;
+        });
+    };
+    WORKSPACE_COLLECTIONS.forEach(persist);
+
+    return repositories;
+};
+
+const createRemoteRepositories = async (): Promise<Repositories> => {
+    const repositories = createFirestoreRepositories(db);
+    // First run keeps the seeded team, as in the local workspace
+    if ((await repositories.admins.list()).length === 0) await repositories.admins.saveMany(MOCK_ADMIN_TEAM);
+    return repositories;
+};
+
+// Rejects when the backend cannot be reached; index.tsx shows a startup error instead of the app
+export const createRepositories = async (): Promise<Repositories> =>
+    DATA_BACKEND === 'firestore' ? createRemoteRepositories() : createLocalRepositories();
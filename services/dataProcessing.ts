@@ -1,8 +1,12 @@
 
-import { DeveloperRecord, ChartDataPoint, MembershipMetrics, MembershipChartPoint } from '../types';
+import { DeveloperRecord, ChartDataPoint, MembershipMetrics, MembershipChartPoint, FraudRule } from '../types';
+import { DEFAULT_FRAUD_RULES, FraudRuleContext, evaluateFraudRules, scoreRiskFlags } from './fraudRules';
+import { DEFAULT_RISK_SCORE_THRESHOLD } from './workspaceSettings';
+import { assignClusters } from './accountClusters';
+import { classifyWallet } from './hederaWallet';
 
 // Helper to check if a date falls within a specific date range
-const isDateInRange = (dateStr: string | null, startDate: Date | null, endDate: Date | null): boolean => {
+export const isDateInRange = (dateStr: string | null, startDate: Date | null, endDate: Date | null): boolean => {
     if (!dateStr) return false;
     const date = new Date(dateStr);
     if (isNaN(date.getTime())) return false;
@@ -30,7 +34,7 @@ export const getPreviousPeriod = (start: Date, end: Date): { start: Date, end: D
 };
 
 // 2.2 / 3.1 AM/PM Fix Logic
-const applyAmPmFix = (createdAt: string, completedAt: string | null): string | null => {
+export const applyAmPmFix = (createdAt: string, completedAt: string | null): string | null => {
   if (!completedAt || !createdAt) return completedAt;
 
   const created = new Date(createdAt);
@@ -39,6 +43,7 @@ const applyAmPmFix = (createdAt: string, completedAt: string | null): string | n
   if (isNaN(created.getTime()) || isNaN(completed.getTime())) return completedAt;
 
   // PRD Logic: If Completed < Created, add 12 hours
+  // Not idempotent: a record still ending before it starts moves again, so it only runs on amPmPending rows
   if (completed.getTime() < created.getTime()) {
     completed = new Date(completed.getTime() + 12 * 60 * 60 * 1000);
   }
@@ -46,71 +51,13 @@ const applyAmPmFix = (createdAt: string, completedAt: string | null): string | n
   return completed.toISOString();
 };
 
-// --- ADVANCED FRAUD: BATCH PATTERN DETECTION ---
-const detectBatchPatterns = (records: DeveloperRecord[]): Set<string> => {
-    const suspectIds = new Set<string>();
-    
-    // Pattern Maps
-    const nameRoots = new Map<string, string[]>(); // Root -> [IDs]
-    const emailRoots = new Map<string, string[]>(); // Root -> [IDs]
-
-    // Regex to strip numbers and special chars from end of string
-    // e.g. "John Doe 1" -> "johndoe", "John Doe 02" -> "johndoe"
-    const normalize = (str: string) => str.toLowerCase().replace(/[\d\s._-]+$/g, '');
-
-    records.forEach(r => {
-        const nameRoot = normalize(r.firstName + r.lastName);
-        if (nameRoot.length > 3) { // Ignore short names to avoid false positives
-            if (!nameRoots.has(nameRoot)) nameRoots.set(nameRoot, []);
-            nameRoots.get(nameRoot)?.push(r.id);
-        }
-
-        if (r.email) {
-            const emailUser = r.email.split('@')[0];
-            const emailRoot = normalize(emailUser);
-            if (emailRoot.length > 3) {
-                if (!emailRoots.has(emailRoot)) emailRoots.set(emailRoot, []);
-                emailRoots.get(emailRoot)?.push(r.id);
-            }
-        }
-    });
-
-    // Threshold: If 3 or more accounts share the same root, flag them.
-    const THRESHOLD = 3;
-
-    nameRoots.forEach((ids) => {
-        if (ids.length >= THRESHOLD) ids.forEach(id => suspectIds.add(id));
-    });
-
-    emailRoots.forEach((ids) => {
-        if (ids.length >= THRESHOLD) ids.forEach(id => suspectIds.add(id));
-    });
-
-    return suspectIds;
-};
-
-export const processIngestedData = (rawData: DeveloperRecord[]): DeveloperRecord[] => {
-  // 1. SYBIL PRE-CALCULATION
-  const walletCounts = new Map<string, number>();
-  rawData.forEach(r => {
-      if(r.walletAddress && r.walletAddress.length > 5) {
-          const w = r.walletAddress.trim().toLowerCase();
-          if (w !== 'n/a' && w !== 'none' && w !== '') {
-             walletCounts.set(w, (walletCounts.get(w) || 0) + 1);
-          }
-      }
-  });
-
-  // 2. KNOWN DISPOSABLE DOMAINS
-  const disposableDomains = [
-      'yopmail.com', 'mailinator.com', 'temp-mail.org', 'guerrillamail.com', 
-      '10minutemail.com', 'sharklasers.com', 'throwawaymail.com', 'getnada.com'
-  ];
-
-  // 3. FIRST PASS: Row-level Logic
-  let processed = rawData.map((record) => {
-    const correctedCompletedAt = applyAmPmFix(record.createdAt, record.completedAt);
-    const riskFlags: string[] = [];
+// Risk flags come from the configurable rule registry (see fraudRules.ts); the context carries
+// workspace data rules match against, such as the confirmed-fraud blocklist
+// Safe to re-run over stored versions: only freshly parsed rows get the AM/PM fix
+export const processIngestedData = (rawData: DeveloperRecord[], rules: FraudRule[] = DEFAULT_FRAUD_RULES, context: FraudRuleContext = {}): DeveloperRecord[] => {
+  // 1. FIRST PASS: Row-level Logic
+  const processed = rawData.map(({ amPmPending, ...record }) => {
+    const correctedCompletedAt = amPmPending ? applyAmPmFix(record.createdAt, record.completedAt) : record.completedAt;
     let computed_duration = 0;
     let dataError = false;
 
@@ -125,60 +72,42 @@ export const processIngestedData = (rawData: DeveloperRecord[]): DeveloperRecord
         }
     }
 
-    // A. Speed Run (< 4h)
-    if (!dataError && computed_duration > 0 && computed_duration < 4 && record.finalGrade === 'Pass') {
-        if (computed_duration < 0.5) riskFlags.push('Bot Activity');
-        else riskFlags.push('Speed Run');
-    }
-
-    // B. Sybil (Shared Wallet)
-    if (record.walletAddress && record.walletAddress.length > 5) {
-        const w = record.walletAddress.trim().toLowerCase();
-        const count = walletCounts.get(w) || 0;
-        if (count > 1) riskFlags.push(`Sybil`);
-    }
-
-    // C. Email Forensics
-    if (record.email) {
-        const emailLower = record.email.toLowerCase();
-        if (emailLower.includes('+')) riskFlags.push('Email Alias');
-        const domain = emailLower.split('@')[1];
-        if (domain && disposableDomains.includes(domain)) riskFlags.push('Disposable Email');
-    }
+    const wallet = classifyWallet(record.walletAddress);
 
     return {
         ...record,
         completedAt: correctedCompletedAt,
         computed_duration,
-        computed_riskFlags: riskFlags,
         dataError,
+        computed_walletType: wallet.type,
+        computed_wallet: wallet.canonical,
     };
   });
 
-  // 4. SECOND PASS: Batch Pattern Detection (Deep Accounts)
-  // Detects "User 1", "User 2" patterns
-  const batchSuspects = detectBatchPatterns(processed);
-  
-  processed = processed.map(record => {
-      if (batchSuspects.has(record.id)) {
-          // Add flag if not already present
-          if (!record.computed_riskFlags.includes('Batch Pattern')) {
-              record.computed_riskFlags.push('Batch Pattern');
-          }
-      }
-      
-      // Update legacy field
+  // 2. SECOND PASS: Fraud Rules (row-level and cross-record patterns)
+  const hits = evaluateFraudRules(processed, rules, context);
+
+  const flagged = processed.map(record => {
+      const sources = hits.get(record.id) || [];
+      const computed_riskFlags = sources.map(s => s.flag);
+      const { score, breakdown } = scoreRiskFlags(sources, rules);
       return {
           ...record,
-          isSuspicious: record.computed_riskFlags.length > 0,
-          suspicionReason: record.computed_riskFlags.join(', ')
+          computed_riskFlags,
+          computed_flagSources: sources,
+          computed_riskScore: score,
+          computed_riskBreakdown: breakdown,
+          // Update legacy field
+          isSuspicious: computed_riskFlags.length > 0,
+          suspicionReason: computed_riskFlags.join(', ')
       };
   });
 
-  return processed;
+  // 3. LINKED ACCOUNTS: group records sharing a wallet, phone, name root or email root
+  return assignClusters(flagged);
 };
 
-export const calculateDashboardMetrics = (data: DeveloperRecord[], startDate: Date | null, endDate: Date | null) => {
+export const calculateDashboardMetrics = (data: DeveloperRecord[], startDate: Date | null, endDate: Date | null, riskScoreThreshold: number = DEFAULT_RISK_SCORE_THRESHOLD) => {
   const registeredInPeriod = data.filter(r => isDateInRange(r.createdAt, startDate, endDate));
   const totalRegistered = registeredInPeriod.length;
 
@@ -209,8 +138,8 @@ export const calculateDashboardMetrics = (data: DeveloperRecord[], startDate: Da
     ? (totalDuration / validCertifiedUsers.length) / 24 
     : 0;
 
-  // Potential Fake: Count records with ANY risk flag
-  const potentialFake = registeredInPeriod.filter(r => r.computed_riskFlags && r.computed_riskFlags.length > 0).length;
+  // Potential Fake: records whose weighted risk score reaches the threshold
+  const potentialFake = registeredInPeriod.filter(r => (r.computed_riskScore || 0) >= riskScoreThreshold).length;
 
   const rapidCompletions = validCertifiedUsers.filter(r => 
     (r.computed_duration || 0) < 5
@@ -300,6 +229,7 @@ export const generateChartData = (data: DeveloperRecord[], startDate: Date | nul
                 month: 'short', 
                 day: 'numeric',
             }),
+            periodStart: item.sortDate,
             registrations: item.registrations,
             certifications: item.certifications
         }));
@@ -0,0 +1,85 @@
+import { DeveloperRecord, MergeSummary, RecordFieldChange } from '../types';
+import { developerIdFromEmail, normalizeEmail } from './csvMapping';
+import { applyAmPmFix } from './dataProcessing';
+
+const MAX_RECORDED_CHANGES = 10000; // Per-field counts stay exact beyond this
+
+const formatValue = (v: unknown) => (v === null || v === undefined ? '' : String(v));
+
+// Fields the row leaves unset: an empty cell (per the parser's blankFields) or a value that could
+// not be read and was left empty. The coerced value alone can't tell, since empty cells arrive as
+// defaults like 'Pending', 0 or false.
+const isBlank = (field: keyof DeveloperRecord, value: unknown, blankFields: (keyof DeveloperRecord)[]) =>
+    blankFields.includes(field) || value === '' || value === null;
+
+export interface MergeResult {
+    records: DeveloperRecord[]; // Unprocessed: run processIngestedData over the full set afterwards
+    summary: MergeSummary;
+}
+
+// Upserts a delta file into an existing dataset, keyed by normalized email.
+// Only `fields` (the columns the file mapped) are written; an empty cell (listed in `blankFields`
+// by developer ID) never clears a value that is already known.
+export const mergeDevelopers = (
+    base: DeveloperRecord[],
+    incoming: DeveloperRecord[],
+    fields: (keyof DeveloperRecord)[],
+    blankFields: Record<string, (keyof DeveloperRecord)[]>,
+    baseVersionId: string
+): MergeResult => {
+    const summary: MergeSummary = {
+        baseVersionId, added: 0, updated: 0, unchanged: 0,
+        fieldChangeCounts: {}, changes: [], truncated: false
+    };
+
+    // Older versions may predate email-derived IDs, so re-key everything by email
+    const byEmail = new Map<string, DeveloperRecord>();
+    base.forEach(r => {
+        byEmail.set(normalizeEmail(r.email), { ...r, id: developerIdFromEmail(r.email), changedFields: undefined });
+    });
+
+    const updateFields = fields.filter(f => f !== 'email');
+
+    incoming.forEach(row => {
+        const key = normalizeEmail(row.email);
+        const existing = byEmail.get(key);
+
+        if (!existing) {
+            byEmail.set(key, { ...row, id: developerIdFromEmail(row.email) }); // Still amPmPending
+            summary.added++;
+            return;
+        }
+
+        const next: DeveloperRecord = { ...existing, ingestionBatchId: row.ingestionBatchId };
+        const changed: string[] = [];
+
+        const blank = blankFields[row.id] || [];
+        const mergeField = <K extends keyof DeveloperRecord>(field: K) => {
+            // Stored records carry the AM/PM-corrected completion time
+            const value = field === 'completedAt' ? applyAmPmFix(next.createdAt, row.completedAt) as DeveloperRecord[K] : row[field];
+            if (isBlank(field, value, blank)) return;
+            if (formatValue(value) === formatValue(existing[field])) return;
+
+            changed.push(field);
+            summary.fieldChangeCounts[field] = (summary.fieldChangeCounts[field] || 0) + 1;
+            if (summary.changes.length < MAX_RECORDED_CHANGES) {
+                const change: RecordFieldChange = { developerId: next.id, email: existing.email, field, previous: formatValue(existing[field]), next: formatValue(value) };
+                summary.changes.push(change);
+            } else {
+                summary.truncated = true;
+            }
+            next[field] = value;
+        };
+        updateFields.forEach(mergeField);
+
+        if (changed.length > 0) {
+            next.changedFields = changed;
+            summary.updated++;
+        } else {
+            summary.unchanged++;
+        }
+        byEmail.set(key, next);
+    });
+
+    return { records: Array.from(byEmail.values()), summary };
+};
@@ -25,6 +25,25 @@ export const DEFAULT_TEMPLATES: EmailTemplate[] = [
   }
 ];
 
+// Sent to a partner's billing contact with the invoice PDF attached
+export const INVOICE_EMAIL_TEMPLATE: EmailTemplate = {
+  id: 'tpl_invoice',
+  name: 'Invoice',
+  subject: '{{documentType}} {{invoiceNumber}} from {{issuerName}}',
+  body: "Hello {{contactName}},\n\nPlease find attached invoice {{invoiceNumber}} for {{billingPeriod}}, amounting to {{totalAmount}} and due on {{dueDate}}. Payment instructions are on the invoice.\n\nBest regards,\n{{issuerName}}",
+  trigger: 'Manual'
+};
+
+export interface EmailAttachment {
+  fileName: string;
+  mimeType: string;
+  content: Uint8Array;
+}
+
+// Replaces every {{key}} placeholder; unknown placeholders are left as they are
+export const fillTemplate = (text: string, values: Record<string, string>) =>
+  text.replace(/\{\{(\w+)\}\}/g, (match, key) => values[key] ?? match);
+
 // Simulate API Call to MailerLite / SendGrid / Mailchimp
 export const sendEmailCampaign = async (
   recipients: DeveloperRecord[], 
@@ -69,4 +88,22 @@ export const sendEmailCampaign = async (
 
       processBatch();
   });
-};
\ No newline at end of file
+};
+
+// Simulate a single transactional email (e.g. an invoice to a partner's billing contact)
+export const sendPartnerEmail = async (
+  to: string,
+  subject: string,
+  body: string,
+  attachments: EmailAttachment[] = []
+): Promise<boolean> => {
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(to)) throw new Error(`"${to}" is not a valid email address.`);
+
+  return new Promise((resolve) => {
+      setTimeout(() => {
+          const files = attachments.map(a => `${a.fileName} (${a.content.length} bytes)`).join(', ');
+          console.log(`[Mock API] Sent '${subject}' to ${to}${files ? ` with ${files}` : ''}:`, body.substring(0, 50) + "...");
+          resolve(true);
+      }, 400);
+  });
+};
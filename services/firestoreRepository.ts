@@ -0,0 +1,162 @@
+import { Firestore, WriteBatch, collection, deleteDoc, doc, getDoc, getDocs, onSnapshot, runTransaction, setDoc, writeBatch } from 'firebase/firestore';
+import { AdminUser, BillingRun, BlocklistEntry, CommunityAgreement, CommunityEvent, CommunityMasterRecord, DatasetVersion, DeveloperRecord, FraudReview, FraudRule, Invoice, InvoiceSequence, OutreachCampaign, WorkspaceSettings } from '../types';
+import { DeveloperRepository, InvoiceSequenceRepository, Repositories, Repository } from './repository';
+import { reportSyncError } from './repositoryContext';
+
+// Firestore implementation of the repositories. Takes the Firestore instance as a parameter so
+// it can be pointed at the emulator (see README) as easily as at the production project.
+//
+// Layout: one top-level collection per entity; developers are stored per dataset version in
+// batches/{versionId}/developers, since a version can hold far more than a 1MB document.
+
+const WRITE_BATCH_LIMIT = 500; // Firestore maximum operations per batched write
+
+// Firestore rejects `undefined` field values, so optional fields are dropped
+const toFirestore = <T,>(item: T) => JSON.parse(JSON.stringify(item));
+
+const commitInChunks = async (db: Firestore, ops: ((batch: WriteBatch) => void)[]) => {
+    for (let i = 0; i < ops.length; i += WRITE_BATCH_LIMIT) {
+        const batch = writeBatch(db);
+        ops.slice(i, i + WRITE_BATCH_LIMIT).forEach(op => op(batch));
+        await batch.commit();
+    }
+};
+
+export const createFirestoreRepository = <T,>(db: Firestore, path: string, keyOf: (item: T) => string): Repository<T> => {
+    const ref = collection(db, path);
+
+    return {
+        list: async () => (await getDocs(ref)).docs.map(d => d.data() as T),
+        get: async (id) => {
+            const snap = await getDoc(doc(ref, id));
+            return snap.exists() ? (snap.data() as T) : null;
+        },
+        save: (item) => setDoc(doc(ref, keyOf(item)), toFirestore(item)),
+        saveMany: (items) => commitInChunks(db, items.map(item => (b: WriteBatch) => { b.set(doc(ref, keyOf(item)), toFirestore(item)); })),
+        remove: (id) => deleteDoc(doc(ref, id)),
+        replaceAll: async (items) => {
+            const keep = new Set(items.map(keyOf));
+            const existing = await getDocs(ref);
+            await commitInChunks(db, [
+                ...existing.docs.filter(d => !keep.has(d.id)).map(d => (b: WriteBatch) => { b.delete(d.ref); }),
+                ...items.map(item => (b: WriteBatch) => { b.set(doc(ref, keyOf(item)), toFirestore(item)); })
+            ]);
+        },
+        subscribe: (listener) => onSnapshot(
+            ref,
+            snap => listener(snap.docs.map(d => d.data() as T)),
+            err => reportSyncError(`'${path}'`, err)
+        )
+    };
+};
+
+const createFirestoreDeveloperRepository = (db: Firestore): DeveloperRepository => {
+    const developersOf = (batchId: string) => collection(db, 'batches', batchId, 'developers');
+
+    return {
+        listForBatch: async (batchId) => (await getDocs(developersOf(batchId))).docs.map(d => d.data() as DeveloperRecord),
+        // Replaces the version's developers: records missing from `records` are deleted
+        saveForBatch: async (batchId, records) => {
+            const ref = developersOf(batchId);
+            const keep = new Set(records.map(r => r.id));
+            const existing = await getDocs(ref);
+            await commitInChunks(db, [
+                ...existing.docs.filter(d => !keep.has(d.id)).map(d => (b: WriteBatch) => { b.delete(d.ref); }),
+                ...records.map(r => (b: WriteBatch) => { b.set(doc(ref, r.id), toFirestore(r)); })
+            ]);
+        },
+        deleteForBatch: async (batchId) => {
+            const existing = await getDocs(developersOf(batchId));
+            await commitInChunks(db, existing.docs.map(d => (b: WriteBatch) => { b.delete(d.ref); }));
+        }
+    };
+};
+
+// Version metadata lives in 'batches'; `data` is split off into the developers subcollection
+// and joined back on read. Loaded developers are cached per version; a version's records only
+// change when its wallets are verified, so the verification time is part of the cache key.
+const createFirestoreBatchRepository = (db: Firestore, developers: DeveloperRepository): Repository<DatasetVersion> => {
+    const meta = createFirestoreRepository<Omit<DatasetVersion, 'data'>>(db, 'batches', v => v.id);
+    const dataCache = new Map<string, { stamp: string; data: DeveloperRecord[] }>();
+    const stampOf = (m: Omit<DatasetVersion, 'data'>) => m.walletVerification?.checkedAt || '';
+
+    const withData = async (m: Omit<DatasetVersion, 'data'>): Promise<DatasetVersion> => {
+        if (dataCache.get(m.id)?.stamp !== stampOf(m)) dataCache.set(m.id, { stamp: stampOf(m), data: await developers.listForBatch(m.id) });
+        return { ...m, data: dataCache.get(m.id)!.data };
+    };
+
+    const save = async ({ data, ...rest }: DatasetVersion) => {
+        // Developers first, so a subscriber never sees a version without its records
+        await developers.saveForBatch(rest.id, data);
+        dataCache.set(rest.id, { stamp: stampOf(rest), data });
+        await meta.save(rest);
+    };
+
+    const remove = async (id: string) => {
+        await meta.remove(id);
+        await developers.deleteForBatch(id);
+        dataCache.delete(id);
+    };
+
+    return {
+        list: async () => Promise.all((await meta.list()).map(withData)),
+        get: async (id) => {
+            const m = await meta.get(id);
+            return m ? withData(m) : null;
+        },
+        save,
+        saveMany: async (versions) => {
+            for (const v of versions) await save(v);
+        },
+        remove,
+        replaceAll: async (versions) => {
+            const keep = new Set(versions.map(v => v.id));
+            for (const m of await meta.list()) {
+                if (!keep.has(m.id)) await remove(m.id);
+            }
+            for (const v of versions) await save(v);
+        },
+        subscribe: (listener) => {
+            let latest = 0; // Drops results of older snapshots that resolve late
+            return meta.subscribe(metas => {
+                const seq = ++latest;
+                Promise.all(metas.map(withData))
+                    .then(versions => { if (seq === latest) listener(versions); })
+                    .catch(err => reportSyncError('the developers of the dataset versions', err));
+            });
+        }
+    };
+};
+
+// The counter is read inside the transaction, so Firestore retries `build` when another admin
+// issued a number in the meantime; the counter and the invoices are committed together.
+const createFirestoreSequenceRepository = (db: Firestore): InvoiceSequenceRepository => ({
+    ...createFirestoreRepository<InvoiceSequence>(db, 'invoiceSequences', s => s.id),
+    issue: (sequenceId, build) => runTransaction(db, async tx => {
+        const snap = await tx.get(doc(db, 'invoiceSequences', sequenceId));
+        const { sequence, invoices } = build(snap.exists() ? (snap.data() as InvoiceSequence) : null);
+        tx.set(doc(db, 'invoiceSequences', sequence.id), toFirestore(sequence));
+        invoices.forEach(invoice => { tx.set(doc(db, 'invoices', invoice.id), toFirestore(invoice)); });
+        return invoices;
+    })
+});
+
+export const createFirestoreRepositories = (db: Firestore): Repositories => {
+    const developers = createFirestoreDeveloperRepository(db);
+    return {
+        developers,
+        batches: createFirestoreBatchRepository(db, developers),
+        agreements: createFirestoreRepository<CommunityAgreement>(db, 'agreements', a => a.id),
+        invoices: createFirestoreRepository<Invoice>(db, 'invoices', i => i.id),
+        events: createFirestoreRepository<CommunityEvent>(db, 'events', e => e.id),
+        campaigns: createFirestoreRepository<OutreachCampaign>(db, 'campaigns', c => c.id),
+        admins: createFirestoreRepository<AdminUser>(db, 'admins', a => a.id),
+        registry: createFirestoreRepository<CommunityMasterRecord>(db, 'registry', r => r.code),
+        fraudRules: createFirestoreRepository<FraudRule>(db, 'fraudRules', r => r.id),
+        settings: createFirestoreRepository<WorkspaceSettings>(db, 'settings', s => s.id),
+        fraudReviews: createFirestoreRepository<FraudReview>(db, 'fraudReviews', r => r.id),
+        fraudBlocklist: createFirestoreRepository<BlocklistEntry>(db, 'fraudBlocklist', e => e.id),
+        billingRuns: createFirestoreRepository<BillingRun>(db, 'billingRuns', r => r.id),
+        invoiceSequences: createFirestoreSequenceRepository(db)
+    };
+};
@@ -0,0 +1,58 @@
+import { BlocklistEntry, ClusterLinkType, DeveloperRecord } from '../types';
+import { CLUSTER_LINK_LABELS, linkKeyOf, linkKeysOf } from './accountClusters';
+
+// Cross-version fraud memory. Identifiers of accounts confirmed as fraud (wallet, phone, name
+// root, email root) are kept in the 'fraudBlocklist' collection; the Known Fraud Link rule flags
+// records of later uploads that reuse one of them, even under a new email.
+
+export const BLOCKLIST_TYPES = Object.keys(CLUSTER_LINK_LABELS) as ClusterLinkType[];
+
+export const BLOCKLIST_TYPE_LABELS: Record<ClusterLinkType, string> = {
+    wallet: 'Wallet',
+    phone: 'Phone',
+    nameRoot: 'Name Root',
+    emailRoot: 'Email Root'
+};
+
+export const blocklistEntryId = (type: ClusterLinkType, value: string) => `${type}:${value}`;
+
+// Returns null when the value normalises to nothing (placeholder, too short, invalid wallet)
+export const createBlocklistEntry = (type: ClusterLinkType, rawValue: string, note: string, addedBy: string, sourceEmail?: string): BlocklistEntry | null => {
+    const value = linkKeyOf(type, rawValue);
+    if (!value) return null;
+    return { id: blocklistEntryId(type, value), type, value, note: note.trim(), sourceEmail, addedAt: new Date().toISOString(), addedBy };
+};
+
+// Identifiers of confirmed accounts that are not on the blocklist yet
+export const blocklistEntriesFor = (records: DeveloperRecord[], existing: BlocklistEntry[], note: string, addedBy: string): BlocklistEntry[] => {
+    const known = new Set(existing.map(e => e.id));
+    const entries: BlocklistEntry[] = [];
+    records.forEach(r => {
+        const keys = linkKeysOf(r);
+        BLOCKLIST_TYPES.forEach(type => {
+            const id = blocklistEntryId(type, keys[type]);
+            if (!keys[type] || known.has(id)) return;
+            known.add(id);
+            entries.push({ id, type, value: keys[type], note: note.trim(), sourceEmail: r.email, addedAt: new Date().toISOString(), addedBy });
+        });
+    });
+    return entries;
+};
+
+// Matched entry IDs per record, for the given identifier types. Records that are themselves the
+// source of an entry (same email) are not matched against it.
+export const findBlocklistMatches = (records: DeveloperRecord[], blocklist: BlocklistEntry[], types: ClusterLinkType[] = BLOCKLIST_TYPES): Map<string, string[]> => {
+    const byId = new Map(blocklist.filter(e => types.includes(e.type)).map(e => [e.id, e]));
+    const matches = new Map<string, string[]>();
+    if (byId.size === 0) return matches;
+    records.forEach(r => {
+        const keys = linkKeysOf(r);
+        const email = (r.email || '').toLowerCase();
+        const hits = types
+            .map(type => byId.get(blocklistEntryId(type, keys[type])))
+            .filter((e): e is BlocklistEntry => !!e && keys[e.type] !== '' && (e.sourceEmail || '').toLowerCase() !== email)
+            .map(e => e.id);
+        if (hits.length > 0) matches.set(r.id, hits);
+    });
+    return matches;
+};
@@ -0,0 +1,101 @@
+import { AdminUser, DeveloperRecord, FraudReview, FraudReviewDecision, RiskFlagSource } from '../types';
+import { MAX_RISK_SCORE, flagSourcesOf } from './fraudRules';
+
+// Review queue over the flags raised by the fraud rules. Decisions are stored per developer and
+// rule (developer IDs are derived from the email, so they are stable across uploads) and
+// re-applied to whichever dataset version is active.
+
+export type ReviewStatusFilter = 'Pending' | FraudReviewDecision | 'All';
+
+export const REVIEW_STATUS_FILTERS: ReviewStatusFilter[] = ['Pending', 'Escalated', 'Confirmed', 'Dismissed', 'All'];
+
+export interface ReviewQueueItem {
+    record: DeveloperRecord;
+    source: RiskFlagSource;
+    review?: FraudReview;
+}
+
+export interface ReviewQueueGroup {
+    ruleId: string;
+    flag: string;
+    items: ReviewQueueItem[];
+}
+
+export const reviewId = (developerId: string, ruleId: string) => `${developerId}:${ruleId}`;
+
+export const matchesReviewFilter = (item: ReviewQueueItem, filter: ReviewStatusFilter) => {
+    if (filter === 'All') return true;
+    if (filter === 'Pending') return !item.review;
+    return item.review?.decision === filter;
+};
+
+// Every raised flag of the given records, dismissed or not, with its current review
+export const reviewItemsFor = (records: DeveloperRecord[], reviews: FraudReview[]): ReviewQueueItem[] => {
+    const reviewsById = new Map(reviews.map(r => [r.id, r]));
+    return records.flatMap(record => flagSourcesOf(record).map(source => ({
+        record, source, review: reviewsById.get(reviewId(record.id, source.ruleId))
+    })));
+};
+
+// One group per rule, in the order rules first appear
+export const buildReviewQueue = (records: DeveloperRecord[], reviews: FraudReview[]): ReviewQueueGroup[] => {
+    const groups = new Map<string, ReviewQueueGroup>();
+    reviewItemsFor(records, reviews).forEach(item => {
+        const { ruleId, flag } = item.source;
+        if (!groups.has(ruleId)) groups.set(ruleId, { ruleId, flag, items: [] });
+        groups.get(ruleId)!.items.push(item);
+    });
+    return Array.from(groups.values());
+};
+
+// Appends a decision to the audit trail (creating the review on first decision)
+export const recordReviewDecision = (
+    item: ReviewQueueItem,
+    decision: FraudReviewDecision,
+    note: string,
+    reviewer: AdminUser | null
+): FraudReview => {
+    const entry = {
+        decision,
+        note: note.trim(),
+        reviewerId: reviewer?.id || '',
+        reviewerName: reviewer?.name || 'Unknown reviewer',
+        decidedAt: new Date().toISOString(),
+        ruleVersion: item.source.ruleVersion
+    };
+    return {
+        id: reviewId(item.record.id, item.source.ruleId),
+        developerId: item.record.id,
+        email: item.record.email,
+        ruleId: item.source.ruleId,
+        flag: item.source.flag,
+        decision,
+        history: [...(item.review?.history || []), entry]
+    };
+};
+
+// Dismissed flags no longer count: they move to computed_dismissedFlags and their points are
+// taken out of the risk score. Records without a dismissal are returned as-is.
+export const applyReviewDecisions = (records: DeveloperRecord[], reviews: FraudReview[]): DeveloperRecord[] => {
+    const dismissed = new Set(reviews.filter(r => r.decision === 'Dismissed').map(r => r.id));
+    if (dismissed.size === 0) return records;
+
+    return records.map(record => {
+        const sources = flagSourcesOf(record);
+        const dismissedRules = new Set(sources.filter(s => dismissed.has(reviewId(record.id, s.ruleId))).map(s => s.ruleId));
+        if (dismissedRules.size === 0) return record;
+
+        const active = sources.filter(s => !dismissedRules.has(s.ruleId));
+        const breakdown = (record.computed_riskBreakdown || []).filter(c => !dismissedRules.has(c.ruleId));
+        const computed_riskFlags = active.map(s => s.flag);
+        return {
+            ...record,
+            computed_riskFlags,
+            computed_dismissedFlags: sources.filter(s => dismissedRules.has(s.ruleId)).map(s => s.flag),
+            computed_riskBreakdown: breakdown,
+            computed_riskScore: Math.min(MAX_RISK_SCORE, breakdown.reduce((acc, c) => acc + c.points, 0)),
+            isSuspicious: computed_riskFlags.length > 0,
+            suspicionReason: computed_riskFlags.join(', ')
+        };
+    });
+};
@@ -0,0 +1,273 @@
+import { BlocklistEntry, ClusterLinkType, DeveloperRecord, FraudRule, FraudRuleParams, RiskFlagSource, RiskScoreContribution } from '../types';
+import { findNearDuplicates } from './similarity';
+import { BURST_RULE_ID, burstSettings, detectBursts } from './burstDetection';
+import { patternRoot, walletKey } from './accountClusters';
+import { BLOCKLIST_TYPES, findBlocklistMatches } from './fraudBlocklist';
+
+// Declarative fraud rule registry. Each rule pairs editable settings (FraudRule, persisted in the
+// 'fraudRules' collection) with an evaluator defined here. processIngestedData runs the active
+// ruleset, records the rule version behind every flag and turns the rule weights into a 0-100
+// risk score.
+
+export interface FraudRuleParamSpec {
+    key: string;
+    label: string;
+    type: 'number' | 'list';
+    unit?: string;
+    min?: number;
+    step?: number;
+}
+
+// Workspace data some rules match records against
+export interface FraudRuleContext {
+    blocklist?: BlocklistEntry[];
+}
+
+interface FraudRuleDefinition {
+    defaults: FraudRule;
+    paramSpecs: FraudRuleParamSpec[];
+    // Returns the IDs of the records the rule flags, or per flagged ID the records it was matched with
+    evaluate: (records: DeveloperRecord[], params: FraudRuleParams, context: FraudRuleContext) => Set<string> | Map<string, string[]>;
+}
+
+const DEFAULTS_UPDATED_AT = '2024-01-01T00:00:00.000Z';
+
+const num = (params: FraudRuleParams, key: string) => Number(params[key]) || 0;
+const list = (params: FraudRuleParams, key: string) => (Array.isArray(params[key]) ? params[key] as string[] : []);
+
+const idsWhere = (records: DeveloperRecord[], predicate: (r: DeveloperRecord) => boolean) =>
+    new Set(records.filter(predicate).map(r => r.id));
+
+const passedWithin = (r: DeveloperRecord, minHours: number, maxHours: number) => {
+    const d = r.computed_duration || 0;
+    return !r.dataError && r.finalGrade === 'Pass' && d > 0 && d >= minHours && d < maxHours;
+};
+
+const groupIds = (records: DeveloperRecord[], keyOf: (r: DeveloperRecord) => string) => {
+    const groups = new Map<string, string[]>();
+    records.forEach(r => {
+        const key = keyOf(r);
+        if (!key) return;
+        if (!groups.has(key)) groups.set(key, []);
+        groups.get(key)!.push(r.id);
+    });
+    return groups;
+};
+
+const DEFINITIONS: FraudRuleDefinition[] = [
+    {
+        defaults: {
+            id: 'bot-activity', flag: 'Bot Activity', severity: 'Critical', enabled: true, weight: 70, version: 1, updatedAt: DEFAULTS_UPDATED_AT,
+            description: 'Passed the certification faster than a human could read the material.',
+            params: { maxHours: 0.5 }
+        },
+        paramSpecs: [{ key: 'maxHours', label: 'Passed in under', type: 'number', unit: 'hours', min: 0, step: 0.1 }],
+        evaluate: (records, params) => idsWhere(records, r => passedWithin(r, 0, num(params, 'maxHours')))
+    },
+    {
+        defaults: {
+            id: 'speed-run', flag: 'Speed Run', severity: 'High', enabled: true, weight: 35, version: 1, updatedAt: DEFAULTS_UPDATED_AT,
+            description: 'Passed unusually fast. Faster completions are reported as Bot Activity instead.',
+            params: { minHours: 0.5, maxHours: 4 }
+        },
+        paramSpecs: [
+            { key: 'minHours', label: 'From', type: 'number', unit: 'hours', min: 0, step: 0.1 },
+            { key: 'maxHours', label: 'Passed in under', type: 'number', unit: 'hours', min: 0, step: 0.5 }
+        ],
+        evaluate: (records, params) => idsWhere(records, r => passedWithin(r, num(params, 'minHours'), num(params, 'maxHours')))
+    },
+    {
+        defaults: {
+            id: 'sybil-shared-wallet', flag: 'Sybil', severity: 'Critical', enabled: true, weight: 50, version: 1, updatedAt: DEFAULTS_UPDATED_AT,
+            description: 'The same wallet address is used by several accounts.',
+            params: { minAccounts: 2 }
+        },
+        paramSpecs: [{ key: 'minAccounts', label: 'Accounts sharing a wallet', type: 'number', min: 2, step: 1 }],
+        evaluate: (records, params) => {
+            const flagged = new Set<string>();
+            groupIds(records, r => walletKey(r.walletAddress)).forEach(ids => {
+                if (ids.length >= num(params, 'minAccounts')) ids.forEach(id => flagged.add(id));
+            });
+            return flagged;
+        }
+    },
+    {
+        defaults: {
+            id: 'email-alias', flag: 'Email Alias', severity: 'Low', enabled: true, weight: 10, version: 1, updatedAt: DEFAULTS_UPDATED_AT,
+            description: 'Email uses plus-addressing (name+tag@domain), a cheap way to register several accounts.',
+            params: {}
+        },
+        paramSpecs: [],
+        evaluate: (records) => idsWhere(records, r => !!r.email && r.email.split('@')[0].includes('+'))
+    },
+    {
+        defaults: {
+            id: 'disposable-email', flag: 'Disposable Email', severity: 'Medium', enabled: true, weight: 20, version: 1, updatedAt: DEFAULTS_UPDATED_AT,
+            description: 'Email belongs to a known throwaway mailbox provider.',
+            params: {
+                domains: ['yopmail.com', 'mailinator.com', 'temp-mail.org', 'guerrillamail.com', '10minutemail.com', 'sharklasers.com', 'throwawaymail.com', 'getnada.com']
+            }
+        },
+        paramSpecs: [{ key: 'domains', label: 'Domains', type: 'list' }],
+        evaluate: (records, params) => {
+            const domains = new Set(list(params, 'domains').map(d => d.trim().toLowerCase()));
+            return idsWhere(records, r => domains.has((r.email || '').toLowerCase().split('@')[1] || ''));
+        }
+    },
+    {
+        defaults: {
+            id: 'batch-pattern', flag: 'Batch Pattern', severity: 'High', enabled: true, weight: 30, version: 1, updatedAt: DEFAULTS_UPDATED_AT,
+            description: 'Several accounts share a name or email root once trailing numbers are removed ("User 1", "User 2"...).',
+            params: { minAccounts: 3, minRootLength: 4 }
+        },
+        paramSpecs: [
+            { key: 'minAccounts', label: 'Accounts sharing a root', type: 'number', min: 2, step: 1 },
+            { key: 'minRootLength', label: 'Ignore roots shorter than', type: 'number', unit: 'characters', min: 1, step: 1 }
+        ],
+        evaluate: (records, params) => {
+            const minRoot = num(params, 'minRootLength');
+            const rootOf = (str: string) => {
+                const root = patternRoot(str);
+                return root.length >= minRoot ? root : '';
+            };
+            const flagged = new Set<string>();
+            [
+                groupIds(records, r => rootOf(r.firstName + r.lastName)),
+                groupIds(records, r => (r.email ? rootOf(r.email.split('@')[0]) : ''))
+            ].forEach(groups => groups.forEach(ids => {
+                if (ids.length >= num(params, 'minAccounts')) ids.forEach(id => flagged.add(id));
+            }));
+            return flagged;
+        }
+    },
+    {
+        defaults: {
+            id: 'near-duplicate', flag: 'Near Duplicate', severity: 'Medium', enabled: true, weight: 25, version: 1, updatedAt: DEFAULTS_UPDATED_AT,
+            description: 'Email handle and name are close variants of another account ("jdoe01", "j.doe.02", "johnd0e"). The flag lists the matched accounts.',
+            params: { emailSimilarity: 0.85, nameSimilarity: 0.9, emailSimilarityWithName: 0.5, minHandleLength: 4, maxBucketSize: 500 }
+        },
+        paramSpecs: [
+            { key: 'emailSimilarity', label: 'Email handle similarity', type: 'number', unit: '0-1', min: 0, step: 0.05 },
+            { key: 'nameSimilarity', label: 'Name similarity', type: 'number', unit: '0-1', min: 0, step: 0.05 },
+            { key: 'emailSimilarityWithName', label: 'Handle similarity when names match', type: 'number', unit: '0-1', min: 0, step: 0.05 },
+            { key: 'minHandleLength', label: 'Ignore handles shorter than', type: 'number', unit: 'characters', min: 1, step: 1 },
+            { key: 'maxBucketSize', label: 'Skip comparison groups larger than', type: 'number', unit: 'accounts', min: 2, step: 50 }
+        ],
+        evaluate: (records, params) => findNearDuplicates(records, {
+            emailSimilarity: num(params, 'emailSimilarity'),
+            nameSimilarity: num(params, 'nameSimilarity'),
+            emailSimilarityWithName: num(params, 'emailSimilarityWithName'),
+            minHandleLength: num(params, 'minHandleLength'),
+            maxBucketSize: num(params, 'maxBucketSize')
+        })
+    },
+    {
+        defaults: {
+            id: BURST_RULE_ID, flag: 'Burst Activity', severity: 'High', enabled: true, weight: 20, version: 1, updatedAt: DEFAULTS_UPDATED_AT,
+            description: 'Registered or completed inside an abnormal spike of activity, program-wide or within the same partner community.',
+            params: { windowMinutes: 10, minEvents: 25, minPartnerEvents: 10, spikeFactor: 5 }
+        },
+        paramSpecs: [
+            { key: 'windowMinutes', label: 'Sliding window', type: 'number', unit: 'minutes', min: 1, step: 1 },
+            { key: 'minEvents', label: 'Events in a window (program-wide)', type: 'number', min: 2, step: 1 },
+            { key: 'minPartnerEvents', label: 'Events in a window (per community)', type: 'number', min: 2, step: 1 },
+            { key: 'spikeFactor', label: 'Times the average rate', type: 'number', unit: 'x', min: 1, step: 0.5 }
+        ],
+        evaluate: (records, params) => new Set(detectBursts(records, burstSettings(params)).flatMap(b => b.recordIds))
+    },
+    {
+        defaults: {
+            id: 'wallet-not-found', flag: 'Unknown Wallet', severity: 'High', enabled: true, weight: 40, version: 1, updatedAt: DEFAULTS_UPDATED_AT,
+            description: 'The submitted wallet is well-formed but the mirror node has no such account. Raised once the version\'s wallets are verified.',
+            params: {}
+        },
+        paramSpecs: [],
+        evaluate: (records) => idsWhere(records, r => r.computed_walletExists === false)
+    },
+    {
+        defaults: {
+            id: 'new-wallet', flag: 'New Wallet', severity: 'High', enabled: true, weight: 30, version: 1, updatedAt: DEFAULTS_UPDATED_AT,
+            description: 'The wallet account was created on-chain around the time the developer registered. Raised once the version\'s wallets are verified.',
+            params: { maxHours: 24 }
+        },
+        paramSpecs: [{ key: 'maxHours', label: 'Created within', type: 'number', unit: 'hours of registration', min: 0, step: 1 }],
+        evaluate: (records, params) => idsWhere(records, r => {
+            if (!r.computed_walletExists || !r.computed_walletCreatedAt) return false;
+            const gap = Math.abs(new Date(r.computed_walletCreatedAt).getTime() - new Date(r.createdAt).getTime());
+            return !isNaN(gap) && gap <= num(params, 'maxHours') * 60 * 60 * 1000;
+        })
+    },
+    {
+        defaults: {
+            id: 'known-fraud-link', flag: 'Known Fraud Link', severity: 'Critical', enabled: true, weight: 60, version: 1, updatedAt: DEFAULTS_UPDATED_AT,
+            description: 'Reuses a wallet, phone, name root or email root of an account confirmed as fraud (see the blocklist in Admin Settings).',
+            params: { types: [...BLOCKLIST_TYPES] }
+        },
+        paramSpecs: [{ key: 'types', label: 'Identifier types (wallet, phone, nameRoot, emailRoot)', type: 'list' }],
+        evaluate: (records, params, context) =>
+            findBlocklistMatches(records, context.blocklist || [], list(params, 'types').filter((t): t is ClusterLinkType => (BLOCKLIST_TYPES as string[]).includes(t)))
+    }
+];
+
+const DEFINITIONS_BY_ID = new Map(DEFINITIONS.map(d => [d.defaults.id, d]));
+
+export const DEFAULT_FRAUD_RULES: FraudRule[] = DEFINITIONS.map(d => d.defaults);
+
+export const SEVERITY_LEVELS: FraudRule['severity'][] = ['Low', 'Medium', 'High', 'Critical'];
+
+export const getRuleParamSpecs = (ruleId: string): FraudRuleParamSpec[] => DEFINITIONS_BY_ID.get(ruleId)?.paramSpecs || [];
+
+// Stored overrides on top of the built-in rules, in registry order. Stored rules whose evaluator
+// no longer exists are dropped; parameters added since the override was saved get their default.
+export const resolveFraudRules = (stored: FraudRule[]): FraudRule[] => {
+    const overrides = new Map(stored.map(r => [r.id, r]));
+    return DEFAULT_FRAUD_RULES.map(def => {
+        const override = overrides.get(def.id);
+        return override ? { ...def, ...override, params: { ...def.params, ...override.params } } : def;
+    });
+};
+
+// An edited rule is a new version of it
+export const reviseFraudRule = (rule: FraudRule, changes: Partial<Pick<FraudRule, 'enabled' | 'severity' | 'params' | 'weight'>>): FraudRule => ({
+    ...rule,
+    ...changes,
+    version: rule.version + 1,
+    updatedAt: new Date().toISOString()
+});
+
+// Flags per record ID, in registry order. Expects computed_duration and dataError to be set.
+export const evaluateFraudRules = (records: DeveloperRecord[], rules: FraudRule[], context: FraudRuleContext = {}): Map<string, RiskFlagSource[]> => {
+    const hits = new Map<string, RiskFlagSource[]>();
+    rules.forEach(rule => {
+        const definition = DEFINITIONS_BY_ID.get(rule.id);
+        if (!rule.enabled || !definition) return;
+        const result = definition.evaluate(records, rule.params, context);
+        const matchedIds = result instanceof Map ? result : null;
+        Array.from(result.keys()).forEach(id => {
+            if (!hits.has(id)) hits.set(id, []);
+            const source: RiskFlagSource = { flag: rule.flag, ruleId: rule.id, ruleVersion: rule.version };
+            if (matchedIds) source.matchedIds = matchedIds.get(id);
+            hits.get(id)!.push(source);
+        });
+    });
+    return hits;
+};
+
+export const MAX_RISK_SCORE = 100;
+
+// Each raised flag adds its rule's weight; the total is capped at 100
+export const scoreRiskFlags = (sources: RiskFlagSource[], rules: FraudRule[]): { score: number; breakdown: RiskScoreContribution[] } => {
+    const weights = new Map(rules.map(r => [r.id, r.weight]));
+    const breakdown = sources
+        .map(s => ({ signal: s.flag, ruleId: s.ruleId, points: weights.get(s.ruleId) || 0 }))
+        .filter(c => c.points > 0)
+        .sort((a, b) => b.points - a.points);
+    const total = breakdown.reduce((acc, c) => acc + c.points, 0);
+    return { score: Math.min(MAX_RISK_SCORE, total), breakdown };
+};
+
+// Records processed before flags carried their rule: match built-in rules by flag label
+export const flagSourcesOf = (record: DeveloperRecord): RiskFlagSource[] => record.computed_flagSources || (record.computed_riskFlags || [])
+    .map(flag => DEFAULT_FRAUD_RULES.find(r => r.flag === flag))
+    .filter((r): r is FraudRule => !!r)
+    .map(r => ({ flag: r.flag, ruleId: r.id, ruleVersion: r.version }));
@@ -0,0 +1,79 @@
+import { WalletAddressType } from '../types';
+
+// Hedera wallet classification. Developers paste their wallet as free text; ingestion sorts it
+// into a Hedera account ID (shard.realm.num, optionally with its HIP-15 checksum), an EVM address
+// or an invalid value, and derives the canonical form used to compare wallets:
+//   "0.0.12345", "0.0.12345-vfmkw", "00.0.012345"        -> "0.0.12345"
+//   "0x000000000000000000000000000000000000303a" (long-zero EVM address of 0.0.12346) -> "0.0.12346"
+//   "0xAbC...", "abc..." (other EVM addresses)           -> "0xabc..."
+
+export interface WalletClassification {
+    type: WalletAddressType;
+    canonical: string; // '' unless type is 'account' or 'evm'
+}
+
+export const WALLET_TYPE_LABELS: Record<WalletAddressType, string> = {
+    account: 'Hedera Account ID',
+    evm: 'EVM Address',
+    invalid: 'Invalid Wallet',
+    missing: 'No Wallet'
+};
+
+// Values people type when they have no wallet yet
+const PLACEHOLDERS = new Set(['', '-', 'n/a', 'na', 'none', 'null', 'undefined', 'tbd', '0']);
+
+const ACCOUNT_ID = /^(\d+)\.(\d+)\.(\d+)(?:-([a-z]{5}))?$/;
+const EVM_ADDRESS = /^(?:0x)?([0-9a-f]{40})$/;
+
+// Ledger IDs of mainnet, testnet and previewnet; a checksum computed for any of them is accepted
+const LEDGER_IDS = [0, 1, 2];
+
+// HIP-15 address checksum
+export const accountChecksum = (address: string, ledgerId: number) => {
+    const p3 = 26 * 26 * 26;
+    const p5 = 26 * 26 * 26 * 26 * 26;
+    const m = 1000003;
+    const w = 31;
+    const digits = Array.from(address, ch => (ch === '.' ? 10 : Number(ch)));
+    let s = 0, s0 = 0, s1 = 0, sh = 0;
+    digits.forEach((d, i) => {
+        s = (w * s + d) % p3;
+        if (i % 2 === 0) s0 = (s0 + d) % 11;
+        else s1 = (s1 + d) % 11;
+    });
+    [ledgerId, 0, 0, 0, 0, 0, 0].forEach(b => { sh = (w * sh + b) % p5; });
+    let c = ((((address.length % 5) * 11 + s0) * 11 + s1) * p3 + s + sh) % p5;
+    c = (c * m) % p5;
+    let answer = '';
+    for (let i = 0; i < 5; i++) {
+        answer = String.fromCharCode(97 + (c % 26)) + answer;
+        c = Math.floor(c / 26);
+    }
+    return answer;
+};
+
+export const classifyWallet = (raw: string): WalletClassification => {
+    const value = (raw || '').trim().toLowerCase();
+    if (PLACEHOLDERS.has(value)) return { type: 'missing', canonical: '' };
+
+    const account = value.match(ACCOUNT_ID);
+    if (account) {
+        const canonical = account.slice(1, 4).map(part => BigInt(part).toString()).join('.');
+        const checksum = account[4];
+        if (checksum && !LEDGER_IDS.some(id => accountChecksum(canonical, id) === checksum)) return { type: 'invalid', canonical: '' };
+        return { type: 'account', canonical };
+    }
+
+    const evm = value.match(EVM_ADDRESS);
+    if (evm) {
+        const hex = evm[1];
+        // Long-zero addresses (shard and realm 0) carry the account number in their last 8 bytes
+        if (/^0{24}/.test(hex)) {
+            const num = BigInt(`0x${hex.slice(24)}`);
+            if (num > 0n) return { type: 'evm', canonical: `0.0.${num}` };
+        }
+        return { type: 'evm', canonical: `0x${hex}` };
+    }
+
+    return { type: 'invalid', canonical: '' };
+};
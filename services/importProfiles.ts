@@ -0,0 +1,51 @@
+import { ImportProfile } from '../types';
+import { ColumnMap, MAPPABLE_FIELDS } from './csvMapping';
+
+const STORAGE_KEY = 'importProfiles';
+
+export const loadImportProfiles = (): ImportProfile[] => {
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        return raw ? JSON.parse(raw) : [];
+    } catch (error) {
+        console.warn("Import Profiles: Failed to read saved profiles", error);
+        return [];
+    }
+};
+
+export const saveImportProfiles = (profiles: ImportProfile[]) => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+};
+
+// Profiles store header names rather than positions, so reordered exports still map correctly.
+export const columnMapToProfileMapping = (map: ColumnMap, headers: string[]): Record<string, string> => {
+    return Object.fromEntries(MAPPABLE_FIELDS.map(f => [f, map[f] !== -1 ? headers[map[f]] : '']));
+};
+
+export const profileToColumnMap = (profile: ImportProfile, headers: string[]): ColumnMap => {
+    return Object.fromEntries(MAPPABLE_FIELDS.map(f => {
+        const header = profile.mapping[f];
+        return [f, header ? headers.indexOf(header) : -1];
+    })) as ColumnMap;
+};
+
+// Picks the profile for an upload: an identical header signature wins, otherwise the
+// profile covering the most mapped columns, provided every column it maps exists in the file.
+export const findMatchingProfile = (profiles: ImportProfile[], headers: string[]): ImportProfile | undefined => {
+    const signature = headers.join('|');
+    const exact = profiles.filter(p => p.headers.join('|') === signature);
+    if (exact.length > 0) return mostRecent(exact);
+
+    const headerSet = new Set(headers);
+    const compatible = profiles
+        .map(p => ({ profile: p, mapped: Object.values(p.mapping).filter(h => h) }))
+        .filter(({ mapped }) => mapped.length > 0 && mapped.every(h => headerSet.has(h)));
+    if (compatible.length === 0) return undefined;
+
+    const best = Math.max(...compatible.map(c => c.mapped.length));
+    return mostRecent(compatible.filter(c => c.mapped.length === best).map(c => c.profile));
+};
+
+const mostRecent = (profiles: ImportProfile[]) => {
+    return [...profiles].sort((a, b) => (b.lastUsedAt || b.createdAt).localeCompare(a.lastUsedAt || a.createdAt))[0];
+};
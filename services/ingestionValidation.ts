@@ -0,0 +1,37 @@
+import { IngestionIssueCode, IngestionReport, StrictModeThresholds } from '../types';
+import { downloadCsv } from './csvExport';
+
+export const DEFAULT_STRICT_THRESHOLDS: StrictModeThresholds = {
+    maxErrorRowsPct: 1,
+    maxSkippedRows: 0
+};
+
+export const ISSUE_LABELS: Record<IngestionIssueCode, string> = {
+    MISSING_EMAIL: 'Missing Email',
+    DUPLICATE_EMAIL: 'Duplicate Email',
+    INVALID_DATE: 'Invalid Date',
+    PERCENTAGE_OUT_OF_RANGE: 'Percentage Out of Range',
+    INVALID_NUMBER: 'Invalid Number',
+    UNKNOWN_GRADE: 'Unknown Grade'
+};
+
+// Returns the reasons a strict-mode import must be refused (empty = accepted).
+export const evaluateStrictMode = (report: IngestionReport, thresholds: StrictModeThresholds): string[] => {
+    const reasons: string[] = [];
+    const errorPct = report.totalRows > 0 ? (report.errorRows / report.totalRows) * 100 : 0;
+
+    if (errorPct > thresholds.maxErrorRowsPct) {
+        reasons.push(`${errorPct.toFixed(2)}% of rows have errors (limit ${thresholds.maxErrorRowsPct}%).`);
+    }
+    if (report.skippedRows > thresholds.maxSkippedRows) {
+        reasons.push(`${report.skippedRows} rows were skipped (limit ${thresholds.maxSkippedRows}).`);
+    }
+    return reasons;
+};
+
+export const downloadIssuesCsv = (report: IngestionReport, sourceFileName: string) => {
+    const headers = ['Row', 'Column', 'Field', 'Severity', 'Issue', 'Value', 'Message'];
+    const rows = report.issues.map(i => [i.row, i.column, i.field, i.severity, ISSUE_LABELS[i.code], i.value, i.message]);
+    const baseName = sourceFileName.replace(/\.[^.]+$/, '');
+    downloadCsv(`${baseName}_validation_errors.csv`, headers, rows);
+};
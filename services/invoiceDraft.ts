@@ -0,0 +1,171 @@
+import { BillingExclusionPolicy, CertificationBillingStatus, CommunityAgreement, DeveloperRecord, FraudReview, Invoice, InvoiceCertificationLine, InvoiceLineItem, InvoiceStatus } from '../types';
+import { flagSourcesOf } from './fraudRules';
+import { reviewId } from './fraudReview';
+import { addDays, billingPeriodFor, contractCoverage } from './billingPeriod';
+
+// Splits a partner's certifications of a billing period into billable, excluded (confirmed or
+// unambiguous fraud) and held (flagged, awaiting review) for per-certification invoices. Held
+// certifications are not lost: once their flags are dismissed they become billable in a later draft.
+
+export const DEFAULT_BILLING_EXCLUSIONS: BillingExclusionPolicy = {
+    excludedRuleIds: ['bot-activity', 'known-fraud-link']
+};
+
+export const resolveBillingExclusions = (agreement?: CommunityAgreement): BillingExclusionPolicy => ({
+    ...DEFAULT_BILLING_EXCLUSIONS,
+    ...agreement?.billingExclusions
+});
+
+// Agreement the invoice was drafted from; older invoices fall back to the partner's active agreement
+export const agreementForInvoice = (invoice: Invoice, agreements: CommunityAgreement[]): CommunityAgreement | undefined =>
+    agreements.find(a => a.id === invoice.agreementId)
+    || agreements.find(a => a.partnerCode === invoice.partnerCode && a.isActive)
+    || agreements.find(a => a.partnerCode === invoice.partnerCode);
+
+const PAYMENT_TERM_DAYS: Record<CommunityAgreement['paymentTerms'], number> = {
+    'Due on Receipt': 0,
+    'Net 15': 15,
+    'Net 30': 30
+};
+
+// Due date under the agreement's payment terms, counted from the issue date (Net 30 when unset, as on the PDF)
+export const dueDateFor = (issueDate: string, agreement?: CommunityAgreement): string =>
+    addDays(issueDate, PAYMENT_TERM_DAYS[agreement?.paymentTerms || 'Net 30']);
+
+export const CERTIFICATION_STATUS_LABELS: Record<CertificationBillingStatus, string> = {
+    Billable: 'Billable',
+    Excluded: 'Excluded (confirmed fraud)',
+    Held: 'Held (under review)'
+};
+
+const classify = (
+    record: DeveloperRecord,
+    reviewsById: Map<string, FraudReview>,
+    policy: BillingExclusionPolicy,
+    holdRiskScore: number
+): { status: CertificationBillingStatus; reason: string } => {
+    const reviews = flagSourcesOf(record)
+        .map(s => ({ source: s, review: reviewsById.get(reviewId(record.id, s.ruleId)) }));
+    const active = reviews.filter(r => r.review?.decision !== 'Dismissed');
+
+    const confirmed = reviews.filter(r => r.review?.decision === 'Confirmed');
+    if (confirmed.length > 0) return { status: 'Excluded', reason: `Confirmed fraud: ${confirmed.map(r => r.source.flag).join(', ')}` };
+
+    const autoExcluded = active.filter(r => policy.excludedRuleIds.includes(r.source.ruleId));
+    if (autoExcluded.length > 0) return { status: 'Excluded', reason: `Excluded by agreement: ${autoExcluded.map(r => r.source.flag).join(', ')}` };
+
+    const escalated = active.filter(r => r.review?.decision === 'Escalated');
+    if (escalated.length > 0) return { status: 'Held', reason: `Escalated: ${escalated.map(r => r.source.flag).join(', ')}` };
+
+    const pending = active.filter(r => !r.review);
+    if (pending.length > 0 && (record.computed_riskScore || 0) >= holdRiskScore) {
+        return { status: 'Held', reason: `Pending review: ${pending.map(r => r.source.flag).join(', ')}` };
+    }
+    return { status: 'Billable', reason: '' };
+};
+
+// Certifications (Pass) of the partner completed between the two dates (inclusive, 'YYYY-MM-DD')
+export const classifyCertifications = (
+    records: DeveloperRecord[],
+    partnerCode: string,
+    from: string,
+    to: string,
+    reviews: FraudReview[],
+    policy: BillingExclusionPolicy,
+    riskScoreThreshold: number
+): InvoiceCertificationLine[] => {
+    const reviewsById = new Map(reviews.map(r => [r.id, r]));
+    const holdRiskScore = policy.holdRiskScore ?? riskScoreThreshold;
+    return records
+        .filter(r => r.partnerCode === partnerCode && r.finalGrade === 'Pass' && r.completedAt && r.completedAt.slice(0, 10) >= from && r.completedAt.slice(0, 10) <= to)
+        .map(r => ({
+            developerId: r.id,
+            email: r.email,
+            name: `${r.firstName} ${r.lastName}`.trim(),
+            completedAt: r.completedAt!,
+            riskScore: r.computed_riskScore || 0,
+            flags: r.computed_riskFlags || [],
+            ...classify(r, reviewsById, policy, holdRiskScore)
+        }))
+        .sort((a, b) => a.completedAt.localeCompare(b.completedAt));
+};
+
+// One line per status present; only billable certifications carry the unit price
+export const certificationLineItems = (lines: InvoiceCertificationLine[], unitPrice: number, period: string): InvoiceLineItem[] => {
+    const count = (status: CertificationBillingStatus) => lines.filter(l => l.status === status).length;
+    const billable = count('Billable');
+    const items: InvoiceLineItem[] = [
+        { id: `i_${Date.now()}`, description: `Certifications (${period})`, quantity: billable, unitPrice, total: billable * unitPrice, certificationStatus: 'Billable' }
+    ];
+    (['Excluded', 'Held'] as CertificationBillingStatus[]).forEach(status => {
+        const quantity = count(status);
+        if (quantity === 0) return;
+        const description = status === 'Excluded' ? 'Excluded certifications, confirmed fraud' : 'Held certifications, under review';
+        items.push({ id: `i_${Date.now()}_${status.toLowerCase()}`, description: `${description} (${period})`, quantity, unitPrice: 0, total: 0, certificationStatus: status });
+    });
+    return items;
+};
+
+export interface InvoiceDraftInput {
+    partnerCode: string;
+    month: string; // 'YYYY-MM'; the draft covers the agreement's cycle period containing it
+    agreements: CommunityAgreement[];
+    records: DeveloperRecord[];
+    reviews: FraudReview[];
+    riskScoreThreshold: number;
+}
+
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100;
+
+// Throws when the partner has no active agreement or the agreement is not in effect during the
+// period: nothing is billed without a contract
+export const generateInvoiceDraft = ({ partnerCode, month, agreements, records, reviews, riskScoreThreshold }: InvoiceDraftInput): Invoice => {
+    const active = agreements.filter(a => a.partnerCode === partnerCode && a.isActive);
+    if (active.length === 0) throw new Error(`${partnerCode} has no active agreement. Add one under Partners & Agreements before invoicing.`);
+
+    const candidates = active
+        .map(agreement => {
+            const period = billingPeriodFor(agreement.billingCycle, month);
+            return { agreement, period, coverage: contractCoverage(agreement, period) };
+        })
+        .filter(c => c.coverage);
+    if (candidates.length === 0) {
+        const windows = active.map(a => `${a.startDate} → ${a.endDate || 'ongoing'}`).join(', ');
+        throw new Error(`${month} is outside the contract window of ${partnerCode} (${windows}).`);
+    }
+    const { agreement, period, coverage } = candidates[0];
+
+    let items: InvoiceLineItem[];
+    let certificationBreakdown: InvoiceCertificationLine[] | undefined;
+    if (agreement.paymentModel === 'Fixed_Recurring') {
+        // The fee is per cycle; partial periods at either end of the contract are prorated by day
+        const prorated = coverage!.days < period.days;
+        const amount = prorated ? roundAmount(agreement.unitPrice * coverage!.days / period.days) : agreement.unitPrice;
+        const description = prorated
+            ? `Fixed Fee (${period.key}, prorated ${coverage!.days}/${period.days} days: ${coverage!.start} to ${coverage!.end})`
+            : `Fixed Fee (${period.key})`;
+        items = [{ id: `i_${Date.now()}`, description, quantity: 1, unitPrice: amount, total: amount }];
+    } else {
+        // Flagged certifications are split out: excluded ones are never billed, held ones wait for review
+        certificationBreakdown = classifyCertifications(records, partnerCode, coverage!.start, coverage!.end, reviews, resolveBillingExclusions(agreement), riskScoreThreshold);
+        items = certificationLineItems(certificationBreakdown, agreement.unitPrice, period.key);
+    }
+
+    const subtotal = items.reduce((acc, item) => acc + item.total, 0);
+    const issueDate = new Date().toISOString().split('T')[0];
+    return {
+        id: `INV-${partnerCode}-${Date.now()}`,
+        invoiceNumber: '', // Issued when the draft is sent, see invoiceNumbering.ts
+        partnerCode,
+        agreementId: agreement.id,
+        billingPeriod: period.key,
+        periodStart: coverage!.start,
+        periodEnd: coverage!.end,
+        issueDate,
+        dueDate: dueDateFor(issueDate, agreement),
+        currency: agreement.currency,
+        items, subtotal, taxRate: 0, taxAmount: 0, totalAmount: subtotal,
+        status: InvoiceStatus.DRAFT, notes: '', publicMemo: `Services for ${period.key}`,
+        certificationBreakdown
+    };
+};
@@ -0,0 +1,145 @@
+import { Invoice, InvoiceDocumentType, InvoiceLineItem, InvoiceStatus, InvoiceStatusChange } from '../types';
+import { invoiceLabel } from './invoiceNumbering';
+
+// Only drafts can be edited. Once issued, an invoice only moves through the status transitions
+// below, and mistakes are corrected with a credit note (cancels all or part of the amount) or an
+// amendment (replacement invoice that voids the original when issued). Every status change is
+// appended to the invoice's history.
+
+export const DOCUMENT_TYPE_LABELS: Record<InvoiceDocumentType, string> = {
+    Invoice: 'Invoice',
+    Credit_Note: 'Credit Note',
+    Amendment: 'Amended Invoice'
+};
+
+export const INVOICE_STATUS_TRANSITIONS: Record<InvoiceStatus, InvoiceStatus[]> = {
+    [InvoiceStatus.DRAFT]: [InvoiceStatus.SENT],
+    [InvoiceStatus.SENT]: [InvoiceStatus.PAID, InvoiceStatus.OVERDUE, InvoiceStatus.VOID],
+    [InvoiceStatus.OVERDUE]: [InvoiceStatus.PAID, InvoiceStatus.VOID],
+    [InvoiceStatus.PAID]: [],
+    [InvoiceStatus.VOID]: []
+};
+
+export const documentTypeOf = (invoice: Invoice): InvoiceDocumentType => invoice.documentType || 'Invoice';
+
+export const isEditable = (invoice: Invoice) => invoice.status === InvoiceStatus.DRAFT;
+
+// Invoices saved before the history existed get a single entry for their current status
+export const statusHistoryOf = (invoice: Invoice): InvoiceStatusChange[] =>
+    invoice.statusHistory && invoice.statusHistory.length > 0
+        ? invoice.statusHistory
+        : [{ status: invoice.status, at: invoice.issueDate, by: 'Unknown', note: 'Recorded before status history' }];
+
+// New document: the history starts with its Draft entry
+export const startHistory = (invoice: Invoice, by: string, note?: string): Invoice => ({
+    ...invoice,
+    status: InvoiceStatus.DRAFT,
+    statusHistory: [{ status: InvoiceStatus.DRAFT, at: new Date().toISOString(), by, note }]
+});
+
+// Throws on a transition the lifecycle does not allow
+export const changeInvoiceStatus = (invoice: Invoice, status: InvoiceStatus, by: string, note?: string): Invoice => {
+    if (!INVOICE_STATUS_TRANSITIONS[invoice.status].includes(status)) {
+        throw new Error(`${invoiceLabel(invoice)} cannot go from ${invoice.status} to ${status}.`);
+    }
+    const change: InvoiceStatusChange = { status, at: new Date().toISOString(), by, note };
+    return { ...invoice, status, statusHistory: [...statusHistoryOf(invoice), change] };
+};
+
+// Issued credit notes count against the original; drafts and voided ones do not
+export const creditedAmount = (original: Invoice, invoices: Invoice[]) =>
+    invoices
+        .filter(i => i.correctionOf === original.id && documentTypeOf(i) === 'Credit_Note' && i.status !== InvoiceStatus.DRAFT && i.status !== InvoiceStatus.VOID)
+        .reduce((acc, i) => acc - i.totalAmount, 0);
+
+const correctionBase = (original: Invoice, documentType: InvoiceDocumentType, reason: string): Invoice => {
+    const stamp = Date.now();
+    return {
+        ...original,
+        id: `${documentType === 'Credit_Note' ? 'CN' : 'AMD'}-${original.partnerCode}-${stamp}`,
+        invoiceNumber: '',
+        documentType,
+        correctionOf: original.id,
+        correctionOfNumber: original.invoiceNumber,
+        correctionReason: reason,
+        issueDate: new Date().toISOString().split('T')[0],
+        items: original.items.map((item, idx) => ({ ...item, id: `i_${stamp}_${idx}` })),
+        notes: '',
+        paidAt: undefined,
+        transactionReference: undefined,
+        payments: undefined,
+        billingRunId: undefined
+    };
+};
+
+// Draft credit note for the amount of the original not yet credited: its line items negated, or a
+// single line for the rest after an earlier partial credit. Lower the quantities before issuing it
+// for a partial credit.
+export const createCreditNote = (original: Invoice, invoices: Invoice[], by: string, reason: string): Invoice => {
+    if (original.status === InvoiceStatus.DRAFT) throw new Error('Drafts are corrected by editing them, not with a credit note.');
+    if (original.status === InvoiceStatus.VOID) throw new Error(`${invoiceLabel(original)} is void and cannot be credited.`);
+    if (documentTypeOf(original) === 'Credit_Note') throw new Error('A credit note cannot be credited.');
+    const remaining = original.totalAmount - creditedAmount(original, invoices);
+    if (remaining <= 0) throw new Error(`${invoiceLabel(original)} is already fully credited.`);
+
+    const base = correctionBase(original, 'Credit_Note', reason);
+    const restNet = Math.round(remaining / (1 + original.taxRate / 100) * 100) / 100;
+    const items: InvoiceLineItem[] = remaining < original.totalAmount
+        ? [{ id: `i_${Date.now()}`, description: `Credit: remaining balance of invoice ${original.invoiceNumber}`, quantity: 1, unitPrice: -restNet, total: -restNet }]
+        : base.items
+            .filter(item => item.total !== 0)
+            .map(item => ({ ...item, description: `Credit: ${item.description}`, unitPrice: -item.unitPrice, total: -item.total, certificationStatus: undefined }));
+    const subtotal = items.reduce((acc, item) => acc + item.total, 0);
+    const taxAmount = subtotal * (original.taxRate / 100);
+    return startHistory({
+        ...base, items, subtotal, taxAmount, totalAmount: subtotal + taxAmount,
+        publicMemo: `Credit note for invoice ${original.invoiceNumber}${reason ? `: ${reason}` : ''}`,
+        certificationBreakdown: undefined
+    }, by, `Credit note for ${original.invoiceNumber}`);
+};
+
+// Draft replacement of an unpaid invoice; issuing it voids the original
+export const createAmendment = (original: Invoice, invoices: Invoice[], by: string, reason: string): Invoice => {
+    if (original.status !== InvoiceStatus.SENT && original.status !== InvoiceStatus.OVERDUE) {
+        throw new Error(`Only unpaid issued invoices can be amended; ${invoiceLabel(original)} is ${original.status}. Use a credit note instead.`);
+    }
+    if (documentTypeOf(original) === 'Credit_Note') throw new Error('Credit notes cannot be amended.');
+    const pending = invoices.find(i => i.correctionOf === original.id && documentTypeOf(i) === 'Amendment' && i.status === InvoiceStatus.DRAFT);
+    if (pending) throw new Error(`${invoiceLabel(original)} already has a draft amendment.`);
+    if (creditedAmount(original, invoices) > 0) throw new Error(`${invoiceLabel(original)} has been partly credited; correct it with another credit note.`);
+
+    return startHistory({
+        ...correctionBase(original, 'Amendment', reason),
+        publicMemo: `${original.publicMemo}${original.publicMemo ? '\n' : ''}Replaces invoice ${original.invoiceNumber}${reason ? `: ${reason}` : ''}`
+    }, by, `Amendment of ${original.invoiceNumber}`);
+};
+
+// Error message when the draft correction can no longer be issued against its original, or null
+export const validateCorrection = (document: Invoice, invoices: Invoice[]): string | null => {
+    if (!document.correctionOf) return null;
+    const original = invoices.find(i => i.id === document.correctionOf);
+    if (!original) return `The corrected invoice ${document.correctionOfNumber || document.correctionOf} no longer exists.`;
+    if (original.status === InvoiceStatus.VOID) return `${invoiceLabel(original)} is void; it cannot be corrected anymore.`;
+    if (documentTypeOf(document) === 'Credit_Note') {
+        if (document.totalAmount >= 0) return 'A credit note must have a negative total.';
+        const remaining = original.totalAmount - creditedAmount(original, invoices);
+        if (-document.totalAmount > remaining + 0.01) return `The credit exceeds the ${remaining.toLocaleString()} ${original.currency} left on ${invoiceLabel(original)}.`;
+    } else if (original.status !== InvoiceStatus.SENT && original.status !== InvoiceStatus.OVERDUE) {
+        return `${invoiceLabel(original)} is ${original.status}; only unpaid invoices can be amended.`;
+    }
+    return null;
+};
+
+// Update to the original once a correction is issued: an amendment voids it, and so does a
+// credit note that cancels what is still unpaid of it. Paid invoices keep their status (the
+// credit is refunded or offset).
+export const originalAfterCorrection = (document: Invoice, invoices: Invoice[], by: string): Invoice | null => {
+    const original = invoices.find(i => i.id === document.correctionOf);
+    if (!original || !INVOICE_STATUS_TRANSITIONS[original.status].includes(InvoiceStatus.VOID)) return null;
+    if (documentTypeOf(document) === 'Amendment') {
+        return changeInvoiceStatus(original, InvoiceStatus.VOID, by, `Replaced by ${document.invoiceNumber}`);
+    }
+    const credited = creditedAmount(original, invoices.filter(i => i.id !== document.id)) - document.totalAmount;
+    if (credited < original.totalAmount - 0.01) return null;
+    return changeInvoiceStatus(original, InvoiceStatus.VOID, by, `Fully credited by ${document.invoiceNumber}`);
+};
@@ -0,0 +1,125 @@
+import { CommunityAgreement, Invoice, InvoiceSequence, InvoiceSeries, WorkspaceSettings } from '../types';
+import { dueDateFor } from './invoiceDraft';
+
+// Invoice numbers are issued when an invoice leaves Draft, from one counter per fiscal year and
+// series (invoices, credit notes), so deleted drafts never leave gaps. The counter and the numbered
+// invoice are written in one transaction (see InvoiceSequenceRepository.issue). Counters only move
+// forward and voided invoices keep their number: a number is never handed out twice. Numbering
+// settings that would issue a taken number are rejected, not skipped past, so counters stay gap-free.
+
+export const INVOICE_PATTERN_TOKENS = ['{prefix}', '{year}', '{yy}', '{partner}', '{seq}', '{seq:N}'];
+
+const SEQ_TOKEN = /\{seq(?::(\d+))?\}/g;
+
+// Error message, or null when the pattern can be used. Counters restart every fiscal year, so the
+// year must be part of the number for it to stay unique.
+export const validateInvoicePattern = (pattern: string): string | null => {
+    const unknown = (pattern.match(/\{[^}]*\}/g) || []).filter(t => !/^\{(prefix|year|yy|partner|seq(:\d+)?)\}$/.test(t));
+    if (unknown.length > 0) return `Unknown token ${unknown[0]}.`;
+    if ((pattern.match(SEQ_TOKEN) || []).length !== 1) return 'The pattern needs exactly one {seq} counter.';
+    if (!pattern.includes('{year}') && !pattern.includes('{yy}')) return 'The pattern needs {year} or {yy}: counters restart every fiscal year.';
+    return null;
+};
+
+// Fiscal years are named after the calendar year they start in
+export const fiscalYearOf = (date: string, startMonth: number) => {
+    const year = Number(date.slice(0, 4));
+    return Number(date.slice(5, 7)) >= startMonth ? year : year - 1;
+};
+
+export const formatInvoiceNumber = (pattern: string, values: { prefix: string; fiscalYear: number; partnerCode: string; sequence: number }) =>
+    pattern
+        .replace(/\{prefix\}/g, values.prefix)
+        .replace(/\{year\}/g, String(values.fiscalYear))
+        .replace(/\{yy\}/g, String(values.fiscalYear).slice(-2))
+        .replace(/\{partner\}/g, values.partnerCode.toUpperCase().replace(/[^A-Z0-9]/g, ''))
+        .replace(SEQ_TOKEN, (_, width) => String(values.sequence).padStart(Number(width) || 1, '0'));
+
+// Pattern and prefixes together: the two series only stay apart through their prefix
+export const validateInvoiceNumbering = (settings: Pick<WorkspaceSettings, 'invoiceNumberPattern' | 'invoiceNumberPrefix' | 'creditNotePrefix'>): string | null => {
+    const error = validateInvoicePattern(settings.invoiceNumberPattern);
+    if (error) return error;
+    if (!settings.invoiceNumberPattern.includes('{prefix}')) return 'The pattern needs {prefix}: invoices and credit notes are counted separately.';
+    if (settings.invoiceNumberPrefix === settings.creditNotePrefix) return 'Invoices and credit notes need different prefixes.';
+    return null;
+};
+
+const prefixOf = (series: InvoiceSeries, settings: Pick<WorkspaceSettings, 'invoiceNumberPrefix' | 'creditNotePrefix'>) =>
+    series === 'Credit_Note' ? settings.creditNotePrefix : settings.invoiceNumberPrefix;
+
+// Counter value the pattern turns into `invoiceNumber`, or null when it can't produce it
+const sequenceOfNumber = (invoiceNumber: string, pattern: string, values: { prefix: string; fiscalYear: number; partnerCode: string }): number | null => {
+    const [before, after] = pattern.split(/\{seq(?::\d+)?\}/);
+    const head = formatInvoiceNumber(before, { ...values, sequence: 0 });
+    const tail = formatInvoiceNumber(after, { ...values, sequence: 0 });
+    if (!invoiceNumber.startsWith(head) || !invoiceNumber.endsWith(tail)) return null;
+    const digits = invoiceNumber.slice(head.length, invoiceNumber.length - tail.length);
+    if (!/^\d+$/.test(digits)) return null;
+    const sequence = Number(digits);
+    return formatInvoiceNumber(pattern, { ...values, sequence }) === invoiceNumber ? sequence : null;
+};
+
+// Error message when the stored counters would run into a number already on an invoice under these
+// settings (e.g. a prefix or pattern used before), or null. Checks the fiscal year of `today` and
+// any later year with a counter.
+export const findNumberingCollision = (
+    settings: Pick<WorkspaceSettings, 'invoiceNumberPattern' | 'invoiceNumberPrefix' | 'creditNotePrefix' | 'fiscalYearStartMonth'>,
+    sequences: InvoiceSequence[],
+    invoices: Invoice[],
+    today: string
+): string | null => {
+    const currentYear = fiscalYearOf(today, settings.fiscalYearStartMonth);
+    const years = new Set([currentYear, ...sequences.map(s => s.fiscalYear).filter(y => y > currentYear)]);
+    for (const fiscalYear of years) {
+        for (const series of ['Invoice', 'Credit_Note'] as InvoiceSeries[]) {
+            const lastNumber = sequences.find(s => s.id === sequenceIdOf(series, fiscalYear))?.lastNumber || 0;
+            const prefix = prefixOf(series, settings);
+            const clash = invoices.find(i => i.invoiceNumber && (sequenceOfNumber(i.invoiceNumber, settings.invoiceNumberPattern, { prefix, fiscalYear, partnerCode: i.partnerCode }) || 0) > lastNumber);
+            if (clash) return `${clash.invoiceNumber} is already taken and would be issued again. Use a prefix or pattern that has not been used before.`;
+        }
+    }
+    return null;
+};
+
+export const seriesOf = (invoice: Invoice): InvoiceSeries => invoice.documentType === 'Credit_Note' ? 'Credit_Note' : 'Invoice';
+
+export const sequenceIdOf = (series: InvoiceSeries, fiscalYear: number) =>
+    series === 'Credit_Note' ? `credit-note-${fiscalYear}` : String(fiscalYear);
+
+// Counter the invoice is numbered from when issued on `issueDate`
+export const invoiceSequenceId = (invoice: Invoice, settings: WorkspaceSettings, issueDate: string) =>
+    sequenceIdOf(seriesOf(invoice), fiscalYearOf(issueDate, settings.fiscalYearStartMonth));
+
+// Numbers the draft from `current`, the counter as stored inside the issuing transaction, and dates
+// it `issueDate`, due under the agreement's payment terms. Returns the advanced counter to write alongside.
+// Throws on unusable numbering settings, including ones that give a number already taken.
+export const issueInvoiceNumber = (
+    invoice: Invoice,
+    settings: WorkspaceSettings,
+    current: InvoiceSequence | null,
+    invoices: Invoice[],
+    issueDate: string,
+    agreement?: CommunityAgreement
+): { invoice: Invoice; sequence: InvoiceSequence } => {
+    const error = validateInvoiceNumbering(settings);
+    if (error) throw new Error(`Invoice numbering is misconfigured: ${error}`);
+
+    const series = seriesOf(invoice);
+    const fiscalYear = fiscalYearOf(issueDate, settings.fiscalYearStartMonth);
+    const taken = new Set(invoices.filter(i => i.id !== invoice.id).map(i => i.invoiceNumber));
+
+    // A number already on another invoice (e.g. after a pattern change) is neither duplicated nor
+    // skipped: the transaction fails and the counter stays where it is
+    const sequence = (current?.lastNumber || 0) + 1;
+    const invoiceNumber = formatInvoiceNumber(settings.invoiceNumberPattern, { prefix: prefixOf(series, settings), fiscalYear, partnerCode: invoice.partnerCode, sequence });
+    if (taken.has(invoiceNumber)) throw new Error(`${invoiceNumber} is already used by another invoice. Change the numbering prefix or pattern under Invoice Settings.`);
+
+    return {
+        invoice: { ...invoice, invoiceNumber, issueDate, dueDate: dueDateFor(issueDate, agreement) },
+        sequence: { id: sequenceIdOf(series, fiscalYear), series, fiscalYear, lastNumber: sequence, updatedAt: new Date().toISOString() }
+    };
+};
+
+// How an invoice is referred to before it has a number
+export const invoiceLabel = (invoice: Invoice) =>
+    invoice.invoiceNumber || `Draft ${invoice.documentType === 'Credit_Note' ? 'credit note ' : ''}${invoice.partnerCode} ${invoice.billingPeriod}`;
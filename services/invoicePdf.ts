@@ -0,0 +1,201 @@
+import { CommunityAgreement, Currency, Invoice, InvoiceStatus, PaymentMethod, WorkspaceSettings } from '../types';
+import { createPdfDocument, PAGE_HEIGHT, PAGE_WIDTH } from './pdfDocument';
+import { invoiceLabel } from './invoiceNumbering';
+import { DOCUMENT_TYPE_LABELS, documentTypeOf } from './invoiceLifecycle';
+
+// Renders an invoice as the PDF sent to the partner. Issuer branding and the accounts payments go
+// to come from the workspace settings; billing address, tax ID and preferred payment method come
+// from the agreement the invoice was drafted from.
+
+const MARGIN = 48;
+const RIGHT = PAGE_WIDTH - MARGIN;
+const FOOTER_TOP = PAGE_HEIGHT - 56;
+const TEXT = '#0f172a';
+const MUTED = '#64748b';
+const RULE = '#e2e8f0';
+
+const formatAmount = (amount: number, currency: Currency) =>
+    `${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ${currency}`;
+
+// Without an agreement, crypto currencies are paid on-chain and fiat by bank transfer
+export const paymentMethodFor = (invoice: Invoice, agreement?: CommunityAgreement): PaymentMethod =>
+    agreement?.preferredMethod || (invoice.currency === 'HBAR' || invoice.currency === 'USDC' ? 'Crypto_Wallet' : 'Bank_Transfer');
+
+export const invoicePdfFileName = (invoice: Invoice) => `${invoiceLabel(invoice).replace(/[^A-Za-z0-9-]+/g, '-')}.pdf`;
+
+export const renderInvoicePdf = (invoice: Invoice, agreement: CommunityAgreement | undefined, settings: WorkspaceSettings): Uint8Array => {
+    const documentType = documentTypeOf(invoice);
+    const isCreditNote = documentType === 'Credit_Note';
+    const pdf = createPdfDocument(`${DOCUMENT_TYPE_LABELS[documentType]} ${invoiceLabel(invoice)}`);
+    const accent = settings.invoiceAccentColor || '#2a00ff';
+    const reference = invoice.invoiceNumber || invoiceLabel(invoice);
+    let y = 0;
+
+    // Moves to a new page when the next block does not fit above the footer
+    const ensureSpace = (height: number) => {
+        if (y + height <= FOOTER_TOP - 12) return false;
+        pdf.addPage();
+        pdf.rect(0, 0, PAGE_WIDTH, 6, accent);
+        y = MARGIN;
+        return true;
+    };
+
+    const paragraph = (value: string, x: number, width: number, size = 9, color = TEXT) => {
+        pdf.wrapText(value, width, size).forEach(line => {
+            ensureSpace(size + 4);
+            pdf.text(x, y, line, { size, color });
+            y += size + 4;
+        });
+    };
+
+    const sectionTitle = (title: string) => {
+        ensureSpace(40);
+        pdf.text(MARGIN, y, title.toUpperCase(), { size: 8, bold: true, color: MUTED });
+        y += 14;
+    };
+
+    // --- Header: issuer on the left, invoice details on the right ---
+    pdf.rect(0, 0, PAGE_WIDTH, 6, accent);
+    pdf.text(MARGIN, 56, settings.invoiceIssuerName, { size: 18, bold: true, color: accent });
+    let left = 74;
+    [
+        ...settings.invoiceIssuerAddress.split(/\r?\n/),
+        settings.invoiceIssuerEmail,
+        settings.invoiceIssuerTaxId ? `Tax ID: ${settings.invoiceIssuerTaxId}` : ''
+    ].filter(l => l.trim()).forEach(l => { pdf.text(MARGIN, left, l.trim(), { size: 9, color: MUTED }); left += 13; });
+
+    const isDraft = invoice.status === InvoiceStatus.DRAFT;
+    const title = DOCUMENT_TYPE_LABELS[documentType].toUpperCase();
+    pdf.text(RIGHT, 56, isDraft ? `DRAFT ${title}` : title, { size: 20, bold: true, color: TEXT, align: 'right' });
+    let right = 78;
+    [
+        [isCreditNote ? 'Credit Note No.' : 'Invoice No.', invoice.invoiceNumber || 'Not issued'],
+        ...(invoice.correctionOfNumber ? [[isCreditNote ? 'Credits Invoice' : 'Replaces Invoice', invoice.correctionOfNumber]] : []),
+        ['Issue Date', invoice.issueDate],
+        ...(isCreditNote ? [] : [['Due Date', invoice.dueDate]]),
+        ['Period', invoice.periodStart ? `${invoice.billingPeriod} (${invoice.periodStart} to ${invoice.periodEnd})` : invoice.billingPeriod]
+    ].forEach(([label, value]) => {
+        pdf.text(RIGHT - 190, right, label, { size: 9, color: MUTED });
+        pdf.text(RIGHT, right, value, { size: 9, bold: true, color: TEXT, align: 'right' });
+        right += 14;
+    });
+    if (invoice.status === InvoiceStatus.VOID) pdf.text(RIGHT, right + 4, 'VOID', { size: 14, bold: true, color: '#dc2626', align: 'right' });
+
+    // --- Bill to / terms ---
+    y = Math.max(left, right) + 24;
+    pdf.line(MARGIN, y - 12, RIGHT, y - 12, RULE);
+    const blockTop = y;
+    pdf.text(MARGIN, y, 'BILL TO', { size: 8, bold: true, color: MUTED });
+    y += 15;
+    pdf.text(MARGIN, y, agreement?.partnerName || invoice.partnerCode, { size: 11, bold: true, color: TEXT });
+    y += 14;
+    [
+        agreement?.contactName ? `Attn: ${agreement.contactName}` : '',
+        ...(agreement?.billingAddress || '').split(/\r?\n/),
+        agreement?.taxId ? `Tax ID: ${agreement.taxId}` : '',
+        agreement?.contactEmail || ''
+    ].filter(l => l.trim()).forEach(l => { pdf.text(MARGIN, y, l.trim(), { size: 9, color: TEXT }); y += 13; });
+
+    let terms = blockTop;
+    pdf.text(RIGHT - 190, terms, 'PAYMENT TERMS', { size: 8, bold: true, color: MUTED });
+    terms += 15;
+    [
+        ['Terms', agreement?.paymentTerms || 'Net 30'],
+        ['Currency', invoice.currency],
+        ['Partner Code', invoice.partnerCode]
+    ].forEach(([label, value]) => {
+        pdf.text(RIGHT - 190, terms, label, { size: 9, color: MUTED });
+        pdf.text(RIGHT, terms, value, { size: 9, bold: true, color: TEXT, align: 'right' });
+        terms += 14;
+    });
+    y = Math.max(y, terms) + 20;
+
+    // --- Line items ---
+    const columns = { qty: 340, price: 430 };
+    const tableHeader = () => {
+        pdf.rect(MARGIN, y - 12, RIGHT - MARGIN, 18, '#f1f5f9');
+        pdf.text(MARGIN + 6, y, 'Description', { size: 8, bold: true, color: MUTED });
+        pdf.text(columns.qty, y, 'Qty', { size: 8, bold: true, color: MUTED, align: 'right' });
+        pdf.text(columns.price, y, 'Unit Price', { size: 8, bold: true, color: MUTED, align: 'right' });
+        pdf.text(RIGHT - 6, y, 'Amount', { size: 8, bold: true, color: MUTED, align: 'right' });
+        y += 20;
+    };
+    tableHeader();
+    invoice.items.forEach(item => {
+        const lines = pdf.wrapText(item.description || '-', columns.qty - MARGIN - 50, 9);
+        if (ensureSpace(lines.length * 12 + 8)) tableHeader();
+        pdf.text(columns.qty, y, item.quantity.toLocaleString('en-US'), { size: 9, color: TEXT, align: 'right' });
+        pdf.text(columns.price, y, formatAmount(item.unitPrice, invoice.currency), { size: 9, color: TEXT, align: 'right' });
+        pdf.text(RIGHT - 6, y, formatAmount(item.total, invoice.currency), { size: 9, bold: true, color: TEXT, align: 'right' });
+        lines.forEach(l => { pdf.text(MARGIN + 6, y, l, { size: 9, color: TEXT }); y += 12; });
+        y += 4;
+        pdf.line(MARGIN, y - 8, RIGHT, y - 8, RULE);
+    });
+
+    // --- Totals ---
+    ensureSpace(70);
+    y += 8;
+    const totalsLabel = RIGHT - 190;
+    pdf.text(totalsLabel, y, 'Subtotal', { size: 9, color: MUTED });
+    pdf.text(RIGHT - 6, y, formatAmount(invoice.subtotal, invoice.currency), { size: 9, color: TEXT, align: 'right' });
+    y += 15;
+    pdf.text(totalsLabel, y, `Tax (${invoice.taxRate}%)`, { size: 9, color: MUTED });
+    pdf.text(RIGHT - 6, y, formatAmount(invoice.taxAmount, invoice.currency), { size: 9, color: TEXT, align: 'right' });
+    y += 10;
+    pdf.line(totalsLabel, y, RIGHT, y, RULE);
+    y += 18;
+    pdf.text(totalsLabel, y, isCreditNote ? 'Total Credit' : 'Total Due', { size: 12, bold: true, color: TEXT });
+    pdf.text(RIGHT - 6, y, formatAmount(invoice.totalAmount, invoice.currency), { size: 12, bold: true, color: accent, align: 'right' });
+    y += 30;
+
+    const breakdown = invoice.certificationBreakdown || [];
+    if (breakdown.length > 0) {
+        const count = (status: string) => breakdown.filter(l => l.status === status).length;
+        paragraph(`Certifications in this period: ${count('Billable')} billed, ${count('Held')} held for review, ${count('Excluded')} excluded as fraudulent. Held certifications are billed on a later invoice once cleared.`, MARGIN, RIGHT - MARGIN, 8, MUTED);
+        y += 10;
+    }
+
+    if (invoice.publicMemo.trim()) {
+        sectionTitle('Memo');
+        paragraph(invoice.publicMemo, MARGIN, RIGHT - MARGIN);
+        y += 12;
+    }
+
+    // --- Payment instructions (credit notes are refunded or offset instead) ---
+    const total = formatAmount(invoice.totalAmount, invoice.currency);
+    if (isCreditNote) {
+        sectionTitle('Settlement');
+        paragraph(`${formatAmount(-invoice.totalAmount, invoice.currency)} is credited to your account and will be refunded or offset against your next invoice. Please quote ${reference} in any correspondence.`, MARGIN, RIGHT - MARGIN);
+    } else if (paymentMethodFor(invoice, agreement) === 'Crypto_Wallet') {
+        sectionTitle('Payment Instructions');
+        paragraph(`Transfer ${total} on the Hedera network to account ${settings.invoicePayToWallet || '(to be confirmed by the issuer)'}.`, MARGIN, RIGHT - MARGIN);
+        paragraph(`Transaction memo: ${reference}`, MARGIN, RIGHT - MARGIN);
+        if (agreement?.walletAddress) paragraph(`Please pay from your registered wallet ${agreement.walletAddress} so the payment can be matched to this invoice.`, MARGIN, RIGHT - MARGIN, 9, MUTED);
+    } else {
+        sectionTitle('Payment Instructions');
+        paragraph(`Transfer ${total} by bank transfer to:`, MARGIN, RIGHT - MARGIN);
+        paragraph(settings.invoicePayToBankDetails || '(bank details to be confirmed by the issuer)', MARGIN + 12, RIGHT - MARGIN - 12);
+        paragraph(`Payment reference: ${reference}`, MARGIN, RIGHT - MARGIN);
+        if (agreement?.bankDetails) paragraph(`Account on file for ${agreement.partnerName}: ${agreement.bankDetails}`, MARGIN, RIGHT - MARGIN, 9, MUTED);
+    }
+    if (!isCreditNote) paragraph(`Payment is due ${agreement?.paymentTerms === 'Due on Receipt' ? 'on receipt' : `by ${invoice.dueDate}`}.`, MARGIN, RIGHT - MARGIN);
+
+    // --- Footer on every page ---
+    const pages = pdf.pageCount();
+    for (let i = 0; i < pages; i++) {
+        pdf.goToPage(i);
+        pdf.line(MARGIN, FOOTER_TOP, RIGHT, FOOTER_TOP, RULE);
+        if (settings.invoiceFooter) pdf.text(MARGIN, FOOTER_TOP + 16, settings.invoiceFooter, { size: 8, color: MUTED });
+        pdf.text(RIGHT, FOOTER_TOP + 16, `${reference} | Page ${i + 1} of ${pages}`, { size: 8, color: MUTED, align: 'right' });
+    }
+
+    return pdf.toBytes();
+};
+
+export const downloadInvoicePdf = (invoice: Invoice, agreement: CommunityAgreement | undefined, settings: WorkspaceSettings) => {
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(new Blob([renderInvoicePdf(invoice, agreement, settings)], { type: 'application/pdf' }));
+    link.download = invoicePdfFileName(invoice);
+    link.click();
+    URL.revokeObjectURL(link.href);
+};
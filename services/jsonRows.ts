@@ -0,0 +1,55 @@
+// Flattens JSON / NDJSON objects into the same header + string[] row model the CSV tokenizer
+// produces, so every format goes through one mapping & validation path.
+
+const cellText = (v: unknown): string => {
+    if (v === null || v === undefined) return '';
+    if (typeof v === 'object') return JSON.stringify(v);
+    return String(v).trim();
+};
+
+// Headers are the union of keys in first-seen order. New keys are appended to the same array,
+// so column indices already handed out (e.g. by the mapping wizard) stay valid.
+export const createRowCollector = () => {
+    const headers: string[] = [];
+    const indexByKey = new Map<string, number>();
+
+    const toRow = (obj: Record<string, unknown>): string[] => {
+        Object.keys(obj).forEach(key => {
+            if (!indexByKey.has(key)) {
+                indexByKey.set(key, headers.length);
+                headers.push(key);
+            }
+        });
+        const row = new Array<string>(headers.length).fill('');
+        Object.entries(obj).forEach(([key, value]) => { row[indexByKey.get(key)!] = cellText(value); });
+        return row;
+    };
+
+    return { headers, toRow };
+};
+
+const isPlainObject = (v: unknown): v is Record<string, unknown> =>
+    typeof v === 'object' && v !== null && !Array.isArray(v);
+
+// Accepts a top-level array, or an API envelope such as { "data": [...] }
+export const extractJsonRecords = (parsed: unknown): Record<string, unknown>[] => {
+    let list: unknown = parsed;
+    if (isPlainObject(parsed)) {
+        list = Object.values(parsed).find(v => Array.isArray(v) && v.some(isPlainObject));
+    }
+    if (!Array.isArray(list)) throw new Error("JSON file must contain an array of developer objects.");
+    return list.filter(isPlainObject);
+};
+
+export const parseNdjsonLine = (line: string, lineNumber: number): Record<string, unknown> | null => {
+    const trimmed = line.trim();
+    if (!trimmed) return null;
+    let value: unknown;
+    try {
+        value = JSON.parse(trimmed);
+    } catch {
+        throw new Error(`Line ${lineNumber} is not valid JSON.`);
+    }
+    if (!isPlainObject(value)) throw new Error(`Line ${lineNumber} is not a JSON object.`);
+    return value;
+};
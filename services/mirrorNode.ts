@@ -0,0 +1,74 @@
+import { MirrorNodeAccount } from '../types';
+import { MIRROR_NODE_FIXTURE } from './mirrorNodeFixture';
+
+// Pluggable Hedera mirror-node client. Chosen at build time with MIRROR_NODE in .env.local:
+// 'mainnet' (default), 'testnet', a mirror-node base URL, or 'fixture' for the offline stub.
+
+export interface MirrorNodeClient {
+    source: string; // Recorded with the results, so a switch of client invalidates them
+    // Resolves exists: false for unknown accounts; rejects when the lookup itself failed
+    lookupAccount: (wallet: string) => Promise<MirrorNodeAccount>;
+}
+
+// /api/v1/transactions response: the fields read when importing payments. Amounts are in
+// tinybars, token amounts in the token's smallest unit; debits are negative.
+export interface MirrorTransfer {
+    account: string;
+    amount: number;
+}
+
+export interface MirrorTokenTransfer extends MirrorTransfer {
+    token_id: string;
+}
+
+export interface MirrorTransaction {
+    transaction_id: string;
+    consensus_timestamp: string; // "seconds.nanoseconds"
+    result?: string; // 'SUCCESS' for applied transactions
+    memo_base64?: string;
+    transfers?: MirrorTransfer[];
+    token_transfers?: MirrorTokenTransfer[];
+}
+
+export interface MirrorTransactionsResponse {
+    transactions: MirrorTransaction[];
+}
+
+const PUBLIC_MIRROR_NODES: Record<string, string> = {
+    mainnet: 'https://mainnet-public.mirrornode.hedera.com',
+    testnet: 'https://testnet.mirrornode.hedera.com'
+};
+
+// Mirror-node timestamps are "seconds.nanoseconds"
+export const mirrorTimestampToIso = (timestamp: string | null | undefined) => {
+    const seconds = Number((timestamp || '').split('.')[0]);
+    return seconds > 0 ? new Date(seconds * 1000).toISOString() : undefined;
+};
+
+export const createHttpMirrorNodeClient = (baseUrl: string, fetchFn: typeof fetch = (input, init) => fetch(input, init)): MirrorNodeClient => {
+    const root = baseUrl.replace(/\/+$/, '');
+    return {
+        source: root,
+        lookupAccount: async (wallet) => {
+            const response = await fetchFn(`${root}/api/v1/accounts/${encodeURIComponent(wallet)}?transactions=false`);
+            if (response.status === 404) return { wallet, exists: false };
+            if (!response.ok) throw new Error(`Mirror node answered ${response.status} for ${wallet}`);
+            const body = await response.json();
+            return { wallet, exists: true, accountId: body.account, createdAt: mirrorTimestampToIso(body.created_timestamp) };
+        }
+    };
+};
+
+// Offline stub: wallets in the fixture exist, everything else does not
+export const createFixtureMirrorNodeClient = (fixture: MirrorNodeAccount[] = MIRROR_NODE_FIXTURE): MirrorNodeClient => {
+    const byWallet = new Map(fixture.map(a => [a.wallet, a]));
+    return {
+        source: 'fixture',
+        lookupAccount: async (wallet) => byWallet.get(wallet) || { wallet, exists: false }
+    };
+};
+
+export const createMirrorNodeClient = (setting = process.env.MIRROR_NODE || 'mainnet'): MirrorNodeClient => {
+    if (setting === 'fixture') return createFixtureMirrorNodeClient();
+    return createHttpMirrorNodeClient(PUBLIC_MIRROR_NODES[setting] || setting);
+};
@@ -0,0 +1,13 @@
+import { MirrorNodeAccount } from '../types';
+
+// Accounts known to the offline mirror-node stub (MIRROR_NODE=fixture). Keys are canonical wallets
+// as produced by classifyWallet. Add entries here to exercise the wallet signals without network.
+export const MIRROR_NODE_FIXTURE: MirrorNodeAccount[] = [
+    { wallet: '0.0.2', exists: true, accountId: '0.0.2', createdAt: '2019-09-13T21:50:00.000Z' },
+    { wallet: '0.0.98', exists: true, accountId: '0.0.98', createdAt: '2019-09-13T21:50:00.000Z' },
+    { wallet: '0.0.12345', exists: true, accountId: '0.0.12345', createdAt: '2020-03-02T14:21:07.000Z' },
+    { wallet: '0.0.4515756', exists: true, accountId: '0.0.4515756', createdAt: '2024-01-15T09:12:44.000Z' },
+    { wallet: '0.0.5005001', exists: true, accountId: '0.0.5005001', createdAt: '2024-06-03T10:05:00.000Z' },
+    { wallet: '0.0.5005002', exists: true, accountId: '0.0.5005002', createdAt: '2024-06-03T10:06:30.000Z' },
+    { wallet: '0x8f2c5a3d1e7b4c6a9f0e1d2c3b4a59687766554a', exists: true, accountId: '0.0.4620001', createdAt: '2024-02-20T16:40:10.000Z' }
+];
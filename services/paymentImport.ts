@@ -0,0 +1,306 @@
+import { ImportedPayment, PaymentSource, SlashDateOrder } from '../types';
+import { findIndex, normalizeHeader } from './csvMapping';
+import { classifyWallet } from './hederaWallet';
+import { MirrorTransaction, MirrorTransactionsResponse, MirrorTransfer, mirrorTimestampToIso } from './mirrorNode';
+
+// Reads incoming payments for reconciliation: bank statement CSVs, CAMT.053 (ISO 20022) XML
+// statements and HBAR / USDC transfers to the workspace's receiving account, either as a mirror
+// node /api/v1/transactions response or as a CSV export. Only credits are kept. Statements are
+// small, so files are read whole on the main thread.
+
+export const PAYMENT_SOURCE_LABELS: Record<PaymentSource, string> = {
+    Bank_CSV: 'Bank Statement (CSV)',
+    CAMT_053: 'Bank Statement (CAMT.053 XML)',
+    Hedera: 'HBAR / USDC Transfers'
+};
+
+// USDC token ids (6 decimals) on mainnet and testnet
+const USDC_TOKEN_IDS = ['0.0.456858', '0.0.429274'];
+const USDC_DECIMALS = 6;
+const TINYBARS_PER_HBAR = 1e8;
+
+const BANK_COLUMNS = {
+    date: ['booking date', 'value date', 'date', 'transaction date', 'posting date'],
+    amount: ['amount', 'credit', 'credit amount', 'received'],
+    currency: ['currency', 'ccy'],
+    reference: ['payment reference', 'reference', 'remittance information', 'description', 'details', 'memo', 'purpose'],
+    payer: ['counterparty', 'counterparty name', 'payer', 'sender', 'name', 'from'],
+    id: ['transaction id', 'bank reference', 'transaction reference', 'id']
+};
+
+const TRANSFER_COLUMNS = {
+    date: ['consensus timestamp', 'timestamp', 'date', 'time'],
+    amount: ['amount', 'value'],
+    currency: ['token', 'currency', 'asset', 'token id'],
+    reference: ['memo', 'transaction memo', 'reference'],
+    payer: ['from', 'sender', 'payer', 'from account'],
+    to: ['to', 'receiver', 'to account', 'recipient'],
+    id: ['transaction id', 'transaction hash', 'id']
+};
+
+// Small RFC 4180 reader: quoted fields may hold delimiters, "" and newlines
+const readCsvRows = (text: string): string[][] => {
+    const firstLine = text.slice(0, text.indexOf('\n') === -1 ? undefined : text.indexOf('\n'));
+    const delimiter = [';', '\t', ','].find(d => firstLine.split(d).length > firstLine.split(',').length) || ',';
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') { field += '"'; i++; }
+            else if (char === '"') inQuotes = false;
+            else field += char;
+        } else if (char === '"') inQuotes = true;
+        else if (char === delimiter) { row.push(field.trim()); field = ''; }
+        else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(field.trim());
+            if (row.some(c => c !== '')) rows.push(row);
+            row = [];
+            field = '';
+        } else field += char;
+    }
+    row.push(field.trim());
+    if (row.some(c => c !== '')) rows.push(row);
+    return rows;
+};
+
+// "1,234.56", "1.234,56", "1234,56", "€ 1 234.56", "(12.00)" -> number; NaN when unreadable
+export const parseAmount = (raw: string): number => {
+    let value = (raw || '').replace(/[^\d,.\-()]/g, '');
+    const negative = value.startsWith('-') || value.startsWith('(');
+    value = value.replace(/[-()]/g, '');
+    const lastComma = value.lastIndexOf(',');
+    const lastDot = value.lastIndexOf('.');
+    if (lastComma > lastDot) {
+        // Comma is the decimal separator unless it groups thousands ("1,234")
+        value = value.length - lastComma - 1 === 3 && lastDot === -1 && value.indexOf(',') === lastComma
+            ? value.replace(/,/g, '')
+            : value.replace(/\./g, '').replace(',', '.');
+    } else {
+        value = value.replace(/,/g, '');
+    }
+    const amount = value === '' ? NaN : Number(value);
+    return negative ? -amount : amount;
+};
+
+export const SLASH_DATE_ORDER_LABELS: Record<SlashDateOrder, string> = {
+    DMY: 'DD/MM/YYYY',
+    MDY: 'MM/DD/YYYY'
+};
+
+// 'YYYY-MM-DD', or '' when the parts are not a calendar date
+const isoDay = (year: number, month: number, day: number) => {
+    const d = new Date(Date.UTC(year < 100 ? 2000 + year : year, month - 1, day));
+    return d.getUTCMonth() === month - 1 && d.getUTCDate() === day ? d.toISOString().slice(0, 10) : '';
+};
+
+// Statement dates as written, without going through the local time zone: ISO (a time part is
+// ignored), YYYYMMDD, DD.MM.YYYY, and slashed or dashed day/month dates in the order the statement
+// uses. Unrecognised formats give ''.
+export const parseStatementDate = (raw: string, slashOrder: SlashDateOrder): string => {
+    const value = raw.trim();
+    let m = value.match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})(?:[T\s]|$)/) || value.match(/^(\d{4})(\d{2})(\d{2})$/);
+    if (m) return isoDay(Number(m[1]), Number(m[2]), Number(m[3]));
+    m = value.match(/^(\d{1,2})\.(\d{1,2})\.(\d{2}|\d{4})(?:\s|$)/);
+    if (m) return isoDay(Number(m[3]), Number(m[2]), Number(m[1]));
+    m = value.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{2}|\d{4})(?:\s|$)/);
+    if (m) {
+        const [first, second, year] = [Number(m[1]), Number(m[2]), Number(m[3])];
+        return slashOrder === 'DMY' ? isoDay(year, second, first) : isoDay(year, first, second);
+    }
+    return '';
+};
+
+// A credit must not disappear because its date was read in the wrong order
+const unreadableDate = (raw: string, slashOrder: SlashDateOrder) =>
+    new Error(`Unreadable date "${raw}" on a credit line. Check the date order (${SLASH_DATE_ORDER_LABELS[slashOrder]} is selected).`);
+
+// Stable id for statement lines without a transaction id, so a re-import is recognised
+const fallbackId = (source: PaymentSource, date: string, amount: number, reference: string) =>
+    `${source}:${date}:${amount.toFixed(2)}:${reference.toLowerCase().replace(/\s+/g, ' ').slice(0, 60)}`;
+
+const columnIndexes = <K extends string>(headers: string[], candidates: Record<K, string[]>): Record<K, number> => {
+    const claimed = new Set<number>();
+    const result = {} as Record<K, number>;
+    (Object.keys(candidates) as K[]).forEach(key => {
+        const idx = findIndex(headers, candidates[key], claimed);
+        if (idx !== -1) claimed.add(idx);
+        result[key] = idx;
+    });
+    return result;
+};
+
+export const parseBankStatementCsv = (text: string, slashOrder: SlashDateOrder): ImportedPayment[] => {
+    const [header, ...rows] = readCsvRows(text);
+    if (!header) throw new Error('The statement is empty.');
+    const headers = header.map(normalizeHeader);
+    const col = columnIndexes(headers, BANK_COLUMNS);
+    if (col.date === -1 || col.amount === -1) throw new Error('The statement needs a date and an amount column (e.g. "Booking Date" and "Amount").');
+
+    const cell = (row: string[], idx: number) => (idx === -1 ? '' : row[idx] || '');
+    return rows
+        .map((row): ImportedPayment | null => {
+            const amount = parseAmount(cell(row, col.amount));
+            const date = parseStatementDate(cell(row, col.date), slashOrder);
+            if (!(amount > 0)) return null; // Debits and lines without an amount
+            if (!date) throw unreadableDate(cell(row, col.date), slashOrder);
+            const reference = cell(row, col.reference);
+            return {
+                id: cell(row, col.id) || fallbackId('Bank_CSV', date, amount, reference),
+                source: 'Bank_CSV',
+                date,
+                amount,
+                currency: cell(row, col.currency).toUpperCase(),
+                reference,
+                payer: cell(row, col.payer)
+            };
+        })
+        .filter((p): p is ImportedPayment => p !== null);
+};
+
+const xmlText = (xml: string, tag: string) => {
+    const m = xml.match(new RegExp(`<(?:\\w+:)?${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:\\w+:)?${tag}>`));
+    return m ? decodeXmlEntities(m[1].replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim()) : '';
+};
+
+const xmlAll = (xml: string, tag: string) =>
+    Array.from(xml.matchAll(new RegExp(`<(?:\\w+:)?${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:\\w+:)?${tag}>`, 'g'))).map(m => m[1]);
+
+const decodeXmlEntities = (s: string) => s
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+
+// Bank-generated XML with a fixed layout: scanned with regular expressions like the xlsx reader.
+// One payment per credit entry (<Ntry> with CRDT); batch entries are taken as a single payment.
+export const parseCamt053 = (xml: string): ImportedPayment[] => {
+    if (!/<(?:\w+:)?BkToCstmrStmt[\s>]/.test(xml)) throw new Error('Not a CAMT.053 statement (no BkToCstmrStmt element).');
+    return xmlAll(xml, 'Ntry')
+        .filter(entry => /<(?:\w+:)?CdtDbtInd>\s*CRDT\s*</.test(entry.replace(/<(?:\w+:)?TxDtls[\s\S]*$/, '')))
+        .map((entry): ImportedPayment | null => {
+            const amountMatch = entry.match(/<(?:\w+:)?Amt\s+Ccy="([A-Z]{3})"\s*>([^<]+)</);
+            const amount = amountMatch ? Number(amountMatch[2].trim()) : NaN;
+            const booking = xmlAll(entry, 'BookgDt')[0] || xmlAll(entry, 'ValDt')[0] || '';
+            const date = (xmlText(booking, 'Dt') || xmlText(booking, 'DtTm')).slice(0, 10);
+            if (!(amount > 0) || !date) return null;
+            const reference = [...xmlAll(entry, 'Ustrd').map(decodeXmlEntities), xmlText(xmlAll(entry, 'CdtrRefInf')[0] || '', 'Ref')]
+                .map(r => r.trim()).filter(Boolean).join(' ') || xmlText(entry, 'AddtlNtryInf');
+            return {
+                id: xmlText(entry, 'AcctSvcrRef') || xmlText(entry, 'EndToEndId') || fallbackId('CAMT_053', date, amount, reference),
+                source: 'CAMT_053',
+                date,
+                amount,
+                currency: amountMatch ? amountMatch[1] : '',
+                reference,
+                payer: xmlText(xmlAll(entry, 'Dbtr')[0] || '', 'Nm')
+            };
+        })
+        .filter((p): p is ImportedPayment => p !== null);
+};
+
+const decodeMemo = (memoBase64: string | undefined) => {
+    if (!memoBase64) return '';
+    try {
+        return new TextDecoder().decode(Uint8Array.from(atob(memoBase64), c => c.charCodeAt(0)));
+    } catch {
+        return '';
+    }
+};
+
+// The sender is the account debited the most
+const senderOf = (transfers: MirrorTransfer[]) => {
+    const debits = transfers.filter(t => t.amount < 0).sort((a, b) => a.amount - b.amount);
+    return debits.length > 0 ? classifyWallet(String(debits[0].account)).canonical : '';
+};
+
+const creditedTo = (transfers: MirrorTransfer[], account: string) =>
+    transfers.filter(t => classifyWallet(String(t.account)).canonical === account && t.amount > 0).reduce((acc, t) => acc + t.amount, 0);
+
+// Mirror node transactions: HBAR credited to the account, and USDC token transfers to it
+const parseMirrorTransactions = (body: MirrorTransactionsResponse | MirrorTransaction[], receivingAccount: string): ImportedPayment[] => {
+    const transactions = Array.isArray(body) ? body : body?.transactions;
+    if (!Array.isArray(transactions)) throw new Error('Expected a mirror node transactions response ({"transactions": [...]}).');
+    const payments: ImportedPayment[] = [];
+    transactions
+        .filter(tx => !tx.result || tx.result === 'SUCCESS')
+        .forEach(tx => {
+            const base = {
+                source: 'Hedera' as PaymentSource,
+                date: (mirrorTimestampToIso(tx.consensus_timestamp) || '').slice(0, 10),
+                reference: decodeMemo(tx.memo_base64)
+            };
+            const usdc = (tx.token_transfers || []).filter(t => USDC_TOKEN_IDS.includes(t.token_id));
+            const usdcAmount = creditedTo(usdc, receivingAccount) / 10 ** USDC_DECIMALS;
+            // Node and network fees are tiny credits to other accounts; only the receiving account counts
+            const hbarAmount = creditedTo(tx.transfers || [], receivingAccount) / TINYBARS_PER_HBAR;
+
+            if (usdcAmount > 0) {
+                const from = senderOf(usdc);
+                payments.push({ ...base, id: `${tx.transaction_id}:USDC`, amount: usdcAmount, currency: 'USDC', payer: from, wallet: from });
+            } else if (hbarAmount > 0) {
+                const from = senderOf(tx.transfers || []);
+                payments.push({ ...base, id: tx.transaction_id, amount: hbarAmount, currency: 'HBAR', payer: from, wallet: from });
+            }
+        });
+    return payments.filter(p => p.date);
+};
+
+// Transfer exports (one transfer per row); rows to other accounts are dropped when there is a 'to' column
+const parseTransferCsv = (text: string, receivingAccount: string, slashOrder: SlashDateOrder): ImportedPayment[] => {
+    const [header, ...rows] = readCsvRows(text);
+    if (!header) throw new Error('The transfer list is empty.');
+    const headers = header.map(normalizeHeader);
+    const col = columnIndexes(headers, TRANSFER_COLUMNS);
+    if (col.date === -1 || col.amount === -1) throw new Error('The transfer list needs a date (or timestamp) and an amount column.');
+
+    const cell = (row: string[], idx: number) => (idx === -1 ? '' : row[idx] || '');
+    return rows
+        .map((row): ImportedPayment | null => {
+            if (col.to !== -1 && receivingAccount && classifyWallet(cell(row, col.to)).canonical !== receivingAccount) return null;
+            const amount = parseAmount(cell(row, col.amount));
+            const rawDate = cell(row, col.date);
+            const date = /^\d+\.\d+$/.test(rawDate) ? (mirrorTimestampToIso(rawDate) || '').slice(0, 10) : parseStatementDate(rawDate, slashOrder);
+            if (!(amount > 0)) return null;
+            if (!date) throw unreadableDate(rawDate, slashOrder);
+            const token = cell(row, col.currency).toUpperCase();
+            const wallet = classifyWallet(cell(row, col.payer)).canonical;
+            const reference = cell(row, col.reference);
+            return {
+                id: cell(row, col.id) || fallbackId('Hedera', date, amount, `${wallet} ${reference}`),
+                source: 'Hedera',
+                date,
+                amount,
+                currency: USDC_TOKEN_IDS.includes(token) || token.includes('USDC') ? 'USDC' : 'HBAR',
+                reference,
+                payer: cell(row, col.payer),
+                wallet: wallet || undefined
+            };
+        })
+        .filter((p): p is ImportedPayment => p !== null);
+};
+
+// Throws with a readable message when the file does not fit the chosen source. `slashOrder` reads
+// ambiguous dates like 05/03/2025 in CSV files; CAMT.053 and mirror node dates are ISO.
+export const parsePayments = (source: PaymentSource, text: string, receivingAccount: string, slashOrder: SlashDateOrder): ImportedPayment[] => {
+    if (source === 'Bank_CSV') return parseBankStatementCsv(text, slashOrder);
+    if (source === 'CAMT_053') return parseCamt053(text);
+
+    const account = classifyWallet(receivingAccount).canonical;
+    const trimmed = text.trim();
+    if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+        if (!account) throw new Error('Set the receiving account under Settings > Invoicing to read mirror node transactions.');
+        let body: MirrorTransactionsResponse | MirrorTransaction[];
+        try {
+            body = JSON.parse(trimmed);
+        } catch {
+            throw new Error('The transfer list is not valid JSON.');
+        }
+        return parseMirrorTransactions(body, account);
+    }
+    return parseTransferCsv(text, account, slashOrder);
+};
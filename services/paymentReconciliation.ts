@@ -0,0 +1,115 @@
+import { CommunityAgreement, ImportedPayment, Invoice, InvoicePayment, InvoiceStatus } from '../types';
+import { classifyWallet } from './hederaWallet';
+import { agreementForInvoice } from './invoiceDraft';
+import { changeInvoiceStatus, creditedAmount, documentTypeOf } from './invoiceLifecycle';
+
+// Proposes which open invoice each imported payment settles, scored on three signals: the
+// invoice number in the payment reference, the partner's registered wallet as sender, and the
+// amount equal to what is still due. Nothing is recorded until the proposals are confirmed.
+
+export type PaymentMatchStatus = 'Matched' | 'Partial' | 'Overpaid' | 'Unmatched' | 'Recorded';
+
+export interface PaymentMatch {
+    payment: ImportedPayment;
+    invoiceId?: string;
+    status: PaymentMatchStatus;
+    reasons: string[]; // Why this invoice, or why none
+    balanceBefore: number; // Outstanding on the invoice before this payment
+}
+
+const TOLERANCE = 0.01;
+
+const normalizeReference = (s: string) => s.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+export const paidAmount = (invoice: Invoice) => (invoice.payments || []).reduce((acc, p) => acc + p.amount, 0);
+
+// Total less issued credit notes and recorded payments
+export const outstandingBalance = (invoice: Invoice, invoices: Invoice[]) =>
+    Math.round((invoice.totalAmount - creditedAmount(invoice, invoices) - paidAmount(invoice)) * 100) / 100;
+
+export const isOpenInvoice = (invoice: Invoice) =>
+    (invoice.status === InvoiceStatus.SENT || invoice.status === InvoiceStatus.OVERDUE) && documentTypeOf(invoice) !== 'Credit_Note';
+
+const statusFor = (amount: number, balance: number): PaymentMatchStatus =>
+    Math.abs(amount - balance) <= TOLERANCE ? 'Matched' : amount < balance ? 'Partial' : 'Overpaid';
+
+// A manual choice in `overrides` (payment id -> invoice id, '' = leave unmatched) wins over the proposal.
+// Payments are taken oldest first and reduce the balance they are matched to, so two transfers
+// for one invoice come out as a partial payment and its settlement.
+export const matchPayments = (
+    payments: ImportedPayment[],
+    invoices: Invoice[],
+    agreements: CommunityAgreement[],
+    overrides: Record<string, string> = {}
+): PaymentMatch[] => {
+    const recorded = new Set(invoices.flatMap(i => (i.payments || []).map(p => p.transactionId)));
+    const open = invoices.filter(isOpenInvoice);
+    const balances = new Map(open.map(i => [i.id, outstandingBalance(i, invoices)]));
+    const wallets = new Map(open.map(i => [i.id, classifyWallet(agreementForInvoice(i, agreements)?.walletAddress || '').canonical]));
+
+    return [...payments]
+        .sort((a, b) => a.date.localeCompare(b.date) || a.id.localeCompare(b.id))
+        .map((payment): PaymentMatch => {
+            if (recorded.has(payment.id)) return { payment, status: 'Recorded', reasons: ['Already recorded on an invoice'], balanceBefore: 0 };
+
+            const settle = (invoice: Invoice, reasons: string[]): PaymentMatch => {
+                const balanceBefore = balances.get(invoice.id) ?? outstandingBalance(invoice, invoices);
+                balances.set(invoice.id, balanceBefore - payment.amount);
+                return { payment, invoiceId: invoice.id, status: statusFor(payment.amount, balanceBefore), reasons, balanceBefore };
+            };
+
+            if (payment.id in overrides) {
+                const chosen = open.find(i => i.id === overrides[payment.id]);
+                return chosen ? settle(chosen, ['Chosen manually']) : { payment, status: 'Unmatched', reasons: ['Left unmatched manually'], balanceBefore: 0 };
+            }
+
+            // Without a currency an amount could match an invoice in any token, so only a manual choice settles it
+            if (!payment.currency) return { payment, status: 'Unmatched', reasons: ['Currency unknown'], balanceBefore: 0 };
+
+            const reference = normalizeReference(payment.reference);
+            const candidates = open
+                .filter(i => i.currency === payment.currency)
+                .filter(i => (balances.get(i.id) || 0) > TOLERANCE)
+                .map(invoice => {
+                    const reasons: string[] = [];
+                    let score = 0;
+                    if (invoice.invoiceNumber && reference.includes(normalizeReference(invoice.invoiceNumber))) { score += 3; reasons.push('Invoice number in reference'); }
+                    if (payment.wallet && payment.wallet === wallets.get(invoice.id)) { score += 2; reasons.push('Partner wallet'); }
+                    if (Math.abs((balances.get(invoice.id) || 0) - payment.amount) <= TOLERANCE) { score += 1; reasons.push('Amount'); }
+                    return { invoice, score, reasons };
+                })
+                .filter(c => c.score > 0)
+                .sort((a, b) => b.score - a.score || a.invoice.dueDate.localeCompare(b.invoice.dueDate));
+
+            if (candidates.length === 0) return { payment, status: 'Unmatched', reasons: ['No open invoice with this reference, wallet or amount'], balanceBefore: 0 };
+            const [best, second] = candidates;
+            // An amount alone is only trusted when a single open invoice has it
+            if (best.score === 1 && second?.score === 1) {
+                return { payment, status: 'Unmatched', reasons: [`${candidates.length} open invoices are due for this amount`], balanceBefore: 0 };
+            }
+            // Wallet or amount alone can't tell two invoices of the same partner apart: the oldest due is settled first
+            return settle(best.invoice, best.reasons);
+        });
+};
+
+// Records the confirmed payments on their invoices; fully paid invoices become Paid
+export const applyPayments = (matches: PaymentMatch[], invoices: Invoice[], by: string): Invoice[] => {
+    const updated = new Map<string, Invoice>();
+    matches
+        .filter(m => m.invoiceId && m.status !== 'Recorded' && m.status !== 'Unmatched')
+        .forEach(({ payment, invoiceId }) => {
+            const invoice = updated.get(invoiceId!) || invoices.find(i => i.id === invoiceId);
+            if (!invoice) return;
+            const record: InvoicePayment = {
+                transactionId: payment.id, source: payment.source, date: payment.date, amount: payment.amount,
+                reference: payment.reference, recordedAt: new Date().toISOString(), recordedBy: by
+            };
+            let next: Invoice = { ...invoice, payments: [...(invoice.payments || []), record] };
+            next.transactionReference = (next.payments || []).map(p => p.transactionId).join(', ');
+            if (isOpenInvoice(next) && outstandingBalance(next, invoices) <= TOLERANCE) {
+                next = changeInvoiceStatus({ ...next, paidAt: payment.date }, InvoiceStatus.PAID, by, `Reconciled with ${payment.id}`);
+            }
+            updated.set(next.id, next);
+        });
+    return Array.from(updated.values());
+};
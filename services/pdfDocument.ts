@@ -0,0 +1,165 @@
+// Minimal PDF 1.4 writer for generated documents. Draws text, lines and filled rectangles on A4
+// pages with the standard Helvetica fonts (WinAnsi encoding, nothing embedded), which every PDF
+// viewer ships. Coordinates are points from the top-left corner of the page; text y is the baseline.
+
+export const PAGE_WIDTH = 595;
+export const PAGE_HEIGHT = 842;
+
+export interface PdfTextOptions {
+    size?: number; // Default 10
+    bold?: boolean;
+    color?: string; // '#rrggbb', default black
+    align?: 'left' | 'right' | 'center'; // Relative to x
+}
+
+export interface PdfDocument {
+    addPage: () => void;
+    goToPage: (index: number) => void; // Later drawing goes to this page (0-based), e.g. for footers
+    pageCount: () => number;
+    text: (x: number, y: number, value: string, options?: PdfTextOptions) => void;
+    line: (x1: number, y1: number, x2: number, y2: number, color?: string, width?: number) => void;
+    rect: (x: number, y: number, width: number, height: number, fill: string) => void;
+    textWidth: (value: string, size?: number, bold?: boolean) => number;
+    wrapText: (value: string, maxWidth: number, size?: number, bold?: boolean) => string[];
+    toBytes: () => Uint8Array;
+}
+
+// Glyph widths (1/1000 em) of characters 32-126, from the Adobe font metrics
+const HELVETICA_WIDTHS = [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+    1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+    333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+    556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+const HELVETICA_BOLD_WIDTHS = [
+    278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+    975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+    333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+    611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+];
+const DEFAULT_WIDTH = 556;
+
+// WinAnsi codes of the characters outside Latin-1 that invoices commonly contain
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+    '€': 128, '…': 133, '‘': 145, '’': 146, '“': 147, '”': 148, '•': 149, '–': 150, '—': 151
+};
+const REPLACEMENTS: Record<string, string> = { '→': '->', '←': '<-', '≥': '>=', '≤': '<=', '\t': ' ' };
+
+// One byte per character; anything the font cannot show becomes '?'
+const encode = (value: string) => Array.from(value)
+    .map(ch => {
+        if (REPLACEMENTS[ch]) return REPLACEMENTS[ch];
+        const code = ch.charCodeAt(0);
+        if ((code >= 32 && code <= 126) || (code >= 160 && code <= 255)) return ch;
+        return WIN_ANSI_EXTRAS[ch] ? String.fromCharCode(WIN_ANSI_EXTRAS[ch]) : '?';
+    })
+    .join('');
+
+const escapeString = (encoded: string) => encoded.replace(/[\\()]/g, m => `\\${m}`);
+
+const rgb = (hex: string) => {
+    const m = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hex.trim());
+    if (!m) return '0 0 0';
+    return [m[1], m[2], m[3]].map(c => (parseInt(c, 16) / 255).toFixed(3)).join(' ');
+};
+
+const num = (n: number) => String(Math.round(n * 100) / 100);
+
+export const createPdfDocument = (title = ''): PdfDocument => {
+    const pages: string[][] = [[]];
+    let pageIndex = 0;
+    const current = () => pages[pageIndex];
+
+    const textWidth = (value: string, size = 10, bold = false) => {
+        const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+        let total = 0;
+        for (const ch of encode(value)) {
+            const code = ch.charCodeAt(0);
+            total += code >= 32 && code <= 126 ? widths[code - 32] : DEFAULT_WIDTH;
+        }
+        return total * size / 1000;
+    };
+
+    // Greedy word wrap; explicit line breaks are kept and over-long words are cut
+    const wrapText = (value: string, maxWidth: number, size = 10, bold = false) => {
+        const lines: string[] = [];
+        value.split(/\r?\n/).forEach(paragraph => {
+            let line = '';
+            paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+                const candidate = line ? `${line} ${word}` : word;
+                if (textWidth(candidate, size, bold) <= maxWidth) {
+                    line = candidate;
+                    return;
+                }
+                if (line) lines.push(line);
+                line = word;
+                while (textWidth(line, size, bold) > maxWidth && line.length > 1) {
+                    let cut = line.length - 1;
+                    while (cut > 1 && textWidth(line.slice(0, cut), size, bold) > maxWidth) cut--;
+                    lines.push(line.slice(0, cut));
+                    line = line.slice(cut);
+                }
+            });
+            lines.push(line);
+        });
+        return lines;
+    };
+
+    const text = (x: number, y: number, value: string, options: PdfTextOptions = {}) => {
+        const { size = 10, bold = false, color = '#000000', align = 'left' } = options;
+        const width = align === 'left' ? 0 : textWidth(value, size, bold);
+        const left = align === 'right' ? x - width : align === 'center' ? x - width / 2 : x;
+        current().push(`BT /${bold ? 'F2' : 'F1'} ${num(size)} Tf ${rgb(color)} rg ${num(left)} ${num(PAGE_HEIGHT - y)} Td (${escapeString(encode(value))}) Tj ET`);
+    };
+
+    const line = (x1: number, y1: number, x2: number, y2: number, color = '#000000', width = 0.5) => {
+        current().push(`${rgb(color)} RG ${num(width)} w ${num(x1)} ${num(PAGE_HEIGHT - y1)} m ${num(x2)} ${num(PAGE_HEIGHT - y2)} l S`);
+    };
+
+    const rect = (x: number, y: number, width: number, height: number, fill: string) => {
+        current().push(`${rgb(fill)} rg ${num(x)} ${num(PAGE_HEIGHT - y - height)} ${num(width)} ${num(height)} re f`);
+    };
+
+    const toBytes = () => {
+        // Objects 1-4 are fixed, then a page and its content stream per page, then the info dictionary
+        const objects: string[] = [];
+        const pageIds = pages.map((_, i) => 5 + i * 2);
+        objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+        objects.push(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+        objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+        objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+        pages.forEach((ops, i) => {
+            const content = ops.join('\n');
+            objects.push(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`);
+            objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+        });
+        objects.push(`<< /Title (${escapeString(encode(title))}) /Producer (Hedera Certification Dashboard) >>`);
+        const infoId = objects.length;
+
+        let out = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+        const offsets: number[] = [];
+        objects.forEach((body, i) => {
+            offsets.push(out.length);
+            out += `${i + 1} 0 obj\n${body}\nendobj\n`;
+        });
+        const xrefOffset = out.length;
+        out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+        out += offsets.map(o => `${String(o).padStart(10, '0')} 00000 n \n`).join('');
+        out += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+        const bytes = new Uint8Array(out.length);
+        for (let i = 0; i < out.length; i++) bytes[i] = out.charCodeAt(i) & 0xff;
+        return bytes;
+    };
+
+    return {
+        addPage: () => { pages.push([]); pageIndex = pages.length - 1; },
+        goToPage: (index: number) => { pageIndex = Math.max(0, Math.min(index, pages.length - 1)); },
+        pageCount: () => pages.length,
+        text, line, rect, textWidth, wrapText, toBytes
+    };
+};
@@ -0,0 +1,145 @@
+import { AdminUser, BillingRun, BlocklistEntry, CommunityAgreement, CommunityEvent, CommunityMasterRecord, DatasetVersion, DeveloperRecord, FraudReview, FraudRule, Invoice, InvoiceSequence, OutreachCampaign, WorkspaceSettings } from '../types';
+
+// Storage-agnostic access to every collection the app owns. Components read and write through
+// these instead of setters drilled down from App; the backend (in-memory or Firestore) is
+// chosen once at startup, see dataBackend.ts.
+
+export interface Repository<T> {
+    list(): Promise<T[]>;
+    get(id: string): Promise<T | null>;
+    save(item: T): Promise<void>; // Insert or replace by key
+    saveMany(items: T[]): Promise<void>;
+    remove(id: string): Promise<void>;
+    replaceAll(items: T[]): Promise<void>;
+    // Called right away with the current items, then after every change. Returns unsubscribe.
+    subscribe(listener: (items: T[]) => void): () => void;
+}
+
+// Issuing an invoice advances its counter and saves the numbered invoice (and, for corrections,
+// the updated original) together: either every write lands or none does.
+export interface InvoiceSequenceRepository extends Repository<InvoiceSequence> {
+    // `build` gets the counter as currently stored (null before its first number) and returns the
+    // advanced counter and the invoices to save with it. It can run more than once if another
+    // admin issues at the same time, so it must not have side effects. Resolves to the saved invoices.
+    issue(sequenceId: string, build: (current: InvoiceSequence | null) => { sequence: InvoiceSequence; invoices: Invoice[] }): Promise<Invoice[]>;
+}
+
+// Developers belong to one dataset version ('batches' collection)
+export interface DeveloperRepository {
+    listForBatch(batchId: string): Promise<DeveloperRecord[]>;
+    saveForBatch(batchId: string, records: DeveloperRecord[]): Promise<void>;
+    deleteForBatch(batchId: string): Promise<void>;
+}
+
+export interface Repositories {
+    developers: DeveloperRepository;
+    batches: Repository<DatasetVersion>; // Versions are returned with their developers in `data`
+    agreements: Repository<CommunityAgreement>;
+    invoices: Repository<Invoice>;
+    events: Repository<CommunityEvent>;
+    campaigns: Repository<OutreachCampaign>;
+    admins: Repository<AdminUser>;
+    registry: Repository<CommunityMasterRecord>;
+    fraudRules: Repository<FraudRule>; // Overrides only: built-in rules apply until edited
+    settings: Repository<WorkspaceSettings>;
+    fraudReviews: Repository<FraudReview>;
+    fraudBlocklist: Repository<BlocklistEntry>;
+    billingRuns: Repository<BillingRun>;
+    invoiceSequences: InvoiceSequenceRepository;
+}
+
+// --- IN-MEMORY IMPLEMENTATION ---
+
+// Keeps object identity for untouched items, so subscribers can cheaply tell what changed.
+export const createMemoryRepository = <T,>(keyOf: (item: T) => string, initial: T[] = []): Repository<T> => {
+    let items = [...initial];
+    const listeners = new Set<(items: T[]) => void>();
+
+    const commit = (next: T[]) => {
+        items = next;
+        listeners.forEach(l => l(items));
+    };
+
+    const upsert = (source: T[], incoming: T[]) => {
+        const next = [...source];
+        const indexByKey = new Map(next.map((item, i) => [keyOf(item), i]));
+        incoming.forEach(item => {
+            const idx = indexByKey.get(keyOf(item));
+            if (idx === undefined) {
+                indexByKey.set(keyOf(item), next.length);
+                next.push(item);
+            } else {
+                next[idx] = item;
+            }
+        });
+        return next;
+    };
+
+    return {
+        list: async () => items,
+        get: async (id) => items.find(i => keyOf(i) === id) || null,
+        save: async (item) => commit(upsert(items, [item])),
+        saveMany: async (incoming) => commit(upsert(items, incoming)),
+        remove: async (id) => commit(items.filter(i => keyOf(i) !== id)),
+        replaceAll: async (next) => commit([...next]),
+        subscribe: (listener) => {
+            listeners.add(listener);
+            listener(items);
+            return () => { listeners.delete(listener); };
+        }
+    };
+};
+
+// Issues run one after another, so each reads the counter the previous one wrote. Both writes are
+// started in the same tick, which the IndexedDB write-through saves in a single transaction.
+const createMemorySequenceRepository = (sequences: Repository<InvoiceSequence>, invoices: Repository<Invoice>): InvoiceSequenceRepository => {
+    let queue: Promise<unknown> = Promise.resolve();
+    return {
+        ...sequences,
+        issue: (sequenceId, build) => {
+            const run = queue.then(async () => {
+                const { sequence, invoices: issued } = build(await sequences.get(sequenceId));
+                await Promise.all([sequences.save(sequence), invoices.saveMany(issued)]);
+                return issued;
+            });
+            queue = run.catch(() => undefined);
+            return run;
+        }
+    };
+};
+
+export const createMemoryRepositories = (seed: Partial<Omit<Repositories, 'developers' | 'invoiceSequences'>> & { invoiceSequences?: Repository<InvoiceSequence> } = {}): Repositories => {
+    const batches = seed.batches || createMemoryRepository<DatasetVersion>(v => v.id);
+    const invoices = seed.invoices || createMemoryRepository<Invoice>(i => i.id);
+
+    // Developers live inside their version object in memory
+    const developers: DeveloperRepository = {
+        listForBatch: async (batchId) => (await batches.get(batchId))?.data || [],
+        saveForBatch: async (batchId, records) => {
+            const version = await batches.get(batchId);
+            if (!version) throw new Error(`Dataset version ${batchId} not found.`);
+            await batches.save({ ...version, data: records, recordCount: records.length });
+        },
+        deleteForBatch: async (batchId) => {
+            const version = await batches.get(batchId);
+            if (version) await batches.save({ ...version, data: [], recordCount: 0 });
+        }
+    };
+
+    return {
+        developers,
+        batches,
+        agreements: seed.agreements || createMemoryRepository<CommunityAgreement>(a => a.id),
+        invoices,
+        events: seed.events || createMemoryRepository<CommunityEvent>(e => e.id),
+        campaigns: seed.campaigns || createMemoryRepository<OutreachCampaign>(c => c.id),
+        admins: seed.admins || createMemoryRepository<AdminUser>(a => a.id),
+        registry: seed.registry || createMemoryRepository<CommunityMasterRecord>(r => r.code),
+        fraudRules: seed.fraudRules || createMemoryRepository<FraudRule>(r => r.id),
+        settings: seed.settings || createMemoryRepository<WorkspaceSettings>(s => s.id),
+        fraudReviews: seed.fraudReviews || createMemoryRepository<FraudReview>(r => r.id),
+        fraudBlocklist: seed.fraudBlocklist || createMemoryRepository<BlocklistEntry>(e => e.id),
+        billingRuns: seed.billingRuns || createMemoryRepository<BillingRun>(r => r.id),
+        invoiceSequences: createMemorySequenceRepository(seed.invoiceSequences || createMemoryRepository<InvoiceSequence>(s => s.id), invoices)
+    };
+};
@@ -0,0 +1,79 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { AdminUser, WorkspaceSettings } from '../types';
+import { Repositories, Repository } from './repository';
+import { resolveWorkspaceSettings } from './workspaceSettings';
+
+const RepositoryContext = createContext<Repositories | null>(null);
+
+export const RepositoryProvider: React.FC<{ repositories: Repositories; children: React.ReactNode }> = ({ repositories, children }) => (
+    <RepositoryContext.Provider value={repositories}>{children}</RepositoryContext.Provider>
+);
+
+export const useRepositories = (): Repositories => {
+    const repositories = useContext(RepositoryContext);
+    if (!repositories) throw new Error('useRepositories must be used inside a RepositoryProvider.');
+    return repositories;
+};
+
+// Live view of a collection: re-renders whenever the repository reports a change
+export const useCollection = <T,>(repository: Repository<T>): T[] => {
+    const [items, setItems] = useState<T[]>([]);
+    useEffect(() => repository.subscribe(setItems), [repository]);
+    return items;
+};
+
+// Current workspace settings (defaults filled in) and a setter that saves a partial update
+export const useWorkspaceSettings = (): [WorkspaceSettings, (changes: Partial<Omit<WorkspaceSettings, 'id'>>) => void] => {
+    const repositories = useRepositories();
+    const stored = useCollection(repositories.settings);
+    const settings = useMemo(() => resolveWorkspaceSettings(stored), [stored]);
+    const saveSettings = useCallback((changes: Partial<Omit<WorkspaceSettings, 'id'>>) => {
+        repositories.settings.save({ ...settings, ...changes }).catch(reportWriteError);
+    }, [repositories, settings]);
+    return [settings, saveSettings];
+};
+
+// Admin recorded as the author of review decisions; remembered per browser
+const REVIEWER_KEY = 'fraudReviewerId';
+
+export const useReviewer = (): { admins: AdminUser[]; reviewer: AdminUser | null; setReviewerId: (id: string) => void } => {
+    const repositories = useRepositories();
+    const admins = useCollection(repositories.admins);
+    const [reviewerId, setReviewerIdState] = useState<string>(() => localStorage.getItem(REVIEWER_KEY) || '');
+    const setReviewerId = useCallback((id: string) => {
+        localStorage.setItem(REVIEWER_KEY, id);
+        setReviewerIdState(id);
+    }, []);
+    return { admins, reviewer: admins.find(a => a.id === reviewerId) || null, setReviewerId };
+};
+
+export interface DataError {
+    title: string;
+    message: string;
+}
+
+const writeErrorListeners = new Set<(error: DataError) => void>();
+
+const notifyDataError = (title: string, err: unknown) => {
+    console.error(title, err);
+    const message = err instanceof Error ? err.message : String(err);
+    writeErrorListeners.forEach(listener => listener({ title, message }));
+};
+
+// For fire-and-forget writes from event handlers: logged, and shown to the user by useWriteError
+export const reportWriteError = (err: unknown) => notifyDataError('Changes could not be saved', err);
+
+// For live subscriptions that failed (e.g. permissions or a lost connection): the collection
+// stops updating, which the user sees through the same banner as failed writes
+export const reportSyncError = (what: string, err: unknown) => notifyDataError(`Could not load ${what}`, err);
+
+// Latest failed write or subscription until dismissed
+export const useWriteError = (): [DataError | null, () => void] => {
+    const [error, setError] = useState<DataError | null>(null);
+    useEffect(() => {
+        writeErrorListeners.add(setError);
+        return () => { writeErrorListeners.delete(setError); };
+    }, []);
+    const dismiss = useCallback(() => setError(null), []);
+    return [error, dismiss];
+};
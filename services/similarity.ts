@@ -0,0 +1,121 @@
+import { DeveloperRecord } from '../types';
+
+// Near-duplicate account detection. Exact roots ("User 1", "User 2") are the batch-pattern rule's
+// job; this catches variants such as "jdoe01" / "j.doe.02" / "johnd0e" by comparing normalised
+// email handles with an edit distance and names token by token.
+//
+// Comparing every pair is quadratic, so records are first bucketed by blocking keys and only
+// records sharing a bucket are compared. A handle is filed under itself and every variant with
+// one character deleted, so any two handles one edit apart always meet in a bucket (further
+// variants meet through the name bucket); names are filed under their sorted tokens.
+
+export interface SimilarityThresholds {
+    emailSimilarity: number; // 0-1, handle similarity that alone marks a near-duplicate
+    nameSimilarity: number; // 0-1, name token overlap that lowers the bar for the handle
+    emailSimilarityWithName: number; // 0-1, handle similarity required when the names match
+    minHandleLength: number; // Shorter handles are too generic to compare
+    maxBucketSize: number; // Larger buckets (very common names) are skipped
+}
+
+// Matched counterparts kept per record, to keep flagged records small
+const MAX_MATCHES = 20;
+
+const LEET: Record<string, string> = { '0': 'o', '1': 'l', '3': 'e', '4': 'a', '5': 's', '7': 't', '@': 'a', '$': 's' };
+
+const deLeet = (str: string) => str.replace(/[013457@$]/g, c => LEET[c]);
+
+// "J.Doe.02+promo@x.com" -> "jdoe", "johnd0e@x.com" -> "johndoe"
+export const emailHandle = (email: string) => {
+    const local = (email || '').toLowerCase().split('@')[0].split('+')[0];
+    return deLeet(local.replace(/[\d\s._-]+$/g, '')).replace(/[^a-z]/g, '');
+};
+
+export const nameTokens = (firstName: string, lastName: string) =>
+    deLeet(`${firstName || ''} ${lastName || ''}`.toLowerCase()).split(/[^a-z]+/).filter(t => t.length > 1);
+
+// Levenshtein distance, giving up (returning max + 1) once it is certain to exceed max
+export const boundedEditDistance = (a: string, b: string, max: number) => {
+    if (Math.abs(a.length - b.length) > max) return max + 1;
+    let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        const curr = [i];
+        let rowMin = i;
+        for (let j = 1; j <= b.length; j++) {
+            curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+            rowMin = Math.min(rowMin, curr[j]);
+        }
+        if (rowMin > max) return max + 1;
+        prev = curr;
+    }
+    return prev[b.length];
+};
+
+// 1 - distance / length of the longer string; 0 when below minSimilarity
+export const stringSimilarity = (a: string, b: string, minSimilarity = 0) => {
+    const len = Math.max(a.length, b.length);
+    if (len === 0) return 0;
+    const max = Math.floor((1 - minSimilarity) * len);
+    const distance = boundedEditDistance(a, b, max);
+    return distance > max ? 0 : 1 - distance / len;
+};
+
+// Share of tokens that match, order-insensitive; tokens one typo apart still match
+export const tokenSimilarity = (a: string[], b: string[]) => {
+    if (a.length === 0 || b.length === 0) return 0;
+    const remaining = [...b];
+    let matched = 0;
+    a.forEach(token => {
+        const i = remaining.findIndex(t => t === token || (Math.min(t.length, token.length) >= 4 && boundedEditDistance(t, token, 1) <= 1));
+        if (i === -1) return;
+        matched++;
+        remaining.splice(i, 1);
+    });
+    return (2 * matched) / (a.length + b.length);
+};
+
+// Counterpart IDs per record that has at least one near-duplicate
+export const findNearDuplicates = (records: DeveloperRecord[], thresholds: SimilarityThresholds): Map<string, string[]> => {
+    const prepared = records.map(r => ({ id: r.id, handle: emailHandle(r.email), tokens: nameTokens(r.firstName, r.lastName) }));
+
+    const buckets = new Map<string, number[]>();
+    const addToBucket = (key: string, index: number) => {
+        if (!buckets.has(key)) buckets.set(key, []);
+        buckets.get(key)!.push(index);
+    };
+    prepared.forEach((p, i) => {
+        if (p.handle.length >= thresholds.minHandleLength) {
+            new Set([p.handle, ...Array.from(p.handle, (_, k) => p.handle.slice(0, k) + p.handle.slice(k + 1))])
+                .forEach(variant => addToBucket(`h:${variant}`, i));
+        }
+        if (p.tokens.length > 0) addToBucket(`n:${[...p.tokens].sort().join(' ')}`, i);
+    });
+
+    const matches = new Map<string, Set<string>>();
+    const addMatch = (a: string, b: string) => {
+        if (!matches.has(a)) matches.set(a, new Set());
+        matches.get(a)!.add(b);
+    };
+
+    buckets.forEach(indexes => {
+        if (indexes.length < 2 || indexes.length > thresholds.maxBucketSize) return;
+        for (let x = 0; x < indexes.length; x++) {
+            for (let y = x + 1; y < indexes.length; y++) {
+                const a = prepared[indexes[x]];
+                const b = prepared[indexes[y]];
+                if (a.id === b.id || matches.get(a.id)?.has(b.id)) continue;
+                if (a.handle.length < thresholds.minHandleLength || b.handle.length < thresholds.minHandleLength) continue;
+
+                const handleSim = stringSimilarity(a.handle, b.handle, Math.min(thresholds.emailSimilarity, thresholds.emailSimilarityWithName));
+                const isDuplicate = handleSim >= thresholds.emailSimilarity
+                    || (handleSim >= thresholds.emailSimilarityWithName && tokenSimilarity(a.tokens, b.tokens) >= thresholds.nameSimilarity);
+                if (!isDuplicate) continue;
+                addMatch(a.id, b.id);
+                addMatch(b.id, a.id);
+            }
+        }
+    });
+
+    const result = new Map<string, string[]>();
+    matches.forEach((ids, id) => result.set(id, Array.from(ids).slice(0, MAX_MATCHES)));
+    return result;
+};
@@ -0,0 +1,108 @@
+import { DashboardMetrics, DatasetVersion, DeveloperRecord, VersionDiff } from '../types';
+import { calculateDashboardMetrics } from './dataProcessing';
+import { normalizeEmail } from './csvMapping';
+import { downloadCsv } from './csvExport';
+
+// Compares two dataset versions developer by developer. Records are matched by normalized
+// email rather than ID, so versions uploaded before stable IDs existed still line up.
+export const diffVersions = (base: DatasetVersion, compare: DatasetVersion, riskScoreThreshold?: number): VersionDiff => {
+    const baseByEmail = new Map<string, DeveloperRecord>();
+    base.data.forEach(r => baseByEmail.set(normalizeEmail(r.email), r));
+
+    const diff: VersionDiff = {
+        baseVersionId: base.id,
+        compareVersionId: compare.id,
+        added: [],
+        removed: [],
+        gradeTransitions: [],
+        progressChanges: [],
+        flagsRaised: [],
+        flagsCleared: [],
+        baseMetrics: calculateDashboardMetrics(base.data, null, null, riskScoreThreshold),
+        compareMetrics: calculateDashboardMetrics(compare.data, null, null, riskScoreThreshold)
+    };
+
+    const seen = new Set<string>();
+    compare.data.forEach(record => {
+        const key = normalizeEmail(record.email);
+        seen.add(key);
+        const previous = baseByEmail.get(key);
+        if (!previous) {
+            diff.added.push(record);
+            return;
+        }
+
+        if (previous.finalGrade !== record.finalGrade) {
+            diff.gradeTransitions.push({ record, from: previous.finalGrade, to: record.finalGrade });
+        }
+        if (previous.percentageCompleted !== record.percentageCompleted) {
+            diff.progressChanges.push({ record, from: previous.percentageCompleted, to: record.percentageCompleted });
+        }
+
+        const before = previous.computed_riskFlags || [];
+        const after = record.computed_riskFlags || [];
+        const raised = after.filter(f => !before.includes(f));
+        const cleared = before.filter(f => !after.includes(f));
+        if (raised.length > 0) diff.flagsRaised.push({ record, flags: raised });
+        if (cleared.length > 0) diff.flagsCleared.push({ record, flags: cleared });
+    });
+
+    base.data.forEach(record => {
+        if (!seen.has(normalizeEmail(record.email))) diff.removed.push(record);
+    });
+
+    return diff;
+};
+
+export type VersionDiffCategory = 'added' | 'removed' | 'gradeTransitions' | 'progressChanges' | 'flagsRaised' | 'flagsCleared';
+
+export const DIFF_CATEGORY_LABELS: Record<VersionDiffCategory, string> = {
+    added: 'New Developers',
+    removed: 'Removed Developers',
+    gradeTransitions: 'Grade Transitions',
+    progressChanges: 'Progress Changes',
+    flagsRaised: 'Risk Flags Raised',
+    flagsCleared: 'Risk Flags Cleared'
+};
+
+// Label, value formatter and "higher is better" for each metric shown in the delta table
+export const DIFF_METRICS: { key: keyof DashboardMetrics; label: string; format: (v: number) => string; higherIsBetter: boolean }[] = [
+    { key: 'totalRegistered', label: 'Total Registered', format: v => v.toLocaleString(), higherIsBetter: true },
+    { key: 'totalCertified', label: 'Total Certified', format: v => v.toLocaleString(), higherIsBetter: true },
+    { key: 'certificationRate', label: 'Certification Rate', format: v => `${v.toFixed(1)}%`, higherIsBetter: true },
+    { key: 'usersStartedCourse', label: 'Started Course', format: v => v.toLocaleString(), higherIsBetter: true },
+    { key: 'activeCommunities', label: 'Active Communities', format: v => v.toLocaleString(), higherIsBetter: true },
+    { key: 'avgCompletionTimeDays', label: 'Avg Completion (Days)', format: v => v.toFixed(1), higherIsBetter: false },
+    { key: 'overallSubscriberRate', label: 'Subscriber Rate', format: v => `${v.toFixed(1)}%`, higherIsBetter: true },
+    { key: 'potentialFakeAccounts', label: 'Potential Fake Accounts', format: v => v.toLocaleString(), higherIsBetter: false },
+    { key: 'rapidCompletions', label: 'Rapid Completions', format: v => v.toLocaleString(), higherIsBetter: false }
+];
+
+const identityColumns = (r: DeveloperRecord) => [r.id, r.email, `${r.firstName} ${r.lastName}`.trim(), r.partnerCode];
+const IDENTITY_HEADERS = ['ID', 'Email', 'Name', 'Partner Code'];
+
+// One CSV per category, named after both versions
+export const exportDiffCategory = (diff: VersionDiff, category: VersionDiffCategory, baseName: string, compareName: string) => {
+    const fileName = `diff_${category}_${baseName}_vs_${compareName}.csv`.replace(/[^\w.-]+/g, '_');
+
+    switch (category) {
+        case 'added':
+        case 'removed':
+            downloadCsv(fileName, [...IDENTITY_HEADERS, 'Country', 'Grade', 'Progress %', 'Risk Flags'],
+                diff[category].map(r => [...identityColumns(r), r.country, r.finalGrade, r.percentageCompleted, r.computed_riskFlags.join('; ')]));
+            break;
+        case 'gradeTransitions':
+            downloadCsv(fileName, [...IDENTITY_HEADERS, 'From Grade', 'To Grade'],
+                diff.gradeTransitions.map(c => [...identityColumns(c.record), c.from, c.to]));
+            break;
+        case 'progressChanges':
+            downloadCsv(fileName, [...IDENTITY_HEADERS, 'From %', 'To %', 'Change'],
+                diff.progressChanges.map(c => [...identityColumns(c.record), c.from, c.to, c.to - c.from]));
+            break;
+        case 'flagsRaised':
+        case 'flagsCleared':
+            downloadCsv(fileName, [...IDENTITY_HEADERS, category === 'flagsRaised' ? 'Flags Raised' : 'Flags Cleared'],
+                diff[category].map(c => [...identityColumns(c.record), c.flags.join('; ')]));
+            break;
+    }
+};
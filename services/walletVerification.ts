@@ -0,0 +1,86 @@
+import { DatasetVersion, DeveloperRecord, MirrorNodeAccount } from '../types';
+import { MirrorNodeClient } from './mirrorNode';
+import { processIngestedData } from './dataProcessing';
+import { FraudRuleContext, resolveFraudRules } from './fraudRules';
+import { walletKey } from './accountClusters';
+
+// Checks a dataset version's wallets against the mirror node, stores existence and creation time
+// on the records and re-runs the fraud rules so the wallet signals (Unknown Wallet, New Wallet)
+// are raised. Results are cached per version: wallets already checked against the same source are
+// not looked up again.
+
+const LOOKUP_CONCURRENCY = 6;
+
+export interface WalletVerificationProgress {
+    done: number;
+    total: number;
+}
+
+// Check in flight (or failed) for one version, as shown in the version history
+export interface WalletCheckStatus extends WalletVerificationProgress {
+    versionId: string;
+    error?: string;
+}
+
+const canonicalWallet = (r: DeveloperRecord) => r.computed_wallet ?? walletKey(r.walletAddress);
+
+// Results already on the version's records, by canonical wallet
+const cachedLookups = (version: DatasetVersion, source: string) => {
+    const cached = new Map<string, MirrorNodeAccount>();
+    if (version.walletVerification?.source !== source) return cached;
+    version.data.forEach(r => {
+        const wallet = canonicalWallet(r);
+        if (wallet && r.computed_walletExists !== undefined) {
+            cached.set(wallet, { wallet, exists: r.computed_walletExists, createdAt: r.computed_walletCreatedAt });
+        }
+    });
+    return cached;
+};
+
+export const applyWalletLookups = (records: DeveloperRecord[], lookups: Map<string, MirrorNodeAccount>): DeveloperRecord[] =>
+    records.map(r => {
+        const account = lookups.get(canonicalWallet(r));
+        if (!account) return { ...r, computed_walletExists: undefined, computed_walletCreatedAt: undefined };
+        return { ...r, computed_walletExists: account.exists, computed_walletCreatedAt: account.createdAt };
+    });
+
+// The version's own ruleset is kept; rules added since it was uploaded run with their defaults
+export const verifyVersionWallets = async (
+    version: DatasetVersion,
+    client: MirrorNodeClient,
+    context: FraudRuleContext = {},
+    onProgress?: (progress: WalletVerificationProgress) => void
+): Promise<DatasetVersion> => {
+    const lookups = cachedLookups(version, client.source);
+    const pending = Array.from(new Set(version.data.map(canonicalWallet).filter(w => w && !lookups.has(w))));
+
+    let next = 0;
+    let done = 0;
+    let failed = 0;
+    onProgress?.({ done, total: pending.length });
+    const worker = async () => {
+        while (next < pending.length) {
+            const wallet = pending[next++];
+            try {
+                lookups.set(wallet, await client.lookupAccount(wallet));
+            } catch (err) {
+                console.error('Mirror node lookup failed', err);
+                failed++;
+            }
+            onProgress?.({ done: ++done, total: pending.length });
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(LOOKUP_CONCURRENCY, pending.length) }, worker));
+
+    if (pending.length > 0 && failed === pending.length) {
+        throw new Error(`The mirror node at ${client.source} could not be reached.`);
+    }
+
+    const fraudRules = resolveFraudRules(version.fraudRules || []);
+    return {
+        ...version,
+        data: processIngestedData(applyWalletLookups(version.data, lookups), fraudRules, context),
+        fraudRules,
+        walletVerification: { source: client.source, checkedAt: new Date().toISOString(), wallets: lookups.size, failed }
+    };
+};
@@ -0,0 +1,34 @@
+import { WorkspaceSettings } from '../types';
+
+// Workspace-wide preferences live in a single document of the 'settings' collection.
+// Missing keys (never saved, or added in a later release) fall back to these defaults.
+
+export const WORKSPACE_SETTINGS_ID = 'workspace';
+
+export const DEFAULT_RISK_SCORE_THRESHOLD = 30;
+
+export const DEFAULT_WORKSPACE_SETTINGS: WorkspaceSettings = {
+    id: WORKSPACE_SETTINGS_ID,
+    riskScoreThreshold: DEFAULT_RISK_SCORE_THRESHOLD,
+    communityFlaggedShareLimit: 20,
+    communitySpeedRunShareLimit: 30,
+    communityOutlierZScore: 3,
+    communityMinDevelopers: 20,
+    invoiceNumberPrefix: 'INV',
+    creditNotePrefix: 'CN',
+    invoiceNumberPattern: '{prefix}-{year}-{seq:4}',
+    fiscalYearStartMonth: 1,
+    invoiceIssuerName: 'Hedera Developer Certification',
+    invoiceIssuerAddress: '',
+    invoiceIssuerEmail: '',
+    invoiceIssuerTaxId: '',
+    invoiceAccentColor: '#2a00ff',
+    invoiceFooter: 'Thank you for growing the Hedera developer community.',
+    invoicePayToWallet: '',
+    invoicePayToBankDetails: ''
+};
+
+export const resolveWorkspaceSettings = (stored: WorkspaceSettings[]): WorkspaceSettings => ({
+    ...DEFAULT_WORKSPACE_SETTINGS,
+    ...stored.find(s => s.id === WORKSPACE_SETTINGS_ID)
+});
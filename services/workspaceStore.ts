@@ -0,0 +1,353 @@
+import { StorageUsage, WorkspaceBackup, WorkspaceCollection, WorkspaceData } from '../types';
+import { DEFAULT_FRAUD_RULES, flagSourcesOf, scoreRiskFlags } from './fraudRules';
+import { assignClusters } from './accountClusters';
+import { classifyWallet } from './hederaWallet';
+
+// Local persistence for the whole workspace. Each collection is an IndexedDB object store;
+// the in-memory repositories are seeded from it at startup and write back on every change
+// (see dataBackend.ts).
+
+const DB_NAME = 'hcp-certification-workspace';
+const META_STORE = 'meta';
+const BACKUP_FORMAT = 'hcp-workspace-backup';
+
+// Key path of each object store: a field of the collection's items
+const COLLECTION_KEYS: { [K in WorkspaceCollection]: keyof WorkspaceData[K][number] & string } = {
+    versions: 'id',
+    invoices: 'id',
+    agreements: 'id',
+    events: 'id',
+    campaigns: 'id',
+    masterRegistry: 'code',
+    admins: 'id',
+    fraudRules: 'id',
+    settings: 'id',
+    fraudReviews: 'id',
+    fraudBlocklist: 'id',
+    billingRuns: 'id',
+    invoiceSequences: 'id'
+};
+
+const COLLECTIONS = Object.keys(COLLECTION_KEYS) as WorkspaceCollection[];
+
+// Stored workspace shape after each schema version that changed it. A migration takes the shape
+// before it and returns the one after, so a step that loses a collection fails to type-check.
+type SchemaV1 = Pick<WorkspaceData, 'versions' | 'activeVersionId' | 'invoices' | 'agreements' | 'events' | 'campaigns' | 'masterRegistry' | 'admins'>;
+type SchemaV3 = SchemaV1 & Pick<WorkspaceData, 'fraudRules'>;
+type SchemaV4 = SchemaV3 & Pick<WorkspaceData, 'settings'>;
+type SchemaV5 = SchemaV4 & Pick<WorkspaceData, 'fraudReviews'>;
+type SchemaV8 = SchemaV5 & Pick<WorkspaceData, 'fraudBlocklist'>;
+type SchemaV9 = SchemaV8 & Pick<WorkspaceData, 'billingRuns'>;
+type SchemaV10 = SchemaV9 & Pick<WorkspaceData, 'invoiceSequences'>;
+
+// Input of a step that adds collection K: backups and re-runs may already carry it
+type Adding<Schema, K extends WorkspaceCollection> = Schema & Partial<Pick<WorkspaceData, K>>;
+
+// The latest shape must be WorkspaceData itself: add a migration along with a new collection
+const LATEST_SCHEMA: [SchemaV10, WorkspaceData] extends [WorkspaceData, SchemaV10] ? true : never = true;
+
+interface Migration<From = unknown, To = unknown> {
+    version: number;
+    description: string;
+    upgradeStores?: (db: IDBDatabase) => void; // Structural change, runs in onupgradeneeded
+    migrateData?(data: From): To; // Also applied to older backup files
+}
+
+// Append only. SCHEMA_VERSION is always the last entry's version.
+const MIGRATIONS: Migration[] = [
+    {
+        version: 1,
+        description: 'Initial collections',
+        upgradeStores: (db) => {
+            (['versions', 'invoices', 'agreements', 'events', 'campaigns', 'masterRegistry', 'admins'] as WorkspaceCollection[])
+                .forEach(name => db.createObjectStore(name, { keyPath: COLLECTION_KEYS[name] }));
+            db.createObjectStore(META_STORE);
+        }
+    },
+    {
+        version: 2,
+        description: 'Dataset versions record their ingestion mode',
+        migrateData: (data: SchemaV1): SchemaV1 => ({ ...data, versions: data.versions.map(v => v.mode ? v : { ...v, mode: 'snapshot' }) })
+    },
+    {
+        version: 3,
+        description: 'Editable fraud rules',
+        upgradeStores: (db) => db.createObjectStore('fraudRules', { keyPath: COLLECTION_KEYS.fraudRules }),
+        migrateData: (data: Adding<SchemaV1, 'fraudRules'>): SchemaV3 => ({ ...data, fraudRules: data.fraudRules || [] })
+    },
+    {
+        version: 4,
+        description: 'Weighted risk scores and workspace settings',
+        upgradeStores: (db) => db.createObjectStore('settings', { keyPath: COLLECTION_KEYS.settings }),
+        // Score existing records with the default weights; new uploads use the configured ones
+        migrateData: (data: Adding<SchemaV3, 'settings'>): SchemaV4 => ({
+            ...data,
+            settings: data.settings || [],
+            versions: data.versions.map(v => ({
+                ...v,
+                data: v.data.map(r => {
+                    if (r.computed_riskScore !== undefined) return r;
+                    const { score, breakdown } = scoreRiskFlags(flagSourcesOf(r), DEFAULT_FRAUD_RULES);
+                    return { ...r, computed_riskScore: score, computed_riskBreakdown: breakdown };
+                })
+            }))
+        })
+    },
+    {
+        version: 5,
+        description: 'Fraud review decisions',
+        upgradeStores: (db) => db.createObjectStore('fraudReviews', { keyPath: COLLECTION_KEYS.fraudReviews }),
+        migrateData: (data: Adding<SchemaV4, 'fraudReviews'>): SchemaV5 => ({ ...data, fraudReviews: data.fraudReviews || [] })
+    },
+    {
+        version: 6,
+        description: 'Linked-account clusters',
+        migrateData: (data: SchemaV5): SchemaV5 => ({ ...data, versions: data.versions.map(v => ({ ...v, data: assignClusters(v.data) })) })
+    },
+    {
+        version: 7,
+        description: 'Wallet classification; wallet clusters use canonical wallets',
+        migrateData: (data: SchemaV5): SchemaV5 => ({
+            ...data,
+            versions: data.versions.map(v => ({
+                ...v,
+                data: assignClusters(v.data.map(r => {
+                    const wallet = classifyWallet(r.walletAddress);
+                    return { ...r, computed_walletType: wallet.type, computed_wallet: wallet.canonical };
+                }))
+            }))
+        })
+    },
+    {
+        version: 8,
+        description: 'Confirmed-fraud blocklist',
+        upgradeStores: (db) => db.createObjectStore('fraudBlocklist', { keyPath: COLLECTION_KEYS.fraudBlocklist }),
+        migrateData: (data: Adding<SchemaV5, 'fraudBlocklist'>): SchemaV8 => ({ ...data, fraudBlocklist: data.fraudBlocklist || [] })
+    },
+    {
+        version: 9,
+        description: 'Billing runs',
+        upgradeStores: (db) => db.createObjectStore('billingRuns', { keyPath: COLLECTION_KEYS.billingRuns }),
+        migrateData: (data: Adding<SchemaV8, 'billingRuns'>): SchemaV9 => ({ ...data, billingRuns: data.billingRuns || [] })
+    },
+    {
+        version: 10,
+        description: 'Invoice number sequences',
+        upgradeStores: (db) => db.createObjectStore('invoiceSequences', { keyPath: COLLECTION_KEYS.invoiceSequences }),
+        migrateData: (data: Adding<SchemaV9, 'invoiceSequences'>): SchemaV10 => ({ ...data, invoiceSequences: data.invoiceSequences || [] })
+    }
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export const emptyWorkspace = (): WorkspaceData => ({
+    versions: [], activeVersionId: null, invoices: [], agreements: [], events: [], campaigns: [], masterRegistry: [], admins: [], fraudRules: [], settings: [], fraudReviews: [], fraudBlocklist: [], billingRuns: [], invoiceSequences: []
+});
+
+// Steps run in version order, each on the previous one's output; the last returns SchemaV10
+const applyDataMigrations = (data: WorkspaceData, fromVersion: number): WorkspaceData =>
+    MIGRATIONS.filter(m => m.version > fromVersion && m.migrateData).reduce<unknown>((acc, m) => m.migrateData!(acc), data) as SchemaV10;
+
+const requestToPromise = <T,>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Storage transaction aborted.'));
+});
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (dbPromise) return dbPromise;
+    dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+            reject(new Error('IndexedDB is not available in this browser.'));
+            return;
+        }
+        const request = indexedDB.open(DB_NAME, SCHEMA_VERSION);
+        request.onupgradeneeded = (event) => {
+            MIGRATIONS
+                .filter(m => m.version > event.oldVersion && m.upgradeStores)
+                .forEach(m => m.upgradeStores!(request.result));
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+        request.onblocked = () => reject(new Error('Close other tabs of this app to finish upgrading local storage.'));
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+    return dbPromise;
+};
+
+// Last object written per key, so unchanged items (e.g. large dataset versions) are not rewritten
+const persisted = new Map<WorkspaceCollection, Map<string, unknown>>();
+
+const keyOf = <K extends WorkspaceCollection>(name: K, item: WorkspaceData[K][number]) => String(item[COLLECTION_KEYS[name]]);
+
+const byKey = <K extends WorkspaceCollection>(name: K, items: WorkspaceData[K][number][]) =>
+    new Map<string, unknown>(items.map(item => [keyOf(name, item), item]));
+
+const rememberPersisted = (data: WorkspaceData) => {
+    COLLECTIONS.forEach(name => persisted.set(name, byKey(name, data[name])));
+};
+
+const writeAll = async (db: IDBDatabase, data: WorkspaceData) => {
+    const tx = db.transaction([...COLLECTIONS, META_STORE], 'readwrite');
+    COLLECTIONS.forEach(name => {
+        const store = tx.objectStore(name);
+        store.clear();
+        data[name].forEach(item => store.put(item));
+    });
+    const meta = tx.objectStore(META_STORE);
+    meta.put(data.activeVersionId, 'activeVersionId');
+    meta.put(SCHEMA_VERSION, 'dataVersion');
+    await transactionDone(tx);
+    rememberPersisted(data);
+};
+
+export const loadWorkspace = async (): Promise<WorkspaceData> => {
+    const db = await openDb();
+    const tx = db.transaction([...COLLECTIONS, META_STORE], 'readonly');
+
+    const data = emptyWorkspace();
+    const read = async <K extends WorkspaceCollection>(name: K) => {
+        data[name] = await requestToPromise<WorkspaceData[K]>(tx.objectStore(name).getAll());
+    };
+    const reads = COLLECTIONS.map(read);
+    const meta = tx.objectStore(META_STORE);
+    const activeVersionId = requestToPromise(meta.get('activeVersionId'));
+    const dataVersion = requestToPromise(meta.get('dataVersion'));
+    await Promise.all(reads);
+
+    data.activeVersionId = ((await activeVersionId) as string | undefined) ?? null;
+    const fromVersion = ((await dataVersion) as number | undefined) ?? 0;
+
+    if (fromVersion < SCHEMA_VERSION) {
+        const migrated = applyDataMigrations(data, fromVersion);
+        await writeAll(db, migrated);
+        return migrated;
+    }
+    rememberPersisted(data);
+    return data;
+};
+
+export type WorkspaceChanges = { [K in WorkspaceCollection]?: WorkspaceData[K][number][] };
+
+// Saves the given collections in one transaction. Writes only items whose object identity changed
+// and deletes items that were removed.
+export const saveCollections = async (changes: WorkspaceChanges) => {
+    const names = (Object.keys(changes) as WorkspaceCollection[]).filter(name => changes[name]);
+    if (names.length === 0) return;
+    const db = await openDb();
+    const tx = db.transaction(names, 'readwrite');
+    const written = names.map(name => {
+        const previous = persisted.get(name) || new Map<string, unknown>();
+        const next = byKey(name, changes[name]);
+        const store = tx.objectStore(name);
+        next.forEach((item, k) => {
+            if (previous.get(k) !== item) store.put(item);
+        });
+        previous.forEach((_, k) => {
+            if (!next.has(k)) store.delete(k);
+        });
+        return [name, next] as const;
+    });
+    await transactionDone(tx);
+    written.forEach(([name, next]) => persisted.set(name, next));
+};
+
+export const loadActiveVersionId = async (): Promise<string | null> => {
+    const db = await openDb();
+    const tx = db.transaction(META_STORE, 'readonly');
+    return ((await requestToPromise(tx.objectStore(META_STORE).get('activeVersionId'))) as string | undefined) ?? null;
+};
+
+export const saveActiveVersionId = async (id: string | null) => {
+    const db = await openDb();
+    const tx = db.transaction(META_STORE, 'readwrite');
+    tx.objectStore(META_STORE).put(id, 'activeVersionId');
+    await transactionDone(tx);
+};
+
+// --- BACKUP ---
+
+export const exportWorkspace = (data: WorkspaceData) => {
+    const backup: WorkspaceBackup = { format: BACKUP_FORMAT, schemaVersion: SCHEMA_VERSION, exportedAt: new Date().toISOString(), data };
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(new Blob([JSON.stringify(backup)], { type: 'application/json' }));
+    link.download = `workspace_backup_${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+};
+
+// Validates a backup file and migrates it to the current schema. The caller writes it
+// through the repositories, which replaces the stored workspace.
+export const readWorkspaceBackup = async (file: File): Promise<WorkspaceData> => {
+    let backup: WorkspaceBackup;
+    try {
+        backup = JSON.parse(await file.text());
+    } catch {
+        throw new Error('Backup file is not valid JSON.');
+    }
+    if (backup?.format !== BACKUP_FORMAT || !backup.data) {
+        throw new Error('This file is not a workspace backup.');
+    }
+    if (backup.schemaVersion > SCHEMA_VERSION) {
+        throw new Error(`Backup was made by a newer version of the app (schema v${backup.schemaVersion}, this app supports v${SCHEMA_VERSION}).`);
+    }
+
+    return applyDataMigrations({ ...emptyWorkspace(), ...backup.data }, backup.schemaVersion);
+};
+
+// --- USAGE ---
+
+const SAMPLE_SIZE = 25;
+
+// Serialized size estimated from a sample, so 100k-record versions are never stringified whole
+const approxBytes = (items: unknown[]): number => {
+    if (items.length === 0) return 0;
+    const step = Math.max(1, Math.floor(items.length / SAMPLE_SIZE));
+    let sampled = 0;
+    let bytes = 0;
+    for (let i = 0; i < items.length && sampled < SAMPLE_SIZE; i += step) {
+        const item = items[i];
+        // Dataset versions are dominated by their records: sample those too
+        if (item && typeof item === 'object' && 'data' in item && Array.isArray(item.data)) {
+            const { data, ...rest } = item;
+            bytes += JSON.stringify(rest).length + approxBytes(data);
+        } else {
+            bytes += JSON.stringify(item).length;
+        }
+        sampled++;
+    }
+    return Math.round((bytes / sampled) * items.length);
+};
+
+export const getStorageUsage = async (data: WorkspaceData): Promise<StorageUsage> => {
+    let usageBytes: number | null = null;
+    let quotaBytes: number | null = null;
+    try {
+        const estimate = await navigator.storage?.estimate();
+        usageBytes = estimate?.usage ?? null;
+        quotaBytes = estimate?.quota ?? null;
+    } catch {
+        // Storage estimates are unavailable in some browsers; collection sizes still apply
+    }
+
+    const collections = Object.fromEntries(COLLECTIONS.map(name => [name, {
+        count: (data[name] as unknown[]).length,
+        approxBytes: approxBytes(data[name] as unknown[])
+    }])) as StorageUsage['collections'];
+
+    return { usageBytes, quotaBytes, schemaVersion: SCHEMA_VERSION, collections };
+};
+
+export const formatBytes = (bytes: number) => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
@@ -0,0 +1,209 @@
+// Minimal XLSX (Office Open XML) reader for the ingestion worker: unzips the workbook with
+// the built-in DecompressionStream and reads cell values as text. No DOMParser in workers,
+// so the (machine generated, predictable) sheet XML is scanned with regular expressions.
+
+interface ZipEntry {
+    method: number; // 0 = stored, 8 = deflate
+    compressedSize: number;
+    localHeaderOffset: number;
+}
+
+const readZipDirectory = (buf: Uint8Array): Map<string, ZipEntry> => {
+    const view = new DataView(buf.buffer, buf.byteOffset, buf.byteLength);
+    let eocd = -1;
+    // End of central directory record, followed by at most a 64KB comment
+    for (let i = buf.length - 22; i >= Math.max(0, buf.length - 22 - 0xffff); i--) {
+        if (view.getUint32(i, true) === 0x06054b50) { eocd = i; break; }
+    }
+    if (eocd === -1) throw new Error("Not a valid .xlsx file (zip directory not found).");
+
+    const entries = new Map<string, ZipEntry>();
+    const count = view.getUint16(eocd + 10, true);
+    let offset = view.getUint32(eocd + 16, true);
+    const decoder = new TextDecoder('utf-8');
+
+    for (let i = 0; i < count; i++) {
+        if (view.getUint32(offset, true) !== 0x02014b50) break;
+        const nameLength = view.getUint16(offset + 28, true);
+        const extraLength = view.getUint16(offset + 30, true);
+        const commentLength = view.getUint16(offset + 32, true);
+        const name = decoder.decode(buf.subarray(offset + 46, offset + 46 + nameLength));
+        entries.set(name, {
+            method: view.getUint16(offset + 10, true),
+            compressedSize: view.getUint32(offset + 20, true),
+            localHeaderOffset: view.getUint32(offset + 42, true)
+        });
+        offset += 46 + nameLength + extraLength + commentLength;
+    }
+    return entries;
+};
+
+const readZipText = async (buf: Uint8Array, entries: Map<string, ZipEntry>, name: string): Promise<string | null> => {
+    const entry = entries.get(name);
+    if (!entry) return null;
+
+    const view = new DataView(buf.buffer, buf.byteOffset, buf.byteLength);
+    const start = entry.localHeaderOffset;
+    const dataStart = start + 30 + view.getUint16(start + 26, true) + view.getUint16(start + 28, true);
+    const data = buf.subarray(dataStart, dataStart + entry.compressedSize);
+
+    if (entry.method === 0) return new TextDecoder('utf-8').decode(data);
+    if (entry.method !== 8) throw new Error(`Unsupported compression in ${name}.`);
+
+    const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+    return new Response(stream).text();
+};
+
+const decodeXml = (s: string) => s
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&amp;/g, '&');
+
+const attr = (tag: string, name: string) => {
+    const m = tag.match(new RegExp(`\\s${name}="([^"]*)"`));
+    return m ? decodeXml(m[1]) : null;
+};
+
+// Concatenates every <t> run, covering plain and rich-text strings
+const readText = (xml: string) => {
+    let out = '';
+    const re = /<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g;
+    let m: RegExpExecArray | null;
+    while ((m = re.exec(xml))) out += m[1];
+    return decodeXml(out);
+};
+
+const columnIndex = (ref: string) => {
+    let idx = 0;
+    for (const ch of ref.replace(/\d+$/, '')) idx = idx * 26 + (ch.charCodeAt(0) - 64);
+    return idx - 1;
+};
+
+// Built-in date/time formats (ECMA-376 18.8.30) plus any custom format using date tokens
+const BUILTIN_DATE_FORMATS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+
+const readDateStyles = (stylesXml: string | null): Set<number> => {
+    const dateStyles = new Set<number>();
+    if (!stylesXml) return dateStyles;
+
+    const customDateFormats = new Set<number>();
+    const numFmtRe = /<numFmt\s[^>]*>/g;
+    let m: RegExpExecArray | null;
+    while ((m = numFmtRe.exec(stylesXml))) {
+        const id = Number(attr(m[0], 'numFmtId'));
+        const code = (attr(m[0], 'formatCode') || '').replace(/"[^"]*"|\[[^\]]*\]/g, '');
+        if (/[ymdhs]/i.test(code)) customDateFormats.add(id);
+    }
+
+    const cellXfs = stylesXml.match(/<cellXfs[^>]*>([\s\S]*?)<\/cellXfs>/);
+    if (!cellXfs) return dateStyles;
+    const xfRe = /<xf\s[^>]*?\/?>/g;
+    let index = 0;
+    while ((m = xfRe.exec(cellXfs[1]))) {
+        const fmt = Number(attr(m[0], 'numFmtId'));
+        if (BUILTIN_DATE_FORMATS.has(fmt) || customDateFormats.has(fmt)) dateStyles.add(index);
+        index++;
+    }
+    return dateStyles;
+};
+
+// Excel serial date (1900 system) to ISO 8601
+const serialToIso = (serial: number) => new Date(Math.round((serial - 25569) * 86400000)).toISOString();
+
+export interface XlsxWorkbook {
+    sheets: string[]; // In workbook order
+    readSheet: (name?: string) => Promise<string[][]>; // Defaults to the first sheet
+}
+
+export const openXlsx = async (file: Blob): Promise<XlsxWorkbook> => {
+    const buf = new Uint8Array(await file.arrayBuffer());
+    const entries = readZipDirectory(buf);
+
+    const workbookXml = await readZipText(buf, entries, 'xl/workbook.xml');
+    if (!workbookXml) throw new Error("Not a valid .xlsx file (workbook.xml missing).");
+    const relsXml = (await readZipText(buf, entries, 'xl/_rels/workbook.xml.rels')) || '';
+
+    const targets = new Map<string, string>();
+    const relRe = /<Relationship\s[^>]*>/g;
+    let m: RegExpExecArray | null;
+    while ((m = relRe.exec(relsXml))) {
+        const id = attr(m[0], 'Id');
+        const target = attr(m[0], 'Target');
+        if (id && target) targets.set(id, target.startsWith('/') ? target.slice(1) : `xl/${target}`);
+    }
+
+    const sheetPaths = new Map<string, string>();
+    const sheetRe = /<sheet\s[^>]*>/g;
+    while ((m = sheetRe.exec(workbookXml))) {
+        const name = attr(m[0], 'name');
+        const relId = attr(m[0], 'r:id');
+        const path = relId ? targets.get(relId) : undefined;
+        if (name && path) sheetPaths.set(name, path);
+    }
+    const sheets = Array.from(sheetPaths.keys());
+    if (sheets.length === 0) throw new Error("The workbook contains no worksheets.");
+
+    let sharedStrings: string[] | null = null;
+    let dateStyles: Set<number> | null = null;
+
+    const readSheet = async (name?: string): Promise<string[][]> => {
+        const sheetName = name || sheets[0];
+        const path = sheetPaths.get(sheetName);
+        if (!path) throw new Error(`Sheet "${sheetName}" not found. Available: ${sheets.join(', ')}`);
+
+        if (!sharedStrings) {
+            const sstXml = (await readZipText(buf, entries, 'xl/sharedStrings.xml')) || '';
+            sharedStrings = (sstXml.match(/<si>[\s\S]*?<\/si>/g) || []).map(readText);
+        }
+        if (!dateStyles) dateStyles = readDateStyles(await readZipText(buf, entries, 'xl/styles.xml'));
+
+        const sheetXml = await readZipText(buf, entries, path);
+        if (!sheetXml) throw new Error(`Sheet "${sheetName}" could not be read.`);
+
+        const rows: string[][] = [];
+        const rowRe = /<row\b[^>]*?(?:\/>|>([\s\S]*?)<\/row>)/g;
+        const cellRe = /<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g;
+        let rowMatch: RegExpExecArray | null;
+
+        while ((rowMatch = rowRe.exec(sheetXml))) {
+            const row: string[] = [];
+            const body = rowMatch[1] || '';
+            let cellMatch: RegExpExecArray | null;
+            cellRe.lastIndex = 0;
+
+            while ((cellMatch = cellRe.exec(body))) {
+                const attrs = ` ${cellMatch[1]}`;
+                const inner = cellMatch[2] || '';
+                const ref = attr(attrs, 'r');
+                const idx = ref ? columnIndex(ref) : row.length;
+                const type = attr(attrs, 't');
+                const raw = inner.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+                let value = '';
+                if (type === 's') value = raw !== undefined ? sharedStrings[Number(raw)] ?? '' : '';
+                else if (type === 'inlineStr') value = readText(inner);
+                else if (type === 'b') value = raw === '1' ? 'TRUE' : 'FALSE';
+                else if (raw !== undefined) {
+                    value = decodeXml(raw);
+                    const style = Number(attr(attrs, 's') || 0);
+                    if ((!type || type === 'n') && dateStyles.has(style) && value !== '' && !isNaN(Number(value))) {
+                        value = serialToIso(Number(value));
+                    }
+                }
+
+                while (row.length < idx) row.push('');
+                row[idx] = value.trim();
+            }
+
+            // Skip blank rows, same as the CSV tokenizer
+            if (row.some(v => v !== '')) rows.push(row);
+        }
+        return rows;
+    };
+
+    return { sheets, readSheet };
+};
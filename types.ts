@@ -57,7 +57,20 @@ export interface DeveloperRecord {
   // Computed Fields (Server-side / Ingestion logic)
   computed_duration?: number; // Hours
   computed_riskFlags: string[]; // ["Speed Run", "Sybil", "Bot Activity"]
+  computed_flagSources?: RiskFlagSource[]; // Which rule (and rule version) raised each flag
+  computed_riskScore?: number; // 0-100, sum of the weights of the raised flags (capped)
+  computed_riskBreakdown?: RiskScoreContribution[]; // Per-signal contribution, largest first
+  computed_dismissedFlags?: string[]; // Raised but dismissed in the review queue: excluded from flags and score
+  computed_clusterId?: string; // Linked-account cluster, only set when linked to at least one other record
+  computed_clusterSize?: number;
+  computed_clusterLinks?: ClusterLinkType[]; // Which shared values link this record to others
+  computed_walletType?: WalletAddressType; // Set at ingestion; 'invalid' is a data-quality issue, not a fraud flag
+  computed_wallet?: string; // Canonical wallet ('' when missing or invalid)
+  computed_walletExists?: boolean; // Mirror-node result; unset until the version's wallets are verified
+  computed_walletCreatedAt?: string; // On-chain creation time of the wallet account
   ingestionBatchId?: string; // Link to source file
+  amPmPending?: boolean; // Set by the parser until processIngestedData has run the AM/PM fix on completedAt
+  changedFields?: string[]; // Set by a merge import: fields updated by the last upsert that touched this record
   
   // Legacy / UI Helpers (Optional)
   dataError?: boolean;
@@ -71,6 +84,192 @@ export interface DatasetVersion {
     recordCount: number;
     uploadedBy?: string;
     data: DeveloperRecord[]; // In-memory cache for this app version
+    mode?: IngestionMode; // Defaults to 'snapshot'
+    mergeSummary?: MergeSummary; // Only for 'merge' versions
+    fraudRules?: FraudRule[]; // Ruleset the risk flags were computed with
+    walletVerification?: WalletVerification; // Last mirror-node check of this version's wallets
+}
+
+// Hedera mirror-node lookups (see mirrorNode.ts / walletVerification.ts)
+export interface MirrorNodeAccount {
+    wallet: string; // Canonical wallet that was looked up
+    exists: boolean;
+    accountId?: string; // shard.realm.num, also for EVM addresses
+    createdAt?: string; // ISO
+}
+
+// The results themselves are kept on the records (computed_walletExists / computed_walletCreatedAt)
+// and reused by the next check against the same source
+export interface WalletVerification {
+    source: string; // Client that produced the results, e.g. the mirror-node URL or 'fixture'
+    checkedAt: string;
+    wallets: number; // Distinct wallets with a result
+    failed: number; // Lookups that errored; retried on the next check
+}
+
+// Fraud Rules Engine (declarative registry evaluated by processIngestedData)
+export type FraudRuleSeverity = 'Low' | 'Medium' | 'High' | 'Critical';
+
+export type FraudRuleParams = Record<string, number | string[]>;
+
+export interface FraudRule {
+    id: string; // e.g. 'speed-run'
+    flag: string; // Label written to computed_riskFlags
+    description: string;
+    severity: FraudRuleSeverity;
+    enabled: boolean;
+    params: FraudRuleParams;
+    weight: number; // Risk score points added when the rule fires
+    version: number; // Bumped on every edit
+    updatedAt: string;
+}
+
+export interface RiskFlagSource {
+    flag: string;
+    ruleId: string;
+    ruleVersion: number;
+    matchedIds?: string[]; // Counterpart records or blocklist entries, for rules that match accounts against others
+}
+
+export interface RiskScoreContribution {
+    signal: string; // Flag label
+    ruleId: string;
+    points: number;
+}
+
+// Linked-Account Clusters
+export type ClusterLinkType = 'wallet' | 'phone' | 'nameRoot' | 'emailRoot';
+
+// Identifier of a confirmed-fraud account, matched against later uploads (see fraudBlocklist.ts)
+export interface BlocklistEntry {
+    id: string; // type:value
+    type: ClusterLinkType;
+    value: string; // Normalised like the linked-account keys (canonical wallet, phone digits, roots)
+    note: string;
+    sourceEmail?: string; // Account the identifier was taken from
+    addedAt: string;
+    addedBy: string; // Admin name
+}
+
+// How ingestion classified a walletAddress (see hederaWallet.ts)
+export type WalletAddressType = 'account' | 'evm' | 'invalid' | 'missing';
+
+// Fraud Review Queue ('fraudReviews' collection). One review per developer and rule, keyed by
+// the stable developer ID, so a decision carries over to later dataset versions.
+export type FraudReviewDecision = 'Confirmed' | 'Dismissed' | 'Escalated';
+
+export interface FraudReviewEntry {
+    decision: FraudReviewDecision;
+    note: string;
+    reviewerId: string;
+    reviewerName: string;
+    decidedAt: string;
+    ruleVersion: number; // Version of the rule that raised the flag being decided on
+}
+
+export interface FraudReview {
+    id: string; // `${developerId}:${ruleId}`
+    developerId: string;
+    email: string;
+    ruleId: string;
+    flag: string;
+    decision: FraudReviewDecision; // Latest entry
+    history: FraudReviewEntry[]; // Audit trail, oldest first
+}
+
+// Incremental Ingestion (upsert by normalized email)
+export type IngestionMode = 'snapshot' | 'merge';
+
+export interface RecordFieldChange {
+    developerId: string;
+    email: string;
+    field: string; // DeveloperRecord key
+    previous: string;
+    next: string;
+}
+
+export interface MergeSummary {
+    baseVersionId: string; // Version the delta was applied on top of
+    added: number;
+    updated: number;
+    unchanged: number;
+    fieldChangeCounts: Record<string, number>;
+    changes: RecordFieldChange[]; // Capped, see `truncated`
+    truncated: boolean;
+}
+
+// Version Diff (any two DatasetVersions, matched by normalized email)
+export interface DeveloperValueChange<T> {
+    record: DeveloperRecord; // As it appears in the newer version
+    from: T;
+    to: T;
+}
+
+export interface RiskFlagChange {
+    record: DeveloperRecord;
+    flags: string[];
+}
+
+export interface VersionDiff {
+    baseVersionId: string;
+    compareVersionId: string;
+    added: DeveloperRecord[];
+    removed: DeveloperRecord[]; // As they appeared in the base version
+    gradeTransitions: DeveloperValueChange<DeveloperRecord['finalGrade']>[];
+    progressChanges: DeveloperValueChange<number>[];
+    flagsRaised: RiskFlagChange[];
+    flagsCleared: RiskFlagChange[];
+    baseMetrics: DashboardMetrics; // All-time, no date filter
+    compareMetrics: DashboardMetrics;
+}
+
+// Supported upload formats; all are read into the same header + rows model before mapping
+export type ImportFileFormat = 'csv' | 'xlsx' | 'json' | 'ndjson';
+
+// Ingestion Validation (per row & column)
+export type IngestionIssueCode =
+    | 'MISSING_EMAIL'
+    | 'DUPLICATE_EMAIL'
+    | 'INVALID_DATE'
+    | 'PERCENTAGE_OUT_OF_RANGE'
+    | 'INVALID_NUMBER'
+    | 'UNKNOWN_GRADE';
+
+export interface IngestionIssue {
+    row: number; // Spreadsheet row number (header = row 1)
+    column: string; // Source column header
+    field: string; // DeveloperRecord field
+    code: IngestionIssueCode;
+    severity: 'error' | 'warning';
+    value: string;
+    message: string;
+}
+
+export interface IngestionReport {
+    totalRows: number;
+    importedRows: number;
+    skippedRows: number; // Rows that could not become a DeveloperRecord (e.g. no email)
+    errorRows: number;
+    warningRows: number;
+    issueCounts: Partial<Record<IngestionIssueCode, number>>;
+    issues: IngestionIssue[]; // Capped, see `truncated`
+    truncated: boolean;
+}
+
+export interface StrictModeThresholds {
+    maxErrorRowsPct: number; // Refuse the import above this share of rows with errors
+    maxSkippedRows: number;
+}
+
+// Saved column mappings for the ingestion wizard, one per LMS export source
+export interface ImportProfile {
+    id: string;
+    name: string;
+    source: string; // e.g. "Moodle LMS Export"
+    headers: string[]; // Normalized header signature of the file the profile was saved from
+    mapping: Record<string, string>; // DeveloperRecord field -> normalized header ('' = not mapped)
+    createdAt: string;
+    lastUsedAt?: string;
 }
 
 // 3.2 Module B: Invoicing & Agreements
@@ -82,6 +281,17 @@ export enum InvoiceStatus {
   VOID = 'Void'
 }
 
+// Credit notes (negative totals) and amendments (replacement invoices) are the only way to
+// correct an issued invoice; both reference the original
+export type InvoiceDocumentType = 'Invoice' | 'Credit_Note' | 'Amendment';
+
+export interface InvoiceStatusChange {
+    status: InvoiceStatus;
+    at: string; // ISO timestamp
+    by: string; // Admin name
+    note?: string;
+}
+
 export type PaymentModel = 'Per_Certification' | 'Fixed_Recurring';
 export type BillingCycle = 'Monthly' | 'Bimonthly' | 'Quarterly';
 export type Currency = 'HBAR' | 'USDC' | 'USD' | 'EUR';
@@ -116,25 +326,56 @@ export interface CommunityAgreement {
     
     walletAddress?: string;
     bankDetails?: string;
+
+    billingExclusions?: BillingExclusionPolicy; // Per-certification model only; defaults in invoiceDraft.ts
     
     description: string;
     documents: string[];
     lastUpdated: string;
 }
 
+// Which certifications of a per-certification agreement are not billed. Certifications of
+// developers with a Confirmed review decision are always excluded.
+export interface BillingExclusionPolicy {
+    excludedRuleIds: string[]; // An active flag of these rules excludes the certification without review
+    holdRiskScore?: number; // Flagged developers at or above this score are held until reviewed; unset = workspace threshold
+}
+
+export type CertificationBillingStatus = 'Billable' | 'Excluded' | 'Held';
+
+// Per-developer billing decision behind an invoice's certification line items
+export interface InvoiceCertificationLine {
+    developerId: string;
+    email: string;
+    name: string;
+    completedAt: string;
+    status: CertificationBillingStatus;
+    reason: string; // Empty for billable certifications
+    riskScore: number;
+    flags: string[];
+}
+
 export interface InvoiceLineItem {
     id: string;
     description: string;
     quantity: number;
     unitPrice: number;
     total: number;
+    certificationStatus?: CertificationBillingStatus; // Set on the generated certification lines
 }
 
 export interface Invoice {
   id: string;
-  invoiceNumber: string;
+  invoiceNumber: string; // Empty until the invoice is issued
+  documentType?: InvoiceDocumentType; // Unset = 'Invoice'
+  correctionOf?: string; // Credit notes and amendments: id of the corrected invoice
+  correctionOfNumber?: string; // ...and its number, as printed on the document
+  correctionReason?: string;
   partnerCode: string;
-  billingPeriod: string; // YYYY-MM
+  agreementId?: string; // Agreement the draft was generated from
+  billingPeriod: string; // Cycle period: YYYY-MM, YYYY-Bn (bimonthly) or YYYY-Qn (quarterly)
+  periodStart?: string; // Billed dates within the period (narrower when the contract starts or ends mid-period)
+  periodEnd?: string;
   
   issueDate: string;
   dueDate: string;
@@ -150,8 +391,79 @@ export interface Invoice {
   notes: string;
   publicMemo: string;
   
-  paidAt?: string;
-  transactionReference?: string;
+  paidAt?: string; // Date the invoice was paid in full
+  transactionReference?: string; // Transaction ids of the payments, comma-separated
+  payments?: InvoicePayment[]; // Recorded by reconciliation; partial payments leave the invoice open
+
+  certificationBreakdown?: InvoiceCertificationLine[]; // Per-certification drafts: every certification of the period
+  billingRunId?: string; // Set on drafts created by a billing run
+  statusHistory?: InvoiceStatusChange[]; // Oldest first; see invoiceLifecycle.ts
+}
+
+export type PaymentSource = 'Bank_CSV' | 'CAMT_053' | 'Hedera';
+
+// How an import reads slashed dates such as 05/03/2025
+export type SlashDateOrder = 'DMY' | 'MDY';
+
+// Incoming payment read from a bank statement or a list of on-chain transfers
+export interface ImportedPayment {
+    id: string; // Bank or Hedera transaction id; used to skip payments already recorded
+    source: PaymentSource;
+    date: string; // YYYY-MM-DD
+    amount: number;
+    currency: string; // Empty when the statement does not say
+    reference: string; // Remittance information / transaction memo
+    payer: string; // Name or account of the sender
+    wallet?: string; // Hedera transfers: canonical account of the sender
+}
+
+export interface InvoicePayment {
+    transactionId: string;
+    source: PaymentSource;
+    date: string;
+    amount: number;
+    reference: string;
+    recordedAt: string;
+    recordedBy: string;
+}
+
+export type BillingRunEntryStatus = 'Created' | 'Skipped' | 'Failed';
+
+// Outcome of a billing run for one partner
+export interface BillingRunEntry {
+    partnerCode: string;
+    agreementId: string;
+    billingPeriod: string;
+    status: BillingRunEntryStatus;
+    reason: string; // Why the partner was skipped or failed; empty when created
+    invoiceId?: string;
+    billable: number; // Certification counts; 0 for fixed-fee agreements
+    held: number;
+    excluded: number;
+    totalAmount: number;
+    currency: Currency;
+}
+
+// Invoices (amendments included) and credit notes are numbered from separate counters
+export type InvoiceSeries = 'Invoice' | 'Credit_Note';
+
+// Last number issued in a fiscal year for one series. Only ever moves forward, so numbers of
+// voided invoices are never handed out again.
+export interface InvoiceSequence {
+    id: string; // Invoices: fiscal year, e.g. '2025'; credit notes: 'credit-note-2025'
+    series?: InvoiceSeries; // Absent on counters saved before credit notes had their own
+    fiscalYear: number; // Calendar year the fiscal year starts in
+    lastNumber: number;
+    updatedAt: string;
+}
+
+// Audit record of a bulk invoice run: who ran it, for which month, and what happened per partner
+export interface BillingRun {
+    id: string;
+    month: string; // 'YYYY-MM': agreements whose billing cycle closes in this month
+    createdAt: string;
+    createdBy: string;
+    entries: BillingRunEntry[];
 }
 
 // 3.3 Module C: Events
@@ -182,13 +494,14 @@ export interface DashboardMetrics {
   avgCompletionTimeDays: number;
   certificationRate: number;
   overallSubscriberRate: number;
-  potentialFakeAccounts: number; // Count of records with computed_riskFlags.length > 0
+  potentialFakeAccounts: number; // Count of records whose risk score reaches the configured threshold
   potentialFakeAccountsPct: number;
   rapidCompletions: number;
 }
 
 export interface ChartDataPoint {
   name: string;
+  periodStart: number; // Start of the day or week the point covers (ms)
   registrations: number;
   certifications: number;
 }
@@ -234,6 +547,7 @@ export interface OutreachCampaign {
   status: 'Draft' | 'Sending' | 'Completed';
   sentAt: string;
   templateId: string;
+  attachments?: string[]; // File names, e.g. the invoice PDF of an invoice email
 }
 
 // Reporting Context
@@ -242,3 +556,62 @@ export interface ReportingContext {
     prev: DashboardMetrics;
     global: DashboardMetrics;
 }
+
+// Local Workspace Persistence (IndexedDB)
+export interface WorkspaceData {
+    versions: DatasetVersion[];
+    activeVersionId: string | null;
+    invoices: Invoice[];
+    agreements: CommunityAgreement[];
+    events: CommunityEvent[];
+    campaigns: OutreachCampaign[];
+    masterRegistry: CommunityMasterRecord[];
+    admins: AdminUser[];
+    fraudRules: FraudRule[]; // Admin overrides of the built-in rules
+    settings: WorkspaceSettings[]; // Single document, see workspaceSettings.ts
+    fraudReviews: FraudReview[];
+    fraudBlocklist: BlocklistEntry[];
+    billingRuns: BillingRun[];
+    invoiceSequences: InvoiceSequence[];
+}
+
+// Workspace-wide preferences
+export interface WorkspaceSettings {
+    id: string;
+    riskScoreThreshold: number; // Records scoring at or above this count as potential fake accounts
+    // Per-community fraud concentration alerts (see communityRisk.ts)
+    communityFlaggedShareLimit: number; // % of a community's developers at or above the risk threshold
+    communitySpeedRunShareLimit: number; // % of a community's certifications flagged as Speed Run
+    communityOutlierZScore: number; // Flagged share this many standard errors above the rest of the program
+    communityMinDevelopers: number; // Smaller communities are listed but never alerted on
+    // Invoice numbering (see invoiceNumbering.ts)
+    invoiceNumberPrefix: string;
+    creditNotePrefix: string; // Used for {prefix} on credit notes, which have their own counter
+    invoiceNumberPattern: string; // Tokens: {prefix} {year} {yy} {partner} {seq} / {seq:N} (zero-padded)
+    fiscalYearStartMonth: number; // 1-12
+    // Issuer branding and payment accounts printed on invoice PDFs (see invoicePdf.ts)
+    invoiceIssuerName: string;
+    invoiceIssuerAddress: string; // Multi-line
+    invoiceIssuerEmail: string;
+    invoiceIssuerTaxId: string;
+    invoiceAccentColor: string; // '#rrggbb'
+    invoiceFooter: string;
+    invoicePayToWallet: string; // Hedera account receiving HBAR / USDC payments
+    invoicePayToBankDetails: string; // Multi-line: bank, IBAN, BIC
+}
+
+export type WorkspaceCollection = Exclude<keyof WorkspaceData, 'activeVersionId'>;
+
+export interface WorkspaceBackup {
+    format: 'hcp-workspace-backup';
+    schemaVersion: number;
+    exportedAt: string;
+    data: WorkspaceData;
+}
+
+export interface StorageUsage {
+    usageBytes: number | null; // Whole origin, from navigator.storage.estimate()
+    quotaBytes: number | null;
+    schemaVersion: number;
+    collections: Record<WorkspaceCollection, { count: number; approxBytes: number }>;
+}
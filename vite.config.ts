@@ -12,7 +12,10 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.DATA_BACKEND': JSON.stringify(env.DATA_BACKEND),
+        'process.env.FIRESTORE_EMULATOR_HOST': JSON.stringify(env.FIRESTORE_EMULATOR_HOST),
+        'process.env.MIRROR_NODE': JSON.stringify(env.MIRROR_NODE)
       },
       resolve: {
         alias: {